@@ -0,0 +1,138 @@
+/**
+ * AI Personality Tests - Modern Version
+ * Covers the named campaign opponents: their deck lists and how they lean each difficulty's decisions
+ */
+
+import {
+  AIDifficulty,
+  AIPersonality,
+  AIStrategyFactory,
+  AI_PERSONALITIES,
+  BioMastersEngine,
+  DEFAULT_EVALUATION_WEIGHTS,
+  GameActionType,
+  buildPersonalityDeck,
+  getAIPersonality,
+  getPersonalityWeights,
+  isFavouredCard
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('AI Personalities - Modern', () => {
+  let gameData: TestGameData;
+  let engine: BioMastersEngine;
+
+  const OAK_TREE = '1';
+  const REED_CANARY_GRASS = '3';
+
+  // Favours one card so strongly that nothing else is worth playing
+  const grassLover: AIPersonality = {
+    id: 'grass-lover',
+    name: 'Test Gardener',
+    title: 'Grass Lover',
+    description: 'Plays grass.',
+    deck: [{ cardId: 3, quantity: 3 }],
+    heuristics: {
+      passChance: 0,
+      favouredCards: { cardIds: [3] },
+      favouredCardWeight: 1000
+    }
+  };
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = () =>
+    new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+
+  beforeEach(() => {
+    engine = createEngine();
+    engine.initializeNewGame('personality-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'personality-seed');
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+  });
+
+  const currentPlayerWithHand = (hand: string[]) => {
+    const state = engine.getGameState();
+    const player = state.players[state.currentPlayerIndex]!;
+    player.hand = hand;
+    return { state, playerId: player.id };
+  };
+
+  test('should give every personality a 21-card deck of real cards', () => {
+    expect(AI_PERSONALITIES.map(personality => personality.id)).toEqual([
+      'apex-predator',
+      'decomposer-engine',
+      'marine-specialist',
+      'conservationist'
+    ]);
+
+    AI_PERSONALITIES.forEach(personality => {
+      const deck = buildPersonalityDeck(personality);
+      expect(deck).toHaveLength(21);
+      expect(deck.every(cardId => gameData.cards.has(Number(cardId)))).toBe(true);
+      expect(personality.deck.every(entry => entry.quantity <= 3)).toBe(true);
+    });
+  });
+
+  test('should favour the cards each personality is built around', () => {
+    const card = (cardId: number) => gameData.cards.get(cardId);
+    const apex = getAIPersonality('apex-predator')!;
+    const decomposer = getAIPersonality('decomposer-engine')!;
+    const marine = getAIPersonality('marine-specialist')!;
+    const conservationist = getAIPersonality('conservationist')!;
+
+    expect(isFavouredCard(apex, card(68))).toBe(true);        // African lion
+    expect(isFavouredCard(apex, card(1))).toBe(false);        // Oak tree
+    expect(isFavouredCard(decomposer, card(13))).toBe(true);  // Soil bacteria
+    expect(isFavouredCard(marine, card(2))).toBe(true);       // Giant kelp
+    expect(isFavouredCard(marine, card(1))).toBe(false);
+    expect(isFavouredCard(conservationist, card(57))).toBe(true); // Mountain gorilla
+    expect(getAIPersonality('nobody')).toBeUndefined();
+
+    expect(getPersonalityWeights(decomposer)).toEqual({
+      ...DEFAULT_EVALUATION_WEIGHTS,
+      scorePileCards: 8,
+      detritusOpportunities: 4,
+      longestChain: 0.5
+    });
+  });
+
+  test('should make a random strategy likelier to play favoured cards', () => {
+    const { state, playerId } = currentPlayerWithHand([OAK_TREE, REED_CANARY_GRASS]);
+    const ai = AIStrategyFactory.createPersonalityStrategy(AIDifficulty.EASY, grassLover);
+    ai.setSimulationEngine(createEngine());
+    // Low enough to land on an oak play, which the engine lists first, when every action is as likely
+    ai.setRandomSource(() => 0.1);
+
+    const [first] = ai.planTurn(state, playerId);
+
+    expect(ai.getPersonality()).toBe(grassLover);
+    expect(first).toMatchObject({ type: GameActionType.PLAY_CARD, payload: { cardId: REED_CANARY_GRASS } });
+  });
+
+  test('should score favoured cards on the board when a strategy evaluates plays', () => {
+    const { state, playerId } = currentPlayerWithHand([OAK_TREE, REED_CANARY_GRASS]);
+    const ai = AIStrategyFactory.createPersonalityStrategy(AIDifficulty.MEDIUM, grassLover);
+    ai.setSimulationEngine(createEngine());
+    ai.setRandomSource(() => 0.5);
+
+    const [first] = ai.planTurn(state, playerId);
+
+    expect(first).toMatchObject({ type: GameActionType.PLAY_CARD, payload: { cardId: REED_CANARY_GRASS } });
+    expect(engine.processAction(first!).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * AI Turn Planning Tests - Modern Version
+ * Covers the engine's legal-action list and every difficulty planning whole turns from it
+ */
+
+import {
+  AIDifficulty,
+  AIStrategyFactory,
+  BioMastersEngine,
+  GameActionType,
+  GameState,
+  deepDeserialize,
+  deepSerialize
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('AI Turn Planning - Modern', () => {
+  let gameData: TestGameData;
+  let engine: BioMastersEngine;
+
+  const OAK_TREE = '1';
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = () =>
+    new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+
+  const copy = (state: GameState): GameState => deepDeserialize(deepSerialize(state));
+
+  beforeEach(() => {
+    engine = createEngine();
+    engine.initializeNewGame('planning-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'planning-seed');
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE);
+  });
+
+  test('should list passing, card plays and drop-and-draw for the current player only', () => {
+    const actions = engine.getLegalActions('alice');
+
+    expect(actions[0]!.type).toBe(GameActionType.PASS_TURN);
+    expect(actions.some(action => action.type === GameActionType.PLAY_CARD && action.payload.cardId === OAK_TREE)).toBe(true);
+    expect(actions.some(action => action.type === GameActionType.DROP_AND_DRAW_THREE)).toBe(true);
+    expect(engine.getAvailableActions('alice')).toEqual(expect.arrayContaining(['PASS_TURN', 'PLAY_CARD', 'DROP_AND_DRAW_THREE']));
+    expect(engine.getLegalActions('bob')).toEqual([]);
+  });
+
+  test('should only list actions the engine accepts', () => {
+    const state = engine.getGameState();
+    const actions = engine.getLegalActions('alice');
+    const sandbox = createEngine();
+
+    for (const action of actions) {
+      sandbox.loadGameState(copy(state));
+      expect(sandbox.processAction(action).isValid).toBe(true);
+    }
+  });
+
+  test.each([AIDifficulty.EASY, AIDifficulty.MEDIUM, AIDifficulty.HARD])('%s AI should plan a turn the engine plays out', (difficulty) => {
+    const strategy = AIStrategyFactory.createStrategy(difficulty);
+    strategy.setSimulationEngine(createEngine());
+
+    const state = engine.getGameState();
+    const before = JSON.stringify(deepSerialize(state));
+    const plan = strategy.planTurn(state, 'alice');
+
+    expect(plan.length).toBeGreaterThan(0);
+    expect(JSON.stringify(deepSerialize(state))).toBe(before);
+
+    for (const action of plan) {
+      expect(action.playerId).toBe('alice');
+      expect(engine.processAction(action).isValid).toBe(true);
+    }
+  });
+
+  test('should plan nothing without a simulation engine', () => {
+    const strategy = AIStrategyFactory.createStrategy(AIDifficulty.MEDIUM);
+    expect(strategy.planTurn(engine.getGameState(), 'alice')).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Card Movement Tests - Modern Version
+ * Covers MOVE_CARD for MIGRATORY species: speed-based range, paths and destination rules
+ */
+
+import { BioMastersEngine, CardData, CardInstance, GameActionType, KeywordId } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Card Movement - Modern', () => {
+  let engine: BioMastersEngine;
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4; // Walks 4000 m/hr and runs 8000 m/hr: two spaces, no flight
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = (rabbitChanges: Partial<CardData> = {}) => {
+    const cardDatabase = new Map(gameData.cards);
+    const rabbit = gameData.cards.get(EUROPEAN_RABBIT)!;
+    cardDatabase.set(EUROPEAN_RABBIT, {
+      ...rabbit,
+      keywords: [...rabbit.keywords, KeywordId.MIGRATORY],
+      ...rabbitChanges
+    });
+
+    const testEngine = new BioMastersEngine(cardDatabase, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    testEngine.initializeNewGame('movement-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    });
+
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    testEngine.getGameState().actionsRemaining = 10;
+    return testEngine;
+  };
+
+  const getHome = (): CardInstance =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+
+  // Play a card for Alice at an offset from her HOME
+  const play = (cardId: number, dx: number, dy: number) => {
+    const home = getHome();
+    const position = { x: home.position.x + dx, y: home.position.y + dy };
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(cardId.toString());
+    const result = engine.processAction({ type: GameActionType.PLAY_CARD, playerId: 'alice', payload: { cardId, position } });
+    expect(result.isValid).toBe(true);
+    return engine.getGameState().grid.get(`${position.x},${position.y}`)!;
+  };
+
+  // Oaks above HOME and to its upper right, with a ready rabbit grazing on top of the first oak
+  const setUpBoard = (rabbitChanges: Partial<CardData> = {}) => {
+    engine = createEngine(rabbitChanges);
+    play(OAK_TREE, 0, -1);
+    play(OAK_TREE, 1, -1);
+    const rabbit = play(EUROPEAN_RABBIT, 0, -2);
+    rabbit.isExhausted = false;
+    return rabbit;
+  };
+
+  const offset = (dx: number, dy: number) => ({ x: getHome().position.x + dx, y: getHome().position.y + dy });
+
+  const move = (instanceId: string, targetPosition: { x: number; y: number }) =>
+    engine.processAction({ type: GameActionType.MOVE_CARD, playerId: 'alice', payload: { instanceId, targetPosition } });
+
+  describe('Moving', () => {
+    test('should move a ready migratory card and exhaust it', () => {
+      const rabbit = setUpBoard();
+      const actionsBefore = engine.getGameState().actionsRemaining;
+      const target = offset(1, -2);
+
+      const result = move(rabbit.instanceId, target);
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.grid.has(`${rabbit.position.x},${rabbit.position.y}`)).toBe(false);
+      const moved = result.newState!.grid.get(`${target.x},${target.y}`)!;
+      expect(moved.instanceId).toBe(rabbit.instanceId);
+      expect(moved.position).toEqual(target);
+      expect(moved.isExhausted).toBe(true);
+      expect(result.newState!.actionsRemaining).toBe(actionsBefore - 1);
+    });
+
+    test('should list the same destinations that MOVE_CARD accepts', () => {
+      const rabbit = setUpBoard();
+
+      const positions = engine.getValidMovePositions(rabbit.instanceId, 'alice');
+
+      expect(positions).toContainEqual(offset(1, -2));
+      expect(positions).toContainEqual(offset(-1, -1));
+      positions.forEach(position => {
+        expect(engine.validateCardMove(rabbit.instanceId, position, 'alice').isValid).toBe(true);
+      });
+    });
+  });
+
+  describe('Validation', () => {
+    test('should only move migratory species', () => {
+      const rabbit = setUpBoard({ keywords: gameData.cards.get(EUROPEAN_RABBIT)!.keywords });
+
+      expect(move(rabbit.instanceId, offset(1, -2)).errorMessage).toBe('Only migratory species can move');
+    });
+
+    test('should not move exhausted or opposing cards', () => {
+      const rabbit = setUpBoard();
+
+      expect(engine.validateCardMove(rabbit.instanceId, offset(1, -2), 'bob').errorMessage).toBe('You can only move your own cards');
+
+      rabbit.isExhausted = true;
+      expect(move(rabbit.instanceId, offset(1, -2)).errorMessage).toBe('Card is exhausted');
+    });
+
+    test('should limit range by movement speed', () => {
+      const rabbit = setUpBoard();
+      expect(move(rabbit.instanceId, offset(3, -2)).errorMessage).toBe('Card can only move 2 spaces');
+
+      const slowRabbit = setUpBoard({ walk_speed_m_per_hr: 500, run_speed_m_per_hr: 0, swim_speed_m_per_hr: 0 });
+      expect(move(slowRabbit.instanceId, offset(2, -2)).errorMessage).toBe('Card can only move 1 space');
+
+      const stillRabbit = setUpBoard({ walk_speed_m_per_hr: 0, run_speed_m_per_hr: 0, swim_speed_m_per_hr: 0 });
+      expect(move(stillRabbit.instanceId, offset(1, -2)).errorMessage).toBe('Card has no movement speed');
+    });
+
+    test('should block ground movement through other cards but let flyers pass', () => {
+      const rabbit = setUpBoard();
+      play(OAK_TREE, 1, -2);
+      expect(move(rabbit.instanceId, offset(2, -2)).errorMessage).toBe('Path is blocked');
+
+      const flyingRabbit = setUpBoard({ fly_speed_m_per_hr: 25000 });
+      play(OAK_TREE, 1, -2);
+      expect(move(flyingRabbit.instanceId, offset(2, -2)).isValid).toBe(true);
+    });
+
+    test('should apply placement rules at the destination without counting the moving card', () => {
+      const rabbit = setUpBoard();
+
+      // Only neighbour of the square above is the rabbit itself
+      expect(move(rabbit.instanceId, offset(0, -3)).errorMessage).toBe('Cards must be placed adjacent to existing cards or HOME');
+
+      // Next to HOME only - consumers need a producer
+      const flyingRabbit = setUpBoard({ fly_speed_m_per_hr: 25000 });
+      expect(move(flyingRabbit.instanceId, offset(-1, 0)).errorMessage).toBe('Trophic level 2 cards must connect to trophic level 1 cards, not HOME');
+    });
+
+    test('should reject occupied destinations', () => {
+      const rabbit = setUpBoard();
+
+      expect(move(rabbit.instanceId, offset(1, -1)).errorMessage).toBe('Position already occupied');
+    });
+  });
+});
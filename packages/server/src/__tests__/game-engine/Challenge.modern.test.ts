@@ -0,0 +1,161 @@
+/**
+ * Scientific Challenge Tests - Modern Version
+ * Covers CHALLENGE: disputing an opponent's diet link or domain and the penalty for whoever was wrong
+ */
+
+import { BioMastersEngine, CardData, CardInstance, Domain, GameActionType } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Scientific Challenge - Modern', () => {
+  let engine: BioMastersEngine;
+  let gameData: TestGameData;
+  let oakData: CardData;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // The Oak Tree entry is a copy so a test can change its data after the board is set up
+  const createEngine = () => {
+    const cardDatabase = new Map(gameData.cards);
+    oakData = { ...gameData.cards.get(OAK_TREE)! };
+    cardDatabase.set(OAK_TREE, oakData);
+
+    const testEngine = new BioMastersEngine(cardDatabase, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    testEngine.initializeNewGame('challenge-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    });
+
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    testEngine.getGameState().actionsRemaining = 10;
+    return testEngine;
+  };
+
+  const getHome = (): CardInstance =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+
+  // Play a card for Alice at an offset from her HOME
+  const play = (cardId: number, dx: number, dy: number) => {
+    const home = getHome();
+    const position = { x: home.position.x + dx, y: home.position.y + dy };
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(cardId.toString());
+    const result = engine.processAction({ type: GameActionType.PLAY_CARD, playerId: 'alice', payload: { cardId, position } });
+    expect(result.isValid).toBe(true);
+    return engine.getGameState().grid.get(`${position.x},${position.y}`)!;
+  };
+
+  // Alice grows an oak with a rabbit on top of it, then hands the turn to Bob, who has one scored card
+  const setUpBoard = () => {
+    engine = createEngine();
+    const oak = play(OAK_TREE, 0, -1);
+    oak.isExhausted = false; // The rabbit's cost exhausts a ready producer
+    const rabbit = play(EUROPEAN_RABBIT, 0, -2);
+    expect(engine.processAction({ type: GameActionType.PASS_TURN, playerId: 'alice', payload: {} }).isValid).toBe(true);
+    const bob = engine.getGameState().players.find(p => p.id === 'bob')!;
+    bob.scorePile = [OAK_TREE.toString()];
+    bob.discardPile = [];
+    return { oak, rabbit };
+  };
+
+  const challenge = (playerId: string, targetInstanceId: string, claim: string) =>
+    engine.processAction({ type: GameActionType.CHALLENGE, playerId, payload: { targetInstanceId, claim } });
+
+  describe('Upheld challenges', () => {
+    test('should kill a consumer that lost its food source', () => {
+      const { oak, rabbit } = setUpBoard();
+      engine.getGameState().grid.delete(`${oak.position.x},${oak.position.y}`);
+
+      const result = challenge('bob', rabbit.instanceId, 'diet');
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.grid.get(`${rabbit.position.x},${rabbit.position.y}`)?.isDetritus).toBe(true);
+      expect(result.newState!.players.find(p => p.id === 'bob')!.scorePile).toHaveLength(1);
+      expect(result.newState!.challengeHistory).toEqual([{
+        challengerId: 'bob',
+        targetPlayerId: 'alice',
+        targetInstanceId: rabbit.instanceId,
+        targetCardId: EUROPEAN_RABBIT,
+        claim: 'diet',
+        outcome: 'upheld',
+        reason: 'Trophic level 2 card has no trophic level 1 food source',
+        turnNumber: result.newState!.turnNumber
+      }]);
+    });
+
+    test('should not count a dead producer as food', () => {
+      const { oak, rabbit } = setUpBoard();
+      engine.getGameState().grid.get(`${oak.position.x},${oak.position.y}`)!.isDetritus = true;
+
+      expect(challenge('bob', rabbit.instanceId, 'diet').newState!.challengeHistory![0]!.outcome).toBe('upheld');
+    });
+
+    test('should kill a card touching an incompatible domain', () => {
+      const { rabbit } = setUpBoard();
+      oakData.domain = Domain.MARINE;
+
+      const result = challenge('bob', rabbit.instanceId, 'domain');
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.grid.get(`${rabbit.position.x},${rabbit.position.y}`)?.isDetritus).toBe(true);
+      expect(result.newState!.challengeHistory![0]).toMatchObject({ outcome: 'upheld', reason: 'Terrestrial cards cannot connect to Marine cards' });
+    });
+  });
+
+  describe('Overturned challenges', () => {
+    test('should cost the challenger their latest scored card and an action', () => {
+      const { rabbit } = setUpBoard();
+      const actionsBefore = engine.getGameState().actionsRemaining;
+
+      const result = challenge('bob', rabbit.instanceId, 'diet');
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.grid.get(`${rabbit.position.x},${rabbit.position.y}`)?.isDetritus).toBe(false);
+      const bob = result.newState!.players.find(p => p.id === 'bob')!;
+      expect(bob.scorePile).toEqual([]);
+      expect(bob.discardPile).toEqual([OAK_TREE.toString()]);
+      expect(result.newState!.actionsRemaining).toBe(actionsBefore - 1);
+      expect(result.newState!.challengeHistory![0]).toMatchObject({ claim: 'diet', outcome: 'overturned' });
+    });
+
+    test('should uphold valid domains', () => {
+      const { oak } = setUpBoard();
+
+      expect(challenge('bob', oak.instanceId, 'domain').newState!.challengeHistory![0]!.outcome).toBe('overturned');
+    });
+  });
+
+  describe('Validation', () => {
+    test('should only challenge opponent cards on the grid', () => {
+      const { rabbit } = setUpBoard();
+      const bobHome = Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'bob')!;
+
+      expect(challenge('bob', bobHome.instanceId, 'diet').errorMessage).toBe('Card not found on grid');
+      expect(challenge('bob', 'missing-card', 'diet').errorMessage).toBe('Card not found on grid');
+      expect(challenge('alice', rabbit.instanceId, 'diet').errorMessage).toBe('Not your turn');
+    });
+
+    test('should reject challenges against your own cards and unknown claims', () => {
+      const { rabbit } = setUpBoard();
+      engine.processAction({ type: GameActionType.PASS_TURN, playerId: 'bob', payload: {} });
+
+      expect(challenge('alice', rabbit.instanceId, 'diet').errorMessage).toBe('You can only challenge opponent cards');
+
+      engine.processAction({ type: GameActionType.PASS_TURN, playerId: 'alice', payload: {} });
+      expect(challenge('bob', rabbit.instanceId, 'taxonomy').errorMessage).toBe('Invalid challenge claim: taxonomy');
+      expect(engine.getGameState().challengeHistory).toBeUndefined();
+    });
+  });
+});
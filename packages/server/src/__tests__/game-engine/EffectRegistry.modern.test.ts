@@ -0,0 +1,193 @@
+/**
+ * Effect Registry Tests - Modern Version
+ * Checks that abilities.json, the EffectId enum and the engine agree on effect IDs
+ */
+
+import {
+  AbilityData,
+  AbilityEffect,
+  BioMastersEngine,
+  EFFECT_REGISTRY,
+  EffectId,
+  GameActionType,
+  Player,
+  SelectorId,
+  TriggerId,
+  getActionId,
+  getEffectId,
+  validateAbilityEffects
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Effect Registry - Modern', () => {
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4;
+  const MYCENA_MUSHROOM = 8;
+
+  const testAbility = (id: number, effects: object[]): AbilityData => ({
+    id,
+    nameId: 'ABILITY_TEST',
+    descriptionId: 'DESC_TEST',
+    triggerId: TriggerId.ON_ENTER_PLAY,
+    effects: effects as unknown as AbilityEffect[]
+  });
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // Play an Oak Tree whose enter-play ability runs the given effects, after preparing Alice's zones
+  const playOakWithEffects = (effects: object[], prepare: (alice: Player) => void = () => {}) => {
+    const cardDatabase = new Map(gameData.cards);
+    const abilityDatabase = new Map(gameData.abilities);
+    const ability = testAbility(950, effects);
+    abilityDatabase.set(ability.id, ability);
+    cardDatabase.set(OAK_TREE, { ...gameData.cards.get(OAK_TREE)!, abilities: [ability.id] });
+
+    const engine = new BioMastersEngine(cardDatabase, abilityDatabase, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('effect-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'effect-seed');
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+
+    const alice = engine.getGameState().players.find(p => p.id === 'alice')!;
+    prepare(alice);
+    alice.hand.push(OAK_TREE.toString());
+
+    const home = Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+    const result = engine.processAction({
+      type: GameActionType.PLAY_CARD,
+      playerId: 'alice',
+      payload: { cardId: OAK_TREE, position: { x: home.position.x, y: home.position.y - 1 } }
+    });
+    expect(result.isValid).toBe(true);
+
+    return result.newState!.players.find(p => p.id === 'alice')!;
+  };
+
+  describe('Registry', () => {
+    test('should register every EffectId', () => {
+      const enumIds = Object.values(EffectId).filter((value): value is number => typeof value === 'number');
+      expect(Object.keys(EFFECT_REGISTRY).map(Number).sort((a, b) => a - b)).toEqual(enumIds.sort((a, b) => a - b));
+    });
+
+    test('should use the enum numbering for the late effects', () => {
+      expect(EFFECT_REGISTRY[11 as EffectId].name).toBe('DISCARD_CARD');
+      expect(EFFECT_REGISTRY[12 as EffectId].name).toBe('SEARCH_DECK');
+      expect(EFFECT_REGISTRY[13 as EffectId].name).toBe('SHUFFLE_DECK');
+      expect(EFFECT_REGISTRY[14 as EffectId].name).toBe('GAIN_VP');
+      expect(EFFECT_REGISTRY[15 as EffectId].name).toBe('LOSE_VP');
+    });
+
+    test('should read effect IDs from engine, JSON and typed effect shapes', () => {
+      expect(getEffectId({ EffectID: 12 })).toBe(12);
+      expect(getEffectId({ effectId: 13 })).toBe(13);
+      expect(getEffectId({ type: '14' })).toBe(14);
+      expect(getEffectId({ type: 'unknown' })).toBeUndefined();
+      expect(getEffectId({})).toBeUndefined();
+    });
+
+    test('should read action IDs from engine and JSON effect shapes', () => {
+      expect(getActionId({ ActionID: 4 })).toBe(4);
+      expect(getActionId({ actionId: 6 })).toBe(6);
+      expect(getActionId({ effectId: 1 })).toBeUndefined();
+    });
+  });
+
+  describe('Load-time validation', () => {
+    test('should accept every ability in abilities.json', () => {
+      expect(() => validateAbilityEffects(gameData.abilities.values())).not.toThrow();
+      expect(() => new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager)).not.toThrow();
+    });
+
+    test('should reject abilities that reference an unknown effect', () => {
+      const abilityDatabase = new Map(gameData.abilities);
+      abilityDatabase.set(951, testAbility(951, [{ effectId: 99 }]));
+
+      expect(() => new BioMastersEngine(gameData.cards, abilityDatabase, gameData.keywords, gameData.localizationManager))
+        .toThrow('ability 951 effect #1 uses unknown effect ID 99');
+    });
+
+    test('should reject effects that name an unknown action', () => {
+      expect(() => validateAbilityEffects([testAbility(953, [{ effectId: 1, actionId: 42 }, { effectId: 1, actionId: 'exhaust' }])]))
+        .toThrow('ability 953 effect #1 uses unknown action ID 42; ability 953 effect #2 uses unknown action ID exhaust');
+    });
+
+    test('should reject effects without an effect ID', () => {
+      expect(() => validateAbilityEffects([testAbility(952, [{ EffectID: 1 }, { selectorId: 2 }])]))
+        .toThrow('ability 952 effect #2 has no effect ID');
+    });
+  });
+
+  describe('Target actions', () => {
+    test('should apply the action a data-file effect names', () => {
+      const alice = playOakWithEffects([{ effectId: EffectId.TARGET, selectorId: SelectorId.SELF, actionId: 6 }]);
+
+      expect(alice.scorePile).toHaveLength(1);
+    });
+  });
+
+  describe('Deck and score effects', () => {
+    test('should discard from hand with DISCARD_CARD', () => {
+      const alice = playOakWithEffects([{ EffectID: EffectId.DISCARD_CARD }], player => {
+        player.hand = [EUROPEAN_RABBIT.toString()];
+        player.discardPile = [];
+      });
+
+      expect(alice.hand).toEqual([]);
+      expect(alice.discardPile).toEqual([EUROPEAN_RABBIT.toString()]);
+    });
+
+    test('should move a matching card from deck to hand with SEARCH_DECK', () => {
+      const alice = playOakWithEffects([{ EffectID: EffectId.SEARCH_DECK, FilterTrophicCategories: [6] }], player => {
+        player.hand = [];
+        player.deck = ['4', '8', '4', '1'];
+      });
+
+      expect(alice.hand).toEqual([MYCENA_MUSHROOM.toString()]);
+      expect([...alice.deck].sort()).toEqual(['1', '4', '4']);
+    });
+
+    test('should leave the hand unchanged when SEARCH_DECK finds nothing', () => {
+      const alice = playOakWithEffects([{ EffectID: EffectId.SEARCH_DECK, FilterTrophicCategories: [6] }], player => {
+        player.hand = [];
+        player.deck = ['4', '1'];
+      });
+
+      expect(alice.hand).toEqual([]);
+      expect([...alice.deck].sort()).toEqual(['1', '4']);
+    });
+
+    test('should shuffle the deck deterministically with SHUFFLE_DECK', () => {
+      const deck = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
+      const first = playOakWithEffects([{ EffectID: EffectId.SHUFFLE_DECK }], player => { player.deck = [...deck]; });
+      const second = playOakWithEffects([{ EffectID: EffectId.SHUFFLE_DECK }], player => { player.deck = [...deck]; });
+
+      expect([...first.deck].sort()).toEqual([...deck].sort());
+      expect(first.deck).not.toEqual(deck);
+      expect(second.deck).toEqual(first.deck);
+    });
+
+    test('should move the latest scored card to the discard pile with LOSE_VP', () => {
+      const alice = playOakWithEffects([{ EffectID: EffectId.LOSE_VP }], player => {
+        player.scorePile = [OAK_TREE.toString(), EUROPEAN_RABBIT.toString()];
+        player.discardPile = [];
+      });
+
+      expect(alice.scorePile).toEqual([OAK_TREE.toString()]);
+      expect(alice.discardPile).toEqual([EUROPEAN_RABBIT.toString()]);
+    });
+  });
+});
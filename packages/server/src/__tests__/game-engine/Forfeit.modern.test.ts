@@ -0,0 +1,100 @@
+/**
+ * Forfeit Tests - Modern Version
+ * Covers ending a match when a player forfeits, including reconnect timeouts
+ */
+
+import {
+  BioMastersEngine,
+  GameActionType,
+  GameEndReason,
+  GamePhase,
+  SessionEndReason
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Forfeit - Modern', () => {
+  let gameData: TestGameData;
+  let engine: BioMastersEngine;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  beforeEach(() => {
+    engine = new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('forfeit-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'forfeit-seed');
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+  });
+
+  test('should let a player forfeit outside their turn and award the match to the opponent', () => {
+    expect(engine.getGameState().players[engine.getGameState().currentPlayerIndex]!.id).toBe('alice');
+
+    const result = engine.processAction({ type: GameActionType.FORFEIT, playerId: 'bob', payload: {} });
+
+    expect(result.isValid).toBe(true);
+    expect(result.newState!.gamePhase).toBe(GamePhase.ENDED);
+    expect(result.newState!.endReason).toBe(GameEndReason.FORFEIT);
+    expect(result.newState!.winner).toBe('alice');
+
+    const endData = engine.getEndGameData();
+    expect(endData.isGameEnded).toBe(true);
+    expect(endData.finalScores!.find(score => score.isWinner)!.playerId).toBe('alice');
+    expect(endData.gameStats!.endReason).toBe('Player Forfeit');
+  });
+
+  test('should record a reconnect timeout as the reason for the forfeit', () => {
+    const result = engine.processAction({
+      type: GameActionType.FORFEIT,
+      playerId: 'alice',
+      payload: { reason: SessionEndReason.CONNECTION_TIMEOUT }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.newState!.winner).toBe('bob');
+    expect(result.newState!.metadata['gameResult'].forfeitedBy).toBe('alice');
+    expect(engine.getEndGameData().gameStats!.endReason).toBe(SessionEndReason.CONNECTION_TIMEOUT);
+  });
+
+  test('should end the game on time when a player runs out of time bank', () => {
+    const result = engine.processAction({
+      type: GameActionType.FORFEIT,
+      playerId: 'alice',
+      payload: { reason: GameEndReason.TIME_LIMIT }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.newState!.endReason).toBe(GameEndReason.TIME_LIMIT);
+    expect(result.newState!.winner).toBe('bob');
+    expect(engine.getEndGameData().gameStats!.endReason).toBe('Time Bank Exhausted');
+  });
+
+  test('should reject a forfeit once the match is over', () => {
+    engine.processAction({ type: GameActionType.FORFEIT, playerId: 'bob', payload: {} });
+
+    const result = engine.processAction({ type: GameActionType.FORFEIT, playerId: 'alice', payload: {} });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toBe('Game has already ended');
+    expect(engine.getGameState().winner).toBe('alice');
+  });
+
+  test('should reject a forfeit from someone who is not in the match', () => {
+    const result = engine.processAction({ type: GameActionType.FORFEIT, playerId: 'mallory', payload: {} });
+
+    expect(result.isValid).toBe(false);
+    expect(engine.getGameState().gamePhase).not.toBe(GamePhase.ENDED);
+  });
+});
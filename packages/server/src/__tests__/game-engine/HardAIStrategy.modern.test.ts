@@ -0,0 +1,158 @@
+/**
+ * Hard AI Strategy Tests - Modern Version
+ * Covers the search-based Hard AI choosing plays by simulating them on its own engine
+ */
+
+import {
+  AIDifficulty,
+  AIStrategyFactory,
+  BioMastersEngine,
+  GameActionType,
+  deepSerialize
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Hard AI Strategy - Modern', () => {
+  let gameData: TestGameData;
+  let engine: BioMastersEngine;
+
+  const OAK_TREE = '1';
+  const MYCENA_MUSHROOM = '8';
+  const OAK_POSITION = { x: 4, y: 4 }; // Next to Alice's HOME on a 9x10 grid
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = () =>
+    new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+
+  const createHardAI = () => {
+    const strategy = AIStrategyFactory.createStrategy(AIDifficulty.HARD);
+    strategy.setSimulationEngine(createEngine());
+    return strategy;
+  };
+
+  beforeEach(() => {
+    engine = createEngine();
+    engine.initializeNewGame('hard-ai-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'hard-ai-seed');
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+  });
+
+  test('should choose a legal play without touching the live game state', () => {
+    const state = engine.getGameState();
+    state.players.find(p => p.id === 'alice')!.hand = [OAK_TREE];
+    const before = JSON.stringify(deepSerialize(state));
+
+    const ai = createHardAI();
+    const hand = state.players.find(p => p.id === 'alice')!.hand;
+    expect(ai.shouldPassTurn(hand, state.actionsRemaining, state, 'alice')).toBe(false);
+
+    const cardId = ai.selectCard(hand, state, 'alice');
+    const validPositions: Array<{ x: number; y: number }> = [];
+    for (let x = 0; x < state.gameSettings.gridWidth; x++) {
+      for (let y = 0; y < state.gameSettings.gridHeight; y++) {
+        if (engine.validateCardPlay(cardId, { x, y }, 'alice').isValid) {
+          validPositions.push({ x, y });
+        }
+      }
+    }
+    const position = ai.selectPosition(validPositions, state, cardId, 'alice');
+
+    expect(JSON.stringify(deepSerialize(state))).toBe(before);
+    expect(engine.processAction({
+      type: GameActionType.PLAY_CARD,
+      playerId: 'alice',
+      payload: { cardId, position }
+    }).isValid).toBe(true);
+  });
+
+  test('should put a saprotroph on detritus to bank it in the score pile', () => {
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand = [OAK_TREE, OAK_TREE, MYCENA_MUSHROOM];
+    expect(engine.processAction({
+      type: GameActionType.PLAY_CARD,
+      playerId: 'alice',
+      payload: { cardId: OAK_TREE, position: OAK_POSITION }
+    }).isValid).toBe(true);
+
+    const oak = engine.getGameState().grid.get(`${OAK_POSITION.x},${OAK_POSITION.y}`)!;
+    expect(engine.processAction({
+      type: GameActionType.REMOVE_CARD,
+      playerId: 'alice',
+      payload: { instanceId: oak.instanceId, reason: 'death' }
+    }).isValid).toBe(true);
+
+    const state = engine.getGameState();
+    state.actionsRemaining = 3;
+    const hand = state.players.find(p => p.id === 'alice')!.hand;
+
+    const ai = createHardAI();
+    const cardId = ai.selectCard(hand, state, 'alice');
+    const position = ai.selectPosition([OAK_POSITION, { x: 3, y: 5 }], state, cardId, 'alice');
+
+    expect(cardId).toBe(MYCENA_MUSHROOM);
+    expect(position).toEqual(OAK_POSITION);
+  });
+
+  test('should pass when nothing in hand can be played', () => {
+    const state = engine.getGameState();
+    const alice = state.players.find(p => p.id === 'alice')!;
+    alice.hand = [MYCENA_MUSHROOM]; // No detritus on the board yet
+    alice.deck = alice.deck.slice(0, 2); // Too few cards left to drop and draw three
+
+    const ai = createHardAI();
+    expect(ai.shouldPassTurn(state.players.find(p => p.id === 'alice')!.hand, state.actionsRemaining, state, 'alice')).toBe(true);
+  });
+
+  test('should search as deep on a node budget however slow the clock runs', () => {
+    const state = engine.getGameState();
+    state.players.find(p => p.id === 'alice')!.hand = [OAK_TREE, OAK_TREE, MYCENA_MUSHROOM];
+    const plan = () => {
+      const ai = AIStrategyFactory.createStrategy(AIDifficulty.HARD, { searchNodeBudget: 60 });
+      ai.setSimulationEngine(createEngine());
+      return ai.planTurn(state, 'alice');
+    };
+
+    const expected = plan();
+    // Every clock read is a minute later, far past any time budget
+    let now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => (now += 60000));
+    const slow = plan();
+    clock.mockRestore();
+
+    expect(expected.length).toBeGreaterThan(1);
+    expect(slow).toEqual(expected);
+  });
+
+  test('should play out the opponent\'s reply to its lines, unless told to plan its own turn only', () => {
+    const state = engine.getGameState();
+    state.players.find(p => p.id === 'alice')!.hand = [OAK_TREE, MYCENA_MUSHROOM];
+    const simulatedPlayers = (replyDepth?: number) => {
+      const simulationEngine = createEngine();
+      const processAction = jest.spyOn(simulationEngine, 'processAction');
+      const ai = AIStrategyFactory.createStrategy(AIDifficulty.HARD, { searchNodeBudget: 60, ...(replyDepth !== undefined ? { replyDepth } : {}) });
+      ai.setSimulationEngine(simulationEngine);
+      ai.planTurn(state, 'alice');
+      return processAction.mock.calls.map(([action]) => `${action.playerId}:${action.type}`);
+    };
+
+    const withReply = simulatedPlayers();
+    expect(withReply).toContain(`alice:${GameActionType.PASS_TURN}`);
+    expect(withReply.some(action => action.startsWith('bob:') && !action.endsWith(GameActionType.PASS_TURN))).toBe(true);
+
+    expect(simulatedPlayers(0).some(action => action.startsWith('bob:'))).toBe(false);
+  });
+});
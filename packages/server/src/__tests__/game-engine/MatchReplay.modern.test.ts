@@ -0,0 +1,104 @@
+/**
+ * Match Replay Tests - Modern Version
+ * Covers rebuilding a match from its stored initial state and versioned action log
+ */
+
+import {
+  ActionLogEntry,
+  BioMastersEngine,
+  GameActionType,
+  GameState,
+  MatchReplay,
+  buildReplayFrames,
+  deepDeserialize,
+  deepSerialize
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Match Replay - Modern', () => {
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = () =>
+    new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+
+  // Round-trip a state through JSONB the way the server stores it
+  const store = (state: GameState): GameState => deepDeserialize(JSON.parse(JSON.stringify(deepSerialize(state))));
+
+  // Play a short seeded match, logging every accepted action like the server does
+  const playMatch = (): { replay: MatchReplay; finalState: GameState } => {
+    const engine = createEngine();
+    engine.initializeNewGame('replay-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'replay-seed');
+
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE.toString());
+    const initialState = store(engine.getGameState());
+
+    const home = Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+    const actions: ActionLogEntry[] = [];
+    [
+      { type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} },
+      { type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} },
+      { type: GameActionType.PLAY_CARD, playerId: 'alice', payload: { cardId: OAK_TREE, position: { x: home.position.x, y: home.position.y - 1 } } },
+      { type: GameActionType.PASS_TURN, playerId: 'alice', payload: {} },
+      { type: GameActionType.PASS_TURN, playerId: 'bob', payload: {} }
+    ].forEach(action => {
+      expect(engine.processAction(action).isValid).toBe(true);
+      actions.push({ version: actions.length + 1, action, createdAt: new Date().toISOString() });
+    });
+
+    return { replay: { sessionId: 'replay-test', initialState, actions }, finalState: engine.getGameState() };
+  };
+
+  test('should rebuild one frame per logged action, ending in the final state', () => {
+    const { replay, finalState } = playMatch();
+
+    const frames = buildReplayFrames(createEngine(), replay);
+
+    expect(frames.map(frame => frame.version)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(frames[0]!.entry).toBeNull();
+    expect(deepSerialize(frames[frames.length - 1]!.state)).toEqual(deepSerialize(finalState));
+  });
+
+  test('should keep earlier frames unchanged while stepping forward', () => {
+    const { replay } = playMatch();
+
+    const frames = buildReplayFrames(createEngine(), replay);
+
+    expect(frames[2]!.state.grid.size).toBe(frames[0]!.state.grid.size);
+    expect(frames[3]!.state.grid.size).toBe(frames[2]!.state.grid.size + 1);
+    expect(frames[2]!.state.metadata.rngState).not.toBe(frames[5]!.state.metadata.rngState);
+  });
+
+  test('should apply the log in version order', () => {
+    const { replay, finalState } = playMatch();
+
+    const frames = buildReplayFrames(createEngine(), { ...replay, actions: [...replay.actions].reverse() });
+
+    expect(deepSerialize(frames[frames.length - 1]!.state)).toEqual(deepSerialize(finalState));
+  });
+
+  test('should report where a log diverges from the rules', () => {
+    const { replay } = playMatch();
+    const actions = replay.actions.filter(entry => entry.version !== 4)
+      .map((entry, index) => ({ ...entry, version: index + 1 }));
+
+    expect(() => buildReplayFrames(createEngine(), { ...replay, actions }))
+      .toThrow('Replay of replay-test diverged at version 4');
+  });
+});
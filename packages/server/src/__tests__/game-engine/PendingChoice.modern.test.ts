@@ -0,0 +1,246 @@
+/**
+ * Pending Choice Tests - Modern Version
+ * Covers the SelectorId.CHOOSE protocol: abilities pause on a pending choice and resume on RESOLVE_CHOICE
+ */
+
+import {
+  AbilityData,
+  AbilityEffect,
+  BioMastersEngine,
+  CardData,
+  CardInstance,
+  EffectId,
+  GameActionType,
+  SelectorId,
+  TriggerId
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Pending Choice - Modern', () => {
+  let engine: BioMastersEngine;
+  let gameData: TestGameData;
+  let setOakAbilities: (abilities: AbilityData[]) => void;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4;
+  const MYCENA_MUSHROOM = 8;
+
+  // Legacy executeAction ID 4 moves each target to detritus
+  const destroyChosen = (extra: object = {}) => ({ EffectID: EffectId.TARGET, SelectorID: SelectorId.CHOOSE, ActionID: 4, ...extra });
+
+  const testAbility = (id: number, effects: object[] = []): AbilityData => ({
+    id,
+    nameId: 'ABILITY_TEST',
+    descriptionId: 'DESC_TEST',
+    triggerId: TriggerId.ON_ENTER_PLAY,
+    effects: effects as unknown as AbilityEffect[]
+  });
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // Oak Trees start without abilities so the board can be set up before the ability under test is switched on
+  const createEngine = (abilities: AbilityData[]) => {
+    const cardDatabase = new Map(gameData.cards);
+    const abilityDatabase = new Map(gameData.abilities);
+    abilities.forEach(ability => abilityDatabase.set(ability.id, ability));
+    const oakData = { ...gameData.cards.get(OAK_TREE)!, abilities: [] as CardData['abilities'] };
+    cardDatabase.set(OAK_TREE, oakData);
+    setOakAbilities = oakList => { oakData.abilities = oakList.map(ability => ability.id); };
+
+    const testEngine = new BioMastersEngine(cardDatabase, abilityDatabase, gameData.keywords, gameData.localizationManager);
+    testEngine.initializeNewGame('choice-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    });
+
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    return testEngine;
+  };
+
+  const getHome = (): CardInstance =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+
+  const playOak = (offsetY: number) => {
+    const home = getHome();
+    const position = { x: home.position.x, y: home.position.y + offsetY };
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE.toString());
+    const result = engine.processAction({
+      type: GameActionType.PLAY_CARD,
+      playerId: 'alice',
+      payload: { cardId: OAK_TREE, position }
+    });
+    expect(result.isValid).toBe(true);
+    return engine.getGameState().grid.get(`${position.x},${position.y}`)!;
+  };
+
+  const resolveChoice = (playerId: string, selections: string[], choiceId = engine.getGameState().pendingChoice!.choiceId) =>
+    engine.processAction({ type: GameActionType.RESOLVE_CHOICE, playerId, payload: { choiceId, selections } });
+
+  // Two plain oaks on the board, then a third whose enter-play ability asks Alice to pick
+  const setUpChoice = (abilities: AbilityData[]) => {
+    engine = createEngine(abilities);
+    engine.getGameState().actionsRemaining = 5;
+    const upperOak = playOak(-1);
+    const lowerOak = playOak(1);
+    setOakAbilities(abilities);
+    const chooserOak = playOak(-2);
+    return { upperOak, lowerOak, chooserOak };
+  };
+
+  describe('Pausing', () => {
+    test('should pause a CHOOSE ability with the legal options', () => {
+      const { upperOak, lowerOak, chooserOak } = setUpChoice([testAbility(960, [destroyChosen()])]);
+
+      const choice = engine.getGameState().pendingChoice;
+      expect(choice).toMatchObject({
+        playerId: 'alice',
+        kind: 'grid_card',
+        minSelections: 1,
+        maxSelections: 1,
+        abilityId: 960,
+        effectIndex: 0
+      });
+      expect([...choice!.options].sort()).toEqual([upperOak.instanceId, lowerOak.instanceId, chooserOak.instanceId].sort());
+      expect(Array.from(engine.getGameState().grid.values()).some(card => card.isDetritus)).toBe(false);
+    });
+
+    test('should not ask when every option must be taken', () => {
+      const ability = testAbility(960, [destroyChosen()]);
+      engine = createEngine([ability]);
+      setOakAbilities([ability]);
+
+      const oak = playOak(-1);
+
+      expect(engine.getGameState().pendingChoice).toBeUndefined();
+      expect(engine.getGameState().grid.get(`${oak.position.x},${oak.position.y}`)?.isDetritus).toBe(true);
+    });
+
+    test('should reject every other action while a choice is pending', () => {
+      setUpChoice([testAbility(960, [destroyChosen()])]);
+
+      const result = engine.processAction({ type: GameActionType.PASS_TURN, playerId: 'alice', payload: {} });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toBe('Waiting for alice to make a choice');
+    });
+  });
+
+  describe('Resolving', () => {
+    test('should apply the rest of the ability to the chosen cards', () => {
+      const { upperOak, lowerOak } = setUpChoice([testAbility(960, [destroyChosen()])]);
+
+      const result = resolveChoice('alice', [upperOak.instanceId]);
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.pendingChoice).toBeUndefined();
+      expect(result.newState!.grid.get(`${upperOak.position.x},${upperOak.position.y}`)?.isDetritus).toBe(true);
+      expect(result.newState!.grid.get(`${lowerOak.position.x},${lowerOak.position.y}`)?.isDetritus).toBe(false);
+      expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.sourceInstanceId])).toEqual([
+        [TriggerId.ON_DEATH, upperOak.instanceId],
+        [TriggerId.ON_LEAVE_PLAY, upperOak.instanceId]
+      ]);
+    });
+
+    test('should reject invalid answers and keep the choice pending', () => {
+      const { upperOak, lowerOak } = setUpChoice([testAbility(960, [destroyChosen()])]);
+
+      expect(resolveChoice('bob', [upperOak.instanceId]).errorMessage).toBe('This choice belongs to another player');
+      expect(resolveChoice('alice', [upperOak.instanceId], 'stale-choice').errorMessage).toBe('Choice not found');
+      expect(resolveChoice('alice', []).errorMessage).toBe('Choose between 1 and 1 options');
+      expect(resolveChoice('alice', [upperOak.instanceId, lowerOak.instanceId]).errorMessage).toBe('Choose between 1 and 1 options');
+      expect(resolveChoice('alice', [getHome().instanceId]).errorMessage).toBe(`Invalid selection: ${getHome().instanceId}`);
+      expect(engine.getGameState().pendingChoice).toBeDefined();
+    });
+
+    test('should allow choosing nothing when MinTargets is 0', () => {
+      setUpChoice([testAbility(960, [destroyChosen({ MinTargets: 0, MaxTargets: 2 })])]);
+      expect(engine.getGameState().pendingChoice).toMatchObject({ minSelections: 0, maxSelections: 2 });
+
+      expect(resolveChoice('alice', []).isValid).toBe(true);
+      expect(Array.from(engine.getGameState().grid.values()).some(card => card.isDetritus)).toBe(false);
+    });
+
+    test('should apply the ability to every chosen card up to MaxTargets', () => {
+      const { upperOak, lowerOak } = setUpChoice([testAbility(960, [destroyChosen({ MinTargets: 0, MaxTargets: 2 })])]);
+
+      const result = resolveChoice('alice', [upperOak.instanceId, lowerOak.instanceId]);
+
+      expect(result.isValid).toBe(true);
+      expect(Array.from(result.newState!.grid.values()).filter(card => card.isDetritus).map(card => card.instanceId).sort())
+        .toEqual([upperOak.instanceId, lowerOak.instanceId].sort());
+    });
+
+    test('should resume the remaining abilities of the paused trigger', () => {
+      const { chooserOak } = setUpChoice([
+        testAbility(960, [destroyChosen(), { EffectID: EffectId.DRAW_CARD, Amount: 1 }]),
+        testAbility(961, [{ EffectID: EffectId.DRAW_CARD, Amount: 1 }])
+      ]);
+      expect(engine.getTriggerLog()).toEqual([
+        { triggerId: TriggerId.ON_ENTER_PLAY, playerId: 'alice', sourceInstanceId: chooserOak.instanceId, firedAbilities: [{ instanceId: chooserOak.instanceId, abilityId: 960 }] }
+      ]);
+      const handSize = engine.getGameState().players.find(p => p.id === 'alice')!.hand.length;
+
+      resolveChoice('alice', [chooserOak.instanceId]);
+
+      // Both draws happen after the choice: the rest of 960, then 961 on the card's last known information
+      expect(engine.getGameState().players.find(p => p.id === 'alice')!.hand).toHaveLength(handSize + 2);
+      expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.firedAbilities.map(f => f.abilityId)])).toEqual([
+        [TriggerId.ON_ENTER_PLAY, [961]],
+        [TriggerId.ON_DEATH, []],
+        [TriggerId.ON_LEAVE_PLAY, []]
+      ]);
+    });
+
+    test('should let the choice finish before auto-passing the turn', () => {
+      const ability = testAbility(960, [destroyChosen()]);
+      engine = createEngine([ability]);
+      engine.getGameState().actionsRemaining = 2;
+      playOak(-1);
+      setOakAbilities([ability]);
+
+      playOak(1);
+      expect(engine.getGameState().actionsRemaining).toBe(0);
+      expect(engine.getGameState().players[engine.getGameState().currentPlayerIndex]!.id).toBe('alice');
+
+      const result = resolveChoice('alice', [engine.getGameState().pendingChoice!.options[0]!]);
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.players[result.newState!.currentPlayerIndex]!.id).toBe('bob');
+    });
+  });
+
+  describe('Hand choices', () => {
+    test('should discard the chosen hand card with a CHOOSE discard', () => {
+      const ability = testAbility(960, [{ EffectID: EffectId.DISCARD_CARD, SelectorID: SelectorId.CHOOSE }]);
+      engine = createEngine([ability]);
+      setOakAbilities([ability]);
+      const alice = engine.getGameState().players.find(p => p.id === 'alice')!;
+      alice.hand = [EUROPEAN_RABBIT.toString(), MYCENA_MUSHROOM.toString()];
+      alice.discardPile = [];
+
+      playOak(-1);
+      expect(engine.getGameState().pendingChoice).toMatchObject({
+        kind: 'hand_card',
+        options: [EUROPEAN_RABBIT.toString(), MYCENA_MUSHROOM.toString()]
+      });
+
+      const result = resolveChoice('alice', [MYCENA_MUSHROOM.toString()]);
+
+      expect(result.isValid).toBe(true);
+      const aliceAfter = result.newState!.players.find(p => p.id === 'alice')!;
+      expect(aliceAfter.hand).toEqual([EUROPEAN_RABBIT.toString()]);
+      expect(aliceAfter.discardPile).toEqual([MYCENA_MUSHROOM.toString()]);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Phylo Engine Tests - Modern Version
+ * Covers the authoritative Phylo rules: placement, challenges, events and win conditions
+ */
+
+import { GameActionType, GamePhase, PhyloEngine, UnifiedGameSettings } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Phylo Engine - Modern', () => {
+  let engine: PhyloEngine;
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  const createEngine = (settings: Partial<UnifiedGameSettings> = {}, gameId = 'phylo-test') => {
+    const testEngine = new PhyloEngine({
+      cardDatabase: gameData.cards,
+      abilityDatabase: gameData.abilities,
+      keywordDatabase: gameData.keywords,
+      localizationManager: gameData.localizationManager
+    });
+    testEngine.initializeNewGame(gameId, [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      maxPlayers: 2,
+      gridWidth: 9,
+      gridHeight: 10,
+      startingHandSize: 5,
+      eventFrequency: 0,
+      ...settings
+    });
+    return testEngine;
+  };
+
+  const getHome = (playerId: string) =>
+    engine.getPhyloGameState()!.gameBoard.homeCards.find(home => home.playerId === playerId)!;
+
+  // Put one of the player's own copies of a card in their hand and return its instance ID
+  const giveCard = (playerId: string, cardId: number) => {
+    const instanceId = `${playerId}_${cardId}`;
+    const player = engine.getPhyloGameState()!.players.find(p => p.id === playerId)!;
+    player.deck = player.deck.filter(id => id !== instanceId);
+    if (!player.hand.includes(instanceId)) player.hand.push(instanceId);
+    return instanceId;
+  };
+
+  const place = (playerId: string, cardId: string, dx: number, dy: number) => {
+    const home = getHome(playerId);
+    const position = { x: home.x + dx, y: home.y + dy };
+    return engine.processAction({ type: GameActionType.PLAY_CARD, playerId, payload: { cardId, position } });
+  };
+
+  const pass = (playerId: string) =>
+    engine.processAction({ type: GameActionType.PASS_TURN, playerId, payload: {} });
+
+  describe('Setup', () => {
+    test('should deal seeded hands and put HOME cards in the middle of the board', () => {
+      engine = createEngine();
+      const state = engine.getPhyloGameState()!;
+
+      expect(state.gamePhase).toBe('playing');
+      expect(state.gameBoard.homeCards.map(home => [home.x, home.y])).toEqual([[4, 4], [5, 4]]);
+      expect(engine.getGameState()!.grid.get('4,4')).toMatchObject({ isHOME: true, ownerId: 'alice' });
+      state.players.forEach(player => {
+        expect(player.hand).toHaveLength(5);
+        expect(player.hand.every(id => id.startsWith(`${player.id}_`))).toBe(true);
+      });
+
+      const replay = createEngine().getPhyloGameState()!;
+      expect(replay.players.map(p => p.hand)).toEqual(state.players.map(p => p.hand));
+      expect(replay.eventDeck.map(event => event.id)).toEqual(state.eventDeck.map(event => event.id));
+    });
+  });
+
+  describe('Placement', () => {
+    test('should place a compatible card, draw a replacement and pass the turn', () => {
+      engine = createEngine();
+      const oak = giveCard('alice', OAK_TREE);
+      const handSize = engine.getPhyloGameState()!.players[0]!.hand.length;
+
+      const result = place('alice', oak, 0, -1);
+
+      expect(result.isValid).toBe(true);
+      expect(result.newState!.grid.get('4,3')).toMatchObject({ instanceId: oak, cardId: OAK_TREE, ownerId: 'alice' });
+      const alice = engine.getPhyloGameState()!.players[0]!;
+      expect(alice.hand).not.toContain(oak);
+      expect(alice.hand).toHaveLength(handSize);
+      expect(result.metadata?.nextPlayer).toBe('bob');
+      expect(engine.getPhyloGameState()!.gameStats.cardsPlayed).toBe(1);
+    });
+
+    test('should enforce placement rules and leave the state untouched on failure', () => {
+      engine = createEngine();
+      const rabbit = giveCard('alice', EUROPEAN_RABBIT);
+      const before = engine.getPhyloGameState();
+
+      expect(place('alice', rabbit, 1, 0).errorMessage).toBe('Position already occupied');
+      expect(place('alice', rabbit, 0, -3).errorMessage).toBe('Card must be placed adjacent to at least one other card');
+      expect(place('alice', rabbit, 0, -5).errorMessage).toBe('Position out of bounds');
+      expect(place('alice', 'bob_1', 0, -1).errorMessage).toBe('Card not in hand');
+      expect(place('bob', giveCard('bob', OAK_TREE), 0, -1).errorMessage).toBe('Not your turn');
+      expect(engine.getPhyloGameState()).toBe(before);
+    });
+
+    test('should list the same positions that PLAY_CARD accepts', () => {
+      engine = createEngine();
+      const oak = giveCard('alice', OAK_TREE);
+
+      const positions = engine.getValidMoves('alice', oak);
+
+      expect(positions).toContainEqual({ x: 4, y: 3 });
+      expect(positions).not.toContainEqual({ x: 4, y: 1 });
+      const { x, y } = positions[0]!;
+      const home = getHome('alice');
+      expect(place('alice', oak, x - home.x, y - home.y).isValid).toBe(true);
+    });
+  });
+
+  describe('Challenges', () => {
+    const challenge = (playerId: string, targetCardId: string, evidence: string) =>
+      engine.processAction({
+        type: GameActionType.CHALLENGE,
+        playerId,
+        payload: { challengeData: { targetCardId, claimType: 'diet', evidence } }
+      });
+
+    test('should resolve a challenge against an opponent card', () => {
+      engine = createEngine();
+      const oak = giveCard('alice', OAK_TREE);
+      place('alice', oak, 0, -1);
+
+      expect(challenge('bob', oak, 'producer').isValid).toBe(true);
+      pass('alice');
+      expect(challenge('bob', oak, 'carnivore').isValid).toBe(true);
+
+      expect(engine.getPhyloGameState()!.pendingChallenges.map(c => [c.challengerId, c.targetPlayerId, c.outcome])).toEqual([
+        ['bob', 'alice', 'upheld'],
+        ['bob', 'alice', 'overturned']
+      ]);
+    });
+
+    test('should only challenge opponent cards when challenges are allowed', () => {
+      engine = createEngine();
+      const oak = giveCard('alice', OAK_TREE);
+      place('alice', oak, 0, -1);
+      pass('bob');
+
+      expect(challenge('alice', oak, 'producer').errorMessage).toBe('You can only challenge opponent cards');
+      expect(challenge('alice', 'home_bob', 'producer').errorMessage).toBe('Card not found on board');
+
+      engine = createEngine({ allowChallenges: false });
+      expect(challenge('alice', 'home_bob', 'producer').errorMessage).toBe('Challenges not allowed in this game');
+    });
+  });
+
+  describe('Events and game end', () => {
+    test('should draw seeded events from the event deck', () => {
+      engine = createEngine({ eventFrequency: 1 });
+      const deckSize = engine.getPhyloGameState()!.eventDeck.length;
+
+      pass('alice');
+
+      const state = engine.getPhyloGameState()!;
+      expect(state.eventDeck).toHaveLength(deckSize - 1);
+      expect(state.gameStats.eventsTriggered).toBe(1);
+      expect(state.actionHistory[state.actionHistory.length - 1]).toMatchObject({ playerId: 'system' });
+    });
+
+    test('should end the game with a winner once the turn limit is reached', () => {
+      engine = createEngine({ maxTurns: 1 });
+      giveCard('alice', OAK_TREE);
+      place('alice', 'alice_1', 0, -1);
+
+      const result = pass('bob');
+
+      expect(result.metadata?.gameEnded).toBe(true);
+      expect(result.newState!.gamePhase).toBe(GamePhase.ENDED);
+      expect(result.newState!.winner).toBe('alice');
+      expect(engine.getWinCondition()).toMatchObject({ winner: 'alice', winType: 'points' });
+      expect(pass('alice').errorMessage).toBe('Invalid game phase');
+    });
+  });
+});
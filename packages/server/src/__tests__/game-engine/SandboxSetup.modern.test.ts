@@ -0,0 +1,90 @@
+/**
+ * Sandbox Setup Tests - Modern Version
+ * Covers the offline sandbox board editor and restoring earlier states for undo/redo
+ */
+
+import { BioMastersEngine, GameActionType, deepSerialize } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Sandbox Setup - Modern', () => {
+  let engine: BioMastersEngine;
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+  const EUROPEAN_RABBIT = 4;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  beforeEach(() => {
+    engine = new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('sandbox-test', [
+      { id: 'human', name: 'Human' },
+      { id: 'ai', name: 'AI' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'sandbox-seed');
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'human', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'ai', payload: {} });
+  });
+
+  const findHome = (ownerId: string) =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === ownerId)!;
+
+  test('should place any card at any empty square, ignoring connections and cost', () => {
+    const result = engine.placeSetupCard(EUROPEAN_RABBIT, { x: 0, y: 0 }, 'ai');
+
+    expect(result.isValid).toBe(true);
+    const placed = engine.getGameState().grid.get('0,0')!;
+    expect(placed.cardId).toBe(EUROPEAN_RABBIT);
+    expect(placed.ownerId).toBe('ai');
+    expect(placed.isReady).toBe(true);
+    expect(placed.isHOME).toBe(false);
+  });
+
+  test('should reject unknown cards, players and squares', () => {
+    const home = findHome('human');
+
+    expect(engine.placeSetupCard(99999, { x: 0, y: 0 }, 'human').errorMessage).toBe('Card not found');
+    expect(engine.placeSetupCard(OAK_TREE, { x: 0, y: 0 }, 'nobody').errorMessage).toBe('Player not found');
+    expect(engine.placeSetupCard(OAK_TREE, { x: 9, y: 0 }, 'human').errorMessage).toBe('Invalid position');
+    expect(engine.placeSetupCard(OAK_TREE, home.position, 'human').errorMessage).toBe('Position already occupied');
+  });
+
+  test('should remove placed cards but keep HOME cards', () => {
+    const home = findHome('human');
+    engine.placeSetupCard(OAK_TREE, { x: 0, y: 0 }, 'human');
+
+    expect(engine.removeSetupCard({ x: 0, y: 0 }).isValid).toBe(true);
+    expect(engine.getGameState().grid.has('0,0')).toBe(false);
+    expect(engine.removeSetupCard({ x: 0, y: 0 }).errorMessage).toBe('No card at position');
+    expect(engine.removeSetupCard(home.position).errorMessage).toBe('HOME cards cannot be removed');
+  });
+
+  test('should restore an earlier state and keep playing from it', () => {
+    const before = engine.getGameState();
+    engine.placeSetupCard(OAK_TREE, { x: 0, y: 0 }, 'human');
+    const after = engine.getGameState();
+
+    // Undo
+    engine.loadGameState(before);
+    expect(engine.getGameState().grid.has('0,0')).toBe(false);
+
+    // Redo
+    engine.loadGameState(after);
+    expect(engine.getGameState().grid.get('0,0')?.cardId).toBe(OAK_TREE);
+
+    // Play continues from the restored state without touching the saved one
+    const result = engine.processAction({ type: GameActionType.PASS_TURN, playerId: 'human', payload: {} });
+    expect(result.isValid).toBe(true);
+    expect(deepSerialize(after)).not.toEqual(deepSerialize(engine.getGameState()));
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Seeded Game Tests - Modern Version
+ * Covers reproducible games: the same seed and actions must always produce the same match
+ */
+
+import { BioMastersEngine, GameActionType, GameState, SeededRandom } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Seeded Games - Modern', () => {
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // Start a game whose decks are dealt by the engine, so the deal depends only on the seed
+  const startGame = (seed?: string) => {
+    const engine = new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('seeded-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, seed);
+
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    return engine;
+  };
+
+  const deal = (state: GameState) => state.players.map(p => ({ hand: p.hand, deck: p.deck }));
+
+  // Alice plays an oak next to her HOME
+  const playOak = (engine: BioMastersEngine) => {
+    const home = Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+    const position = { x: home.position.x, y: home.position.y - 1 };
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE.toString());
+    const result = engine.processAction({ type: GameActionType.PLAY_CARD, playerId: 'alice', payload: { cardId: OAK_TREE, position } });
+    expect(result.isValid).toBe(true);
+    return result.newState!.grid.get(`${position.x},${position.y}`)!;
+  };
+
+  test('should store the seed and the stream position in the metadata', () => {
+    const engine = startGame('seed-1');
+    const { metadata } = engine.getGameState();
+
+    expect(metadata.rngSeed).toBe('seed-1');
+    expect(metadata.rngState).not.toBe(new SeededRandom('seed-1').getState());
+  });
+
+  test('should deal and name cards identically for the same seed', () => {
+    const first = startGame('seed-1');
+    const second = startGame('seed-1');
+
+    expect(deal(second.getGameState())).toEqual(deal(first.getGameState()));
+    expect(playOak(second).instanceId).toBe(playOak(first).instanceId);
+    expect(second.getGameState().metadata.rngState).toBe(first.getGameState().metadata.rngState);
+  });
+
+  test('should deal differently for different seeds', () => {
+    expect(deal(startGame('seed-2').getGameState())).not.toEqual(deal(startGame('seed-1').getGameState()));
+  });
+
+  test('should generate a seed when none is given', () => {
+    expect(startGame().getGameState().metadata.rngSeed).toEqual(expect.any(String));
+  });
+
+  test('should resume a saved stream where it left off', () => {
+    const rng = new SeededRandom('resume');
+    rng.next();
+    const resumed = SeededRandom.fromState(rng.getState());
+
+    expect(resumed.next()).toBe(rng.next());
+  });
+});
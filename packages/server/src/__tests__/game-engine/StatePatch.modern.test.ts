@@ -0,0 +1,128 @@
+/**
+ * State Patch Tests - Modern Version
+ * Covers the versioned diffs sent over WebSocket instead of full game states
+ */
+
+import {
+  BioMastersEngine,
+  GameActionType,
+  GameState,
+  GameStatePatch,
+  VersionedState,
+  applyGameStatePatch,
+  applyStatePatch,
+  deepSerialize,
+  diffState
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('State Patches - Modern', () => {
+  let gameData: TestGameData;
+
+  const OAK_TREE = 1;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // The JSON a client receives for a state
+  const toWire = (state: GameState): unknown => JSON.parse(JSON.stringify(deepSerialize(state)));
+
+  // Play a short seeded match and keep every state along the way
+  const playMatch = (): GameState[] => {
+    const engine = new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('patch-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'patch-seed');
+
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE.toString());
+    const states = [engine.getGameState()];
+
+    const home = Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === 'alice')!;
+    [
+      { type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} },
+      { type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} },
+      { type: GameActionType.PLAY_CARD, playerId: 'alice', payload: { cardId: OAK_TREE, position: { x: home.position.x, y: home.position.y - 1 } } },
+      { type: GameActionType.PASS_TURN, playerId: 'alice', payload: {} },
+      { type: GameActionType.PASS_TURN, playerId: 'bob', payload: {} }
+    ].forEach(action => {
+      const result = engine.processAction(action);
+      expect(result.isValid).toBe(true);
+      states.push(result.newState!);
+    });
+
+    return states;
+  };
+
+  test('should patch each state into exactly the next full state', () => {
+    const states = playMatch();
+
+    for (let i = 1; i < states.length; i++) {
+      const before = toWire(states[i - 1]!);
+      const after = toWire(states[i]!);
+
+      expect(applyStatePatch(before, diffState(before, after))).toEqual(after);
+    }
+  });
+
+  test('should keep a client in step through a chain of versioned patches', () => {
+    const wires = playMatch().map(toWire);
+    let synced: VersionedState | null = { version: 0, state: wires[0] };
+
+    for (let version = 1; version < wires.length; version++) {
+      const patch: GameStatePatch = {
+        baseVersion: version - 1,
+        version,
+        operations: diffState(wires[version - 1], wires[version])
+      };
+      synced = applyGameStatePatch(synced!, patch);
+      expect(synced?.version).toBe(version);
+    }
+
+    expect(synced!.state).toEqual(wires[wires.length - 1]);
+  });
+
+  test('should send far less than the full state for a turn', () => {
+    const wires = playMatch().map(toWire);
+    const operations = diffState(wires[wires.length - 2], wires[wires.length - 1]);
+
+    expect(JSON.stringify(operations).length).toBeLessThan(JSON.stringify(wires[wires.length - 1]).length / 4);
+  });
+
+  test('should ask for a resync when the client is not at the base version', () => {
+    const patch: GameStatePatch = { baseVersion: 3, version: 4, operations: [{ op: 'replace', path: '/turnNumber', value: 2 }] };
+
+    expect(applyGameStatePatch({ version: 2, state: { turnNumber: 1 } }, patch)).toBeNull();
+    expect(applyGameStatePatch(undefined, patch)).toBeNull();
+    expect(applyGameStatePatch({ version: 3, state: { turnNumber: 1 } }, patch)).toEqual({ version: 4, state: { turnNumber: 2 } });
+  });
+
+  test('should handle removed keys, shrinking arrays and escaped paths', () => {
+    const before = { 'a/b': 1, 'c~d': [1, 2, 3, 4], gone: true, nested: { list: [{ id: 1 }, { id: 2 }] } };
+    const after = { 'a/b': 2, 'c~d': [1, 5], nested: { list: [{ id: 1 }, { id: 2 }, { id: 3 }] }, added: null };
+
+    const operations = diffState(before, after);
+
+    expect(operations).toContainEqual({ op: 'replace', path: '/a~1b', value: 2 });
+    expect(operations).toContainEqual({ op: 'remove', path: '/gone' });
+    expect(applyStatePatch(before, operations)).toEqual(after);
+  });
+
+  test('should leave the original document untouched', () => {
+    const before = { players: [{ hand: ['1', '2'] }] };
+    const snapshot = JSON.parse(JSON.stringify(before));
+
+    applyStatePatch(before, [{ op: 'remove', path: '/players/0/hand/1' }, { op: 'add', path: '/players/-', value: { hand: [] } }]);
+
+    expect(before).toEqual(snapshot);
+  });
+});
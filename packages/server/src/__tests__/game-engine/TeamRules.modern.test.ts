@@ -0,0 +1,113 @@
+/**
+ * Team Rules Tests - Modern Version
+ * Covers 2v2 games: alternating seats, shared HOME, ally connections and team scoring
+ */
+
+import {
+  BioMastersEngine,
+  GameActionType,
+  GamePhase
+} from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Team Rules - Modern', () => {
+  let gameData: TestGameData;
+  let engine: BioMastersEngine;
+
+  const OAK_TREE = 1;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  beforeEach(() => {
+    engine = new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+    engine.initializeNewGame('team-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'carol', name: 'Carol' },
+      { id: 'bob', name: 'Bob' },
+      { id: 'dave', name: 'Dave' }
+    ], {
+      gridWidth: 10,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 4,
+      startingHandSize: 5,
+      teams: [
+        { id: 'team1', playerIds: ['alice', 'carol'] },
+        { id: 'team2', playerIds: ['bob', 'dave'] }
+      ]
+    }, 'team-seed');
+
+    ['alice', 'bob', 'carol', 'dave'].forEach(playerId => {
+      engine.processAction({ type: GameActionType.PLAYER_READY, playerId, payload: {} });
+    });
+  });
+
+  const homeOf = (playerId: string) =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === playerId)!.position;
+
+  const giveCard = (playerId: string, cardId: number) => {
+    engine.getGameState().players.find(p => p.id === playerId)!.hand.push(cardId.toString());
+  };
+
+  test('should seat the teams alternately so turns alternate teams', () => {
+    const state = engine.getGameState();
+
+    expect(state.players.map(p => p.id)).toEqual(['alice', 'bob', 'carol', 'dave']);
+    expect(state.players.map(p => p.teamId)).toEqual(['team1', 'team2', 'team1', 'team2']);
+    expect(engine.areAllies('alice', 'carol')).toBe(true);
+    expect(engine.areAllies('alice', 'bob')).toBe(false);
+  });
+
+  test('should stack each team\'s HOMEs into one shared column', () => {
+    expect(homeOf('alice').x).toBe(homeOf('carol').x);
+    expect(Math.abs(homeOf('alice').y - homeOf('carol').y)).toBe(1);
+    expect(homeOf('bob').x).toBe(homeOf('dave').x);
+    expect(homeOf('bob').x).not.toBe(homeOf('alice').x);
+  });
+
+  test('should let a player build off an ally\'s HOME but not an opponent\'s', () => {
+    giveCard('alice', OAK_TREE);
+    const carolHome = homeOf('carol');
+    const bobHome = homeOf('bob');
+
+    expect(engine.validateCardPlay(OAK_TREE.toString(), { x: carolHome.x - 1, y: carolHome.y }, 'alice').isValid).toBe(true);
+
+    const enemyConnection = engine.validateCardPlay(OAK_TREE.toString(), { x: bobHome.x + 1, y: bobHome.y }, 'alice');
+    expect(enemyConnection.isValid).toBe(false);
+    expect(enemyConnection.errorMessage).toContain('your team');
+  });
+
+  test('should win on the team\'s combined score pile', () => {
+    const state = engine.getGameState();
+    // Bob holds the biggest single score pile, but Alice and Carol score more together
+    state.players.find(p => p.id === 'bob')!.scorePile.push(OAK_TREE.toString(), OAK_TREE.toString());
+    state.players.find(p => p.id === 'alice')!.scorePile.push(OAK_TREE.toString(), OAK_TREE.toString());
+    state.players.find(p => p.id === 'carol')!.scorePile.push(OAK_TREE.toString());
+    state.players.forEach(player => {
+      player.deck = [];
+    });
+
+    for (let turn = 0; turn < 10 && engine.getGameState().gamePhase !== GamePhase.ENDED; turn++) {
+      const current = engine.getGameState().players[engine.getGameState().currentPlayerIndex]!;
+      engine.processAction({ type: GameActionType.PASS_TURN, playerId: current.id, payload: {} });
+    }
+
+    const endData = engine.getEndGameData();
+    expect(endData.isGameEnded).toBe(true);
+    expect(endData.finalScores!.filter(score => score.isWinner).map(score => score.playerId).sort()).toEqual(['alice', 'carol']);
+    expect(endData.teamScores!.find(team => team.isWinner)!.teamId).toBe('team1');
+    expect(endData.winner).toBe('Alice & Carol');
+  });
+
+  test('should hand the match to the other team when a player forfeits', () => {
+    const result = engine.processAction({ type: GameActionType.FORFEIT, playerId: 'carol', payload: {} });
+
+    expect(result.isValid).toBe(true);
+    const winners = engine.getEndGameData().finalScores!.filter(score => score.isWinner).map(score => score.playerId);
+    expect(winners.sort()).toEqual(['bob', 'dave']);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Trigger Pipeline Tests - Modern Version
+ * Pins the order in which the engine raises and resolves TriggerId events
+ */
+
+import { AbilityData, AbilityEffect, BioMastersEngine, CardInstance, GameActionType, TriggerId } from '@kelseyabreu/shared';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+describe('Trigger Pipeline - Modern', () => {
+  let engine: BioMastersEngine;
+  let gameData: TestGameData;
+
+  // Test-only abilities; effect-less abilities still show up in the trigger log when they fire
+  // Effects use the raw EffectID/SelectorID/ActionID shape the engine executes
+  const testAbility = (id: number, triggerId: TriggerId, effects: object[] = []): AbilityData => ({
+    id,
+    nameId: 'ABILITY_TEST',
+    descriptionId: 'DESC_TEST',
+    triggerId,
+    effects: effects as unknown as AbilityEffect[]
+  });
+
+  const OAK_TREE = 1;
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  // Build an engine where the Oak Tree carries the given test abilities
+  const createEngine = (oakAbilities: AbilityData[]) => {
+    const cardDatabase = new Map(gameData.cards);
+    const abilityDatabase = new Map(gameData.abilities);
+    oakAbilities.forEach(ability => abilityDatabase.set(ability.id, ability));
+    cardDatabase.set(OAK_TREE, {
+      ...gameData.cards.get(OAK_TREE)!,
+      abilities: oakAbilities.map(ability => ability.id)
+    });
+
+    const testEngine = new BioMastersEngine(cardDatabase, abilityDatabase, gameData.keywords, gameData.localizationManager);
+    testEngine.initializeNewGame('trigger-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    });
+
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    testEngine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    return testEngine;
+  };
+
+  const getHome = (playerId: string): CardInstance =>
+    Array.from(engine.getGameState().grid.values()).find(card => card.isHOME && card.ownerId === playerId)!;
+
+  const playOak = (position: { x: number; y: number }) => {
+    engine.getGameState().players.find(p => p.id === 'alice')!.hand.push(OAK_TREE.toString());
+    const result = engine.processAction({
+      type: GameActionType.PLAY_CARD,
+      playerId: 'alice',
+      payload: { cardId: OAK_TREE, position }
+    });
+    expect(result.isValid).toBe(true);
+    return engine.getGameState().grid.get(`${position.x},${position.y}`)!;
+  };
+
+  const passTurn = (playerId: string) => {
+    const result = engine.processAction({ type: GameActionType.PASS_TURN, playerId, payload: {} });
+    expect(result.isValid).toBe(true);
+  };
+
+  test('should raise ON_TURN_START when the game begins', () => {
+    engine = createEngine([]);
+
+    const log = engine.getTriggerLog();
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ triggerId: TriggerId.ON_TURN_START, playerId: 'alice', firedAbilities: [] });
+  });
+
+  test('should fire enter-play, on-play and persistent abilities in card listing order', () => {
+    engine = createEngine([
+      testAbility(903, TriggerId.PERSISTENT),
+      testAbility(901, TriggerId.ON_ENTER_PLAY),
+      testAbility(904, TriggerId.ON_ACTIVATE),
+      testAbility(902, TriggerId.ON_PLAY)
+    ]);
+    const home = getHome('alice');
+
+    const oak = playOak({ x: home.position.x, y: home.position.y - 1 });
+
+    expect(engine.getTriggerLog()).toEqual([
+      {
+        triggerId: TriggerId.ON_ENTER_PLAY,
+        playerId: 'alice',
+        sourceInstanceId: oak.instanceId,
+        firedAbilities: [
+          { instanceId: oak.instanceId, abilityId: 903 },
+          { instanceId: oak.instanceId, abilityId: 901 },
+          { instanceId: oak.instanceId, abilityId: 902 }
+        ]
+      }
+    ]);
+  });
+
+  test('should raise ON_DEATH then ON_LEAVE_PLAY when a card dies', () => {
+    engine = createEngine([
+      testAbility(921, TriggerId.ON_LEAVE_PLAY),
+      testAbility(920, TriggerId.ON_DEATH)
+    ]);
+    const home = getHome('alice');
+    const oak = playOak({ x: home.position.x, y: home.position.y - 1 });
+
+    const result = engine.processAction({
+      type: GameActionType.REMOVE_CARD,
+      playerId: 'alice',
+      payload: { instanceId: oak.instanceId, reason: 'death' }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.firedAbilities.map(f => f.abilityId)])).toEqual([
+      [TriggerId.ON_DEATH, [920]],
+      [TriggerId.ON_LEAVE_PLAY, [921]]
+    ]);
+    expect(result.newState!.grid.get(`${oak.position.x},${oak.position.y}`)?.isDetritus).toBe(true);
+  });
+
+  test('should only raise ON_LEAVE_PLAY when a card is removed without dying', () => {
+    engine = createEngine([
+      testAbility(921, TriggerId.ON_LEAVE_PLAY),
+      testAbility(920, TriggerId.ON_DEATH)
+    ]);
+    const home = getHome('alice');
+    const oak = playOak({ x: home.position.x, y: home.position.y - 1 });
+
+    const result = engine.processAction({
+      type: GameActionType.REMOVE_CARD,
+      playerId: 'alice',
+      payload: { instanceId: oak.instanceId, reason: 'removed' }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.firedAbilities.map(f => f.abilityId)])).toEqual([
+      [TriggerId.ON_LEAVE_PLAY, [921]]
+    ]);
+    expect(result.newState!.grid.has(`${oak.position.x},${oak.position.y}`)).toBe(false);
+  });
+
+  test('should ready cards in grid order before the turn start triggers', () => {
+    engine = createEngine([
+      testAbility(931, TriggerId.ON_TURN_START),
+      testAbility(930, TriggerId.ON_READY),
+      testAbility(932, TriggerId.ON_TURN_END)
+    ]);
+    const home = getHome('alice');
+
+    // Played bottom first so grid order differs from play order
+    const lowerOak = playOak({ x: home.position.x, y: home.position.y + 1 });
+    const upperOak = playOak({ x: home.position.x, y: home.position.y - 1 });
+    expect(lowerOak.isExhausted).toBe(true);
+    expect(upperOak.isExhausted).toBe(true);
+
+    passTurn('alice');
+    expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.playerId, entry.firedAbilities])).toEqual([
+      [TriggerId.ON_TURN_END, 'alice', [
+        { instanceId: upperOak.instanceId, abilityId: 932 },
+        { instanceId: lowerOak.instanceId, abilityId: 932 }
+      ]],
+      [TriggerId.ON_TURN_START, 'bob', []]
+    ]);
+
+    passTurn('bob');
+    expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.sourceInstanceId, entry.firedAbilities])).toEqual([
+      [TriggerId.ON_TURN_END, undefined, []],
+      [TriggerId.ON_READY, upperOak.instanceId, [{ instanceId: upperOak.instanceId, abilityId: 930 }]],
+      [TriggerId.ON_READY, lowerOak.instanceId, [{ instanceId: lowerOak.instanceId, abilityId: 930 }]],
+      [TriggerId.ON_TURN_START, undefined, [
+        { instanceId: upperOak.instanceId, abilityId: 931 },
+        { instanceId: lowerOak.instanceId, abilityId: 931 }
+      ]]
+    ]);
+  });
+
+  test('should resolve triggers raised by abilities after the event that caused them', () => {
+    // Turn end: target adjacent cards and move them to detritus (legacy executeAction ID 4)
+    const destroyAdjacent = { EffectID: 1, SelectorID: 1, ActionID: 4 };
+    engine = createEngine([
+      testAbility(940, TriggerId.ON_TURN_END, [destroyAdjacent]),
+      testAbility(941, TriggerId.ON_DEATH)
+    ]);
+    const home = getHome('alice');
+
+    // Both oaks carry both abilities; the upper one resolves first and destroys the lower one
+    const lowerOak = playOak({ x: home.position.x, y: home.position.y - 1 });
+    const upperOak = playOak({ x: home.position.x, y: home.position.y - 2 });
+
+    passTurn('alice');
+
+    expect(engine.getTriggerLog().map(entry => [entry.triggerId, entry.sourceInstanceId, entry.firedAbilities.map(f => f.instanceId)])).toEqual([
+      [TriggerId.ON_TURN_END, undefined, [upperOak.instanceId]],
+      [TriggerId.ON_DEATH, lowerOak.instanceId, [lowerOak.instanceId]],
+      [TriggerId.ON_LEAVE_PLAY, lowerOak.instanceId, []],
+      [TriggerId.ON_TURN_START, undefined, []]
+    ]);
+    expect(engine.getGameState().grid.get(`${lowerOak.position.x},${lowerOak.position.y}`)?.isDetritus).toBe(true);
+    expect(engine.getGameState().grid.get(`${upperOak.position.x},${upperOak.position.y}`)?.isDetritus).toBe(false);
+  });
+});
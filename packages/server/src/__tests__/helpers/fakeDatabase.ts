@@ -0,0 +1,301 @@
+/**
+ * Fake Database Helper
+ * A real Kysely query builder over in-memory tables, for service tests that need rows to
+ * persist between queries. It runs single-table selects, inserts, updates and deletes with
+ * plain comparisons in their where clauses. Raw SQL is only recorded, never run.
+ */
+
+import {
+  AliasNode,
+  AndNode,
+  BinaryOperationNode,
+  ColumnNode,
+  CompiledQuery,
+  DatabaseConnection,
+  DeleteQueryNode,
+  IdentifierNode,
+  InsertQueryNode,
+  Kysely,
+  OperationNode,
+  OperatorNode,
+  OrNode,
+  ParensNode,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  PrimitiveValueListNode,
+  QueryResult,
+  RawNode,
+  ReferenceNode,
+  SchemableIdentifierNode,
+  SelectionNode,
+  SelectQueryNode,
+  TableNode,
+  UpdateQueryNode,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  WhereNode
+} from 'kysely';
+import type { Database } from '../../database/types';
+
+type Row = Record<string, unknown>;
+
+/**
+ * The column or table name a node refers to
+ */
+function nameOf(node: OperationNode): string {
+  switch (node.kind) {
+    case 'IdentifierNode':
+      return (node as IdentifierNode).name;
+    case 'ColumnNode':
+      return nameOf((node as ColumnNode).column);
+    case 'ReferenceNode':
+      return nameOf((node as ReferenceNode).column);
+    case 'TableNode':
+      return nameOf((node as TableNode).table);
+    case 'SchemableIdentifierNode':
+      return nameOf((node as SchemableIdentifierNode).identifier);
+    case 'AliasNode':
+      return nameOf((node as AliasNode).alias);
+    default:
+      throw new Error(`Fake database cannot name a ${node.kind}`);
+  }
+}
+
+function tableOf(node: OperationNode): string {
+  return node.kind === 'AliasNode' ? nameOf((node as AliasNode).node) : nameOf(node);
+}
+
+function valueOf(node: OperationNode, row: Row): unknown {
+  switch (node.kind) {
+    case 'ValueNode':
+      return (node as ValueNode).value;
+    case 'ColumnNode':
+    case 'ReferenceNode':
+      return row[nameOf(node)];
+    case 'PrimitiveValueListNode':
+      return (node as PrimitiveValueListNode).values;
+    case 'ValueListNode':
+      return (node as ValueListNode).values.map(value => valueOf(value, row));
+    default:
+      throw new Error(`Fake database cannot evaluate a ${node.kind}`);
+  }
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const [a, b] = [comparable(left), comparable(right)] as [number, number];
+  switch (operator) {
+    case '=':
+      return a === b;
+    case '!=':
+    case '<>':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case 'is':
+      return (left ?? null) === right;
+    case 'is not':
+      return (left ?? null) !== right;
+    case 'in':
+      return (right as unknown[]).map(comparable).includes(a);
+    case 'not in':
+      return !(right as unknown[]).map(comparable).includes(a);
+    default:
+      throw new Error(`Fake database cannot compare with ${operator}`);
+  }
+}
+
+function matches(node: OperationNode | undefined, row: Row): boolean {
+  if (!node) return true;
+  switch (node.kind) {
+    case 'WhereNode':
+      return matches((node as WhereNode).where, row);
+    case 'ParensNode':
+      return matches((node as ParensNode).node, row);
+    case 'AndNode':
+      return matches((node as AndNode).left, row) && matches((node as AndNode).right, row);
+    case 'OrNode':
+      return matches((node as OrNode).left, row) || matches((node as OrNode).right, row);
+    case 'BinaryOperationNode': {
+      const { leftOperand, operator, rightOperand } = node as BinaryOperationNode;
+      return compare((operator as OperatorNode).operator, valueOf(leftOperand, row), valueOf(rightOperand, row));
+    }
+    default:
+      throw new Error(`Fake database cannot filter with a ${node.kind}`);
+  }
+}
+
+/**
+ * The selected columns of a row, or all of them
+ */
+function project(selections: ReadonlyArray<SelectionNode> | undefined, row: Row): Row {
+  if (!selections || selections.some(({ selection }) => selection.kind === 'SelectAllNode')) {
+    return { ...row };
+  }
+
+  return Object.fromEntries(selections.map(({ selection }) => {
+    const column = selection.kind === 'AliasNode' ? nameOf(selection.node) : nameOf(selection);
+    return [nameOf(selection), row[column]];
+  }));
+}
+
+export class FakeDatabase {
+  /** Rows by table name */
+  readonly tables = new Map<string, Row[]>();
+  /** Every query run, in order */
+  readonly queries: CompiledQuery[] = [];
+
+  readonly db: Kysely<Database>;
+
+  constructor() {
+    const connection: DatabaseConnection = {
+      executeQuery: async <R>(query: CompiledQuery): Promise<QueryResult<R>> => {
+        this.queries.push(query);
+        return this.run(query.query) as QueryResult<R>;
+      },
+      streamQuery() {
+        throw new Error('Not used');
+      }
+    };
+
+    this.db = new Kysely<Database>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createDriver: () => ({
+          init: async () => {},
+          acquireConnection: async () => connection,
+          beginTransaction: async () => {},
+          commitTransaction: async () => {},
+          rollbackTransaction: async () => {},
+          releaseConnection: async () => {},
+          destroy: async () => {}
+        }),
+        createIntrospector: kysely => new PostgresIntrospector(kysely),
+        createQueryCompiler: () => new PostgresQueryCompiler()
+      }
+    });
+  }
+
+  /**
+   * A table's rows, live; push to seed it
+   */
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  /**
+   * Empty every table and forget the queries
+   */
+  reset(): void {
+    this.tables.clear();
+    this.queries.length = 0;
+  }
+
+  /**
+   * Every query whose SQL starts with the given text
+   */
+  queriesStartingWith(prefix: string): CompiledQuery[] {
+    return this.queries.filter(query => query.sql.startsWith(prefix));
+  }
+
+  private run(node: OperationNode): QueryResult<Row> {
+    switch (node.kind) {
+      case 'SelectQueryNode':
+        return this.select(node as SelectQueryNode);
+      case 'InsertQueryNode':
+        return this.insert(node as InsertQueryNode);
+      case 'UpdateQueryNode':
+        return this.update(node as UpdateQueryNode);
+      case 'DeleteQueryNode':
+        return this.delete(node as DeleteQueryNode);
+      default:
+        return { rows: [] };
+    }
+  }
+
+  private select(node: SelectQueryNode): QueryResult<Row> {
+    if (node.joins || !node.from) {
+      throw new Error('Fake database can only select from one table');
+    }
+
+    let rows = this.table(tableOf(node.from.froms[0]!)).filter(row => matches(node.where, row));
+
+    const order = node.orderBy?.items[0];
+    if (order) {
+      const column = nameOf(order.orderBy);
+      const direction = (order.direction as RawNode | undefined)?.sqlFragments[0] === 'desc' ? -1 : 1;
+      rows = [...rows].sort((a, b) => (comparable(a[column]) as number) > (comparable(b[column]) as number) ? direction : -direction);
+    }
+    if (node.limit) {
+      rows = rows.slice(0, Number(valueOf(node.limit.limit, {})));
+    }
+
+    return { rows: rows.map(row => project(node.selections, row)) };
+  }
+
+  private insert(node: InsertQueryNode): QueryResult<Row> {
+    const table = this.table(nameOf(node.into!));
+    const columns = (node.columns ?? []).map(nameOf);
+    const conflictColumns = (node.onConflict?.columns ?? []).map(nameOf);
+
+    const inserted: Row[] = [];
+    for (const values of (node.values as ValuesNode).values) {
+      const cells = values.kind === 'PrimitiveValueListNode'
+        ? values.values
+        : values.values.map(value => value.kind === 'DefaultInsertValueNode' ? undefined : valueOf(value, {}));
+      const row: Row = Object.fromEntries(columns.map((column, i) => [column, cells[i]]).filter(([, value]) => value !== undefined));
+
+      if (conflictColumns.length > 0 && table.some(existing => conflictColumns.every(column => existing[column] === row[column]))) {
+        if (!node.onConflict!.doNothing) throw new Error('Fake database cannot update on conflict');
+        continue;
+      }
+
+      table.push(row);
+      inserted.push(row);
+    }
+
+    return {
+      rows: node.returning ? inserted.map(row => project(node.returning!.selections, row)) : [],
+      numAffectedRows: BigInt(inserted.length)
+    };
+  }
+
+  private update(node: UpdateQueryNode): QueryResult<Row> {
+    const rows = this.table(tableOf(node.table!)).filter(row => matches(node.where, row));
+
+    rows.forEach(row => {
+      (node.updates ?? []).forEach(({ column, value }) => {
+        // Raw SQL values are left for the test to check in the recorded query
+        if (value.kind === 'ValueNode') {
+          row[nameOf(column)] = (value as ValueNode).value;
+        }
+      });
+    });
+
+    return {
+      rows: node.returning ? rows.map(row => project(node.returning!.selections, row)) : [],
+      numAffectedRows: BigInt(rows.length)
+    };
+  }
+
+  private delete(node: DeleteQueryNode): QueryResult<Row> {
+    const name = tableOf(node.from.froms[0]!);
+    const rows = this.table(name);
+    const kept = rows.filter(row => !matches(node.where, row));
+    this.tables.set(name, kept);
+
+    return { rows: [], numAffectedRows: BigInt(rows.length - kept.length) };
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * AISeatService Tests
+ *
+ * AI players filling matches, taking over forfeited seats and playing their turns
+ */
+
+import {
+  AIDifficulty,
+  BioMastersEngine,
+  GameActionType,
+  GameState,
+  PendingChoice
+} from '@kelseyabreu/shared';
+import { AISeatService, SeatedPlayer, isAIPlayerId, createAIPlayerId } from '../../services/AISeatService';
+import { loadTestGameData, TestGameData } from '../utils/testDataLoader';
+
+// The starter deck list the AI plays is hardcoded; nothing here touches the database
+jest.mock('../../database/kysely', () => ({
+  db: {}
+}));
+
+describe('AISeatService', () => {
+  let gameData: TestGameData;
+  let service: AISeatService;
+  let engine: BioMastersEngine;
+
+  const createEngine = () =>
+    new BioMastersEngine(gameData.cards, gameData.abilities, gameData.keywords, gameData.localizationManager);
+
+  const players: SeatedPlayer[] = [
+    { playerId: 'alice', isAI: true, aiDifficulty: AIDifficulty.EASY },
+    { playerId: 'bob' }
+  ];
+
+  beforeAll(async () => {
+    gameData = await loadTestGameData();
+  });
+
+  beforeEach(() => {
+    service = new AISeatService();
+    engine = createEngine();
+    engine.initializeNewGame('ai-seat-test', [
+      { id: 'alice', name: 'Alice' },
+      { id: 'bob', name: 'Bob' }
+    ], {
+      gridWidth: 9,
+      gridHeight: 10,
+      maxHandSize: 7,
+      startingEnergy: 10,
+      turnTimeLimit: 300,
+      maxPlayers: 2,
+      startingHandSize: 5
+    }, 'ai-seat-seed');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const startPlaying = (): GameState => {
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'alice', payload: {} });
+    engine.processAction({ type: GameActionType.PLAYER_READY, playerId: 'bob', payload: {} });
+    return engine.getGameState();
+  };
+
+  it('should seat AI players that are ready to play', () => {
+    const playerId = createAIPlayerId();
+    const aiPlayer = service.createAIPlayer(playerId, 2, 1200, AIDifficulty.HARD);
+
+    expect(isAIPlayerId(playerId)).toBe(true);
+    expect(isAIPlayerId('alice')).toBe(false);
+    expect(aiPlayer).toMatchObject({ playerId, name: 'Hard AI 2', rating: 1200, ready: true, isAI: true, hasDeckSelected: true });
+  });
+
+  it('should only take over a seat while another player plays on', () => {
+    const ffa: SeatedPlayer[] = [{ playerId: 'alice' }, { playerId: 'bob' }, { playerId: 'carol' }];
+
+    expect(service.canTakeOverSeat(ffa.slice(0, 2), 'alice')).toBe(false);
+    expect(service.canTakeOverSeat(ffa, 'alice')).toBe(true);
+
+    const afterAlice = service.takeOverSeat(ffa, 'alice', AIDifficulty.MEDIUM);
+    expect(afterAlice[0]).toMatchObject({ playerId: 'alice', isAI: true, aiDifficulty: AIDifficulty.MEDIUM });
+    expect(service.canTakeOverSeat(afterAlice, 'alice')).toBe(false);
+    expect(service.canTakeOverSeat(afterAlice, 'bob')).toBe(true);
+
+    const afterBob = service.takeOverSeat(afterAlice, 'bob');
+    expect(service.canTakeOverSeat(afterBob, 'carol')).toBe(false);
+  });
+
+  it('should only act for an AI seat once play has started', () => {
+    expect(service.getActingSeat(players, engine.getGameState())).toBeNull();
+
+    const state = startPlaying();
+    const currentPlayerId = state.players[state.currentPlayerIndex]!.id;
+    const expected = currentPlayerId === 'alice' ? { playerId: 'alice', difficulty: AIDifficulty.EASY } : null;
+
+    expect(service.getActingSeat(players, state)).toEqual(expected);
+  });
+
+  it('should answer a pending choice owed by an AI seat, even off turn', () => {
+    const state = startPlaying();
+    state.pendingChoice = {
+      choiceId: 'choice-1',
+      playerId: 'alice',
+      options: ['a', 'b', 'c'],
+      minSelections: 2,
+      maxSelections: 3
+    } as PendingChoice;
+
+    expect(service.getActingSeat(players, state)).toEqual({ playerId: 'alice', difficulty: AIDifficulty.EASY });
+    expect(service.chooseAction('session-1', { playerId: 'alice', difficulty: AIDifficulty.EASY }, state, createEngine())).toMatchObject({
+      type: 'resolve_choice',
+      playerId: 'alice',
+      data: { choiceId: 'choice-1', selections: ['a', 'b'] }
+    });
+  });
+
+  it('should plan a turn the engine accepts through the socket action types', () => {
+    const state = startPlaying();
+    const currentPlayerId = state.players[state.currentPlayerIndex]!.id;
+    const seat = { playerId: currentPlayerId, difficulty: AIDifficulty.MEDIUM };
+
+    const action = service.chooseAction('session-1', seat, state, createEngine());
+    const engineTypes: Record<string, GameActionType> = {
+      place_card: GameActionType.PLAY_CARD,
+      move_card: GameActionType.MOVE_CARD,
+      pass_turn: GameActionType.PASS_TURN,
+      drop_and_draw: GameActionType.DROP_AND_DRAW_THREE,
+      activate_ability: GameActionType.ACTIVATE_ABILITY,
+      metamorphosis: GameActionType.METAMORPHOSIS
+    };
+
+    expect(action.playerId).toBe(currentPlayerId);
+    expect(engine.processAction({ type: engineTypes[action.type]!, playerId: action.playerId, payload: action.data }).isValid).toBe(true);
+  });
+
+  it('should act after the thinking delay and stop when the session ends', async () => {
+    jest.useFakeTimers();
+    const state = startPlaying();
+    const seats = state.players.map(player => ({ playerId: player.id, isAI: true, aiDifficulty: AIDifficulty.EASY }));
+    const act = jest.fn().mockResolvedValue(undefined);
+
+    expect(service.scheduleTurn('session-1', seats, state, async () => createEngine(), act)).toBe(true);
+    expect(act).not.toHaveBeenCalled();
+
+    await jest.runOnlyPendingTimersAsync();
+    expect(act).toHaveBeenCalledWith(state.players[state.currentPlayerIndex]!.id, expect.objectContaining({ id: expect.any(String) }));
+
+    service.scheduleTurn('session-1', seats, state, async () => createEngine(), act);
+    service.clearSession('session-1');
+    await jest.runOnlyPendingTimersAsync();
+    expect(act).toHaveBeenCalledTimes(1);
+
+    expect(service.scheduleTurn('session-2', [{ playerId: 'alice' }, { playerId: 'bob' }], state, async () => createEngine(), act)).toBe(false);
+  });
+
+  it('should deal the AI seat deck shuffled', () => {
+    const deck = service.dealDeck(() => 0);
+
+    expect(deck).toHaveLength(21);
+    expect(deck.filter(cardId => cardId === '1')).toHaveLength(3);
+    expect(deck.every(cardId => gameData.cards.has(Number(cardId)))).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * BalanceSimulationService Tests
+ *
+ * Headless AI-vs-AI games and the balance report built from them
+ */
+
+import { AIDifficulty } from '@kelseyabreu/shared';
+import {
+  BalanceSimulationOptions,
+  BalanceSimulationService,
+  SimulatedGame,
+  SimulationDeck
+} from '../../services/BalanceSimulationService';
+import { loadTestGameData } from '../utils/testDataLoader';
+
+const FOREST_DECK: SimulationDeck = {
+  name: 'Forest',
+  cards: [
+    { cardId: 1, quantity: 3 },
+    { cardId: 3, quantity: 3 },
+    { cardId: 4, quantity: 3 },
+    { cardId: 6, quantity: 2 },
+    { cardId: 8, quantity: 1 }
+  ]
+};
+
+describe('BalanceSimulationService', () => {
+  let simulator: BalanceSimulationService;
+
+  beforeAll(async () => {
+    const gameData = await loadTestGameData();
+    simulator = new BalanceSimulationService({
+      cardDatabase: gameData.cards,
+      abilityDatabase: gameData.abilities,
+      keywordDatabase: gameData.keywords,
+      localizationManager: gameData.localizationManager
+    });
+  });
+
+  const options = (overrides: Partial<BalanceSimulationOptions> = {}): BalanceSimulationOptions => ({
+    games: 2,
+    seed: 'balance-test',
+    seats: [
+      { deck: FOREST_DECK, difficulty: AIDifficulty.EASY },
+      { difficulty: AIDifficulty.EASY }
+    ],
+    ...overrides
+  });
+
+  const game = (overrides: Partial<SimulatedGame>): SimulatedGame => ({
+    index: 0,
+    seed: 'g',
+    firstSeat: 0,
+    winnerSeat: 0,
+    endReason: 'deck_empty',
+    turns: 5,
+    actions: 20,
+    victoryPoints: [0, 0],
+    startingCards: [['1', '2'], ['1', '3']],
+    playedCards: [[], []],
+    ...overrides
+  });
+
+  it('should play seeded games to the end and replay them identically', () => {
+    const first = simulator.run(options());
+    const second = simulator.run(options());
+
+    expect(first.games).toHaveLength(2);
+    first.games.forEach(played => {
+      expect(played.endReason).not.toBe('stalled');
+      expect(played.actions).toBeGreaterThan(0);
+      expect([...played.startingCards[0]!].sort()).toEqual(['1', '1', '1', '3', '3', '3', '4', '4', '4', '6', '6', '8']);
+    });
+    expect(first.games.map(played => played.firstSeat)).toEqual([0, 1]);
+    expect(second.games).toEqual(first.games);
+  });
+
+  it('should reject decks with cards the game does not have', () => {
+    expect(() => simulator.playGame(0, options({
+      seats: [
+        { deck: { name: 'Broken', cards: [{ cardId: 99999, quantity: 1 }] }, difficulty: AIDifficulty.EASY },
+        { difficulty: AIDifficulty.EASY }
+      ]
+    }))).toThrow('Deck "Broken" contains unknown card 99999');
+  });
+
+  it('should credit cards by how their seat did when they were played', () => {
+    const report = simulator.buildReport(options(), [
+      game({ winnerSeat: 0, playedCards: [['1', '2'], ['3']], victoryPoints: [4, 1] }),
+      game({ winnerSeat: 1, firstSeat: 1, playedCards: [['1'], ['1', '1']], victoryPoints: [0, 2] }),
+      game({ winnerSeat: null, playedCards: [['2'], []] }),
+      game({ endReason: 'turn_limit', winnerSeat: null, playedCards: [['1'], ['1']] })
+    ]);
+
+    expect(report).toMatchObject({ games: 4, decided: 2, draws: 1, unfinished: 1, firstPlayerWinRate: 1 });
+    expect(report.seats[0]).toMatchObject({ wins: 1, winRate: 0.5, averageVictoryPoints: 1 });
+
+    const card = (cardId: string) => report.cards.find(stats => stats.cardId === cardId)!;
+    // Card 1: played in 3 of 6 seat-games (win, loss, win) and held in the rest (loss, draw, draw)
+    expect(card('1')).toMatchObject({ gamesInDeck: 6, gamesPlayed: 3, timesPlayed: 4 });
+    expect(card('1').winRateWhenPlayed).toBeCloseTo(2 / 3);
+    expect(card('1').winRateContribution).toBeCloseTo(2 / 3 - 1 / 3);
+    expect(card('2')).toMatchObject({ winRateWhenPlayed: 0.75, winRateWhenNotPlayed: 0 });
+    expect(report.neverPlayedCards).toEqual([]);
+  });
+
+  it('should list never-played cards and write one CSV row per card', () => {
+    const report = simulator.buildReport(options(), [game({ playedCards: [['1'], []] })]);
+
+    expect(report.neverPlayedCards.map(card => card.cardId)).toEqual(['2', '3']);
+
+    const lines = simulator.toCardCsv(report).trim().split('\n');
+    expect(lines[0]).toBe('card_id,name,games_in_deck,games_played,times_played,win_rate_when_played,win_rate_when_not_played,win_rate_contribution');
+    expect(lines).toHaveLength(4);
+    expect(lines.find(line => line.startsWith('1,'))).toBe('1,"CARD_OAK_TREE",2,1,1,1.0000,0.0000,1.0000');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * FriendService Tests
+ *
+ * How friends-list rows are shown to the player looking at them, and requests, friendships and blocks
+ */
+
+import { FriendshipStatus, PresenceStatus } from '@kelseyabreu/shared';
+import { FriendRow, FriendService, toFriendEntry } from '../../services/FriendService';
+import { FakeDatabase } from '../helpers/fakeDatabase';
+
+const mockDatabase = new FakeDatabase();
+
+jest.mock('../../database/kysely', () => ({
+  get db() {
+    return mockDatabase.db;
+  }
+}));
+
+describe('FriendService', () => {
+  const row: FriendRow = {
+    requester_id: 'alice',
+    addressee_id: 'bob',
+    status: FriendshipStatus.ACCEPTED,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    user_id: 'bob',
+    username: 'bob',
+    display_name: 'Bob',
+    avatar_url: null
+  };
+
+  it('should show a friend with their presence and who asked first', () => {
+    expect(toFriendEntry(row, 'alice', PresenceStatus.IN_GAME)).toEqual({
+      userId: 'bob',
+      username: 'bob',
+      displayName: 'Bob',
+      avatarUrl: null,
+      status: FriendshipStatus.ACCEPTED,
+      direction: 'outgoing',
+      presence: PresenceStatus.IN_GAME,
+      since: row.created_at
+    });
+    expect(toFriendEntry({ ...row, user_id: 'alice', username: 'alice' }, 'bob', PresenceStatus.ONLINE).direction).toBe('incoming');
+  });
+
+  it('should hide presence from anyone who is not a friend yet', () => {
+    const pending = toFriendEntry({ ...row, status: FriendshipStatus.PENDING }, 'alice', PresenceStatus.ONLINE);
+    const blocked = toFriendEntry({ ...row, status: FriendshipStatus.BLOCKED }, 'alice', PresenceStatus.ONLINE);
+
+    expect(pending.presence).toBe(PresenceStatus.OFFLINE);
+    expect(blocked.presence).toBe(PresenceStatus.OFFLINE);
+  });
+
+  describe('Requests and blocks', () => {
+    const service = new FriendService();
+
+    const friendships = () => mockDatabase.table('friendships').map(row => [row['requester_id'], row['addressee_id'], row['status']]);
+
+    beforeEach(() => {
+      mockDatabase.reset();
+      mockDatabase.table('users').push(
+        ...['alice', 'bob', 'carol'].map(id => ({ id, is_active: true, is_banned: false })),
+        { id: 'banned', is_active: true, is_banned: true }
+      );
+    });
+
+    it('should send one pending request however often it is asked', async () => {
+      await expect(service.sendRequest('alice', 'bob')).resolves.toBe(FriendshipStatus.PENDING);
+      await expect(service.sendRequest('alice', 'bob')).resolves.toBe(FriendshipStatus.PENDING);
+
+      expect(friendships()).toEqual([['alice', 'bob', FriendshipStatus.PENDING]]);
+      await expect(service.areFriends('alice', 'bob')).resolves.toBe(false);
+    });
+
+    it('should refuse requests to yourself or to players who cannot be found', async () => {
+      await expect(service.sendRequest('alice', 'alice')).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_FRIEND' });
+      await expect(service.sendRequest('alice', 'nobody')).rejects.toMatchObject({ statusCode: 404, code: 'USER_NOT_FOUND' });
+      await expect(service.sendRequest('alice', 'banned')).rejects.toMatchObject({ statusCode: 404, code: 'USER_NOT_FOUND' });
+      expect(friendships()).toEqual([]);
+    });
+
+    it('should accept a request sent to you, but not one you sent', async () => {
+      await service.sendRequest('alice', 'bob');
+
+      await expect(service.acceptRequest('alice', 'bob')).rejects.toMatchObject({ statusCode: 404, code: 'FRIEND_REQUEST_NOT_FOUND' });
+      await service.acceptRequest('bob', 'alice');
+
+      expect(friendships()).toEqual([['alice', 'bob', FriendshipStatus.ACCEPTED]]);
+      await expect(service.areFriends('bob', 'alice')).resolves.toBe(true);
+      await expect(service.getFriendIds('bob')).resolves.toEqual(['alice']);
+      await expect(service.sendRequest('bob', 'alice')).rejects.toMatchObject({ statusCode: 409, code: 'ALREADY_FRIENDS' });
+    });
+
+    it('should accept their request when you ask someone who already asked you', async () => {
+      await service.sendRequest('alice', 'bob');
+
+      await expect(service.sendRequest('bob', 'alice')).resolves.toBe(FriendshipStatus.ACCEPTED);
+      expect(friendships()).toEqual([['alice', 'bob', FriendshipStatus.ACCEPTED]]);
+    });
+
+    it('should drop the friendship when a player blocks a friend and stop requests both ways', async () => {
+      await service.sendRequest('alice', 'bob');
+      await service.acceptRequest('bob', 'alice');
+      await service.sendRequest('alice', 'carol');
+
+      await service.blockUser('bob', 'alice');
+      await service.blockUser('bob', 'alice');
+
+      expect(friendships()).toEqual([
+        ['alice', 'carol', FriendshipStatus.PENDING],
+        ['bob', 'alice', FriendshipStatus.BLOCKED]
+      ]);
+      await expect(service.isBlocked('alice', 'bob')).resolves.toBe(true);
+      await expect(service.sendRequest('alice', 'bob')).rejects.toMatchObject({ statusCode: 403, code: 'FRIEND_REQUEST_BLOCKED' });
+      await expect(service.sendRequest('bob', 'alice')).rejects.toMatchObject({ statusCode: 403, code: 'FRIEND_REQUEST_BLOCKED' });
+      await expect(service.blockUser('bob', 'bob')).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_FRIEND' });
+    });
+  });
+});
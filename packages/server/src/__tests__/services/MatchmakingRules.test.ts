@@ -0,0 +1,152 @@
+/**
+ * MatchmakingRules Tests
+ *
+ * Rating windows, region and latency buckets, and keeping parties together
+ */
+
+import { MatchmakingPreferences, MatchmakingQueueEntry } from '@kelseyabreu/shared';
+import {
+  AI_FILL_SECONDS,
+  MAX_RATING_WINDOW,
+  areCompatible,
+  getLatencyBucket,
+  getRatingWindow,
+  selectMatch
+} from '../../services/MatchmakingRules';
+
+const NOW = 1_000_000_000;
+
+function entry(
+  playerId: string,
+  rating: number,
+  options: { deviation?: number; waitedSeconds?: number; preferences?: MatchmakingPreferences } = {}
+): MatchmakingQueueEntry {
+  return {
+    playerId,
+    gameMode: 'ranked_1v1',
+    rating,
+    ...(options.deviation !== undefined ? { deviation: options.deviation } : {}),
+    timestamp: NOW - (options.waitedSeconds ?? 0) * 1000,
+    preferences: options.preferences ?? {}
+  };
+}
+
+describe('MatchmakingRules', () => {
+  it('should widen the rating window for uncertain ratings and long waits', () => {
+    const settled = getRatingWindow(entry('alice', 1500, { deviation: 50 }), NOW);
+    const newcomer = getRatingWindow(entry('bob', 1500, { deviation: 350 }), NOW);
+    const patient = getRatingWindow(entry('carol', 1500, { deviation: 50, waitedSeconds: 60 }), NOW);
+
+    expect(newcomer).toBeGreaterThan(settled);
+    expect(patient).toBeGreaterThan(settled);
+    expect(getRatingWindow(entry('dave', 1500, { deviation: 350, waitedSeconds: 3600 }), NOW)).toBe(MAX_RATING_WINDOW);
+  });
+
+  it('should take both players\' windows into account', () => {
+    const settled = entry('alice', 1500, { deviation: 30 });
+
+    expect(areCompatible(settled, entry('bob', 1650, { deviation: 30 }), NOW)).toBe(false);
+    // The newcomer's uncertainty widens the shared window enough
+    expect(areCompatible(settled, entry('bob', 1650, { deviation: 350 }), NOW)).toBe(true);
+  });
+
+  it('should keep regions apart until players have waited a while', () => {
+    const eu = { regionPreference: 'eu' };
+    const na = { regionPreference: 'na' };
+
+    expect(areCompatible(entry('alice', 1500, { preferences: eu }), entry('bob', 1500, { preferences: na }), NOW)).toBe(false);
+    expect(areCompatible(
+      entry('alice', 1500, { preferences: eu, waitedSeconds: 90 }),
+      entry('bob', 1500, { preferences: na, waitedSeconds: 90 }),
+      NOW
+    )).toBe(true);
+  });
+
+  it('should bucket latency and only pair neighbouring buckets at first', () => {
+    expect(getLatencyBucket(40)).toBe('low');
+    expect(getLatencyBucket(120)).toBe('medium');
+    expect(getLatencyBucket(400)).toBe('high');
+
+    const low = { latencyBucket: 'low' as const };
+    const high = { latencyBucket: 'high' as const };
+    expect(areCompatible(entry('alice', 1500, { preferences: low }), entry('bob', 1500, { preferences: { latencyBucket: 'medium' } }), NOW)).toBe(true);
+    expect(areCompatible(entry('alice', 1500, { preferences: low }), entry('bob', 1500, { preferences: high }), NOW)).toBe(false);
+    expect(areCompatible(
+      entry('alice', 1500, { preferences: low, waitedSeconds: 120 }),
+      entry('bob', 1500, { preferences: high, waitedSeconds: 120 }),
+      NOW
+    )).toBe(true);
+  });
+
+  it('should pick the closest-rated opponent in range', () => {
+    const queue = [
+      entry('alice', 1500),
+      entry('bob', 1900),
+      entry('carol', 1560),
+      entry('dave', 1480)
+    ];
+
+    const match = selectMatch('alice', queue, 'ranked_1v1', 2, NOW);
+
+    expect(match!.players.map(player => player.playerId)).toEqual(['alice', 'dave']);
+    expect(match!.ratingSpread).toBe(20);
+    expect(selectMatch('alice', [entry('alice', 1500)], 'ranked_1v1', 2, NOW)).toBeNull();
+  });
+
+  it('should keep a 2v2 party on the same team and balance the solo players', () => {
+    const party = { partyId: 'party-1', partySize: 2 };
+    const queue = [
+      entry('alice', 1500, { preferences: party }),
+      entry('bob', 1520, { preferences: party }),
+      entry('carol', 1600),
+      entry('dave', 1420)
+    ].map(e => ({ ...e, gameMode: 'team_2v2' }));
+
+    const match = selectMatch('carol', queue, 'team_2v2', 4, NOW);
+    const teamOf = (id: string) => match!.players.find(player => player.playerId === id)!.team;
+
+    expect(match!.players).toHaveLength(4);
+    expect(teamOf('alice')).toBe(teamOf('bob'));
+    expect(teamOf('carol')).toBe(teamOf('dave'));
+    expect(teamOf('alice')).not.toBe(teamOf('carol'));
+  });
+
+  it('should wait for a whole party before matching it', () => {
+    const queue = [
+      entry('alice', 1500, { preferences: { partyId: 'party-1', partySize: 2 } }),
+      entry('carol', 1500),
+      entry('dave', 1500),
+      entry('erin', 1500)
+    ].map(e => ({ ...e, gameMode: 'team_2v2' }));
+
+    const match = selectMatch('carol', queue, 'team_2v2', 4, NOW);
+
+    expect(match).toBeNull();
+    expect(selectMatch('alice', queue, 'team_2v2', 4, NOW)).toBeNull();
+  });
+
+  it('should fill empty seats with AI once the requester has waited long enough', () => {
+    let aiCount = 0;
+    const createAIPlayerId = () => `ai-${++aiCount}`;
+    const fillSeconds = AI_FILL_SECONDS['ffa_4p']!;
+    const queue = (waitedSeconds: number) => [
+      entry('alice', 1500, { waitedSeconds }),
+      entry('bob', 1540, { waitedSeconds: 10 })
+    ].map(e => ({ ...e, gameMode: 'ffa_4p' }));
+
+    expect(selectMatch('alice', queue(fillSeconds - 1), 'ffa_4p', 4, NOW, createAIPlayerId)).toBeNull();
+    expect(selectMatch('alice', queue(fillSeconds), 'ffa_4p', 4, NOW)).toBeNull();
+
+    const match = selectMatch('alice', queue(fillSeconds), 'ffa_4p', 4, NOW, createAIPlayerId);
+
+    expect(match!.players).toEqual([
+      { playerId: 'alice', rating: 1500 },
+      { playerId: 'bob', rating: 1540 },
+      { playerId: 'ai-1', rating: 1500, isAI: true },
+      { playerId: 'ai-2', rating: 1500, isAI: true }
+    ]);
+    expect(match!.waitSeconds).toEqual([fillSeconds, 10]);
+    expect(match!.ratingSpread).toBe(40);
+    expect(selectMatch('alice', [entry('alice', 1500, { waitedSeconds: 3600 })], 'ranked_1v1', 2, NOW, createAIPlayerId)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * MatchmakingService Tests
+ *
+ * Wait-time estimates from the analytics of players near the requester's rating
+ */
+
+import { MatchmakingService } from '../../services/MatchmakingService';
+import { FakeDatabase } from '../helpers/fakeDatabase';
+
+const mockDatabase = new FakeDatabase();
+
+jest.mock('../../database/kysely', () => ({
+  get db() {
+    return mockDatabase.db;
+  },
+  get workerDb() {
+    return mockDatabase.db;
+  }
+}));
+
+const mockRedis = { zcard: jest.fn(), keys: jest.fn() };
+
+jest.mock('../../config/ioredis', () => ({
+  getIORedisClient: () => mockRedis,
+  isIORedisAvailable: () => true
+}));
+
+jest.mock('../../config/pubsub', () => ({
+  PUBSUB_TOPICS: {},
+  getPubSubClient: jest.fn(),
+  publishMessage: jest.fn()
+}));
+
+describe('MatchmakingService', () => {
+  const service = new MatchmakingService('test');
+
+  const analytics = (ratingBand: number | null, averageWaitSeconds: number, successfulMatches: number = 10) => ({
+    game_mode: 'ranked_1v1',
+    date: new Date(),
+    rating_band: ratingBand,
+    successful_matches: successfulMatches,
+    average_wait_time_seconds: averageWaitSeconds
+  });
+
+  beforeEach(() => {
+    mockDatabase.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockRedis.zcard.mockResolvedValue(0);
+
+    mockDatabase.table('matchmaking_analytics').push(
+      analytics(1000, 200),
+      analytics(1200, 100),
+      analytics(1500, 30),
+      analytics(2100, 400, 20)
+    );
+  });
+
+  it('should estimate from the waits of players near the rating', async () => {
+    await expect(service.getEstimatedWaitTime('ranked_1v1', 1520, 50)).resolves.toBe(30);
+    await expect(service.getEstimatedWaitTime('ranked_1v1', 1020, 50)).resolves.toBe(200);
+  });
+
+  it('should count more bands for an uncertain rating or a longer wait', async () => {
+    // A deviation of 350 reaches from the 700 band to the 1200 band
+    await expect(service.getEstimatedWaitTime('ranked_1v1', 1020, 350)).resolves.toBe(150);
+    // 60 seconds of waiting widens a settled player's window by as much
+    await expect(service.getEstimatedWaitTime('ranked_1v1', 1020, 50, 60)).resolves.toBe(90);
+  });
+
+  it('should fall back to the whole mode without history near the rating', async () => {
+    mockDatabase.table('matchmaking_analytics').push(analytics(null, 500));
+
+    // (200 + 100 + 30 + 500) * 10 + 400 * 20, over 60 matches
+    await expect(service.getEstimatedWaitTime('ranked_1v1', 3000, 50)).resolves.toBe(271);
+  });
+
+  it('should estimate queue stats for the player asking', async () => {
+    mockDatabase.table('player_ratings').push({ user_id: 'alice', game_mode: 'ranked_1v1', rating: 1520, deviation: 50 });
+    mockDatabase.table('users').push({ id: 'bob', current_rating: 2150 });
+
+    const aliceStats = await service.getQueueStats('alice', 'ranked_1v1');
+    const bobStats = await service.getQueueStats('bob', 'ranked_1v1');
+
+    expect(aliceStats['ranked_1v1'].avgWaitTime).toBe(30);
+    // Bob has no ranked rating yet, so his profile rating and a new player's deviation are used
+    expect(bobStats['ranked_1v1'].avgWaitTime).toBe(400);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * PresenceService Tests
+ *
+ * Presence follows a player's sockets, and only changes are reported
+ */
+
+import { PresenceStatus } from '@kelseyabreu/shared';
+import { PresenceService } from '../../services/PresenceService';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+
+  beforeEach(() => {
+    service = new PresenceService();
+  });
+
+  it('should stay online until the last socket disconnects', () => {
+    expect(service.getPresence('alice')).toBe(PresenceStatus.OFFLINE);
+    expect(service.connect('alice', 'socket-1')).toBe(PresenceStatus.ONLINE);
+    expect(service.connect('alice', 'socket-2')).toBeNull();
+
+    expect(service.disconnect('alice', 'socket-1')).toBeNull();
+    expect(service.getPresence('alice')).toBe(PresenceStatus.ONLINE);
+    expect(service.disconnect('alice', 'socket-2')).toBe(PresenceStatus.OFFLINE);
+  });
+
+  it('should show players in a game while any of their sockets is in one', () => {
+    service.connect('alice', 'socket-1');
+    service.connect('alice', 'socket-2');
+
+    expect(service.enterGame('alice', 'socket-1', 'session-1')).toBe(PresenceStatus.IN_GAME);
+    expect(service.leaveGame('alice', 'socket-2')).toBeNull();
+    expect(service.leaveGame('alice', 'socket-1')).toBe(PresenceStatus.ONLINE);
+  });
+
+  it('should bring everyone in a finished session back online', () => {
+    service.enterGame('alice', 'socket-1', 'session-1');
+    service.enterGame('bob', 'socket-2', 'session-1');
+    service.enterGame('carol', 'socket-3', 'session-2');
+
+    expect(service.clearSession('session-1')).toEqual([
+      { userId: 'alice', presence: PresenceStatus.ONLINE },
+      { userId: 'bob', presence: PresenceStatus.ONLINE }
+    ]);
+    expect(service.getPresence('carol')).toBe(PresenceStatus.IN_GAME);
+  });
+});
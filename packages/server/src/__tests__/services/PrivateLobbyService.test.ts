@@ -0,0 +1,163 @@
+/**
+ * PrivateLobbyService Tests
+ *
+ * Join codes, host settings and lobby summaries for private lobbies, and taking seats and readying up in one
+ */
+
+import { DeckFormat } from '@kelseyabreu/shared';
+import {
+  DEFAULT_LOBBY_SETTINGS,
+  JOIN_CODE_LENGTH,
+  LobbyPlayer,
+  PrivateLobbyService,
+  generateJoinCode,
+  getLobbySettings,
+  normalizeJoinCode,
+  toLobbySummary
+} from '../../services/PrivateLobbyService';
+import type { GameSession } from '../../database/types';
+import { FakeDatabase } from '../helpers/fakeDatabase';
+
+const mockDatabase = new FakeDatabase();
+
+jest.mock('../../database/kysely', () => ({
+  get db() {
+    return mockDatabase.db;
+  }
+}));
+
+describe('PrivateLobbyService', () => {
+  it('should generate join codes without look-alike characters', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateJoinCode();
+      expect(code).toHaveLength(JOIN_CODE_LENGTH);
+      expect(code).toMatch(/^[A-HJ-NP-Z2-9]+$/);
+    }
+  });
+
+  it('should accept join codes typed loosely', () => {
+    expect(normalizeJoinCode(' ab3-k9x ')).toBe('AB3K9X');
+  });
+
+  it('should fill unset host settings from the defaults', () => {
+    const settings = getLobbySettings({ gridWidth: 12, deckFormat: DeckFormat.PRECONSTRUCTED });
+
+    expect(settings).toEqual({
+      ...DEFAULT_LOBBY_SETTINGS,
+      gridWidth: 12,
+      deckFormat: DeckFormat.PRECONSTRUCTED
+    });
+    expect(getLobbySettings(null)).toEqual(DEFAULT_LOBBY_SETTINGS);
+  });
+
+  it('should summarize a lobby without exposing deck choices', () => {
+    const session = {
+      id: 'session-1',
+      host_user_id: 'alice',
+      game_mode: 'team_2v2',
+      max_players: 4,
+      status: 'waiting',
+      join_code: 'AB3K9X',
+      players: JSON.stringify([
+        { playerId: 'alice', id: 'alice', name: 'Alice', ready: true, team: 'team1', selectedDeckId: 'deck-1' },
+        { playerId: 'bob', id: 'bob', name: 'Bob', ready: false, team: 'team2' }
+      ]),
+      settings: { turnTimeLimit: 120 }
+    } as unknown as GameSession;
+
+    const lobby = toLobbySummary(session);
+
+    expect(lobby.joinCode).toBe('AB3K9X');
+    expect(lobby.players).toEqual([
+      { playerId: 'alice', name: 'Alice', ready: true, team: 'team1' },
+      { playerId: 'bob', name: 'Bob', ready: false, team: 'team2' }
+    ]);
+    expect(lobby.settings.turnTimeLimit).toBe(120);
+    expect(lobby.settings.deckFormat).toBe(DeckFormat.OPEN);
+  });
+
+  describe('Seats and ready checks', () => {
+    const service = new PrivateLobbyService();
+
+    const openLobby = (gameMode: string, players: LobbyPlayer[]) => {
+      mockDatabase.table('game_sessions').push({
+        id: 'session-1',
+        host_user_id: 'alice',
+        game_mode: gameMode,
+        max_players: gameMode === 'team_2v2' ? 4 : 2,
+        current_players: players.length,
+        status: 'waiting',
+        join_code: 'AB3K9X',
+        players: JSON.stringify(players),
+        game_state: { gamePhase: 'lobby', players },
+        settings: {}
+      });
+    };
+
+    const seat = (playerId: string, team?: string): LobbyPlayer => ({
+      playerId,
+      id: playerId,
+      name: playerId,
+      ready: false,
+      ...(team ? { team } : {})
+    });
+
+    const storedSession = () => mockDatabase.table('game_sessions')[0]!;
+
+    beforeEach(() => {
+      mockDatabase.reset();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should seat a newcomer on the team with fewer players', async () => {
+      openLobby('team_2v2', [seat('alice', 'team1'), seat('bob', 'team2'), seat('carol', 'team1')]);
+
+      const lobby = await service.joinLobby('ab3-k9x', { id: 'dave', name: 'Dave' });
+
+      expect(lobby.players.map(player => [player.playerId, player.team])).toEqual([
+        ['alice', 'team1'], ['bob', 'team2'], ['carol', 'team1'], ['dave', 'team2']
+      ]);
+      expect(storedSession()['current_players']).toBe(4);
+      expect((storedSession()['game_state'] as { players: LobbyPlayer[] }).players).toHaveLength(4);
+    });
+
+    it('should let a player rejoin a lobby they are already in without taking a second seat', async () => {
+      openLobby('casual_1v1', [seat('alice'), seat('bob')]);
+
+      const lobby = await service.joinLobby('AB3K9X', { id: 'bob', name: 'Bob' });
+
+      expect(lobby.players).toHaveLength(2);
+      expect(mockDatabase.queriesStartingWith('update')).toHaveLength(0);
+    });
+
+    it('should turn players away from a full or unknown lobby', async () => {
+      openLobby('casual_1v1', [seat('alice'), seat('bob')]);
+
+      await expect(service.joinLobby('AB3K9X', { id: 'carol', name: 'Carol' })).rejects.toMatchObject({ statusCode: 409, code: 'LOBBY_FULL' });
+      await expect(service.joinLobby('ZZZZZZ', { id: 'carol', name: 'Carol' })).rejects.toMatchObject({ statusCode: 404, code: 'LOBBY_NOT_FOUND' });
+    });
+
+    it('should not let a player ready up without a deck', async () => {
+      openLobby('casual_1v1', [seat('alice'), seat('bob')]);
+
+      await expect(service.setReady('session-1', 'alice', true)).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_DECK' });
+      await expect(service.setReady('session-1', 'carol', false)).rejects.toMatchObject({ statusCode: 403, code: 'NOT_IN_LOBBY' });
+    });
+
+    it('should only start once every seat is filled and ready', async () => {
+      jest.spyOn(service, 'checkDeck').mockResolvedValue(null);
+      openLobby('casual_1v1', [seat('alice')]);
+
+      const alone = await service.setReady('session-1', 'alice', true, 'deck-1');
+      expect(alone.canStart).toBe(false);
+      expect(alone.lobby.players[0]!.ready).toBe(true);
+
+      await service.joinLobby('AB3K9X', { id: 'bob', name: 'Bob' });
+      expect((await service.setReady('session-1', 'bob', true, 'deck-2')).canStart).toBe(true);
+      expect((await service.setReady('session-1', 'alice', false)).canStart).toBe(false);
+
+      const players = JSON.parse(storedSession()['players'] as string) as LobbyPlayer[];
+      expect(players.map(player => [player.ready, player.selectedDeckId])).toEqual([[false, null], [true, 'deck-2']]);
+    });
+  });
+});
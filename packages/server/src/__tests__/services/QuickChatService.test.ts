@@ -0,0 +1,63 @@
+/**
+ * QuickChatService Tests
+ *
+ * Only the fixed quick-chat options get through, and only a few at a time
+ */
+
+import { UITextId } from '@kelseyabreu/shared';
+import {
+  QUICK_CHAT_BURST,
+  QUICK_CHAT_MIN_GAP_MS,
+  QUICK_CHAT_WINDOW_MS,
+  QuickChatService
+} from '../../services/QuickChatService';
+
+describe('QuickChatService', () => {
+  let service: QuickChatService;
+
+  beforeEach(() => {
+    service = new QuickChatService();
+  });
+
+  it('should pass on a quick-chat line with its kind', () => {
+    const result = service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_GOOD_LUCK, 1000);
+
+    expect(result).toEqual({
+      accepted: true,
+      message: {
+        sessionId: 'session-1',
+        playerId: 'alice',
+        textId: UITextId.UI_QUICK_CHAT_GOOD_LUCK,
+        kind: 'message',
+        sentAt: 1000
+      }
+    });
+    expect(service.send('session-1', 'alice', UITextId.UI_EMOTE_PAW, 3000)).toEqual(
+      expect.objectContaining({ accepted: true, message: expect.objectContaining({ kind: 'emote' }) })
+    );
+  });
+
+  it('should refuse anything that is not one of the fixed options', () => {
+    expect(service.send('session-1', 'alice', 'you are bad at this', 1000)).toEqual({ accepted: false, reason: 'invalid_message' });
+    expect(service.send('session-1', 'alice', UITextId.UI_SPECTATE, 1000)).toEqual({ accepted: false, reason: 'invalid_message' });
+  });
+
+  it('should make players wait between messages and cap each burst', () => {
+    expect(service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_HELLO, 0).accepted).toBe(true);
+    expect(service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_HELLO, 200)).toEqual({
+      accepted: false,
+      reason: 'rate_limited',
+      retryAfterMs: QUICK_CHAT_MIN_GAP_MS - 200
+    });
+
+    for (let i = 1; i < QUICK_CHAT_BURST; i++) {
+      expect(service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_HELLO, i * QUICK_CHAT_MIN_GAP_MS).accepted).toBe(true);
+    }
+    const flooded = service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_HELLO, QUICK_CHAT_BURST * QUICK_CHAT_MIN_GAP_MS);
+    expect(flooded.accepted).toBe(false);
+
+    // The other player is limited separately, and the window frees up again
+    expect(service.send('session-1', 'bob', UITextId.UI_QUICK_CHAT_HELLO, QUICK_CHAT_BURST * QUICK_CHAT_MIN_GAP_MS).accepted).toBe(true);
+    expect(service.send('session-1', 'alice', UITextId.UI_QUICK_CHAT_HELLO, QUICK_CHAT_WINDOW_MS).accepted).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * RatingService Tests
+ *
+ * Glicko-2 calculations behind server-side match ratings, and recording a finished session's results
+ */
+
+import {
+  CompiledQuery,
+  DatabaseConnection,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  QueryResult
+} from 'kysely';
+import {
+  DEFAULT_GLICKO2_RATING,
+  RatingService,
+  calculateMatchRatings,
+  updateGlicko2
+} from '../../services/RatingService';
+import { Database } from '../../database/types';
+
+// Rows the fake database answers selects with, by table; every query it runs is kept
+const mockRows = new Map<string, unknown[]>();
+const mockQueries: string[] = [];
+
+const mockConnection: DatabaseConnection = {
+  async executeQuery<R>(query: CompiledQuery): Promise<QueryResult<R>> {
+    mockQueries.push(query.sql);
+    const table = /^select .* from "(\w+)"/.exec(query.sql)?.[1];
+    return { rows: (table ? mockRows.get(table) ?? [] : []) as R[] };
+  },
+  streamQuery() {
+    throw new Error('Not used');
+  }
+};
+
+// A real query builder over a connection that never leaves the process
+const mockDb = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => ({
+      init: async () => {},
+      acquireConnection: async () => mockConnection,
+      beginTransaction: async () => {},
+      commitTransaction: async () => {},
+      rollbackTransaction: async () => {},
+      releaseConnection: async () => {},
+      destroy: async () => {}
+    }),
+    createIntrospector: kysely => new PostgresIntrospector(kysely),
+    createQueryCompiler: () => new PostgresQueryCompiler()
+  }
+});
+
+jest.mock('../../database/kysely', () => ({
+  get db() {
+    return mockDb;
+  }
+}));
+
+describe('RatingService', () => {
+  describe('Glicko-2', () => {
+    it('should match the worked example from Glickman\'s paper', () => {
+      // Ratings are shifted by the paper's 1500 centre; Glicko-2 only depends on differences
+      const shift = DEFAULT_GLICKO2_RATING.rating - 1500;
+      const result = updateGlicko2(
+        { rating: 1500 + shift, deviation: 200, volatility: 0.06 },
+        [
+          { opponent: { rating: 1400 + shift, deviation: 30, volatility: 0.06 }, score: 1 },
+          { opponent: { rating: 1550 + shift, deviation: 100, volatility: 0.06 }, score: 0 },
+          { opponent: { rating: 1700 + shift, deviation: 300, volatility: 0.06 }, score: 0 }
+        ]
+      );
+
+      expect(result.rating - shift).toBeCloseTo(1464.06, 1);
+      expect(result.deviation).toBeCloseTo(151.52, 1);
+      expect(result.volatility).toBeCloseTo(0.05999, 4);
+    });
+
+    it('should only widen the deviation of a player with no games', () => {
+      const player = { rating: 1200, deviation: 50, volatility: 0.06 };
+
+      const result = updateGlicko2(player, []);
+
+      expect(result.rating).toBe(1200);
+      expect(result.deviation).toBeGreaterThan(50);
+      expect(result.volatility).toBe(0.06);
+    });
+
+    it('should never widen the deviation past a new player\'s', () => {
+      expect(updateGlicko2({ ...DEFAULT_GLICKO2_RATING }, []).deviation).toBe(DEFAULT_GLICKO2_RATING.deviation);
+    });
+  });
+
+  describe('Match ratings', () => {
+    const alice = { playerId: 'alice', rating: { ...DEFAULT_GLICKO2_RATING } };
+    const bob = { playerId: 'bob', rating: { ...DEFAULT_GLICKO2_RATING } };
+
+    it('should move the winner up and the loser down by the same amount when evenly matched', () => {
+      const [aliceChange, bobChange] = calculateMatchRatings([alice, bob], 'alice');
+
+      expect(aliceChange!.result).toBe('win');
+      expect(bobChange!.result).toBe('loss');
+      expect(aliceChange!.after.rating).toBeGreaterThan(alice.rating.rating);
+      expect(aliceChange!.after.rating - alice.rating.rating).toBeCloseTo(bob.rating.rating - bobChange!.after.rating, 6);
+      expect(aliceChange!.after.deviation).toBeLessThan(alice.rating.deviation);
+    });
+
+    it('should move a certain player less than an uncertain one', () => {
+      const veteran = { playerId: 'veteran', rating: { rating: 1000, deviation: 60, volatility: 0.06 } };
+
+      const [veteranChange, bobChange] = calculateMatchRatings([veteran, bob], 'veteran');
+
+      expect(veteranChange!.after.rating - 1000).toBeLessThan(1000 - bobChange!.after.rating);
+    });
+
+    it('should leave evenly matched players level after a draw', () => {
+      const changes = calculateMatchRatings([alice, bob], null);
+
+      changes.forEach(change => {
+        expect(change.result).toBe('draw');
+        expect(change.after.rating).toBeCloseTo(DEFAULT_GLICKO2_RATING.rating, 6);
+      });
+    });
+
+    it('should record a forfeit as the forfeiting player\'s loss', () => {
+      const [aliceChange, bobChange] = calculateMatchRatings([alice, bob], 'alice', 'bob');
+
+      expect(aliceChange!.result).toBe('win');
+      expect(bobChange!.result).toBe('forfeit');
+      expect(bobChange!.after.rating).toBeLessThan(bob.rating.rating);
+    });
+
+    it('should rate a free-for-all winner against every other player', () => {
+      const carol = { playerId: 'carol', rating: { ...DEFAULT_GLICKO2_RATING } };
+
+      const twoPlayer = calculateMatchRatings([alice, bob], 'alice');
+      const threePlayer = calculateMatchRatings([alice, bob, carol], 'alice');
+
+      expect(threePlayer[0]!.after.rating).toBeGreaterThan(twoPlayer[0]!.after.rating);
+      expect(threePlayer[1]!.after.rating).toBeCloseTo(twoPlayer[1]!.after.rating, 6);
+    });
+
+    it('should rate a team win for both teammates against the other team only', () => {
+      const teamPlayers = [
+        { ...alice, teamId: 'team1' },
+        { playerId: 'carol', rating: { ...DEFAULT_GLICKO2_RATING }, teamId: 'team1' },
+        { ...bob, teamId: 'team2' },
+        { playerId: 'dave', rating: { ...DEFAULT_GLICKO2_RATING }, teamId: 'team2' }
+      ];
+
+      const changes = calculateMatchRatings(teamPlayers, 'alice', 'dave');
+
+      expect(changes.map(change => change.result)).toEqual(['win', 'win', 'loss', 'forfeit']);
+      expect(changes.map(change => change.teamId)).toEqual(['team1', 'team1', 'team2', 'team2']);
+      expect(changes[1]!.after.rating).toBeCloseTo(changes[0]!.after.rating, 6);
+      expect(changes[2]!.after.rating).toBeLessThan(DEFAULT_GLICKO2_RATING.rating);
+    });
+  });
+
+  describe('Recording results', () => {
+    const service = new RatingService();
+
+    const startSession = (gameMode: string, players: { playerId: string; team?: string; isAI?: boolean }[]) => {
+      mockRows.set('game_sessions', [{ game_mode: gameMode, players, created_at: new Date() }]);
+      mockRows.set('users', players.filter(player => !player.isAI).map(player => ({ id: player.playerId })));
+    };
+
+    const endData = (winner: string) => ({
+      isGameEnded: true,
+      winner,
+      finalScores: [{ playerId: winner, playerName: winner, victoryPoints: 3, deckCount: 0, handCount: 0, energy: 0, cardsPlayed: 5, isWinner: true }]
+    });
+
+    const insertsInto = (table: string) => mockQueries.filter(query => query.startsWith(`insert into "${table}"`));
+
+    beforeEach(() => {
+      mockRows.clear();
+      mockQueries.length = 0;
+    });
+
+    it('should rate both players of a 1v1 against each other', async () => {
+      startSession('ranked_1v1', [{ playerId: 'alice' }, { playerId: 'bob' }]);
+
+      const changes = await service.recordMatchResult('session-1', endData('alice'));
+
+      expect(changes.map(change => change.result)).toEqual(['win', 'loss']);
+      expect(insertsInto('match_results')).toHaveLength(2);
+    });
+
+    it('should not rate teammates whose only opponents were AI seats', async () => {
+      startSession('team_2v2', [
+        { playerId: 'alice', team: 'team1' },
+        { playerId: 'carol', team: 'team1' },
+        { playerId: 'ai-1', team: 'team2', isAI: true },
+        { playerId: 'ai-2', team: 'team2', isAI: true }
+      ]);
+
+      await expect(service.recordMatchResult('session-2', endData('ai-1'))).resolves.toEqual([]);
+      expect(insertsInto('match_results')).toHaveLength(0);
+      expect(insertsInto('player_ratings')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * ReconnectGraceService Tests
+ *
+ * Holding a dropped player's seat until they reconnect or the window runs out
+ */
+
+import { ReconnectGraceService, getReconnectGraceMs } from '../../services/ReconnectGraceService';
+
+describe('ReconnectGraceService', () => {
+  let service: ReconnectGraceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    delete process.env['RECONNECT_GRACE_SECONDS'];
+    service = new ReconnectGraceService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env['RECONNECT_GRACE_SECONDS'];
+  });
+
+  it('should read the grace window from the environment', () => {
+    expect(getReconnectGraceMs()).toBe(60000);
+
+    process.env['RECONNECT_GRACE_SECONDS'] = '15';
+    expect(getReconnectGraceMs()).toBe(15000);
+  });
+
+  it('should expire a player who does not come back in time', async () => {
+    const onExpire = jest.fn();
+    service.startGrace('session-1', 'alice', onExpire, 10000);
+
+    jest.advanceTimersByTime(9999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    await Promise.resolve();
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-1', playerId: 'alice' }));
+    expect(service.getDisconnectedPlayers('session-1')).toHaveLength(0);
+  });
+
+  it('should keep the seat when the player reconnects within the window', () => {
+    const onExpire = jest.fn();
+    service.startGrace('session-1', 'alice', onExpire, 10000);
+
+    jest.advanceTimersByTime(5000);
+    expect(service.endGrace('session-1', 'alice')?.playerId).toBe('alice');
+
+    jest.advanceTimersByTime(10000);
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(service.endGrace('session-1', 'alice')).toBeNull();
+  });
+
+  it('should not extend the deadline when the player drops again mid-window', () => {
+    const first = service.startGrace('session-1', 'alice', jest.fn(), 10000);
+    jest.advanceTimersByTime(4000);
+    const second = service.startGrace('session-1', 'alice', jest.fn(), 10000);
+
+    expect(second.reconnectDeadline).toBe(first.reconnectDeadline);
+  });
+
+  it('should cancel every window when the session ends', () => {
+    const onExpire = jest.fn();
+    service.startGrace('session-1', 'alice', onExpire, 10000);
+    service.startGrace('session-1', 'bob', onExpire, 10000);
+    service.startGrace('session-2', 'carol', onExpire, 10000);
+
+    service.clearSession('session-1');
+    jest.advanceTimersByTime(10000);
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-2' }));
+  });
+});
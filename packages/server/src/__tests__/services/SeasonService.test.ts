@@ -0,0 +1,205 @@
+/**
+ * SeasonService Tests
+ *
+ * Tiers, placement matches and the soft reset between seasons, and closing a season
+ */
+
+import { SeasonTier } from '@kelseyabreu/shared';
+import {
+  PLACEMENT_GAMES,
+  SEASON_REWARDS,
+  SEASON_START_DEVIATION,
+  SOFT_RESET_ANCHOR,
+  SOFT_RESET_FACTOR,
+  SeasonService,
+  getTier,
+  getTierRank,
+  softResetRating,
+  toSeasonStanding
+} from '../../services/SeasonService';
+import { redemptionService } from '../../services/redemptionService';
+import { FakeDatabase } from '../helpers/fakeDatabase';
+
+const mockDatabase = new FakeDatabase();
+
+jest.mock('../../database/kysely', () => ({
+  get db() {
+    return mockDatabase.db;
+  }
+}));
+
+jest.mock('../../services/redemptionService', () => ({
+  redemptionService: {
+    redeemSeasonRewards: jest.fn()
+  }
+}));
+
+describe('SeasonService', () => {
+  it('should climb the biome tiers with rating', () => {
+    expect(getTier(700)).toBe(SeasonTier.TUNDRA);
+    expect(getTier(1000)).toBe(SeasonTier.DESERT);
+    expect(getTier(1400)).toBe(SeasonTier.TEMPERATE_FOREST);
+    expect(getTier(2400)).toBe(SeasonTier.RAINFOREST);
+    expect(getTierRank(SeasonTier.RAINFOREST)).toBeGreaterThan(getTierRank(SeasonTier.TUNDRA));
+    expect(getTierRank(SeasonTier.TUNDRA)).toBeGreaterThan(getTierRank(SeasonTier.UNRANKED));
+  });
+
+  it('should keep players unranked until their placement games are done', () => {
+    expect(getTier(1900, PLACEMENT_GAMES - 1)).toBe(SeasonTier.UNRANKED);
+    expect(getTier(1900, PLACEMENT_GAMES)).toBe(SeasonTier.RAINFOREST);
+    expect(SEASON_REWARDS[SeasonTier.UNRANKED]).toEqual([]);
+  });
+
+  it('should pull ratings halfway back and make them uncertain again', () => {
+    const strong = softResetRating({ rating: 1800, deviation: 60, volatility: 0.05 });
+    const weak = softResetRating({ rating: 800, deviation: 300, volatility: 0.07 });
+
+    expect(strong).toEqual({ rating: 1400, deviation: SEASON_START_DEVIATION, volatility: 0.05 });
+    expect(weak.rating).toBe(900);
+    expect(weak.deviation).toBe(300);
+  });
+
+  it('should report a standing with its placements and final tier', () => {
+    const row = {
+      season_id: 2,
+      user_id: 'alice',
+      game_mode: 'ranked_1v1',
+      rating: 1612.4,
+      peak_rating: 1650.9,
+      games_played: 3,
+      games_won: 2,
+      final_tier: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    expect(toSeasonStanding(row)).toEqual({
+      seasonId: 2,
+      gameMode: 'ranked_1v1',
+      rating: 1612,
+      peakRating: 1651,
+      tier: SeasonTier.UNRANKED,
+      gamesPlayed: 3,
+      gamesWon: 2,
+      placementGamesRemaining: PLACEMENT_GAMES - 3
+    });
+    expect(toSeasonStanding({ ...row, games_played: 12, final_tier: SeasonTier.TAIGA }).tier).toBe(SeasonTier.TAIGA);
+  });
+
+  describe('Closing a season', () => {
+    const service = new SeasonService();
+    const redeemSeasonRewards = redemptionService.redeemSeasonRewards as jest.Mock;
+
+    const standing = (userId: string, gameMode: string, rating: number, gamesPlayed: number) => ({
+      season_id: 1,
+      user_id: userId,
+      game_mode: gameMode,
+      rating,
+      peak_rating: rating,
+      games_played: gamesPlayed,
+      games_won: 0,
+      final_tier: null
+    });
+
+    const finalTiers = () => Object.fromEntries(
+      mockDatabase.table('season_ratings').map(row => [`${row['user_id']}:${row['game_mode']}`, row['final_tier']])
+    );
+
+    beforeEach(() => {
+      mockDatabase.reset();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      redeemSeasonRewards.mockResolvedValue({ success: true });
+
+      mockDatabase.table('ranked_seasons').push({
+        id: 1,
+        name: 'Season 1',
+        starts_at: new Date('2026-01-01T00:00:00Z'),
+        ends_at: new Date('2026-04-01T00:00:00Z'),
+        ended_at: null,
+        rewards_granted_at: null
+      });
+      mockDatabase.table('season_ratings').push(
+        standing('alice', 'ranked_1v1', 1850, 20),
+        standing('alice', 'team_2v2', 1300, 8),
+        standing('bob', 'ranked_1v1', 1950, PLACEMENT_GAMES - 1),
+        standing('carol', 'ranked_1v1', 700, PLACEMENT_GAMES)
+      );
+    });
+
+    it('should fix every final tier and leave players still in placements unranked', async () => {
+      const closed = await service.endSeason();
+
+      expect(closed!.id).toBe(1);
+      expect(finalTiers()).toEqual({
+        'alice:ranked_1v1': SeasonTier.RAINFOREST,
+        'alice:team_2v2': SeasonTier.TAIGA,
+        'bob:ranked_1v1': SeasonTier.UNRANKED,
+        'carol:ranked_1v1': SeasonTier.TUNDRA
+      });
+    });
+
+    it('should softly reset live ratings and open the next season', async () => {
+      await service.endSeason();
+
+      const [reset] = mockDatabase.queriesStartingWith('update "player_ratings"');
+      expect(reset!.parameters.slice(0, 4)).toEqual([SOFT_RESET_ANCHOR, SOFT_RESET_ANCHOR, SOFT_RESET_FACTOR, SEASON_START_DEVIATION]);
+
+      const [season1, season2] = mockDatabase.table('ranked_seasons');
+      expect(season1!['ended_at']).toBeInstanceOf(Date);
+      expect(season2).toEqual(expect.objectContaining({ id: 2, name: 'Season 2', starts_at: season1!['ended_at'] }));
+    });
+
+    it('should reward each ranked player once, by the best tier they reached', async () => {
+      await service.endSeason();
+
+      expect(redeemSeasonRewards).toHaveBeenCalledTimes(2);
+      expect(redeemSeasonRewards).toHaveBeenCalledWith('alice', 1, SeasonTier.RAINFOREST, SEASON_REWARDS[SeasonTier.RAINFOREST]);
+      expect(redeemSeasonRewards).toHaveBeenCalledWith('carol', 1, SeasonTier.TUNDRA, SEASON_REWARDS[SeasonTier.TUNDRA]);
+      expect(mockDatabase.table('ranked_seasons')[0]!['rewards_granted_at']).toBeInstanceOf(Date);
+    });
+
+    it('should leave a season running until it ends unless forced', async () => {
+      mockDatabase.table('ranked_seasons')[0]!['ends_at'] = new Date(Date.now() + 60 * 60 * 1000);
+
+      await expect(service.endSeason()).resolves.toBeNull();
+      expect(mockDatabase.queriesStartingWith('update')).toHaveLength(0);
+      expect(redeemSeasonRewards).not.toHaveBeenCalled();
+
+      await expect(service.endSeason(true)).resolves.toEqual(expect.objectContaining({ id: 1 }));
+    });
+
+    it('should close the season on schedule once its end date passes', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-31T23:40:00Z'), doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+      const seasons = mockDatabase.table('ranked_seasons');
+
+      try {
+        service.startSeasonSchedule(15 * 60 * 1000);
+        await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+        expect(seasons[0]!['ended_at']).toBeNull();
+
+        await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+        expect(seasons[0]!['ended_at']).toEqual(new Date('2026-04-01T00:10:00Z'));
+        expect(seasons[0]!['rewards_granted_at']).toBeInstanceOf(Date);
+        expect(redeemSeasonRewards).toHaveBeenCalledTimes(2);
+
+        // The next season runs its full length
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+        expect(seasons).toHaveLength(2);
+        expect(seasons[1]!['ended_at']).toBeUndefined();
+      } finally {
+        service.stopSeasonSchedule();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should finish granting the rewards of a season closed without them', async () => {
+      mockDatabase.table('ranked_seasons')[0]!['ended_at'] = new Date('2026-04-01T00:00:00Z');
+      mockDatabase.table('season_ratings').forEach(row => { row['final_tier'] = SeasonTier.TUNDRA; });
+
+      await expect(service.checkSeasonEnd()).resolves.toBeNull();
+
+      expect(redeemSeasonRewards).toHaveBeenCalledTimes(3);
+      expect(mockDatabase.table('ranked_seasons')[0]!['rewards_granted_at']).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * SpectatorService Tests
+ *
+ * Live and delayed relays of match states to spectators, and what those states show
+ */
+
+import type { Server as SocketIOServer } from 'socket.io';
+import { SpectatorFrame, SpectatorService, getSpectatorDelayMs, getSpectatorRoom } from '../../services/SpectatorService';
+import { getSpectatorView } from '../../websocket/gameSocket';
+
+// The spectator view never touches the database
+jest.mock('../../database/kysely', () => ({
+  db: {}
+}));
+
+describe('SpectatorService', () => {
+  let service: SpectatorService;
+  let emitted: { room: string; event: string; payload: ReturnType<SpectatorService['toUpdate']> }[];
+  let io: SocketIOServer;
+
+  const frame = (overrides: Partial<SpectatorFrame> = {}): SpectatorFrame => ({
+    sessionId: 'session-1',
+    gameMode: 'casual_1v1',
+    status: 'playing',
+    stateVersion: 1,
+    gameState: { engineState: { turnNumber: 1 } },
+    publishedAt: Date.now(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    delete process.env['SPECTATOR_DELAY_SECONDS'];
+    service = new SpectatorService();
+    emitted = [];
+    io = {
+      to: (room: string) => ({
+        emit: (event: string, payload: ReturnType<SpectatorService['toUpdate']>) => {
+          emitted.push({ room, event, payload });
+          return true;
+        }
+      })
+    } as unknown as SocketIOServer;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env['SPECTATOR_DELAY_SECONDS'];
+  });
+
+  it('should only delay ranked matches', () => {
+    expect(getSpectatorDelayMs('casual_1v1')).toBe(0);
+    expect(getSpectatorDelayMs('ranked_1v1')).toBe(30000);
+
+    process.env['SPECTATOR_DELAY_SECONDS'] = '0';
+    expect(getSpectatorDelayMs('ranked_1v1')).toBe(0);
+  });
+
+  it('should send casual states to spectators straight away', () => {
+    service.publish(io, frame());
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0]!.room).toBe(getSpectatorRoom('session-1'));
+    expect(emitted[0]!.event).toBe('spectator_game_state');
+    expect(emitted[0]!.payload.data.stateVersion).toBe(1);
+    expect(emitted[0]!.payload.data.delaySeconds).toBe(0);
+  });
+
+  it('should hold ranked states back until the delay has passed', () => {
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 1 }));
+    jest.advanceTimersByTime(10000);
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 2 }));
+
+    jest.advanceTimersByTime(19999);
+    expect(emitted).toHaveLength(0);
+
+    jest.advanceTimersByTime(1);
+    expect(emitted.map(update => update.payload.data.stateVersion)).toEqual([1]);
+
+    jest.advanceTimersByTime(10000);
+    expect(emitted.map(update => update.payload.data.stateVersion)).toEqual([1, 2]);
+  });
+
+  it('should start new spectators from the latest state that cleared the delay', () => {
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 1 }));
+    expect(service.getVisibleFrame('session-1', 'ranked_1v1')).toBeNull();
+
+    jest.advanceTimersByTime(20000);
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 2 }));
+    jest.advanceTimersByTime(10000);
+
+    expect(service.getVisibleFrame('session-1', 'ranked_1v1')?.stateVersion).toBe(1);
+    expect(service.getVisibleFrame('session-1', 'ranked_1v1', Date.now() + 20000)?.stateVersion).toBe(2);
+  });
+
+  it('should forget a session once its final state is sent', () => {
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 1 }));
+    service.publish(io, frame({ gameMode: 'ranked_1v1', stateVersion: 2, status: 'finished' }));
+
+    jest.advanceTimersByTime(30000);
+
+    expect(emitted.map(update => update.payload.data.session.status)).toEqual(['playing', 'finished']);
+    expect(service.getVisibleFrame('session-1', 'ranked_1v1')).toBeNull();
+  });
+
+  it('should show a live spectator neither hand while a player is choosing a discard', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const gameState = {
+      engineState: {
+        players: [
+          { id: 'alice', hand: ['12', '34'], deck: [] },
+          { id: 'bob', hand: ['56'], deck: [] }
+        ],
+        pendingChoice: { choiceId: 'choice-1', playerId: 'alice', kind: 'hand_card', options: ['12', '34'], minSelections: 1, maxSelections: 1 }
+      }
+    };
+
+    service.publish(io, frame({ gameState: getSpectatorView(gameState) as object }));
+
+    const sent = emitted[0]!.payload.data.session.gameState as typeof gameState;
+    expect(sent.engineState.pendingChoice).toEqual(expect.objectContaining({ choiceId: 'choice-1', playerId: 'alice' }));
+    expect(sent.engineState.pendingChoice).not.toHaveProperty('options');
+    ['12', '34', '56'].forEach(cardId => expect(JSON.stringify(sent)).not.toContain(`"${cardId}"`));
+  });
+});
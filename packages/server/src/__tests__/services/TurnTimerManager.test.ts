@@ -0,0 +1,134 @@
+/**
+ * TurnTimerManager Tests
+ *
+ * Chess-clock time banks: spending, increments and running out
+ */
+
+import type { Redis } from 'ioredis';
+import { TurnTimerManager, getTimeControl, TIME_CONTROLS } from '../../services/TurnTimerManager';
+
+/**
+ * Just enough of Redis for the clock, kept in memory
+ */
+class FakeRedis {
+  private values = new Map<string, string>();
+  private hashes = new Map<string, Map<string, string>>();
+
+  async get(key: string) { return this.values.get(key) ?? null; }
+  async setex(key: string, _ttl: number, value: string) { this.values.set(key, value); return 'OK'; }
+  async expire() { return 1; }
+  async exists(key: string) { return this.values.has(key) || this.hashes.has(key) ? 1 : 0; }
+  async del(...keys: string[]) {
+    return keys.filter(key => this.values.delete(key) || this.hashes.delete(key)).length;
+  }
+  async hget(key: string, field: string) { return this.hashes.get(key)?.get(field) ?? null; }
+  async hgetall(key: string) { return Object.fromEntries(this.hashes.get(key) ?? []); }
+  async hset(key: string, fieldOrValues: string | Record<string, string>, value?: string) {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const entries = typeof fieldOrValues === 'string' ? [[fieldOrValues, value!]] : Object.entries(fieldOrValues);
+    entries.forEach(([field, fieldValue]) => hash.set(field!, fieldValue!));
+    this.hashes.set(key, hash);
+    return entries.length;
+  }
+  multi() {
+    const queued: Array<() => Promise<unknown>> = [];
+    const chain = new Proxy({} as Record<string, unknown>, {
+      get: (_target, command: string) => {
+        if (command === 'exec') return async () => Promise.all(queued.map(run => run()));
+        return (...args: unknown[]) => {
+          queued.push(() => (this as unknown as Record<string, (...a: unknown[]) => Promise<unknown>>)[command]!(...args));
+          return chain;
+        };
+      }
+    });
+    return chain;
+  }
+}
+
+describe('TurnTimerManager', () => {
+  let onTimeExpired: jest.Mock;
+  let manager: TurnTimerManager;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    onTimeExpired = jest.fn().mockResolvedValue(undefined);
+    manager = new TurnTimerManager(new FakeRedis() as unknown as Redis, 'worker-1', onTimeExpired);
+    await manager.initializeTimeBanks('session-1', ['alice', 'bob'], { initialBankSeconds: 60, incrementSeconds: 10 });
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should pick the time control for the game mode', () => {
+    expect(getTimeControl('ranked_1v1')).toBe(TIME_CONTROLS['ranked_1v1']);
+    expect(getTimeControl('casual_1v1', 120)).toEqual({ ...TIME_CONTROLS['casual_1v1'], initialBankSeconds: 120 });
+    expect(getTimeControl('unknown_mode').initialBankSeconds).toBeGreaterThan(0);
+  });
+
+  it('should spend time from the bank and add the increment when the turn ends', async () => {
+    await manager.startTurnTimer('session-1', 'alice');
+    jest.advanceTimersByTime(25000);
+
+    expect(await manager.endTurn('session-1', 'alice')).toBe(45);
+
+    const snapshot = await manager.getTimeBanks('session-1');
+    expect(snapshot).toEqual(expect.objectContaining({
+      activePlayerId: null,
+      banks: { alice: 45, bob: 60 },
+      initialBankSeconds: 60,
+      incrementSeconds: 10
+    }));
+  });
+
+  it('should count the active player\'s bank down live', async () => {
+    await manager.startTurnTimer('session-1', 'bob');
+    jest.advanceTimersByTime(20000);
+
+    const snapshot = await manager.getTimeBanks('session-1');
+    expect(snapshot!.activePlayerId).toBe('bob');
+    expect(snapshot!.banks['bob']).toBe(40);
+  });
+
+  it('should hand an empty bank to the time-expired handler', async () => {
+    await manager.startTurnTimer('session-1', 'alice');
+
+    jest.advanceTimersByTime(60000);
+    // Let the timeout's Redis calls settle
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+
+    expect(onTimeExpired).toHaveBeenCalledWith('session-1', 'alice');
+    expect((await manager.getTimeBanks('session-1'))!.banks['alice']).toBe(0);
+  });
+
+  it('should not charge a disconnected player for the paused time', async () => {
+    await manager.startTurnTimer('session-1', 'alice');
+    jest.advanceTimersByTime(10000);
+
+    expect(await manager.pauseTurnTimer('session-1', 'alice')).toBe(50);
+    jest.advanceTimersByTime(120000);
+    expect(onTimeExpired).not.toHaveBeenCalled();
+
+    await manager.resumeTurnTimer('session-1', 'alice', 0);
+    expect((await manager.getTimeBanks('session-1'))!.banks['alice']).toBe(50);
+  });
+
+  it('should spend a reconnect extension before the bank and never bank what is left of it', async () => {
+    await manager.startTurnTimer('session-1', 'alice');
+    jest.advanceTimersByTime(10000);
+    await manager.pauseTurnTimer('session-1', 'alice');
+
+    await manager.resumeTurnTimer('session-1', 'alice', 10);
+    jest.advanceTimersByTime(4000);
+    expect(await manager.endTurn('session-1', 'alice')).toBe(60);
+
+    await manager.startTurnTimer('session-1', 'alice');
+    await manager.pauseTurnTimer('session-1', 'alice');
+    await manager.resumeTurnTimer('session-1', 'alice', 10);
+    jest.advanceTimersByTime(25000);
+    expect(await manager.endTurn('session-1', 'alice')).toBe(55);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Game State View Tests
+ *
+ * What each player is sent of a game state they share with opponents
+ */
+
+import { getPlayerView } from '../../websocket/gameSocket';
+
+// The views under test never touch the database
+jest.mock('../../database/kysely', () => ({
+  db: {}
+}));
+
+interface WireState {
+  engineState: {
+    players: Array<{ id: string; hand: Array<string | { cardId: number }> }>;
+    pendingChoice: { playerId: string; options: string[]; minSelections: number };
+  };
+}
+
+describe('Game state views', () => {
+  // Alice is choosing which of her cards to discard
+  const gameState = {
+    engineState: {
+      players: [
+        { id: 'alice', hand: ['12', '34', '56'], deck: ['78'] },
+        { id: 'bob', hand: ['90'], deck: [] }
+      ],
+      pendingChoice: {
+        choiceId: 'choice-1',
+        playerId: 'alice',
+        kind: 'hand_card',
+        options: ['12', '34', '56'],
+        minSelections: 1,
+        maxSelections: 1,
+        abilityId: 7,
+        sourceCard: { instanceId: 'card-1', cardId: 3, ownerId: 'alice' },
+        effectIndex: 0,
+        queuedTriggers: []
+      }
+    }
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should show the chooser their own hand choice', () => {
+    const view = getPlayerView(gameState, 'alice') as WireState;
+
+    expect(view.engineState.pendingChoice.options).toEqual(['12', '34', '56']);
+    expect(view.engineState.players[0]!.hand).toEqual(['12', '34', '56']);
+  });
+
+  it('should not show an opponent the card IDs of a hand choice', () => {
+    const view = getPlayerView(gameState, 'bob') as WireState;
+    const wire = JSON.stringify(view.engineState.pendingChoice);
+
+    expect(view.engineState.pendingChoice.options).toHaveLength(3);
+    ['12', '34', '56'].forEach(cardId => expect(wire).not.toContain(`"${cardId}"`));
+    expect(view.engineState.pendingChoice.minSelections).toBe(1);
+    expect(view.engineState.players[0]!.hand.every(card => typeof card === 'object' && card.cardId === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+-- Migration: Turn game_action_log into an append-only, versioned log for match replays
+-- A replay is the session's initial engine state plus every accepted action in version order
+
+-- Store the engine state each match started from
+ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS initial_state JSONB;
+
+-- AI and system players do not have UUIDs
+ALTER TABLE game_action_log ALTER COLUMN player_id TYPE VARCHAR(255) USING player_id::text;
+
+-- Each action gets the next version in its session
+ALTER TABLE game_action_log ADD COLUMN IF NOT EXISTS version INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_action_log_session_version
+ON game_action_log(session_id, version)
+WHERE version IS NOT NULL;
+
+-- Logged actions can never be rewritten
+CREATE OR REPLACE FUNCTION prevent_game_action_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'game_action_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS game_action_log_append_only ON game_action_log;
+CREATE TRIGGER game_action_log_append_only
+BEFORE UPDATE OR DELETE ON game_action_log
+FOR EACH ROW EXECUTE FUNCTION prevent_game_action_log_changes();
+
+-- Add helpful comments
+COMMENT ON COLUMN game_sessions.initial_state IS 'Serialized engine state the match started from, used as the replay starting point';
+COMMENT ON COLUMN game_action_log.version IS 'Position of the action in its session log, starting at 1';
@@ -0,0 +1,35 @@
+-- Migration: Server-side Glicko-2 ratings
+-- Ratings are only calculated by the server when a match finishes, one rating per game mode
+
+CREATE TABLE IF NOT EXISTS player_ratings (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    game_mode VARCHAR(20) NOT NULL CHECK (game_mode IN ('ranked_1v1', 'casual_1v1', 'team_2v2', 'ffa_4p')),
+    rating DOUBLE PRECISION NOT NULL DEFAULT 1000,
+    deviation DOUBLE PRECISION NOT NULL DEFAULT 350 CHECK (deviation > 0),
+    volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06 CHECK (volatility > 0),
+    games_played INTEGER NOT NULL DEFAULT 0 CHECK (games_played >= 0),
+    games_won INTEGER NOT NULL DEFAULT 0 CHECK (games_won >= 0),
+    last_played_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (user_id, game_mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_ratings_mode_rating ON player_ratings(game_mode, rating DESC);
+
+-- The server has always written match_duration; older schemas only have duration_seconds
+ALTER TABLE match_results ADD COLUMN IF NOT EXISTS match_duration INTEGER;
+
+-- Keep the full Glicko-2 picture of each result
+ALTER TABLE match_results ADD COLUMN IF NOT EXISTS deviation_before DOUBLE PRECISION;
+ALTER TABLE match_results ADD COLUMN IF NOT EXISTS deviation_after DOUBLE PRECISION;
+ALTER TABLE match_results ADD COLUMN IF NOT EXISTS volatility_after DOUBLE PRECISION;
+
+-- Add helpful comments
+COMMENT ON TABLE player_ratings IS 'Glicko-2 rating of each player in each game mode, maintained by the server';
+COMMENT ON COLUMN player_ratings.deviation IS 'Glicko-2 rating deviation (RD); high for new or inactive players';
+COMMENT ON COLUMN player_ratings.volatility IS 'Glicko-2 volatility; how erratic the player''s results are';
+COMMENT ON COLUMN match_results.deviation_before IS 'Rating deviation before the match';
+COMMENT ON COLUMN match_results.deviation_after IS 'Rating deviation after the match';
+COMMENT ON COLUMN match_results.volatility_after IS 'Rating volatility after the match';
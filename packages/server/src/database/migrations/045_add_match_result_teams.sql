@@ -0,0 +1,8 @@
+-- Migration: Team results
+-- Team games record which team each player's result belongs to; null outside team games
+
+ALTER TABLE match_results ADD COLUMN IF NOT EXISTS team_id VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_match_results_session_team ON match_results(session_id, team_id);
+
+COMMENT ON COLUMN match_results.team_id IS 'Team the player played for in a team game, e.g. team1';
@@ -0,0 +1,10 @@
+-- Migration: Private lobbies
+-- Hosts share a short join code; a code only has to be unique among lobbies still waiting for players
+
+ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS join_code VARCHAR(8);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_sessions_waiting_join_code
+    ON game_sessions(join_code)
+    WHERE join_code IS NOT NULL AND status = 'waiting';
+
+COMMENT ON COLUMN game_sessions.join_code IS 'Shareable code for joining a private lobby';
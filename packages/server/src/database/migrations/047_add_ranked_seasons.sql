@@ -0,0 +1,41 @@
+-- Migration: Ranked seasons
+-- player_ratings stays the live rating; each season keeps its own standings, placements and rewards
+
+CREATE TABLE IF NOT EXISTS ranked_seasons (
+    id INTEGER PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    rewards_granted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS season_ratings (
+    season_id INTEGER NOT NULL REFERENCES ranked_seasons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    game_mode VARCHAR(20) NOT NULL CHECK (game_mode IN ('ranked_1v1', 'casual_1v1', 'team_2v2', 'ffa_4p')),
+    rating DOUBLE PRECISION NOT NULL,
+    peak_rating DOUBLE PRECISION NOT NULL,
+    games_played INTEGER NOT NULL DEFAULT 0 CHECK (games_played >= 0),
+    games_won INTEGER NOT NULL DEFAULT 0 CHECK (games_won >= 0),
+    final_tier VARCHAR(20),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (season_id, user_id, game_mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_ratings_board ON season_ratings(season_id, game_mode, rating DESC);
+
+-- The first season starts with the migration
+INSERT INTO ranked_seasons (id, name, starts_at, ends_at)
+VALUES (1, 'Season 1', NOW(), NOW() + INTERVAL '90 days')
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE ranked_seasons IS 'Ranked seasons; rewards are granted and ratings softly reset when one ends';
+COMMENT ON COLUMN ranked_seasons.ended_at IS 'When the season was closed; games count toward it until then, even past ends_at';
+COMMENT ON TABLE season_ratings IS 'Each player''s standing in a season and game mode';
+COMMENT ON COLUMN season_ratings.final_tier IS 'SeasonTier the player finished the season in, set when the season ends';
@@ -0,0 +1,31 @@
+-- Migration: Friends and direct challenges
+-- Requests and friendships point from the sender; a block points from the blocker.
+
+CREATE TABLE IF NOT EXISTS friendships (
+    requester_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    addressee_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'blocked')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (requester_id, addressee_id),
+    CHECK (requester_id <> addressee_id)
+);
+
+-- Either direction counts as the same pair; only blocks may exist both ways at once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_friendships_pair
+    ON friendships(LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id))
+    WHERE status <> 'blocked';
+
+CREATE INDEX IF NOT EXISTS idx_friendships_addressee ON friendships(addressee_id, status);
+
+-- A challenge is a private lobby held open for one invited friend
+ALTER TABLE game_sessions ADD COLUMN IF NOT EXISTS challenged_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_game_sessions_challenged_user
+    ON game_sessions(challenged_user_id)
+    WHERE challenged_user_id IS NOT NULL AND status = 'waiting';
+
+COMMENT ON TABLE friendships IS 'Friend requests, friendships and blocks between two players';
+COMMENT ON COLUMN friendships.requester_id IS 'Who sent the request, or who blocked for blocked rows';
+COMMENT ON COLUMN game_sessions.challenged_user_id IS 'Friend invited to a direct challenge lobby';
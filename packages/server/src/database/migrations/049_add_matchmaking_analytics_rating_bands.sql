@@ -0,0 +1,11 @@
+-- Migration: Matchmaking analytics per rating band
+-- Wait times depend on how many players share a rating, so each day's analytics are kept per band.
+-- Rows from before this migration have no band and only count toward mode-wide estimates.
+
+ALTER TABLE matchmaking_analytics ADD COLUMN IF NOT EXISTS rating_band INTEGER;
+
+ALTER TABLE matchmaking_analytics DROP CONSTRAINT IF EXISTS matchmaking_analytics_date_game_mode_key;
+ALTER TABLE matchmaking_analytics DROP CONSTRAINT IF EXISTS matchmaking_analytics_date_game_mode_rating_band_key;
+ALTER TABLE matchmaking_analytics ADD CONSTRAINT matchmaking_analytics_date_game_mode_rating_band_key UNIQUE (date, game_mode, rating_band);
+
+COMMENT ON COLUMN matchmaking_analytics.rating_band IS 'Lowest rating of the 100-point band the row covers';
@@ -299,6 +299,41 @@ export class KyselyMigrator {
       const syncTransactionsSql = readFileSync(syncTransactionsPath, 'utf8');
       await this.executeMigration('042_add_sync_transactions', syncTransactionsSql);
 
+      // 043: Make game_action_log an append-only, versioned replay log
+      const matchReplayLogPath = join(__dirname, 'migrations/043_add_match_replay_log.sql');
+      const matchReplayLogSql = readFileSync(matchReplayLogPath, 'utf8');
+      await this.executeMigration('043_add_match_replay_log', matchReplayLogSql);
+
+      // 044: Server-side Glicko-2 ratings per game mode
+      const glicko2RatingsPath = join(__dirname, 'migrations/044_add_glicko2_ratings.sql');
+      const glicko2RatingsSql = readFileSync(glicko2RatingsPath, 'utf8');
+      await this.executeMigration('044_add_glicko2_ratings', glicko2RatingsSql);
+
+      // 045: Record the team behind each team game result
+      const matchResultTeamsPath = join(__dirname, 'migrations/045_add_match_result_teams.sql');
+      const matchResultTeamsSql = readFileSync(matchResultTeamsPath, 'utf8');
+      await this.executeMigration('045_add_match_result_teams', matchResultTeamsSql);
+
+      // 046: Join codes for private lobbies
+      const privateLobbyCodesPath = join(__dirname, 'migrations/046_add_private_lobby_codes.sql');
+      const privateLobbyCodesSql = readFileSync(privateLobbyCodesPath, 'utf8');
+      await this.executeMigration('046_add_private_lobby_codes', privateLobbyCodesSql);
+
+      // 047: Ranked seasons with per-season standings
+      const rankedSeasonsPath = join(__dirname, 'migrations/047_add_ranked_seasons.sql');
+      const rankedSeasonsSql = readFileSync(rankedSeasonsPath, 'utf8');
+      await this.executeMigration('047_add_ranked_seasons', rankedSeasonsSql);
+
+      // 048: Friends list and direct challenges
+      const friendshipsPath = join(__dirname, 'migrations/048_add_friendships.sql');
+      const friendshipsSql = readFileSync(friendshipsPath, 'utf8');
+      await this.executeMigration('048_add_friendships', friendshipsSql);
+
+      // 049: Matchmaking analytics per rating band
+      const analyticsRatingBandsPath = join(__dirname, 'migrations/049_add_matchmaking_analytics_rating_bands.sql');
+      const analyticsRatingBandsSql = readFileSync(analyticsRatingBandsPath, 'utf8');
+      await this.executeMigration('049_add_matchmaking_analytics_rating_bands', analyticsRatingBandsSql);
+
       console.log('✅ All Kysely migrations completed successfully');
 
     } catch (error) {
@@ -409,6 +409,8 @@ export interface GameSessionsTable {
   // Game configuration
   game_mode: 'campaign' | 'online' | 'scenarios' | 'tutorial' | 'standard' | 'ranked' | 'casual' | 'tournament' | 'ai' | 'ranked_1v1' | 'casual_1v1' | 'team_2v2' | 'ffa_4p';
   is_private: boolean;
+  join_code?: string | null; // Shareable code for private lobbies
+  challenged_user_id?: string | null; // Friend invited to a direct challenge lobby
   max_players: number;
   current_players: number;
 
@@ -419,6 +421,7 @@ export interface GameSessionsTable {
   // Game data
   game_state: object; // JSONB object
   settings: object; // JSONB object
+  initial_state?: object | null; // JSONB engine state the match started from (replay start)
 
   // Timing
   started_at?: Date; // When the actual game started
@@ -429,6 +432,19 @@ export interface GameSessionsTable {
   updated_at: Generated<Date>;
 }
 
+// Append-only action log (from migrations 036 and 043)
+export interface GameActionLogTable {
+  id: Generated<string>;
+  session_id: string;
+  player_id: string;
+  action_type: string;
+  action_data: object | null; // JSONB action payload
+  version: number | null; // Position in the session log, starting at 1
+  worker_id: string | null;
+  processing_time_ms: number | null;
+  created_at: Generated<Date>;
+}
+
 // Online multiplayer tables (from migrations 013-015)
 export interface MatchmakingQueueTable {
   id: Generated<string>;
@@ -448,15 +464,64 @@ export interface MatchResultsTable {
   session_id: string;
   player_user_id: string;
   opponent_user_id: string;
-  result: 'win' | 'loss' | 'draw';
+  team_id: string | null;
+  result: 'win' | 'loss' | 'draw' | 'forfeit';
   rating_before: number;
   rating_after: number;
   rating_change: number;
+  deviation_before: number | null;
+  deviation_after: number | null;
+  volatility_after: number | null;
   game_mode: string;
   match_duration: number | null;
   created_at: Generated<Date>;
 }
 
+// Glicko-2 rating per player and game mode (from migration 044)
+export interface PlayerRatingsTable {
+  user_id: string;
+  game_mode: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games_played: number;
+  games_won: number;
+  last_played_at: Date | null;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface RankedSeasonsTable {
+  id: number;
+  name: string;
+  starts_at: Date;
+  ends_at: Date;
+  ended_at: Date | null;
+  rewards_granted_at: Date | null;
+  created_at: Generated<Date>;
+}
+
+export interface SeasonRatingsTable {
+  season_id: number;
+  user_id: string;
+  game_mode: string;
+  rating: number;
+  peak_rating: number;
+  games_played: number;
+  games_won: number;
+  final_tier: string | null; // SeasonTier
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface FriendshipsTable {
+  requester_id: string; // Sender of the request, or the blocker
+  addressee_id: string;
+  status: string; // FriendshipStatus
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
 export interface DailyQuestDefinitionsTable {
   quest_type: string; // Primary key
   name: string;
@@ -514,12 +579,13 @@ export interface MatchmakingAnalyticsTable {
   id: Generated<string>;
   game_mode: string;
   date: Generated<Date>;
-  total_requests: number;
-  successful_matches: number;
-  average_wait_time_seconds: number;
-  peak_queue_size: number;
-  timeout_count: number;
-  cancellation_count: number;
+  total_requests: Generated<number>;
+  successful_matches: Generated<number>;
+  average_wait_time_seconds: Generated<number>;
+  peak_queue_size: Generated<number>;
+  timeout_count: Generated<number>;
+  avg_rating_difference: Generated<string>; // DECIMAL
+  rating_band: number | null; // Lowest rating of the band; null on rows from before bands
   created_at: Generated<Date>;
 }
 
@@ -606,11 +672,16 @@ export interface Database {
   card_abilities: CardAbilitiesTable;
   localizations: LocalizationsTable;
   game_sessions: GameSessionsTable;
+  game_action_log: GameActionLogTable;
   conservation_statuses: ConservationStatusesTable;
 
   // Online multiplayer tables
   matchmaking_queue: MatchmakingQueueTable;
   match_results: MatchResultsTable;
+  player_ratings: PlayerRatingsTable;
+  ranked_seasons: RankedSeasonsTable;
+  season_ratings: SeasonRatingsTable;
+  friendships: FriendshipsTable;
   daily_quest_definitions: DailyQuestDefinitionsTable;
   user_daily_progress: UserDailyProgressTable;
   leaderboard_view: LeaderboardView;
@@ -660,6 +731,8 @@ export type OfflineAction = Selectable<OfflineActionQueueTable>;
 export type NewOfflineAction = Insertable<OfflineActionQueueTable>;
 export type OfflineActionUpdate = Updateable<OfflineActionQueueTable>;
 
+export type GameSession = Selectable<GameSessionsTable>;
+
 export type Deck = Selectable<DecksTable>;
 export type NewDeck = Insertable<DecksTable>;
 export type DeckUpdate = Updateable<DecksTable>;
@@ -739,6 +812,9 @@ export type NewMatchmakingQueue = Insertable<MatchmakingQueueTable>;
 export type MatchResult = Selectable<MatchResultsTable>;
 export type NewMatchResult = Insertable<MatchResultsTable>;
 
+export type PlayerRating = Selectable<PlayerRatingsTable>;
+export type NewPlayerRating = Insertable<PlayerRatingsTable>;
+
 export type DailyQuestDefinition = Selectable<DailyQuestDefinitionsTable>;
 export type NewDailyQuestDefinition = Insertable<DailyQuestDefinitionsTable>;
 export type DailyQuestDefinitionUpdate = Updateable<DailyQuestDefinitionsTable>;
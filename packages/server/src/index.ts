@@ -33,6 +33,7 @@ import { setupGameSocket } from './websocket/gameSocket';
 import { initializePubSub } from './config/pubsub';
 import { MatchmakingWorker } from './workers/MatchmakingWorker';
 import { MatchNotificationService } from './services/MatchNotificationService';
+import { seasonService } from './services/SeasonService';
 
 // Import distributed game worker system
 import { initializeGameWorkerManager } from './services/GameWorkerManager';
@@ -67,6 +68,7 @@ async function registerRoutes() {
   const { default: healthRoutes } = await import('./routes/health');
   const { default: productsRoutes } = await import('./routes/products');
   const { default: redemptionRoutes } = await import('./routes/redemptions');
+  const { default: friendRoutes } = await import('./routes/friends');
 
   // Health check routes (before authentication)
   console.log('🔧 DEBUG: Registering health routes...');
@@ -93,6 +95,7 @@ async function registerRoutes() {
   app.use('/api/leaderboard', leaderboardRoutes);
   app.use('/api/products', productsRoutes);
   app.use('/api/redemptions', redemptionRoutes);
+  app.use('/api/friends', friendRoutes);
   console.log('🔧 DEBUG: All API routes registered successfully');
 
   // DEBUG: Add a direct test route
@@ -763,6 +766,8 @@ async function gracefulShutdown(signal: string) {
       await matchNotificationService.stop();
     }
 
+    seasonService.stopSeasonSchedule();
+
     // Close server
     server.close(() => {
       console.log('✅ Server closed');
@@ -816,6 +821,11 @@ async function startServer() {
 
       // Initialize matchmaking services after server is running
       await initializeMatchmakingServices();
+
+      // Close ranked seasons when they reach their end date
+      if (process.env['NODE_ENV'] !== 'test') {
+        seasonService.startSeasonSchedule();
+      }
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -5,6 +5,7 @@ import { asyncHandler } from '../middleware/errorHandler';
 import { db } from '../database/kysely';
 import { setCustomUserClaims } from '../config/firebase';
 import { CacheManager } from '../config/ioredis';
+import { seasonService } from '../services/SeasonService';
 import { sql } from 'kysely';
 import admin from 'firebase-admin';
 
@@ -550,6 +551,29 @@ router.post('/grant-currency', requireAdmin, strictRateLimiter, asyncHandler(asy
   return;
 }));
 
+/**
+ * POST /api/admin/seasons/end
+ * Close the current ranked season once its end date has passed (or right away with force),
+ * grant its rewards and start the next season
+ */
+router.post('/seasons/end', requireAdmin, strictRateLimiter, asyncHandler(async (req, res) => {
+  const { force = false } = req.body;
+
+  const season = await seasonService.endSeason(force === true);
+  if (!season) {
+    return res.status(409).json({
+      error: 'SEASON_STILL_RUNNING',
+      message: 'The current season has not reached its end date'
+    });
+  }
+
+  console.log(`🏁 [ADMIN] ${season.name} closed by ${req.user?.id}`);
+  return res.json({
+    message: `${season.name} closed and rewards granted`,
+    season
+  });
+}));
+
 /**
  * POST /api/admin/grant-card
  * Grant cards to a user by username, email, or ID
@@ -0,0 +1,157 @@
+/**
+ * Friends Routes
+ * Friend requests, blocks and direct challenges. Presence updates for friends go out over the game socket.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { FriendshipStatus } from '@kelseyabreu/shared';
+import { friendService } from '../services/FriendService';
+import { getMatchNotificationService } from '../services/MatchNotificationService';
+import { broadcastLobbyUpdate } from '../websocket/gameSocket';
+
+const router = Router();
+
+const friendRequestSchema = z.object({
+  userId: z.string().uuid()
+});
+
+const challengeSchema = z.object({
+  gameMode: z.enum(['casual_1v1', 'team_2v2', 'ffa_4p']).default('casual_1v1')
+});
+
+/**
+ * GET /api/friends
+ * Friends, pending requests and blocked players, with each friend's presence
+ */
+router.get('/', requireAuth, asyncHandler(async (req, res) => {
+  const friends = await friendService.listFriends(req.user!.id);
+  res.json({ friends });
+}));
+
+/**
+ * POST /api/friends/requests
+ * Send a friend request; sending one back to someone who already asked accepts theirs
+ */
+router.post('/requests', requireAuth, asyncHandler(async (req, res) => {
+  const { userId: targetId } = friendRequestSchema.parse(req.body);
+  const user = req.user!;
+
+  const status = await friendService.sendRequest(user.id, targetId);
+  const from = { userId: user.id, username: user.username, displayName: user.display_name };
+  await getMatchNotificationService()?.sendFriendUpdate(
+    targetId,
+    status === FriendshipStatus.ACCEPTED ? 'friend_accepted' : 'friend_request',
+    { from }
+  );
+
+  res.status(status === FriendshipStatus.ACCEPTED ? 200 : 201).json({ status });
+}));
+
+/**
+ * POST /api/friends/requests/:userId/accept
+ * Accept a friend request from another player
+ */
+router.post('/requests/:userId/accept', requireAuth, asyncHandler(async (req, res) => {
+  const requesterId = req.params['userId']!;
+  const user = req.user!;
+
+  await friendService.acceptRequest(user.id, requesterId);
+  await getMatchNotificationService()?.sendFriendUpdate(requesterId, 'friend_accepted', {
+    from: { userId: user.id, username: user.username, displayName: user.display_name }
+  });
+
+  res.json({ status: FriendshipStatus.ACCEPTED });
+}));
+
+/**
+ * POST /api/friends/requests/:userId/decline
+ * Turn down a friend request
+ */
+router.post('/requests/:userId/decline', requireAuth, asyncHandler(async (req, res) => {
+  await friendService.declineRequest(req.user!.id, req.params['userId']!);
+  res.json({ success: true });
+}));
+
+/**
+ * DELETE /api/friends/:userId
+ * Unfriend a player or withdraw a request sent to them
+ */
+router.delete('/:userId', requireAuth, asyncHandler(async (req, res) => {
+  await friendService.removeFriend(req.user!.id, req.params['userId']!);
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/friends/:userId/block
+ * Block a player; this also ends any friendship or request between you
+ */
+router.post('/:userId/block', requireAuth, asyncHandler(async (req, res) => {
+  await friendService.blockUser(req.user!.id, req.params['userId']!);
+  res.json({ status: FriendshipStatus.BLOCKED });
+}));
+
+/**
+ * DELETE /api/friends/:userId/block
+ * Unblock a player
+ */
+router.delete('/:userId/block', requireAuth, asyncHandler(async (req, res) => {
+  await friendService.unblockUser(req.user!.id, req.params['userId']!);
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/friends/:userId/challenge
+ * Challenge an online friend; opens a private lobby they are invited to
+ */
+router.post('/:userId/challenge', requireAuth, asyncHandler(async (req, res) => {
+  const { gameMode } = challengeSchema.parse(req.body);
+  const user = req.user!;
+
+  const challenge = await friendService.challengeFriend(
+    { id: user.id, name: user.display_name || user.username, username: user.username },
+    req.params['userId']!,
+    gameMode
+  );
+  await getMatchNotificationService()?.sendFriendChallenge(challenge);
+
+  res.status(201).json({ challenge });
+}));
+
+/**
+ * POST /api/friends/challenges/:sessionId/accept
+ * Accept a challenge and take the seat held for you; then join its session over the socket
+ */
+router.post('/challenges/:sessionId/accept', requireAuth, asyncHandler(async (req, res) => {
+  const user = req.user!;
+
+  const { lobby } = await friendService.acceptChallenge(req.params['sessionId']!, {
+    id: user.id,
+    name: user.display_name || user.username,
+    username: user.username
+  });
+  broadcastLobbyUpdate(lobby.sessionId, lobby);
+
+  res.json({ lobby });
+}));
+
+/**
+ * POST /api/friends/challenges/:sessionId/decline
+ * Turn down a challenge; the challenger's lobby closes
+ */
+router.post('/challenges/:sessionId/decline', requireAuth, asyncHandler(async (req, res) => {
+  const user = req.user!;
+  const challenge = await friendService.declineChallenge(req.params['sessionId']!, user.id);
+
+  broadcastLobbyUpdate(challenge.sessionId, null);
+  await getMatchNotificationService()?.sendFriendUpdate(challenge.fromUserId, 'friend_challenge_declined', {
+    sessionId: challenge.sessionId,
+    from: { userId: user.id, username: user.username, displayName: user.display_name }
+  });
+
+  res.json({ success: true });
+}));
+
+export default router;
@@ -6,9 +6,11 @@ import { db } from '../database/kysely';
 import { z } from 'zod';
 import crypto from 'crypto';
 // import { NewDeck } from '../database/types'; // Unused for now
-import { BioMastersEngine, GameSettings, ClientPlayerAction } from '@kelseyabreu/shared';
+import { BioMastersEngine, GameSettings, ClientPlayerAction, DeckFormat } from '@kelseyabreu/shared';
 import { IUnifiedDataLoader } from '@kelseyabreu/shared';
 import { createMockLocalizationManager } from '../utils/mockLocalizationManager';
+import { privateLobbyService } from '../services/PrivateLobbyService';
+import { broadcastLobbyUpdate } from '../websocket/gameSocket';
 
 const router = Router();
 
@@ -29,6 +31,22 @@ const createGameSessionSchema = z.object({
   }).optional()
 });
 
+// Private lobby schema; the host picks the game settings and deck format
+const createLobbySchema = z.object({
+  gameMode: z.enum(['casual_1v1', 'team_2v2', 'ffa_4p']).default('casual_1v1'),
+  settings: z.object({
+    gridWidth: z.number().int().min(6).max(12).optional(),
+    gridHeight: z.number().int().min(6).max(12).optional(),
+    startingHandSize: z.number().int().min(3).max(7).optional(),
+    maxHandSize: z.number().int().min(5).max(10).optional(),
+    turnTimeLimit: z.number().int().min(30).max(600).optional(),
+    deckFormat: z.nativeEnum(DeckFormat).optional()
+  }).refine(
+    settings => (settings.startingHandSize ?? 5) <= (settings.maxHandSize ?? 7),
+    { message: 'Starting hand size cannot exceed the max hand size' }
+  ).default({})
+});
+
 // const joinGameSessionSchema = z.object({
 //   sessionId: z.string().uuid()
 // });
@@ -627,6 +645,70 @@ router.get('/sessions', requireAuth, asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * POST /api/game/lobbies
+ * Open a private lobby and get its join code
+ */
+router.post('/lobbies', requireAuth, asyncHandler(async (req, res) => {
+  const { gameMode, settings } = createLobbySchema.parse(req.body);
+  const user = req.user!;
+
+  const lobby = await privateLobbyService.createLobby(
+    { id: user.id, name: user.display_name || user.username, username: user.username },
+    gameMode,
+    settings
+  );
+
+  res.status(201).json({ lobby });
+}));
+
+/**
+ * GET /api/game/lobbies/:joinCode
+ * Look up an open private lobby by its join code
+ */
+router.get('/lobbies/:joinCode', requireAuth, asyncHandler(async (req, res) => {
+  const lobby = await privateLobbyService.getLobby(req.params['joinCode']!);
+
+  if (!lobby) {
+    return res.status(404).json({
+      error: 'LOBBY_NOT_FOUND',
+      message: 'No open lobby has that join code'
+    });
+  }
+
+  return res.json({ lobby });
+}));
+
+/**
+ * POST /api/game/lobbies/:joinCode/join
+ * Take a seat in a private lobby; then join its session over the socket
+ */
+router.post('/lobbies/:joinCode/join', requireAuth, asyncHandler(async (req, res) => {
+  const user = req.user!;
+
+  const lobby = await privateLobbyService.joinLobby(req.params['joinCode']!, {
+    id: user.id,
+    name: user.display_name || user.username,
+    username: user.username
+  });
+  broadcastLobbyUpdate(lobby.sessionId, lobby);
+
+  res.json({ lobby });
+}));
+
+/**
+ * POST /api/game/lobbies/:sessionId/leave
+ * Leave a private lobby; the lobby closes if the host leaves
+ */
+router.post('/lobbies/:sessionId/leave', requireAuth, asyncHandler(async (req, res) => {
+  const sessionId = req.params['sessionId']!;
+
+  const lobby = await privateLobbyService.leaveLobby(sessionId, req.user!.id);
+  broadcastLobbyUpdate(sessionId, lobby);
+
+  res.json({ lobby, closed: lobby === null });
+}));
+
 // ===== BioMasters Engine Endpoints =====
 
 // In-memory game storage (in production, use Redis or database)
@@ -700,7 +782,8 @@ router.post('/biomasters/create', requireAuth, asyncHandler(async (req, res) =>
 
     const abilityDatabase = new Map();
     for (const ability of abilitiesResult.data) {
-      abilityDatabase.set(ability.id, ability);
+      // abilities.json keys abilities by abilityId
+      abilityDatabase.set((ability as { abilityId?: number }).abilityId || ability.id, ability);
     }
 
     // Create empty keywords map for now (can be enhanced later)
@@ -6,12 +6,14 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../database/kysely';
 import { ApiResponse } from '@kelseyabreu/shared';
+import { seasonService } from '../services/SeasonService';
 
 const router = Router();
 
 /**
- * Get leaderboard for a specific game mode
- * GET /api/leaderboard/:gameMode
+ * Get leaderboard for a specific game mode, scoped to a season
+ * GET /api/leaderboard/:gameMode?season=current|<seasonId>
+ * The 'all' board is the lifetime board across modes.
  */
 router.get('/:gameMode', async (req: Request, res: Response) => {
   try {
@@ -31,6 +33,49 @@ router.get('/:gameMode', async (req: Request, res: Response) => {
       } as ApiResponse);
     }
 
+    if (gameMode !== 'all') {
+      const seasonId = season === 'current'
+        ? (await seasonService.getCurrentSeason())?.id
+        : Number(season);
+
+      if (!seasonId || !Number.isInteger(seasonId)) {
+        return res.status(400).json({
+          status: 'error',
+          success: false,
+          error: season === 'current' ? 'No ranked season is running' : 'Invalid season',
+          data: null
+        } as ApiResponse);
+      }
+
+      const standings = await seasonService.getLeaderboard(seasonId, gameMode, Number(limit));
+      const seasonLeaderboard = standings.map((entry, index) => ({
+        rank: index + 1,
+        user: {
+          id: entry.userId,
+          username: entry.username,
+          displayName: entry.username
+        },
+        rating: entry.rating,
+        peakRating: entry.peakRating,
+        tier: entry.tier,
+        gamesPlayed: entry.gamesPlayed,
+        gamesWon: entry.gamesWon,
+        winRate: entry.gamesPlayed > 0 ? Math.round((entry.gamesWon / entry.gamesPlayed) * 100) : 0
+      }));
+
+      return res.json({
+        status: 'success',
+        success: true,
+        data: {
+          leaderboard: seasonLeaderboard,
+          gameMode,
+          season: seasonId,
+          total: seasonLeaderboard.length,
+          lastUpdated: new Date()
+        }
+      } as ApiResponse);
+    }
+
     // Use the leaderboard view created in migration
     const query = db
       .selectFrom('leaderboard_view')
@@ -39,9 +84,6 @@ router.get('/:gameMode', async (req: Request, res: Response) => {
       .orderBy('current_rating', 'desc')
       .limit(Number(limit));
 
-    // For specific game modes, we would filter by game mode if we had that data
-    // For now, we'll use the general leaderboard
-    
     const leaderboard = await query.execute();
 
     // Add rank numbers and format response
@@ -67,7 +109,7 @@ router.get('/:gameMode', async (req: Request, res: Response) => {
       data: {
         leaderboard: rankedLeaderboard,
         gameMode,
-        season,
+        season: null, // Lifetime board
         total: rankedLeaderboard.length,
         lastUpdated: new Date()
       }
@@ -4,12 +4,15 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { sql } from 'kysely';
 import { db } from '../database/kysely';
+import type { GameSessionsTable } from '../database/types';
 import { requireAuth } from '../middleware/auth';
-import { ApiResponse, deepSerialize } from '@kelseyabreu/shared';
+import { ApiResponse, GameEndReason, deepSerialize } from '@kelseyabreu/shared';
 import deckAccessService from '../services/deckAccessService';
-import { getGlobalIo, initializeBioMastersGame } from '../websocket/gameSocket';
+import { actionLogService } from '../services/ActionLogService';
+import { aiSeatService, SeatedPlayer } from '../services/AISeatService';
+import { getSpectatorDelayMs } from '../services/SpectatorService';
+import { endSessionByForfeit, getGlobalIo, handOverSeatToAI, initializeBioMastersGame } from '../websocket/gameSocket';
 
 // Import utility functions for proper game state handling
 function serializeGameStateForTransmission(gameState: any): any {
@@ -195,6 +198,61 @@ router.get('/history', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * List public matches in progress that can be spectated
+ * GET /api/matches/live
+ */
+router.get('/live', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { limit = 20, gameMode } = req.query;
+
+    let query = db
+      .selectFrom('game_sessions')
+      .select(['id', 'game_mode', 'players', 'game_state', 'created_at', 'updated_at'])
+      .where('status', 'in', ['playing', 'active'])
+      .where('is_private', '=', false)
+      .orderBy('updated_at', 'desc')
+      .limit(Math.min(Number(limit), 100));
+
+    if (gameMode) {
+      query = query.where('game_mode', '=', gameMode as GameSessionsTable['game_mode']);
+    }
+
+    const sessions = await query.execute();
+
+    return res.json({
+      status: 'success',
+      success: true,
+      data: {
+        matches: sessions.map(session => {
+          const engineState = (session.game_state as { engineState?: { turnNumber?: number } } | null)?.engineState;
+          return {
+            sessionId: session.id,
+            gameMode: session.game_mode,
+            players: (session.players as { playerId: string; name?: string; username?: string }[]).map(player => ({
+              playerId: player.playerId,
+              name: player.name || player.username || 'Player'
+            })),
+            turnNumber: engineState?.turnNumber || 0,
+            spectatorDelaySeconds: getSpectatorDelayMs(session.game_mode) / 1000,
+            startedAt: session.created_at,
+            lastActivityAt: session.updated_at
+          };
+        })
+      }
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('❌ Get live matches error:', error);
+    return res.status(500).json({
+      status: 'error',
+      success: false,
+      error: 'Failed to get live matches',
+      data: null
+    } as ApiResponse);
+  }
+});
+
 /**
  * Forfeit an active match
  * POST /api/matches/:sessionId/forfeit
@@ -258,73 +316,44 @@ router.post('/:sessionId/forfeit', requireAuth, async (req: Request, res: Respon
       } as ApiResponse);
     }
 
-    // Update game session to finished
-    // gameState already declared above, reuse it
-    const winnerId = directPlayers.find(p => p.playerId !== userId)?.playerId ||
-                    gameStatePlayers.find((p: any) => (p.playerId !== userId && p.playerId) || (p.id !== userId && p.id))?.playerId ||
-                    gameStatePlayers.find((p: any) => (p.playerId !== userId && p.playerId) || (p.id !== userId && p.id))?.id || null;
-    
-    gameState.gamePhase = 'completed';
-    gameState.winner = winnerId;
-    gameState.completedAt = new Date();
-    gameState.forfeitedBy = userId;
-
-    await db
-      .updateTable('game_sessions')
-      .set({
-        status: 'finished',
-        game_state: gameState,
-        updated_at: new Date()
-      })
-      .where('id', '=', sessionId)
-      .execute();
+    const io = getGlobalIo();
+    if (!io) {
+      return res.status(503).json({
+        status: 'error',
+        success: false,
+        error: 'Game server is not running',
+        data: null
+      } as ApiResponse);
+    }
 
-    // Create match results
-    const matchDuration = Math.floor((Date.now() - new Date(session.created_at).getTime()) / 1000);
-    const gameMode = session.game_mode || 'casual_1v1';
+    // Where others play on, a forfeited seat goes to the AI instead of ending the match
+    if (session.status === 'playing' && aiSeatService.canTakeOverSeat(directPlayers as SeatedPlayer[], userId)) {
+      await handOverSeatToAI(io, session, userId, GameEndReason.FORFEIT);
 
-    // Use the appropriate players array (prefer game state players if available)
-    const allPlayers = gameStatePlayers.length > 0 ? gameStatePlayers : directPlayers;
+      return res.json({
+        status: 'success',
+        success: true,
+        data: {
+          sessionId,
+          forfeited: true,
+          winner: null,
+          message: 'Match forfeited, the AI has taken your seat'
+        }
+      } as ApiResponse);
+    }
 
-    for (const player of allPlayers) {
-      const playerId = player.playerId || player.id;
-      const isWinner = playerId === winnerId;
-      const result = isWinner ? 'win' : 'loss';
-      const ratingChange = isWinner ? 16 : -16; // Standard forfeit rating change
-      const oldRating = player.rating || 1000;
-      const newRating = oldRating + ratingChange;
-
-      // Insert match result
-      await db
-        .insertInto('match_results')
-        .values({
-          session_id: sessionId,
-          player_user_id: playerId,
-          opponent_user_id: allPlayers.find(p => (p.playerId || p.id) !== playerId)?.playerId || allPlayers.find(p => (p.playerId || p.id) !== playerId)?.id || null,
-          game_mode: gameMode,
-          result,
-          rating_before: oldRating,
-          rating_after: newRating,
-          rating_change: ratingChange,
-          match_duration: matchDuration,
-          created_at: new Date()
-        })
-        .execute();
-
-      // Update user rating using SQL expressions
-      await db
-        .updateTable('users')
-        .set({
-          current_rating: newRating,
-          peak_rating: db.fn('GREATEST', ['peak_rating', newRating]),
-          games_played: sql`COALESCE(games_played, 0) + 1`,
-          games_won: isWinner ? sql`COALESCE(games_won, 0) + 1` : sql`COALESCE(games_won, 0)`,
-          updated_at: new Date()
-        })
-        .where('id', '=', player.playerId)
-        .execute();
+    // The engine decides who the forfeit hands the match to, whole teams included, as over the socket
+    const endData = await endSessionByForfeit(io, session, userId, GameEndReason.FORFEIT);
+    if (!endData) {
+      return res.status(400).json({
+        status: 'error',
+        success: false,
+        error: 'Game has not started',
+        data: null
+      } as ApiResponse);
     }
 
+    const winnerId = endData.winner || null;
     console.log(`✅ Match ${sessionId} forfeited by ${userId}, winner: ${winnerId}`);
 
     return res.json({
@@ -463,6 +492,93 @@ router.get('/:sessionId/decks', requireAuth, async (req: Request, res: Response)
   }
 });
 
+/**
+ * Get the replay of a finished match: its initial state and versioned action log
+ * GET /api/matches/:sessionId/replay
+ */
+router.get('/:sessionId/replay', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const userId = req.user!.id;
+
+    if (!sessionId) {
+      return res.status(400).json({
+        status: 'error',
+        success: false,
+        error: 'Session ID is required',
+        data: null
+      } as ApiResponse);
+    }
+
+    const session = await db
+      .selectFrom('game_sessions')
+      .select(['id', 'status', 'players', 'game_state'])
+      .where('id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      return res.status(404).json({
+        status: 'error',
+        success: false,
+        error: 'Game session not found',
+        data: null
+      } as ApiResponse);
+    }
+
+    // Only participants may review a match
+    const directPlayers = session.players as Array<{ playerId: string }> || [];
+    const gameStatePlayers = (session.game_state as { players?: Array<{ id?: string; playerId?: string }> })?.players || [];
+    const userInSession = directPlayers.some(p => p.playerId === userId) ||
+                         gameStatePlayers.some(p => p.playerId === userId || p.id === userId);
+
+    if (!userInSession) {
+      return res.status(403).json({
+        status: 'error',
+        success: false,
+        error: 'Access denied',
+        data: null
+      } as ApiResponse);
+    }
+
+    // A replay reveals every hand, so it stays hidden until the match is over
+    if (['waiting', 'playing', 'active'].includes(session.status)) {
+      return res.status(409).json({
+        status: 'error',
+        success: false,
+        error: 'Replay is only available once the match has ended',
+        data: null
+      } as ApiResponse);
+    }
+
+    const replay = await actionLogService.getReplay(sessionId);
+    if (!replay) {
+      return res.status(404).json({
+        status: 'error',
+        success: false,
+        error: 'No replay recorded for this match',
+        data: null
+      } as ApiResponse);
+    }
+
+    return res.json({
+      status: 'success',
+      success: true,
+      data: {
+        replay: deepSerialize(replay)
+      }
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('❌ Get match replay error:', error);
+    return res.status(500).json({
+      status: 'error',
+      success: false,
+      error: 'Failed to get match replay',
+      data: null
+    } as ApiResponse);
+  }
+});
+
 /**
  * Select deck for match
  * POST /api/matches/:sessionId/select-deck
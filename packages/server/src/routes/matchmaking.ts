@@ -7,7 +7,8 @@ import express, { Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
 import { db } from '../database/kysely';
 import { MatchmakingService } from '../services/MatchmakingService';
-import { ApiResponse, MatchmakingRequest } from '@kelseyabreu/shared';
+import { TEAM_SIZES, getLatencyBucket } from '../services/MatchmakingRules';
+import { ApiResponse, LatencyBucket, MatchmakingPreferences, MatchmakingRequest } from '@kelseyabreu/shared';
 
 const router = express.Router();
 
@@ -75,17 +76,31 @@ router.post('/find', requireAuth, async (req: Request, res: Response) => {
       } as ApiResponse);
     }
 
-    // Get user's current rating
-    console.log(`🔍 [MATCHMAKING ROUTE] Getting user rating for ${userId}...`);
-    const user = await db
-      .selectFrom('users')
-      .select(['current_rating'])
-      .where('id', '=', userId)
-      .executeTakeFirst();
-    console.log(`🔍 [MATCHMAKING ROUTE] User rating query completed:`, user);
+    // Parties only make sense where there are teams to keep them on
+    const teamSize = TEAM_SIZES[gameMode];
+    if (preferences.partyId && (!teamSize || (preferences.partySize ?? 1) > teamSize)) {
+      return res.status(400).json({
+        status: 'error',
+        success: false,
+        error: teamSize ? `Parties in ${gameMode} have at most ${teamSize} players` : `${gameMode} does not support parties`,
+        data: null
+      } as ApiResponse);
+    }
 
-    const userRating = user?.current_rating || 1000;
-    console.log(`🔍 [MATCHMAKING ROUTE] Using rating: ${userRating}`);
+    // Get the user's rating for this mode, falling back to their overall rating
+    console.log(`🔍 [MATCHMAKING ROUTE] Getting user rating for ${userId}...`);
+    const { rating: userRating, deviation: userDeviation } = await matchmakingService.getPlayerRating(userId, gameMode);
+    console.log(`🔍 [MATCHMAKING ROUTE] Using rating: ${userRating} ± ${userDeviation}`);
+
+    const latencyBucket: LatencyBucket | undefined = typeof preferences.latencyMs === 'number'
+      ? getLatencyBucket(preferences.latencyMs)
+      : preferences.latencyBucket;
+    const matchmakingPreferences: MatchmakingPreferences = {
+      maxWaitTime: preferences.maxWaitTime || 600, // Default 10 minutes
+      ...(preferences.regionPreference ? { regionPreference: preferences.regionPreference } : {}),
+      ...(latencyBucket ? { latencyBucket } : {}),
+      ...(preferences.partyId ? { partyId: preferences.partyId, partySize: preferences.partySize ?? teamSize } : {})
+    };
 
     console.log(`🚀 [MATCHMAKING ROUTE] About to call matchmakingService.requestMatch()...`);
 
@@ -94,10 +109,8 @@ router.post('/find', requireAuth, async (req: Request, res: Response) => {
       playerId: userId,
       gameMode,
       rating: userRating,
-      preferences: {
-        maxWaitTime: preferences.maxWaitTime || 600, // Default 10 minutes
-        regionPreference: preferences.regionPreference
-      },
+      deviation: userDeviation,
+      preferences: matchmakingPreferences,
       requestId: `req_${Date.now()}_${userId}`,
       timestamp: Date.now()
     };
@@ -119,7 +132,7 @@ router.post('/find', requireAuth, async (req: Request, res: Response) => {
 
     // Get estimated wait time
     console.log(`🔍 [MATCHMAKING ROUTE] Getting estimated wait time...`);
-    const estimatedWaitTime = await matchmakingService.getEstimatedWaitTime(gameMode, userRating);
+    const estimatedWaitTime = await matchmakingService.getEstimatedWaitTime(gameMode, userRating, userDeviation);
     console.log(`🔍 [MATCHMAKING ROUTE] Estimated wait time: ${estimatedWaitTime}s`);
 
     console.log(`✅ [MATCHMAKING ROUTE] User ${userId} added to matchmaking queue for ${gameMode}`);
@@ -222,13 +235,14 @@ router.get('/status', requireAuth, async (req: Request, res: Response) => {
         success: true,
         data: {
           inQueue: false,
-          queueStats: await matchmakingService.getQueueStats()
+          queueStats: await matchmakingService.getQueueStats(userId)
         }
       } as ApiResponse);
     }
 
     const queueTime = Date.now() - queueEntry.created_at.getTime();
-    const estimatedWait = await matchmakingService.getEstimatedWaitTime(queueEntry.game_mode, queueEntry.rating);
+    const { deviation } = await matchmakingService.getPlayerRating(userId, queueEntry.game_mode);
+    const estimatedWait = await matchmakingService.getEstimatedWaitTime(queueEntry.game_mode, queueEntry.rating, deviation, Math.floor(queueTime / 1000));
     const queuePosition = await getQueuePosition(userId, queueEntry.game_mode);
 
     return res.json({
@@ -259,9 +273,9 @@ router.get('/status', requireAuth, async (req: Request, res: Response) => {
  * Get queue statistics
  * GET /api/matchmaking/stats
  */
-router.get('/stats', requireAuth, async (_req: Request, res: Response) => {
+router.get('/stats', requireAuth, async (req: Request, res: Response) => {
   try {
-    const queueStats = await matchmakingService.getQueueStats();
+    const queueStats = await matchmakingService.getQueueStats(req.user!.id);
 
     // Get recent match count (using game_sessions as fallback until migration runs)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
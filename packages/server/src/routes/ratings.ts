@@ -1,13 +1,14 @@
 /**
  * Rating System Routes
- * Handles ELO ratings, leaderboards, and match results
+ * Read-only views of ratings, leaderboards, and match results.
+ * Ratings themselves are calculated by the server when a match finishes (RatingService).
  */
 
 import express, { Request, Response } from 'express';
-import crypto from 'crypto';
 import { authenticateToken } from '../middleware/auth';
 import { db } from '../database/kysely';
 import { ApiResponse } from '@kelseyabreu/shared';
+import { seasonService, PLACEMENT_GAMES } from '../services/SeasonService';
 
 const router = express.Router();
 
@@ -40,6 +41,13 @@ router.get('/user', authenticateToken, async (req: Request, res: Response) => {
       } as ApiResponse);
     }
 
+    // Glicko-2 rating in each mode the user has played
+    const modeRatings = await db
+      .selectFrom('player_ratings')
+      .select(['game_mode', 'rating', 'deviation', 'games_played', 'games_won'])
+      .where('user_id', '=', userId)
+      .execute();
+
     return res.json({
       status: 'success',
       success: true,
@@ -47,7 +55,13 @@ router.get('/user', authenticateToken, async (req: Request, res: Response) => {
         rating: user.current_rating || 1000,
         gamesPlayed: user.games_played || 0,
         gamesWon: user.games_won || 0,
-        winRate: user.games_played ? ((user.games_won || 0) / user.games_played * 100).toFixed(1) : '0.0'
+        winRate: user.games_played ? ((user.games_won || 0) / user.games_played * 100).toFixed(1) : '0.0',
+        modes: Object.fromEntries(modeRatings.map(mode => [mode.game_mode, {
+          rating: Math.round(mode.rating),
+          deviation: Math.round(mode.deviation),
+          gamesPlayed: mode.games_played,
+          gamesWon: mode.games_won
+        }]))
       }
     } as ApiResponse);
 
@@ -138,107 +152,39 @@ router.post('/players', authenticateToken, async (req: Request, res: Response) =
 });
 
 /**
- * Update player rating after match
- * POST /api/ratings/update
+ * Get leaderboard
+ * GET /api/ratings/leaderboard
  */
-router.post('/update', authenticateToken, async (req: Request, res: Response) => {
+router.get('/leaderboard', async (req: Request, res: Response) => {
   try {
-    const { playerId, oldRating, newRating, ratingChange, gameMode, matchResult } = req.body;
-    const requestingUserId = req.user!.id;
-
-    // Validate that user can only update their own rating
-    if (playerId !== requestingUserId) {
-      return res.status(500).json({
-      status: 'error',
-      success: false,
-        error: 'Can only update own rating',
-        data: null
-      } as ApiResponse);
-    }
-
-    console.log(`📈 Updating rating for ${playerId}: ${oldRating} → ${newRating} (${ratingChange > 0 ? '+' : ''}${ratingChange})`);
-
-    // Update user rating
-    const isWin = ratingChange > 0;
+    const { gameMode = 'ranked_1v1', limit = 100 } = req.query;
 
-    // First get current values
-    const currentUser = await db
-      .selectFrom('users')
-      .select(['current_rating', 'peak_rating', 'games_played', 'games_won', 'win_streak'])
-      .where('id', '=', playerId)
-      .executeTakeFirst();
+    console.log(`🏆 Getting leaderboard for ${gameMode} (limit: ${limit})`);
 
-    const currentGamesPlayed = currentUser?.games_played || 0;
-    const currentGamesWon = currentUser?.games_won || 0;
-    const currentWinStreak = currentUser?.win_streak || 0;
-    const currentPeakRating = currentUser?.peak_rating || 1000;
-
-    await db
-      .updateTable('users')
-      .set({
-        current_rating: newRating,
-        peak_rating: Math.max(currentPeakRating, newRating),
-        games_played: currentGamesPlayed + 1,
-        games_won: isWin ? currentGamesWon + 1 : currentGamesWon,
-        win_streak: isWin ? currentWinStreak + 1 : 0,
-        updated_at: new Date()
-      })
-      .where('id', '=', playerId)
+    // Use the leaderboard view created in migration
+    const leaderboard = await db
+      .selectFrom('leaderboard_view')
+      .selectAll()
+      .where('games_played', '>=', 5) // Minimum games for ranking
+      .orderBy('current_rating', 'desc')
+      .limit(Number(limit))
       .execute();
 
-    // Record match result (create a dummy session for now)
-    const sessionResult = await db
-      .insertInto('game_sessions')
-      .values({
-        id: crypto.randomUUID(),
-        host_user_id: playerId,
-        game_mode: 'online',
-        is_private: false,
-        max_players: gameMode === 'ranked_1v1' || gameMode === 'casual_1v1' ? 2 : 4,
-        current_players: 1,
-        status: 'finished',
-        players: [{
-          playerId: playerId,
-          username: 'Test Player',
-          ready: true
-        }],
-        game_state: {},
-        settings: {},
-        created_at: new Date(),
-        updated_at: new Date()
-      })
-      .returning('id')
-      .executeTakeFirst();
-
-    if (sessionResult) {
-      await db
-        .insertInto('match_results')
-        .values({
-          session_id: sessionResult.id,
-          player_user_id: playerId,
-          opponent_user_id: playerId, // For testing, use same player as opponent
-          game_mode: gameMode,
-          result: matchResult, // 'win', 'loss', 'draw'
-          rating_before: oldRating,
-          rating_after: newRating,
-          rating_change: ratingChange,
-          created_at: new Date()
-        })
-        .execute();
-    }
+    // Add rank numbers
+    const rankedLeaderboard = leaderboard.map((entry, index) => ({
+      ...entry,
+      rank: index + 1,
+      winRate: entry.games_played > 0 ? Math.round((entry.games_won / entry.games_played) * 100) : 0
+    }));
 
     return res.json({
       status: 'success',
       success: true,
-      data: {
-        playerId,
-        newRating,
-        ratingChange
-      }
+      data: rankedLeaderboard
     } as ApiResponse);
 
   } catch (error: any) {
-    console.error('❌ Update rating error:', error);
+    console.error('❌ Get leaderboard error:', error);
     return res.status(500).json({
       status: 'error',
       success: false,
@@ -248,40 +194,56 @@ router.post('/update', authenticateToken, async (req: Request, res: Response) =>
   }
 });
 
+// ============================================================================
+// RANKED SEASONS
+// ============================================================================
+
 /**
- * Get leaderboard
- * GET /api/ratings/leaderboard
+ * List ranked seasons, newest first
+ * GET /api/ratings/seasons
  */
-router.get('/leaderboard', async (req: Request, res: Response) => {
+router.get('/seasons', async (_req: Request, res: Response) => {
   try {
-    const { gameMode = 'ranked_1v1', limit = 100 } = req.query;
+    const seasons = await seasonService.listSeasons();
 
-    console.log(`🏆 Getting leaderboard for ${gameMode} (limit: ${limit})`);
+    return res.json({
+      status: 'success',
+      success: true,
+      data: seasons
+    } as ApiResponse);
 
-    // Use the leaderboard view created in migration
-    const leaderboard = await db
-      .selectFrom('leaderboard_view')
-      .selectAll()
-      .where('games_played', '>=', 5) // Minimum games for ranking
-      .orderBy('current_rating', 'desc')
-      .limit(Number(limit))
-      .execute();
+  } catch (error) {
+    console.error('❌ List seasons error:', error);
+    return res.status(500).json({
+      status: 'error',
+      success: false,
+      error: 'Internal server error',
+      data: null
+    } as ApiResponse);
+  }
+});
 
-    // Add rank numbers
-    const rankedLeaderboard = leaderboard.map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-      winRate: entry.games_played > 0 ? Math.round((entry.games_won / entry.games_played) * 100) : 0
-    }));
+/**
+ * The current season and the user's standing in each mode they have played this season
+ * GET /api/ratings/seasons/current
+ */
+router.get('/seasons/current', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const season = await seasonService.getCurrentSeason();
+    const standings = season ? await seasonService.getStandings(req.user!.id, season.id) : [];
 
     return res.json({
       status: 'success',
       success: true,
-      data: rankedLeaderboard
+      data: {
+        season,
+        standings,
+        placementGames: PLACEMENT_GAMES
+      }
     } as ApiResponse);
 
-  } catch (error: any) {
-    console.error('❌ Get leaderboard error:', error);
+  } catch (error) {
+    console.error('❌ Current season error:', error);
     return res.status(500).json({
       status: 'error',
       success: false,
@@ -342,12 +304,13 @@ router.get('/history/:playerId', authenticateToken, async (req: Request, res: Re
 });
 
 /**
- * Get player's rating statistics
- * GET /api/ratings/stats/:playerId
+ * Get player's rating statistics, with their standing in the requested season
+ * GET /api/ratings/stats/:playerId?season=current|<seasonId>&gameMode=ranked_1v1
  */
 router.get('/stats/:playerId', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { playerId } = req.params;
+    const { season = 'current', gameMode = 'ranked_1v1' } = req.query;
     const requestingUserId = req.user!.id;
 
     // Users can only view their own stats (for now)
@@ -382,7 +345,12 @@ router.get('/stats/:playerId', authenticateToken, async (req: Request, res: Resp
     }
 
     const winRate = user.games_played > 0 ? (user.games_won / user.games_played) * 100 : 0;
-    const rank = await getUserRank(playerId);
+    const seasonId = season === 'current'
+      ? (await seasonService.getCurrentSeason())?.id
+      : Number(season);
+    const standing = seasonId
+      ? (await seasonService.getStandings(playerId!, seasonId)).find(entry => entry.gameMode === gameMode)
+      : undefined;
 
     return res.json({
       status: 'success',
@@ -394,8 +362,12 @@ router.get('/stats/:playerId', authenticateToken, async (req: Request, res: Resp
         gamesWon: user.games_won || 0,
         winRate: Math.round(winRate * 100) / 100,
         winStreak: user.win_streak || 0,
-        rank: rank || 'Unranked',
-        season: 'season_1'
+        season: seasonId ? {
+          id: seasonId,
+          gameMode,
+          standing: standing || null,
+          placementGamesRemaining: standing ? standing.placementGamesRemaining : PLACEMENT_GAMES
+        } : null
       }
     } as ApiResponse);
 
@@ -410,29 +382,4 @@ router.get('/stats/:playerId', authenticateToken, async (req: Request, res: Resp
   }
 });
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Get user's rank based on rating
- */
-async function getUserRank(userId: string): Promise<string> {
-  const user = await db
-    .selectFrom('users')
-    .select(['current_rating'])
-    .where('id', '=', userId)
-    .executeTakeFirst();
-
-  const rating = user?.current_rating || 1000;
-
-  // Simple rank system based on rating
-  if (rating >= 2000) return 'Master';
-  if (rating >= 1800) return 'Diamond';
-  if (rating >= 1600) return 'Platinum';
-  if (rating >= 1400) return 'Gold';
-  if (rating >= 1200) return 'Silver';
-  return 'Bronze';
-}
-
 export default router;
@@ -0,0 +1,205 @@
+/**
+ * Headless AI-vs-AI balance simulation
+ *
+ * Plays seeded games between two decks and AI difficulties and writes the results as JSON
+ * (summary, per-card figures, every game) and CSV (per-card figures).
+ *
+ * Usage:
+ *   npm run sim:balance -- --games 2000 --deck-a decks/forest.json --ai-a hard --deck-b random --ai-b medium
+ *
+ * Options:
+ *   --games <n>              Games to play (default 1000)
+ *   --seed <text>            Base seed; game i uses "<seed>-<i>" (default "balance")
+ *   --deck-a, --deck-b       Deck list JSON ({ "name", "cards": [{ "cardId", "quantity" }] }) or "random"
+ *   --ai-a, --ai-b           easy | medium | hard (default medium)
+ *   --max-turns <n>          Rounds before a game counts as unfinished (default 60)
+ *   --hard-search-nodes <n>  Actions the Hard AI simulates per decision (default 200)
+ *   --no-swap                Seat A always moves first
+ *   --out <dir>              Output directory (default ./simulation-results)
+ *   --verbose                Keep the engine's logging
+ */
+
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { AbilityData, AIDifficulty, AIStrategyFactory, CardData, createDevelopmentDataLoader } from '@kelseyabreu/shared';
+import { MockLocalizationManager } from '../utils/mockLocalizationManager';
+import {
+  BalanceSimulationService,
+  SimulationDeck,
+  SimulationSeat
+} from '../services/BalanceSimulationService';
+
+interface SimulationArgs {
+  games: number;
+  seed: string;
+  decks: [string, string];
+  difficulties: [AIDifficulty, AIDifficulty];
+  maxTurns: number;
+  hardSearchNodes: number;
+  swap: boolean;
+  out: string;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): SimulationArgs {
+  const args: SimulationArgs = {
+    games: 1000,
+    seed: 'balance',
+    decks: ['random', 'random'],
+    difficulties: [AIDifficulty.MEDIUM, AIDifficulty.MEDIUM],
+    maxTurns: 60,
+    hardSearchNodes: 200,
+    swap: true,
+    out: './simulation-results',
+    verbose: false
+  };
+
+  const difficulty = (value: string): AIDifficulty => {
+    if (!AIStrategyFactory.isValidDifficulty(value)) {
+      throw new Error(`Unknown AI difficulty "${value}" (use ${AIStrategyFactory.getAvailableDifficulties().join(', ')})`);
+    }
+    return value;
+  };
+  const count = (flag: string, value: string): number => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) {
+      throw new Error(`${flag} needs a positive number`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]!;
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case '--games': args.games = count(flag, value()); break;
+      case '--seed': args.seed = value(); break;
+      case '--deck-a': args.decks[0] = value(); break;
+      case '--deck-b': args.decks[1] = value(); break;
+      case '--ai-a': args.difficulties[0] = difficulty(value()); break;
+      case '--ai-b': args.difficulties[1] = difficulty(value()); break;
+      case '--max-turns': args.maxTurns = count(flag, value()); break;
+      case '--hard-search-nodes': args.hardSearchNodes = count(flag, value()); break;
+      case '--no-swap': args.swap = false; break;
+      case '--out': args.out = value(); break;
+      case '--verbose': args.verbose = true; break;
+      default: throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  return args;
+}
+
+async function loadDeck(source: string): Promise<SimulationDeck | undefined> {
+  if (source === 'random') {
+    return undefined;
+  }
+
+  const deck = JSON.parse(await fs.readFile(resolve(source), 'utf8')) as SimulationDeck;
+  if (!deck.name || !Array.isArray(deck.cards) || deck.cards.length === 0) {
+    throw new Error(`${source} is not a deck list ({ "name", "cards": [{ "cardId", "quantity" }] })`);
+  }
+  return deck;
+}
+
+/**
+ * Card, ability and keyword data from the same JSON files the server plays with
+ */
+async function loadGameData() {
+  const dataPath = process.env['GAME_DATA_PATH'] || '../../public/data';
+  const serverDataLoader = createDevelopmentDataLoader(dataPath);
+
+  const [cardsResult, abilitiesResult, keywordsResult] = await Promise.all([
+    serverDataLoader.loadCards(),
+    serverDataLoader.loadAbilities(),
+    serverDataLoader.loadKeywords()
+  ]);
+
+  if (!cardsResult.success || !abilitiesResult.success || !keywordsResult.success) {
+    throw new Error(`Failed to load game data from ${dataPath}`);
+  }
+
+  const cardDatabase = new Map<number, CardData>();
+  cardsResult.data?.forEach(card => {
+    cardDatabase.set(card.cardId, card);
+  });
+
+  // The JSON files name ability IDs abilityId
+  const abilityDatabase = new Map<number, AbilityData>();
+  abilitiesResult.data?.forEach((ability: AbilityData & { abilityId?: number }) => {
+    abilityDatabase.set(ability.abilityId ?? ability.id, ability);
+  });
+
+  const keywordDatabase = new Map<number, string>();
+  keywordsResult.data?.forEach(keyword => {
+    keywordDatabase.set(keyword.id, keyword.name);
+  });
+
+  return { cardDatabase, abilityDatabase, keywordDatabase, localizationManager: new MockLocalizationManager() };
+}
+
+async function simulateBalance() {
+  const args = parseArgs(process.argv.slice(2));
+  const seats = await Promise.all(args.decks.map(async (source, index): Promise<SimulationSeat> => {
+    const deck = await loadDeck(source);
+    return { ...(deck ? { deck } : {}), difficulty: args.difficulties[index]! };
+  })) as [SimulationSeat, SimulationSeat];
+
+  console.log(`🎲 Simulating ${args.games} games (seed "${args.seed}")`);
+  seats.forEach((seat, index) => {
+    console.log(`   Seat ${index + 1}: ${seat.deck?.name ?? 'Random deck'} (${seat.difficulty} AI)`);
+  });
+
+  const simulator = new BalanceSimulationService(await loadGameData());
+
+  // The engine and AI log every step; thousands of games would drown the progress output
+  const { log, info, debug, warn } = console;
+  if (!args.verbose) {
+    console.log = console.info = console.debug = console.warn = () => {};
+  }
+
+  const startedAt = Date.now();
+  const { report, games } = simulator.run({
+    games: args.games,
+    seed: args.seed,
+    seats,
+    maxTurns: args.maxTurns,
+    swapFirstPlayer: args.swap,
+    hardSearchNodes: args.hardSearchNodes
+  }, game => {
+    if ((game.index + 1) % 50 === 0 || game.index + 1 === args.games) {
+      process.stdout.write(`\r   ${game.index + 1}/${args.games} games played`);
+    }
+  });
+  Object.assign(console, { log, info, debug, warn });
+  process.stdout.write('\n');
+
+  await fs.mkdir(args.out, { recursive: true });
+  const jsonPath = join(args.out, `balance-${args.seed}.json`);
+  const csvPath = join(args.out, `balance-${args.seed}-cards.csv`);
+  await fs.writeFile(jsonPath, JSON.stringify({ report, games }, null, 2));
+  await fs.writeFile(csvPath, simulator.toCardCsv(report));
+
+  console.log(`\n📊 Results after ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  report.seats.forEach(seat => {
+    console.log(`   Seat ${seat.seat + 1} (${seat.deckName}, ${seat.difficulty}): ${(seat.winRate * 100).toFixed(1)}% win rate, ${seat.averageVictoryPoints.toFixed(2)} VP avg`);
+  });
+  console.log(`   Draws: ${report.draws}, unfinished: ${report.unfinished}`);
+  console.log(`   Average length: ${report.averageTurns.toFixed(1)} rounds, ${report.averageActions.toFixed(1)} actions`);
+  console.log(`   First player wins: ${report.firstPlayerWinRate === null ? 'n/a' : `${(report.firstPlayerWinRate * 100).toFixed(1)}%`}`);
+  console.log(`   Never played: ${report.neverPlayedCards.map(card => card.name).join(', ') || 'none'}`);
+  console.log(`\n💾 Wrote ${jsonPath} and ${csvPath}`);
+}
+
+// Exit explicitly: the shared package's cache timers would keep the process alive
+simulateBalance()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Balance simulation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,271 @@
+/**
+ * AI Seat Service
+ * Seats the shared AI strategies in online matches: to fill a team or free-for-all queue that
+ * has waited too long, or to take over the seat of a player who forfeited while others play on.
+ * AI seats act through the same action path as players' sockets, after a thinking delay.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  AIDifficulty,
+  AIStrategy,
+  AIStrategyFactory,
+  BioMastersEngine,
+  GameActionType,
+  GamePhase,
+  GameState,
+  PendingChoice,
+  PhyloGameAction,
+  PlayerAction
+} from '@kelseyabreu/shared';
+import { starterDeckService } from './starterDeckService';
+
+export const AI_PLAYER_ID_PREFIX = 'ai-';
+export const DEFAULT_AI_SEAT_DIFFICULTY = AIDifficulty.MEDIUM;
+// The starter deck every AI seat plays
+export const AI_SEAT_DECK_ID = 'forest-starter';
+
+/**
+ * A session's player entry, as far as AI seats are concerned
+ */
+export interface SeatedPlayer {
+  playerId: string;
+  isAI?: boolean;
+  aiDifficulty?: AIDifficulty;
+}
+
+/**
+ * An AI-controlled seat in a match
+ */
+export interface AISeat {
+  playerId: string;
+  difficulty: AIDifficulty;
+}
+
+export type AIActionHandler = (playerId: string, action: PhyloGameAction) => Promise<void>;
+
+/**
+ * Difficulty of server AI seats, from AI_SEAT_DIFFICULTY
+ */
+export function getAISeatDifficulty(): AIDifficulty {
+  const configured = process.env['AI_SEAT_DIFFICULTY'];
+  return configured && AIStrategyFactory.isValidDifficulty(configured) ? configured : DEFAULT_AI_SEAT_DIFFICULTY;
+}
+
+/**
+ * A player ID for an AI seat that fills a match; seats taken over keep their player's ID
+ */
+export function createAIPlayerId(): string {
+  return `${AI_PLAYER_ID_PREFIX}${randomUUID()}`;
+}
+
+export function isAIPlayerId(playerId: string): boolean {
+  return playerId.startsWith(AI_PLAYER_ID_PREFIX);
+}
+
+// Engine actions the AI plans, as the socket action types that carry them
+const SOCKET_ACTION_TYPES: Partial<Record<GameActionType, PhyloGameAction['type']>> = {
+  [GameActionType.PLAY_CARD]: 'place_card',
+  [GameActionType.MOVE_CARD]: 'move_card',
+  [GameActionType.PASS_TURN]: 'pass_turn',
+  [GameActionType.DROP_AND_DRAW_THREE]: 'drop_and_draw',
+  [GameActionType.RESOLVE_CHOICE]: 'resolve_choice',
+  [GameActionType.ACTIVATE_ABILITY]: 'activate_ability',
+  [GameActionType.METAMORPHOSIS]: 'metamorphosis'
+};
+
+const seatKey = (sessionId: string, playerId: string): string => `${sessionId}:${playerId}`;
+
+export class AISeatService {
+  private strategies = new Map<string, AIStrategy>();
+  private engines = new Map<string, BioMastersEngine>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * The session player entry for an AI filling a match. It has accepted the match and picked
+   * its deck already, so it never holds up the lobby.
+   */
+  createAIPlayer(playerId: string, seatNumber: number, rating: number, difficulty: AIDifficulty = getAISeatDifficulty()) {
+    const name = `${AIStrategyFactory.getDifficultyDisplayName(difficulty)} AI ${seatNumber}`;
+    return {
+      playerId,
+      id: playerId,
+      name,
+      username: name,
+      ready: true,
+      rating,
+      isAI: true,
+      aiDifficulty: difficulty,
+      hasDeckSelected: true,
+      selectedDeckId: AI_SEAT_DECK_ID
+    };
+  }
+
+  /**
+   * Whether a forfeited seat goes to the AI rather than ending the match: only in matches of
+   * more than two, and only while another player is still there to play on
+   */
+  canTakeOverSeat(players: SeatedPlayer[], playerId: string): boolean {
+    return players.length > 2 &&
+      players.some(player => player.playerId === playerId && !player.isAI) &&
+      players.some(player => player.playerId !== playerId && !player.isAI);
+  }
+
+  /**
+   * Hand a player's seat to the AI. The seat keeps its player ID, so the engine state still fits.
+   */
+  takeOverSeat<T extends SeatedPlayer>(players: T[], playerId: string, difficulty: AIDifficulty = getAISeatDifficulty()): T[] {
+    return players.map(player => player.playerId === playerId
+      ? { ...player, isAI: true, aiDifficulty: difficulty, aiTookOverAt: Date.now() }
+      : player
+    );
+  }
+
+  isAISeat(players: SeatedPlayer[], playerId: string): boolean {
+    return players.some(player => player.playerId === playerId && player.isAI === true);
+  }
+
+  /**
+   * The AI seat that has to act now: the player owing a pending choice, otherwise the current player
+   */
+  getActingSeat(players: SeatedPlayer[], engineState: GameState): AISeat | null {
+    const isPlaying = engineState.gamePhase === GamePhase.PLAYING || engineState.gamePhase === GamePhase.FINAL_TURN;
+    const actorId = engineState.pendingChoice?.playerId ??
+      (isPlaying ? engineState.players[engineState.currentPlayerIndex]?.id : undefined);
+
+    const seat = players.find(player => player.playerId === actorId && player.isAI);
+    return seat ? { playerId: seat.playerId, difficulty: seat.aiDifficulty ?? DEFAULT_AI_SEAT_DIFFICULTY } : null;
+  }
+
+  /**
+   * The seat's next action, ready for the socket action path. A pending choice is answered with
+   * the first options it allows; otherwise this is the first step of the turn the strategy plans,
+   * or a pass when it plans nothing.
+   */
+  chooseAction(sessionId: string, seat: AISeat, engineState: GameState, simulationEngine: BioMastersEngine): PhyloGameAction {
+    const choice = engineState.pendingChoice;
+    if (choice?.playerId === seat.playerId) {
+      return this.answerChoice(seat.playerId, choice);
+    }
+
+    const strategy = this.getStrategy(sessionId, seat);
+    strategy.setSimulationEngine(simulationEngine);
+    const [nextAction] = strategy.planTurn(engineState, seat.playerId);
+
+    return this.toSocketAction(nextAction ?? { type: GameActionType.PASS_TURN, playerId: seat.playerId, payload: {} });
+  }
+
+  /**
+   * Answer a choice with its first options: at least one, and at least as many as it needs
+   */
+  answerChoice(playerId: string, choice: PendingChoice): PhyloGameAction {
+    const count = Math.min(Math.max(choice.minSelections, 1), choice.maxSelections, choice.options.length);
+    return this.toSocketAction({
+      type: GameActionType.RESOLVE_CHOICE,
+      playerId,
+      payload: { choiceId: choice.choiceId, selections: choice.options.slice(0, count) }
+    });
+  }
+
+  toSocketAction(action: PlayerAction): PhyloGameAction {
+    const type = SOCKET_ACTION_TYPES[action.type];
+    return {
+      id: randomUUID(),
+      playerId: action.playerId,
+      timestamp: Date.now(),
+      type: type ?? 'pass_turn',
+      data: type ? action.payload : {}
+    };
+  }
+
+  /**
+   * Let the AI seat that has to act next take its action once its thinking delay is up.
+   * Replaces any AI turn already waiting in the session; returns whether one was scheduled.
+   */
+  scheduleTurn(
+    sessionId: string,
+    players: SeatedPlayer[],
+    engineState: GameState,
+    createEngine: () => Promise<BioMastersEngine>,
+    act: AIActionHandler
+  ): boolean {
+    this.cancelTurn(sessionId);
+
+    const seat = this.getActingSeat(players, engineState);
+    if (!seat) {
+      return false;
+    }
+
+    const delay = this.getStrategy(sessionId, seat).getThinkingDelay();
+    const timer = setTimeout(async () => {
+      this.timers.delete(sessionId);
+      try {
+        const action = this.chooseAction(sessionId, seat, engineState, await this.getEngine(sessionId, createEngine));
+        await act(seat.playerId, action);
+      } catch (error) {
+        console.error(`❌ AI seat ${seat.playerId} failed to act in session ${sessionId}:`, error);
+      }
+    }, delay);
+
+    this.timers.set(sessionId, timer);
+    console.log(`🤖 AI seat ${seat.playerId} acts in session ${sessionId} in ${Math.round(delay)}ms`);
+    return true;
+  }
+
+  cancelTurn(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  /**
+   * The AI seat deck's card IDs, shuffled
+   */
+  dealDeck(random: () => number = Math.random): string[] {
+    const deck = starterDeckService.createStarterDecksData().find(starter => starter.id === AI_SEAT_DECK_ID)!;
+    const cards = deck.cards.flatMap(card => Array<string>(card.quantity).fill(card.cardId.toString()));
+
+    for (let i = cards.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [cards[i], cards[j]] = [cards[j]!, cards[i]!];
+    }
+    return cards;
+  }
+
+  /**
+   * Forget a finished session's AI seats and any turn still waiting
+   */
+  clearSession(sessionId: string): void {
+    this.cancelTurn(sessionId);
+    this.engines.delete(sessionId);
+    for (const key of Array.from(this.strategies.keys())) {
+      if (key.startsWith(`${sessionId}:`)) {
+        this.strategies.delete(key);
+      }
+    }
+  }
+
+  private getStrategy(sessionId: string, seat: AISeat): AIStrategy {
+    const key = seatKey(sessionId, seat.playerId);
+    let strategy = this.strategies.get(key);
+    if (!strategy || strategy.getDifficulty() !== seat.difficulty) {
+      strategy = AIStrategyFactory.createStrategy(seat.difficulty);
+      this.strategies.set(key, strategy);
+    }
+    return strategy;
+  }
+
+  private async getEngine(sessionId: string, createEngine: () => Promise<BioMastersEngine>): Promise<BioMastersEngine> {
+    let engine = this.engines.get(sessionId);
+    if (!engine) {
+      engine = await createEngine();
+      this.engines.set(sessionId, engine);
+    }
+    return engine;
+  }
+}
+
+export const aiSeatService = new AISeatService();
+export default aiSeatService;
@@ -0,0 +1,97 @@
+/**
+ * Action Log Service
+ * Keeps the append-only, versioned action log of every match and serves replays from it.
+ * A replay is the session's initial engine state plus its logged actions in version order.
+ */
+
+import { sql } from 'kysely';
+import { db } from '../database/kysely';
+import { deepSerialize, deepDeserialize } from '@kelseyabreu/shared';
+import type { ActionLogEntry, GameAction, GameState, MatchReplay } from '@kelseyabreu/shared';
+
+export class ActionLogService {
+  /**
+   * Store the engine state a match starts from
+   */
+  async recordInitialState(sessionId: string, initialState: GameState): Promise<void> {
+    await db
+      .updateTable('game_sessions')
+      .set({ initial_state: deepSerialize(initialState) })
+      .where('id', '=', sessionId)
+      .execute();
+  }
+
+  /**
+   * Append an accepted action to the session log and return its version
+   */
+  async appendAction(sessionId: string, action: GameAction, workerId?: string, processingTimeMs?: number): Promise<number> {
+    return await db.transaction().execute(async (trx) => {
+      // Serialize appends per session so versions stay gapless
+      await sql`SELECT pg_advisory_xact_lock(hashtext(${sessionId}))`.execute(trx);
+
+      const latest = await trx
+        .selectFrom('game_action_log')
+        .select(({ fn }) => fn.max('version').as('version'))
+        .where('session_id', '=', sessionId)
+        .executeTakeFirst();
+      const version = (latest?.version ?? 0) + 1;
+
+      await trx
+        .insertInto('game_action_log')
+        .values({
+          session_id: sessionId,
+          player_id: action.playerId,
+          action_type: action.type,
+          action_data: deepSerialize(action.payload ?? {}),
+          version,
+          worker_id: workerId ?? null,
+          processing_time_ms: processingTimeMs ?? null
+        })
+        .execute();
+
+      return version;
+    });
+  }
+
+  /**
+   * Load a match's replay, or null if the match has no recorded starting state
+   */
+  async getReplay(sessionId: string): Promise<MatchReplay | null> {
+    const session = await db
+      .selectFrom('game_sessions')
+      .select(['initial_state'])
+      .where('id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session?.initial_state) {
+      return null;
+    }
+
+    const rows = await db
+      .selectFrom('game_action_log')
+      .select(['version', 'player_id', 'action_type', 'action_data', 'created_at'])
+      .where('session_id', '=', sessionId)
+      .where('version', 'is not', null)
+      .orderBy('version', 'asc')
+      .execute();
+
+    const actions: ActionLogEntry[] = rows.map(row => ({
+      version: row.version!,
+      action: {
+        type: row.action_type as GameAction['type'],
+        playerId: row.player_id,
+        payload: deepDeserialize(row.action_data ?? {})
+      },
+      createdAt: new Date(row.created_at).toISOString()
+    }));
+
+    return {
+      sessionId,
+      initialState: deepDeserialize(session.initial_state),
+      actions
+    };
+  }
+}
+
+export const actionLogService = new ActionLogService();
+export default actionLogService;
@@ -0,0 +1,375 @@
+/**
+ * Balance Simulation Service
+ * Plays seeded AI-vs-AI games on BioMastersEngine with no UI or database and reports how the
+ * cards perform. Like BoosterPackSystem.simulatePackOpenings, but for gameplay.
+ */
+
+import {
+  AIDifficulty,
+  AIStrategy,
+  AIStrategyFactory,
+  BioMastersEngine,
+  GameActionType,
+  GameEngineData,
+  GamePhase,
+  GameSettings,
+  GameState,
+  PlayerAction,
+  SeededRandom
+} from '@kelseyabreu/shared';
+
+export interface SimulationDeckCard {
+  cardId: number;
+  quantity: number;
+}
+
+export interface SimulationDeck {
+  name: string;
+  cards: SimulationDeckCard[];
+}
+
+/**
+ * One side of the matchup; without a deck the engine deals random cards as in offline games
+ */
+export interface SimulationSeat {
+  deck?: SimulationDeck;
+  difficulty: AIDifficulty;
+}
+
+export interface BalanceSimulationOptions {
+  games: number;
+  seed: string;
+  seats: [SimulationSeat, SimulationSeat];
+  maxTurns?: number;         // Rounds before an unfinished game is abandoned
+  swapFirstPlayer?: boolean; // Alternate which seat moves first (default true)
+  hardSearchNodes?: number;  // Actions a Hard AI simulates per decision (default 200)
+}
+
+export type SimulatedGameEnd = 'deck_empty' | 'turn_limit' | 'stalled' | string;
+
+export interface SimulatedGame {
+  index: number;
+  seed: string;
+  firstSeat: number;
+  winnerSeat: number | null; // null for a draw or an unfinished game
+  endReason: SimulatedGameEnd;
+  turns: number;
+  actions: number;
+  victoryPoints: number[];
+  startingCards: string[][]; // Per seat: starting hand and deck
+  playedCards: string[][];   // Per seat: every card played, in order
+}
+
+export interface SeatBalanceStats {
+  seat: number;
+  deckName: string;
+  difficulty: AIDifficulty;
+  wins: number;
+  winRate: number;
+  averageVictoryPoints: number;
+}
+
+export interface CardBalanceStats {
+  cardId: string;
+  name: string;
+  gamesInDeck: number;
+  gamesPlayed: number;
+  timesPlayed: number;
+  winRateWhenPlayed: number | null;
+  winRateWhenNotPlayed: number | null;
+  winRateContribution: number | null; // Played minus not played, over games it was in the deck
+}
+
+export interface BalanceReport {
+  games: number;
+  seed: string;
+  decided: number;
+  draws: number;
+  unfinished: number;
+  averageTurns: number;
+  averageActions: number;
+  averageVictoryPoints: number;
+  firstPlayerWinRate: number | null;
+  seats: SeatBalanceStats[];
+  cards: CardBalanceStats[];
+  neverPlayedCards: Array<{ cardId: string; name: string; gamesInDeck: number }>;
+}
+
+const DEFAULT_MAX_TURNS = 60;
+const DEFAULT_HARD_SEARCH_NODES = 200;
+// Upper bound on engine actions per round, so a game that stops ending its turns cannot loop forever
+const MAX_ACTIONS_PER_TURN = 50;
+
+const SIMULATION_SETTINGS: GameSettings = {
+  gridWidth: 9,
+  gridHeight: 10,
+  maxHandSize: 7,
+  startingEnergy: 10,
+  turnTimeLimit: 300,
+  maxPlayers: 2,
+  startingHandSize: 5
+};
+
+const ratio = (value: number, total: number): number | null => total > 0 ? value / total : null;
+
+export class BalanceSimulationService {
+  constructor(private readonly gameData: GameEngineData) {}
+
+  /**
+   * Play the requested games and aggregate them; onProgress is called after each game
+   */
+  run(options: BalanceSimulationOptions, onProgress?: (game: SimulatedGame) => void): { report: BalanceReport; games: SimulatedGame[] } {
+    if (options.games < 1) {
+      throw new Error('At least one game is required');
+    }
+
+    const games: SimulatedGame[] = [];
+    for (let index = 0; index < options.games; index++) {
+      const game = this.playGame(index, options);
+      games.push(game);
+      onProgress?.(game);
+    }
+
+    return { report: this.buildReport(options, games), games };
+  }
+
+  /**
+   * Play one seeded game to the end, or until the turn limit
+   */
+  playGame(index: number, options: BalanceSimulationOptions): SimulatedGame {
+    const seed = `${options.seed}-${index}`;
+    const firstSeat = options.swapFirstPlayer !== false && index % 2 === 1 ? 1 : 0;
+    const seatOrder = firstSeat === 0 ? [0, 1] : [1, 0];
+    const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+
+    const engine = this.createEngine();
+    const planner = this.createEngine();
+
+    engine.initializeNewGame(`simulation-${seed}`, seatOrder.map(seat => ({
+      id: this.playerId(seat),
+      name: options.seats[seat]!.deck?.name ?? `Seat ${seat + 1}`
+    })), SIMULATION_SETTINGS, seed);
+
+    this.dealDecks(engine.getGameState(), options, seed);
+    seatOrder.forEach(seat => {
+      engine.processAction({ type: GameActionType.PLAYER_READY, playerId: this.playerId(seat), payload: {} });
+    });
+
+    const strategies = options.seats.map((seat, index) => {
+      // A node budget rather than a clock, so a seeded game with a Hard seat replays move for move
+      const strategy = AIStrategyFactory.createStrategy(seat.difficulty, { searchNodeBudget: options.hardSearchNodes ?? DEFAULT_HARD_SEARCH_NODES });
+      const random = new SeededRandom(`${seed}-ai-${index}`);
+      strategy.setSimulationEngine(planner);
+      strategy.setRandomSource(() => random.next());
+      return strategy;
+    });
+
+    const startingCards = options.seats.map((_, seat) => {
+      const player = engine.getGameState().players.find(p => p.id === this.playerId(seat))!;
+      return [...player.hand, ...player.deck];
+    });
+    const playedCards: string[][] = options.seats.map(() => []);
+
+    let actions = 0;
+    let endReason: SimulatedGameEnd | null = null;
+    const maxActions = maxTurns * options.seats.length * MAX_ACTIONS_PER_TURN;
+
+    while (endReason === null) {
+      const state = engine.getGameState();
+      if (state.gamePhase === GamePhase.ENDED) {
+        endReason = engine.getGameResult()?.endReason ?? GamePhase.ENDED;
+      } else if (state.turnNumber > maxTurns) {
+        endReason = 'turn_limit';
+      } else if (actions >= maxActions || !this.playStep(engine, state, strategies, playedCards)) {
+        endReason = 'stalled';
+      } else {
+        actions++;
+      }
+    }
+
+    const finalState = engine.getGameState();
+    const result = finalState.gamePhase === GamePhase.ENDED ? engine.getGameResult() : null;
+    const winnerId: string | undefined = result?.winner?.playerId;
+
+    return {
+      index,
+      seed,
+      firstSeat,
+      winnerSeat: winnerId ? this.seatOf(winnerId) : null,
+      endReason,
+      turns: finalState.turnNumber,
+      actions,
+      victoryPoints: options.seats.map((_, seat) => engine.getPlayerStats(this.playerId(seat)).victoryPoints),
+      startingCards,
+      playedCards
+    };
+  }
+
+  /**
+   * Aggregate finished games into seat, card and game-length figures
+   */
+  buildReport(options: BalanceSimulationOptions, games: SimulatedGame[]): BalanceReport {
+    const finished = games.filter(game => game.endReason !== 'turn_limit' && game.endReason !== 'stalled');
+    const decided = finished.filter(game => game.winnerSeat !== null);
+    const scoreOf = (game: SimulatedGame, seat: number) => game.winnerSeat === null ? 0.5 : game.winnerSeat === seat ? 1 : 0;
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    const seats = options.seats.map((seat, index): SeatBalanceStats => {
+      const wins = decided.filter(game => game.winnerSeat === index).length;
+      return {
+        seat: index,
+        deckName: seat.deck?.name ?? 'Random',
+        difficulty: seat.difficulty,
+        wins,
+        winRate: ratio(finished.reduce((sum, game) => sum + scoreOf(game, index), 0), finished.length) ?? 0,
+        averageVictoryPoints: average(games.map(game => game.victoryPoints[index] ?? 0))
+      };
+    });
+
+    // Per card, over every finished game a seat had it in its starting cards
+    const cardTotals = new Map<string, { gamesInDeck: number; gamesPlayed: number; timesPlayed: number; playedScore: number; heldScore: number }>();
+    for (const game of finished) {
+      game.startingCards.forEach((cards, seat) => {
+        const played = game.playedCards[seat] || [];
+        for (const cardId of new Set(cards)) {
+          const totals = cardTotals.get(cardId) || { gamesInDeck: 0, gamesPlayed: 0, timesPlayed: 0, playedScore: 0, heldScore: 0 };
+          const timesPlayed = played.filter(playedId => playedId === cardId).length;
+          totals.gamesInDeck++;
+          totals.timesPlayed += timesPlayed;
+          if (timesPlayed > 0) {
+            totals.gamesPlayed++;
+            totals.playedScore += scoreOf(game, seat);
+          } else {
+            totals.heldScore += scoreOf(game, seat);
+          }
+          cardTotals.set(cardId, totals);
+        }
+      });
+    }
+
+    const cards = Array.from(cardTotals, ([cardId, totals]): CardBalanceStats => {
+      const winRateWhenPlayed = ratio(totals.playedScore, totals.gamesPlayed);
+      const winRateWhenNotPlayed = ratio(totals.heldScore, totals.gamesInDeck - totals.gamesPlayed);
+      return {
+        cardId,
+        name: this.cardName(cardId),
+        gamesInDeck: totals.gamesInDeck,
+        gamesPlayed: totals.gamesPlayed,
+        timesPlayed: totals.timesPlayed,
+        winRateWhenPlayed,
+        winRateWhenNotPlayed,
+        winRateContribution: winRateWhenPlayed !== null && winRateWhenNotPlayed !== null ? winRateWhenPlayed - winRateWhenNotPlayed : null
+      };
+    }).sort((a, b) => (b.winRateContribution ?? -Infinity) - (a.winRateContribution ?? -Infinity) || Number(a.cardId) - Number(b.cardId));
+
+    return {
+      games: games.length,
+      seed: options.seed,
+      decided: decided.length,
+      draws: finished.length - decided.length,
+      unfinished: games.length - finished.length,
+      averageTurns: average(games.map(game => game.turns)),
+      averageActions: average(games.map(game => game.actions)),
+      averageVictoryPoints: average(games.flatMap(game => game.victoryPoints)),
+      firstPlayerWinRate: ratio(decided.filter(game => game.winnerSeat === game.firstSeat).length, decided.length),
+      seats,
+      cards,
+      neverPlayedCards: cards
+        .filter(card => card.timesPlayed === 0)
+        .map(card => ({ cardId: card.cardId, name: card.name, gamesInDeck: card.gamesInDeck }))
+        .sort((a, b) => Number(a.cardId) - Number(b.cardId))
+    };
+  }
+
+  /**
+   * Card figures as CSV, one row per card
+   */
+  toCardCsv(report: BalanceReport): string {
+    const header = 'card_id,name,games_in_deck,games_played,times_played,win_rate_when_played,win_rate_when_not_played,win_rate_contribution';
+    const format = (value: number | null) => value === null ? '' : value.toFixed(4);
+    const rows = report.cards.map(card => [
+      card.cardId,
+      `"${card.name.replace(/"/g, '""')}"`,
+      card.gamesInDeck,
+      card.gamesPlayed,
+      card.timesPlayed,
+      format(card.winRateWhenPlayed),
+      format(card.winRateWhenNotPlayed),
+      format(card.winRateContribution)
+    ].join(','));
+    return [header, ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Play the next step of the game: answer a pending choice, or the first action of the current
+   * player's plan. Returns false when neither that action nor a pass is accepted.
+   */
+  private playStep(engine: BioMastersEngine, state: GameState, strategies: AIStrategy[], playedCards: string[][]): boolean {
+    if (state.pendingChoice) {
+      const choice = state.pendingChoice;
+      const selections = strategies[this.seatOf(choice.playerId)]!.selectChoice(choice, state, choice.playerId);
+      return engine.processAction({
+        type: GameActionType.RESOLVE_CHOICE,
+        playerId: choice.playerId,
+        payload: { choiceId: choice.choiceId, selections }
+      }).isValid;
+    }
+
+    const playerId = state.players[state.currentPlayerIndex]!.id;
+    const seat = this.seatOf(playerId);
+    const pass: PlayerAction = { type: GameActionType.PASS_TURN, playerId, payload: {} };
+    const [action = pass] = strategies[seat]!.planTurn(state, playerId);
+
+    if (engine.processAction(action).isValid) {
+      if (action.type === GameActionType.PLAY_CARD) {
+        playedCards[seat]!.push(String(action.payload.cardId));
+      } else if (action.type === GameActionType.METAMORPHOSIS) {
+        playedCards[seat]!.push(String(action.payload.adultCardId));
+      }
+      return true;
+    }
+
+    return action !== pass && engine.processAction(pass).isValid;
+  }
+
+  /**
+   * Give seats with a deck list their shuffled deck and starting hand
+   */
+  private dealDecks(state: GameState, options: BalanceSimulationOptions, seed: string): void {
+    options.seats.forEach((seat, index) => {
+      if (!seat.deck) return;
+
+      const player = state.players.find(p => p.id === this.playerId(index))!;
+      const cards = seat.deck.cards.flatMap(card => Array<string>(card.quantity).fill(String(card.cardId)));
+      const unknown = cards.find(cardId => !this.gameData.cardDatabase.has(Number(cardId)));
+      if (unknown) {
+        throw new Error(`Deck "${seat.deck.name}" contains unknown card ${unknown}`);
+      }
+
+      const random = new SeededRandom(`${seed}-deck-${index}`);
+      for (let i = cards.length - 1; i > 0; i--) {
+        const j = random.nextInt(0, i + 1);
+        [cards[i], cards[j]] = [cards[j]!, cards[i]!];
+      }
+
+      player.hand = cards.slice(0, SIMULATION_SETTINGS.startingHandSize);
+      player.deck = cards.slice(SIMULATION_SETTINGS.startingHandSize);
+    });
+  }
+
+  private createEngine(): BioMastersEngine {
+    return new BioMastersEngine(this.gameData.cardDatabase, this.gameData.abilityDatabase, this.gameData.keywordDatabase, this.gameData.localizationManager);
+  }
+
+  private playerId(seat: number): string {
+    return `seat-${seat + 1}`;
+  }
+
+  private seatOf(playerId: string): number {
+    return Number(playerId.replace('seat-', '')) - 1;
+  }
+
+  private cardName(cardId: string): string {
+    return this.gameData.cardDatabase.get(Number(cardId))?.nameId ?? `Card ${cardId}`;
+  }
+}
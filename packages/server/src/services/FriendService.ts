@@ -0,0 +1,348 @@
+/**
+ * Friend Service
+ * Friend requests, friendships and blocks, plus direct challenges between friends.
+ * A challenge is a private lobby held open for one friend; they accept by joining it.
+ */
+
+import { db } from '../database/kysely';
+import { FriendChallenge, FriendEntry, FriendshipStatus, PresenceStatus } from '@kelseyabreu/shared';
+import { createError } from '../middleware/errorHandler';
+import { privateLobbyService, LobbyGameMode, LobbySummary, LobbyUser } from './PrivateLobbyService';
+import { presenceService } from './PresenceService';
+
+/**
+ * A friendships row joined with the other player's profile
+ */
+export interface FriendRow {
+  requester_id: string;
+  addressee_id: string;
+  status: string;
+  created_at: Date;
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export function toFriendEntry(row: FriendRow, userId: string, presence: PresenceStatus): FriendEntry {
+  const status = row.status as FriendshipStatus;
+  return {
+    userId: row.user_id,
+    username: row.username,
+    displayName: row.display_name,
+    avatarUrl: row.avatar_url,
+    status,
+    direction: row.requester_id === userId ? 'outgoing' : 'incoming',
+    // Only friends see each other's presence
+    presence: status === FriendshipStatus.ACCEPTED ? presence : PresenceStatus.OFFLINE,
+    since: row.created_at
+  };
+}
+
+export class FriendService {
+  /**
+   * Everyone on a player's list: friends, requests both ways, and the players they blocked
+   */
+  async listFriends(userId: string): Promise<FriendEntry[]> {
+    const rows = await db
+      .selectFrom('friendships')
+      .innerJoin('users', (join) => join.on((eb) => eb.or([
+        eb.and([eb('friendships.requester_id', '=', userId), eb('users.id', '=', eb.ref('friendships.addressee_id'))]),
+        eb.and([eb('friendships.addressee_id', '=', userId), eb('users.id', '=', eb.ref('friendships.requester_id'))])
+      ])))
+      .select([
+        'friendships.requester_id',
+        'friendships.addressee_id',
+        'friendships.status',
+        'friendships.created_at',
+        'users.id as user_id',
+        'users.username',
+        'users.display_name',
+        'users.avatar_url'
+      ])
+      // Players never learn who blocked them
+      .where((eb) => eb.or([
+        eb('friendships.requester_id', '=', userId),
+        eb.and([eb('friendships.addressee_id', '=', userId), eb('friendships.status', '!=', FriendshipStatus.BLOCKED)])
+      ]))
+      .orderBy('users.username', 'asc')
+      .execute();
+
+    return rows.map(row => toFriendEntry(row, userId, presenceService.getPresence(row.user_id)));
+  }
+
+  /**
+   * IDs of a player's accepted friends
+   */
+  async getFriendIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .selectFrom('friendships')
+      .select(['requester_id', 'addressee_id'])
+      .where('status', '=', FriendshipStatus.ACCEPTED)
+      .where((eb) => eb.or([eb('requester_id', '=', userId), eb('addressee_id', '=', userId)]))
+      .execute();
+
+    return rows.map(row => row.requester_id === userId ? row.addressee_id : row.requester_id);
+  }
+
+  async areFriends(userId: string, otherId: string): Promise<boolean> {
+    const row = await this.findPair(userId, otherId);
+    return row?.status === FriendshipStatus.ACCEPTED;
+  }
+
+  /**
+   * Ask another player to be friends. When they already asked, this accepts their request instead.
+   */
+  async sendRequest(userId: string, targetId: string): Promise<FriendshipStatus> {
+    if (userId === targetId) {
+      throw createError('You cannot add yourself as a friend', 400, 'INVALID_FRIEND');
+    }
+
+    const target = await db
+      .selectFrom('users')
+      .select('id')
+      .where('id', '=', targetId)
+      .where('is_active', '=', true)
+      .where('is_banned', '=', false)
+      .executeTakeFirst();
+
+    if (!target) {
+      throw createError('Player not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (await this.isBlocked(userId, targetId)) {
+      throw createError('You cannot send a friend request to this player', 403, 'FRIEND_REQUEST_BLOCKED');
+    }
+
+    const existing = await this.findPair(userId, targetId);
+    if (existing?.status === FriendshipStatus.ACCEPTED) {
+      throw createError('You are already friends', 409, 'ALREADY_FRIENDS');
+    }
+    if (existing && existing.requester_id === targetId) {
+      await this.acceptRequest(userId, targetId);
+      return FriendshipStatus.ACCEPTED;
+    }
+    if (existing) {
+      return FriendshipStatus.PENDING;
+    }
+
+    await db
+      .insertInto('friendships')
+      .values({ requester_id: userId, addressee_id: targetId, status: FriendshipStatus.PENDING })
+      .execute();
+
+    return FriendshipStatus.PENDING;
+  }
+
+  /**
+   * Accept a request another player sent
+   */
+  async acceptRequest(userId: string, requesterId: string): Promise<void> {
+    const result = await db
+      .updateTable('friendships')
+      .set({ status: FriendshipStatus.ACCEPTED, updated_at: new Date() })
+      .where('requester_id', '=', requesterId)
+      .where('addressee_id', '=', userId)
+      .where('status', '=', FriendshipStatus.PENDING)
+      .executeTakeFirst();
+
+    if (Number(result.numUpdatedRows) === 0) {
+      throw createError('No friend request from that player', 404, 'FRIEND_REQUEST_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Turn down a request another player sent
+   */
+  async declineRequest(userId: string, requesterId: string): Promise<void> {
+    const result = await db
+      .deleteFrom('friendships')
+      .where('requester_id', '=', requesterId)
+      .where('addressee_id', '=', userId)
+      .where('status', '=', FriendshipStatus.PENDING)
+      .executeTakeFirst();
+
+    if (Number(result.numDeletedRows) === 0) {
+      throw createError('No friend request from that player', 404, 'FRIEND_REQUEST_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Unfriend a player, or withdraw a request sent to them
+   */
+  async removeFriend(userId: string, otherId: string): Promise<void> {
+    await db
+      .deleteFrom('friendships')
+      .where('status', '!=', FriendshipStatus.BLOCKED)
+      .where((eb) => eb.or([
+        eb.and([eb('requester_id', '=', userId), eb('addressee_id', '=', otherId)]),
+        eb.and([eb('requester_id', '=', otherId), eb('addressee_id', '=', userId)])
+      ]))
+      .execute();
+  }
+
+  /**
+   * Block a player. Any friendship or request between the two is dropped.
+   */
+  async blockUser(userId: string, targetId: string): Promise<void> {
+    if (userId === targetId) {
+      throw createError('You cannot block yourself', 400, 'INVALID_FRIEND');
+    }
+
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom('friendships')
+        .where('status', '!=', FriendshipStatus.BLOCKED)
+        .where((eb) => eb.or([
+          eb.and([eb('requester_id', '=', userId), eb('addressee_id', '=', targetId)]),
+          eb.and([eb('requester_id', '=', targetId), eb('addressee_id', '=', userId)])
+        ]))
+        .execute();
+
+      await trx
+        .insertInto('friendships')
+        .values({ requester_id: userId, addressee_id: targetId, status: FriendshipStatus.BLOCKED })
+        .onConflict((oc) => oc.columns(['requester_id', 'addressee_id']).doNothing())
+        .execute();
+    });
+  }
+
+  async unblockUser(userId: string, targetId: string): Promise<void> {
+    await db
+      .deleteFrom('friendships')
+      .where('requester_id', '=', userId)
+      .where('addressee_id', '=', targetId)
+      .where('status', '=', FriendshipStatus.BLOCKED)
+      .execute();
+  }
+
+  /**
+   * Whether either player has blocked the other
+   */
+  async isBlocked(userId: string, otherId: string): Promise<boolean> {
+    const block = await db
+      .selectFrom('friendships')
+      .select('requester_id')
+      .where('status', '=', FriendshipStatus.BLOCKED)
+      .where((eb) => eb.or([
+        eb.and([eb('requester_id', '=', userId), eb('addressee_id', '=', otherId)]),
+        eb.and([eb('requester_id', '=', otherId), eb('addressee_id', '=', userId)])
+      ]))
+      .executeTakeFirst();
+
+    return !!block;
+  }
+
+  /**
+   * Open a private lobby for an online friend to join
+   */
+  async challengeFriend(challenger: LobbyUser, friendId: string, gameMode: LobbyGameMode): Promise<FriendChallenge> {
+    if (!(await this.areFriends(challenger.id, friendId))) {
+      throw createError('You can only challenge your friends', 403, 'NOT_FRIENDS');
+    }
+
+    const presence = presenceService.getPresence(friendId);
+    if (presence === PresenceStatus.OFFLINE) {
+      throw createError('Your friend is offline', 409, 'FRIEND_OFFLINE');
+    }
+    if (presence === PresenceStatus.IN_GAME) {
+      throw createError('Your friend is already in a game', 409, 'FRIEND_IN_GAME');
+    }
+
+    const lobby = await privateLobbyService.createLobby(challenger, gameMode, {}, friendId);
+
+    return {
+      sessionId: lobby.sessionId,
+      joinCode: lobby.joinCode,
+      gameMode: lobby.gameMode,
+      fromUserId: challenger.id,
+      fromName: challenger.name,
+      toUserId: friendId,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * A challenge still waiting for the invited friend
+   */
+  async getChallenge(sessionId: string): Promise<FriendChallenge | null> {
+    const row = await db
+      .selectFrom('game_sessions')
+      .innerJoin('users', 'users.id', 'game_sessions.host_user_id')
+      .select([
+        'game_sessions.id',
+        'game_sessions.join_code',
+        'game_sessions.game_mode',
+        'game_sessions.host_user_id',
+        'game_sessions.challenged_user_id',
+        'game_sessions.created_at',
+        'users.username',
+        'users.display_name'
+      ])
+      .where('game_sessions.id', '=', sessionId)
+      .where('game_sessions.status', '=', 'waiting')
+      .where('game_sessions.challenged_user_id', 'is not', null)
+      .executeTakeFirst();
+
+    if (!row || !row.challenged_user_id || !row.join_code) {
+      return null;
+    }
+
+    return {
+      sessionId: row.id,
+      joinCode: row.join_code,
+      gameMode: row.game_mode,
+      fromUserId: row.host_user_id,
+      fromName: row.display_name || row.username,
+      toUserId: row.challenged_user_id,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Take the seat a friend's challenge holds open
+   */
+  async acceptChallenge(sessionId: string, user: LobbyUser): Promise<{ challenge: FriendChallenge; lobby: LobbySummary }> {
+    const challenge = await this.getChallenge(sessionId);
+    if (!challenge || challenge.toUserId !== user.id) {
+      throw createError('No open challenge for you with that ID', 404, 'CHALLENGE_NOT_FOUND');
+    }
+
+    const lobby = await privateLobbyService.joinLobby(challenge.joinCode, user);
+    return { challenge, lobby };
+  }
+
+  /**
+   * Turn down a challenge; its lobby closes
+   */
+  async declineChallenge(sessionId: string, userId: string): Promise<FriendChallenge> {
+    const challenge = await this.getChallenge(sessionId);
+    if (!challenge || challenge.toUserId !== userId) {
+      throw createError('No open challenge for you with that ID', 404, 'CHALLENGE_NOT_FOUND');
+    }
+
+    await db
+      .updateTable('game_sessions')
+      .set({ status: 'cancelled', end_reason: 'challenge_declined', ended_at: new Date(), updated_at: new Date() })
+      .where('id', '=', sessionId)
+      .where('status', '=', 'waiting')
+      .execute();
+
+    return challenge;
+  }
+
+  private async findPair(userId: string, otherId: string) {
+    return await db
+      .selectFrom('friendships')
+      .selectAll()
+      .where('status', '!=', FriendshipStatus.BLOCKED)
+      .where((eb) => eb.or([
+        eb.and([eb('requester_id', '=', userId), eb('addressee_id', '=', otherId)]),
+        eb.and([eb('requester_id', '=', otherId), eb('addressee_id', '=', userId)])
+      ]))
+      .executeTakeFirst();
+  }
+}
+
+export const friendService = new FriendService();
+export default friendService;
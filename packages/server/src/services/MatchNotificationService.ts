@@ -7,7 +7,13 @@ import { Server } from 'socket.io';
 import { Message, Subscription } from '@google-cloud/pubsub';
 import { db } from '../database/kysely';
 import { getSubscription, PUBSUB_SUBSCRIPTIONS } from '../config/pubsub';
-import { MatchFound, MatchNotification } from '@kelseyabreu/shared';
+import { FriendChallenge, MatchFound, MatchNotification } from '@kelseyabreu/shared';
+import { getGlobalIo } from '../websocket/gameSocket';
+
+/**
+ * Friends-list events pushed to a player's notification room
+ */
+export type FriendUpdateEvent = 'friend_request' | 'friend_accepted' | 'friend_challenge_declined';
 
 export class MatchNotificationService {
     private io: Server;
@@ -303,6 +309,38 @@ export class MatchNotificationService {
         }
     }
 
+    /**
+     * Tell a player that a friend challenged them
+     */
+    async sendFriendChallenge(challenge: FriendChallenge): Promise<void> {
+        try {
+            this.io.to(`user:${challenge.toUserId}`).emit('friend_challenge', {
+                challenge,
+                timestamp: Date.now()
+            });
+
+            await this.logNotification(challenge.toUserId, 'friend_challenge', challenge, 'sent');
+        } catch (error) {
+            console.error(`❌ Failed to send friend challenge to ${challenge.toUserId}:`, error);
+        }
+    }
+
+    /**
+     * Send a friend request, acceptance or declined challenge to a player
+     */
+    async sendFriendUpdate(playerId: string, event: FriendUpdateEvent, data: object): Promise<void> {
+        try {
+            this.io.to(`user:${playerId}`).emit(event, {
+                ...data,
+                timestamp: Date.now()
+            });
+
+            await this.logNotification(playerId, event, data, 'sent');
+        } catch (error) {
+            console.error(`❌ Failed to send ${event} to ${playerId}:`, error);
+        }
+    }
+
     /**
      * Log notification for debugging and analytics
      */
@@ -378,4 +416,18 @@ export class MatchNotificationService {
             };
         }
     }
-}
\ No newline at end of file
+}
+
+let directNotifier: MatchNotificationService | null = null;
+
+/**
+ * Notifier for messages sent straight to players from the API. It only needs the socket server,
+ * so it works whether or not the Pub/Sub subscriptions are running.
+ */
+export function getMatchNotificationService(): MatchNotificationService | null {
+    const io = getGlobalIo();
+    if (!directNotifier && io) {
+        directNotifier = new MatchNotificationService(io);
+    }
+    return directNotifier;
+}
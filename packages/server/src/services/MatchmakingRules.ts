@@ -0,0 +1,235 @@
+/**
+ * Matchmaking Rules
+ * Who can be matched with whom: rating windows that account for rating uncertainty and
+ * time spent waiting, region and latency buckets, parties that stay on one team, and server
+ * AI filling team and free-for-all matches that have waited too long for players.
+ */
+
+import { LatencyBucket, MatchmakingQueueEntry } from '@kelseyabreu/shared';
+
+export const BASE_RATING_WINDOW = 100;
+// A brand-new player (deviation 350) starts with roughly ±275
+export const DEVIATION_WINDOW_FACTOR = 0.5;
+export const WINDOW_GROWTH_PER_SECOND = 2;
+export const MAX_RATING_WINDOW = 600;
+export const DEFAULT_DEVIATION = 350;
+
+// Wait times are recorded per band of ratings this wide
+export const ANALYTICS_RATING_BAND = 100;
+
+// After this long players accept opponents from other regions and latency buckets further away
+export const REGION_RELAX_SECONDS = 60;
+export const LATENCY_RELAX_SECONDS = 90;
+
+export const LATENCY_BUCKETS: Array<{ bucket: LatencyBucket; maxMs: number }> = [
+  { bucket: 'low', maxMs: 80 },
+  { bucket: 'medium', maxMs: 150 },
+  { bucket: 'high', maxMs: Infinity }
+];
+
+export const TEAM_SIZES: Record<string, number> = {
+  team_2v2: 2
+};
+
+// After the requester has waited this long, AI players take the seats nobody else could fill
+export const AI_FILL_SECONDS: Record<string, number> = {
+  team_2v2: 90,
+  ffa_4p: 90
+};
+
+export interface MatchedPlayer {
+  playerId: string;
+  rating: number;
+  team?: string;
+  isAI?: boolean;
+}
+
+export interface MatchSelection {
+  players: MatchedPlayer[];
+  waitSeconds: number[];
+  ratingSpread: number;
+}
+
+export function getLatencyBucket(latencyMs: number): LatencyBucket {
+  return LATENCY_BUCKETS.find(entry => latencyMs <= entry.maxMs)!.bucket;
+}
+
+function getWaitSeconds(entry: MatchmakingQueueEntry, now: number): number {
+  return Math.max(0, (now - entry.timestamp) / 1000);
+}
+
+/**
+ * How far from their own rating a player will accept an opponent: wider for uncertain
+ * ratings and for players who have waited longer
+ */
+export function getRatingWindow(entry: MatchmakingQueueEntry, now: number = Date.now()): number {
+  return getRatingWindowFor(entry.deviation ?? DEFAULT_DEVIATION, getWaitSeconds(entry, now));
+}
+
+/**
+ * The rating window of a player with this deviation after waiting this long
+ */
+export function getRatingWindowFor(deviation: number, waitSeconds: number = 0): number {
+  const window = BASE_RATING_WINDOW + DEVIATION_WINDOW_FACTOR * deviation + WINDOW_GROWTH_PER_SECOND * waitSeconds;
+  return Math.min(MAX_RATING_WINDOW, Math.round(window));
+}
+
+/**
+ * The rating band matchmaking analytics are kept under: its lowest rating
+ */
+export function getRatingBand(rating: number): number {
+  return Math.floor(rating / ANALYTICS_RATING_BAND) * ANALYTICS_RATING_BAND;
+}
+
+/**
+ * Whether two queued players may meet. Both sides count: each contributes half of the
+ * rating window, and the average wait decides when region and latency limits relax.
+ */
+export function areCompatible(a: MatchmakingQueueEntry, b: MatchmakingQueueEntry, now: number = Date.now()): boolean {
+  const sharedWindow = (getRatingWindow(a, now) + getRatingWindow(b, now)) / 2;
+  if (Math.abs(a.rating - b.rating) > sharedWindow) {
+    return false;
+  }
+
+  const averageWait = (getWaitSeconds(a, now) + getWaitSeconds(b, now)) / 2;
+
+  const regionA = a.preferences?.regionPreference;
+  const regionB = b.preferences?.regionPreference;
+  if (regionA && regionB && regionA !== regionB && averageWait < REGION_RELAX_SECONDS) {
+    return false;
+  }
+
+  const latencyA = a.preferences?.latencyBucket;
+  const latencyB = b.preferences?.latencyBucket;
+  if (latencyA && latencyB) {
+    const bucketGap = Math.abs(
+      LATENCY_BUCKETS.findIndex(entry => entry.bucket === latencyA) - LATENCY_BUCKETS.findIndex(entry => entry.bucket === latencyB)
+    );
+    if (bucketGap > (averageWait < LATENCY_RELAX_SECONDS ? 1 : LATENCY_BUCKETS.length)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Group a queue into parties that must be matched together. Outside team modes every player
+ * queues alone; a party still waiting for members is left out.
+ */
+function groupIntoParties(queue: MatchmakingQueueEntry[], gameMode: string): MatchmakingQueueEntry[][] {
+  const teamSize = TEAM_SIZES[gameMode];
+  const parties = new Map<string, MatchmakingQueueEntry[]>();
+  const units: MatchmakingQueueEntry[][] = [];
+
+  for (const entry of queue) {
+    const partyId = teamSize ? entry.preferences?.partyId : undefined;
+    if (!partyId) {
+      units.push([entry]);
+      continue;
+    }
+    const members = parties.get(partyId) || [];
+    members.push(entry);
+    parties.set(partyId, members);
+  }
+
+  for (const members of parties.values()) {
+    const partySize = Math.min(members[0]!.preferences.partySize ?? members.length, teamSize!);
+    if (members.length >= partySize) {
+      units.push(members.sort((a, b) => a.timestamp - b.timestamp).slice(0, partySize));
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Split a team match into teams: parties stay together, and solo players are paired so
+ * the teams' ratings come out as even as possible
+ */
+function assignTeams(units: MatchmakingQueueEntry[][], teamSize: number): MatchedPlayer[] {
+  const teams: MatchmakingQueueEntry[][] = units.filter(unit => unit.length === teamSize);
+  const solos = units.filter(unit => unit.length < teamSize).flat().sort((a, b) => b.rating - a.rating);
+
+  // Strongest with weakest, then inwards
+  while (solos.length > 0) {
+    teams.push([solos.shift()!, ...(solos.length > 0 ? [solos.pop()!] : [])]);
+  }
+
+  return teams.flatMap((members, index) =>
+    members.map(member => ({ playerId: member.playerId, rating: member.rating, team: `team${index + 1}` }))
+  );
+}
+
+/**
+ * Pick players for a match that includes the requesting player (and their party),
+ * preferring the closest ratings. Given createAIPlayerId, a mode with an AI fill time fills
+ * the seats still empty once the requester has waited that long, with AI at the requester's
+ * rating. Returns null when the queue cannot fill a match yet.
+ */
+export function selectMatch(
+  requesterId: string,
+  queue: MatchmakingQueueEntry[],
+  gameMode: string,
+  requiredPlayers: number,
+  now: number = Date.now(),
+  createAIPlayerId?: () => string
+): MatchSelection | null {
+  const units = groupIntoParties(queue, gameMode);
+  const requesterUnit = units.find(unit => unit.some(entry => entry.playerId === requesterId));
+  if (!requesterUnit) {
+    return null;
+  }
+
+  const averageRating = (unit: MatchmakingQueueEntry[]) => unit.reduce((sum, entry) => sum + entry.rating, 0) / unit.length;
+  const requesterRating = averageRating(requesterUnit);
+  const candidates = units
+    .filter(unit => unit !== requesterUnit)
+    .sort((a, b) => Math.abs(averageRating(a) - requesterRating) - Math.abs(averageRating(b) - requesterRating));
+
+  const selected = [requesterUnit];
+  let playerCount = requesterUnit.length;
+
+  for (const unit of candidates) {
+    if (playerCount === requiredPlayers) break;
+    if (playerCount + unit.length > requiredPlayers) continue;
+
+    const chosen = selected.flat();
+    if (unit.every(entry => chosen.every(other => areCompatible(entry, other, now)))) {
+      selected.push(unit);
+      playerCount += unit.length;
+    }
+  }
+
+  const entries = selected.flat();
+  const aiPlayerIds = new Set<string>();
+  const aiFillSeconds = AI_FILL_SECONDS[gameMode];
+  const requester = entries.find(entry => entry.playerId === requesterId)!;
+
+  if (playerCount < requiredPlayers && createAIPlayerId && aiFillSeconds !== undefined &&
+      getWaitSeconds(requester, now) >= aiFillSeconds) {
+    while (playerCount < requiredPlayers) {
+      const playerId = createAIPlayerId();
+      aiPlayerIds.add(playerId);
+      selected.push([{ playerId, gameMode, rating: Math.round(requesterRating), timestamp: now, preferences: {} }]);
+      playerCount++;
+    }
+  }
+
+  if (playerCount !== requiredPlayers) {
+    return null;
+  }
+
+  // Wait times and rating spread describe the players who queued
+  const ratings = entries.map(entry => entry.rating);
+  const teamSize = TEAM_SIZES[gameMode];
+  const players = teamSize
+    ? assignTeams(selected, teamSize)
+    : selected.flat().map(entry => ({ playerId: entry.playerId, rating: entry.rating }));
+
+  return {
+    players: players.map(player => aiPlayerIds.has(player.playerId) ? { ...player, isAI: true } : player),
+    waitSeconds: entries.map(entry => Math.round(getWaitSeconds(entry, now))),
+    ratingSpread: Math.max(...ratings) - Math.min(...ratings)
+  };
+}
@@ -4,9 +4,12 @@
  */
 
 import { getIORedisClient, isIORedisAvailable } from '../config/ioredis';
+import { sql } from 'kysely';
 import { workerDb as db } from '../database/kysely';
 import { getPubSubClient, PUBSUB_TOPICS, publishMessage } from '../config/pubsub';
 import { MatchmakingRequest, MatchmakingQueueEntry } from '@kelseyabreu/shared';
+import { DEFAULT_DEVIATION, getRatingBand, getRatingWindowFor } from './MatchmakingRules';
+import { DEFAULT_GLICKO2_RATING } from './RatingService';
 
 export class MatchmakingService {
     private namespace: string;
@@ -51,6 +54,8 @@ export class MatchmakingService {
             await this.addToRedisQueue(request);
             console.log(`✅ [MATCHMAKING SERVICE] Step 2 completed: Redis queue`);
 
+            await this.recordRequestAnalytics(request.gameMode, request.rating);
+
             // Publish to Pub/Sub for immediate processing
             console.log(`🔍 [MATCHMAKING SERVICE] Step 3: Publishing to Pub/Sub...`);
             const pubsubAttributes = {
@@ -128,9 +133,33 @@ export class MatchmakingService {
     }
 
     /**
-     * Get estimated wait time for a game mode and rating
+     * A player's live rating for a game mode, falling back to their profile rating
+     */
+    async getPlayerRating(userId: string, gameMode: string): Promise<{ rating: number; deviation: number }> {
+        const modeRating = await db
+            .selectFrom('player_ratings')
+            .select(['rating', 'deviation'])
+            .where('user_id', '=', userId)
+            .where('game_mode', '=', gameMode)
+            .executeTakeFirst();
+        if (modeRating) {
+            return modeRating;
+        }
+
+        const user = await db
+            .selectFrom('users')
+            .select(['current_rating'])
+            .where('id', '=', userId)
+            .executeTakeFirst();
+        return { rating: user?.current_rating || DEFAULT_GLICKO2_RATING.rating, deviation: DEFAULT_DEVIATION };
+    }
+
+    /**
+     * Get estimated wait time for a game mode and rating. Waits recorded in the rating bands the
+     * player could be matched from count; the window widens with deviation and time waited, as
+     * the matchmaker's does. Without history near the rating, the whole mode's waits stand in.
      */
-    async getEstimatedWaitTime(gameMode: string, _rating: number): Promise<number> {
+    async getEstimatedWaitTime(gameMode: string, rating: number, deviation: number = DEFAULT_DEVIATION, waitedSeconds: number = 0): Promise<number> {
         console.log(`🔴 [MatchmakingService] Getting estimated wait time for ${gameMode}`);
         try {
             // Get current queue size from Redis
@@ -141,29 +170,33 @@ export class MatchmakingService {
 
             // Get recent analytics for better estimation
             console.log(`🔴 [MatchmakingService] Querying matchmaking_analytics table for ${gameMode}`);
-            const analytics = await db
+            const modeAnalytics = await db
                 .selectFrom('matchmaking_analytics')
-                .select(['average_wait_time_seconds', 'peak_queue_size'])
+                .select(['average_wait_time_seconds', 'successful_matches', 'rating_band'])
                 .where('game_mode', '=', gameMode)
                 .where('date', '>=', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)) // Last 7 days
-                .orderBy('date', 'desc')
-                .limit(7)
+                .where('successful_matches', '>', 0)
                 .execute();
-            console.log(`🔴 [MatchmakingService] Analytics query completed, found ${analytics.length} records`);
+            console.log(`🔴 [MatchmakingService] Analytics query completed, found ${modeAnalytics.length} records`);
+
+            const window = getRatingWindowFor(deviation, waitedSeconds);
+            const [lowestBand, highestBand] = [getRatingBand(rating - window), getRatingBand(rating + window)];
+            const nearbyAnalytics = modeAnalytics.filter(record =>
+                record.rating_band !== null && record.rating_band >= lowestBand && record.rating_band <= highestBand);
+            const analytics = nearbyAnalytics.length > 0 ? nearbyAnalytics : modeAnalytics;
 
             if (analytics.length === 0) {
                 // No historical data, use simple estimation
                 console.log(`🔴 [MatchmakingService] No analytics data, using basic wait time calculation`);
-                return this.calculateBasicWaitTime(queueSize);
+                return Math.max(5, this.calculateBasicWaitTime(queueSize) - waitedSeconds);
             }
 
-            // Calculate weighted average based on recent data
-            const avgWaitTime = analytics.reduce((sum, record) => sum + record.average_wait_time_seconds, 0) / analytics.length;
-            const avgPeakSize = analytics.reduce((sum, record) => sum + record.peak_queue_size, 0) / analytics.length;
+            // Busy days say more about a typical wait than quiet ones
+            const totalMatches = analytics.reduce((sum, record) => sum + record.successful_matches, 0);
+            const avgWaitTime = analytics.reduce((sum, record) => sum + record.average_wait_time_seconds * record.successful_matches, 0) / totalMatches;
 
-            // Adjust based on current queue size vs historical peak
-            const queueFactor = queueSize / Math.max(avgPeakSize, 1);
-            const estimatedWait = Math.max(30, avgWaitTime * queueFactor); // Minimum 30 seconds
+            // Time already spent in the queue counts toward the estimate
+            const estimatedWait = Math.max(5, avgWaitTime - waitedSeconds);
 
             console.log(`✅ [MatchmakingService] Estimated wait time calculated: ${Math.floor(estimatedWait)} seconds`);
             return Math.floor(estimatedWait);
@@ -173,6 +206,36 @@ export class MatchmakingService {
         }
     }
 
+    /**
+     * Count a request in today's matchmaking analytics, tracking the busiest the queue got
+     */
+    private async recordRequestAnalytics(gameMode: string, rating: number): Promise<void> {
+        try {
+            const queueSize = await this.getRedis().zcard(this.getQueueKey(gameMode));
+
+            await db
+                .insertInto('matchmaking_analytics')
+                .values({
+                    date: sql<Date>`CURRENT_DATE`,
+                    game_mode: gameMode,
+                    rating_band: getRatingBand(rating),
+                    total_requests: 1,
+                    peak_queue_size: queueSize
+                })
+                .onConflict((oc) => oc
+                    .columns(['date', 'game_mode', 'rating_band'])
+                    .doUpdateSet({
+                        total_requests: sql<number>`matchmaking_analytics.total_requests + 1`,
+                        peak_queue_size: sql<number>`GREATEST(matchmaking_analytics.peak_queue_size, ${queueSize})`
+                    })
+                )
+                .execute();
+        } catch (error) {
+            // Analytics are best-effort; the request is already queued
+            console.error('❌ [MatchmakingService] Failed to record request analytics:', error);
+        }
+    }
+
     /**
      * Store matchmaking request in database
      */
@@ -231,6 +294,7 @@ export class MatchmakingService {
             playerId: request.playerId,
             gameMode: request.gameMode,
             rating: request.rating,
+            ...(request.deviation !== undefined ? { deviation: request.deviation } : {}),
             timestamp: request.timestamp,
             preferences: request.preferences
         };
@@ -410,9 +474,9 @@ export class MatchmakingService {
     }
 
     /**
-     * Get current queue statistics
+     * Get current queue statistics, with wait times estimated for the given player
      */
-    async getQueueStats(gameMode?: string): Promise<any> {
+    async getQueueStats(userId: string, gameMode?: string): Promise<any> {
         try {
             if (gameMode) {
                 const queueKey = this.getQueueKey(gameMode);
@@ -421,7 +485,7 @@ export class MatchmakingService {
                     [gameMode]: {
                         totalPlayers: size,
                         playersInQueue: size, // Add alias for compatibility
-                        avgWaitTime: await this.getEstimatedWaitTime(gameMode, 1000),
+                        avgWaitTime: await this.getEstimatedWaitForPlayer(userId, gameMode),
                         lastUpdated: Date.now()
                     }
                 };
@@ -437,7 +501,7 @@ export class MatchmakingService {
                 stats[gameMode] = {
                     totalPlayers: size,
                     playersInQueue: size, // Add alias for compatibility
-                    avgWaitTime: await this.getEstimatedWaitTime(gameMode, 1000),
+                    avgWaitTime: await this.getEstimatedWaitForPlayer(userId, gameMode),
                     lastUpdated: Date.now()
                 };
             }
@@ -449,6 +513,11 @@ export class MatchmakingService {
         }
     }
 
+    private async getEstimatedWaitForPlayer(userId: string, gameMode: string): Promise<number> {
+        const { rating, deviation } = await this.getPlayerRating(userId, gameMode);
+        return this.getEstimatedWaitTime(gameMode, rating, deviation);
+    }
+
     /**
      * Health check for all services
      */
@@ -0,0 +1,91 @@
+/**
+ * Presence Service
+ * Tracks who is online from their game socket connections. A player is online while any of
+ * their sockets is connected, and in a game while any of those sockets has joined a session.
+ */
+
+import { PresenceStatus } from '@kelseyabreu/shared';
+
+export class PresenceService {
+  // userId -> socketId -> session the socket has joined, if any
+  private connections = new Map<string, Map<string, string | null>>();
+
+  getPresence(userId: string): PresenceStatus {
+    const sockets = this.connections.get(userId);
+    if (!sockets || sockets.size === 0) {
+      return PresenceStatus.OFFLINE;
+    }
+    return Array.from(sockets.values()).some(sessionId => sessionId !== null)
+      ? PresenceStatus.IN_GAME
+      : PresenceStatus.ONLINE;
+  }
+
+  /**
+   * Each of the methods below returns the player's new presence when it changed, or null when it did not
+   */
+  connect(userId: string, socketId: string): PresenceStatus | null {
+    return this.update(userId, sockets => {
+      if (!sockets.has(socketId)) {
+        sockets.set(socketId, null);
+      }
+    });
+  }
+
+  disconnect(userId: string, socketId: string): PresenceStatus | null {
+    return this.update(userId, sockets => {
+      sockets.delete(socketId);
+    });
+  }
+
+  enterGame(userId: string, socketId: string, sessionId: string): PresenceStatus | null {
+    return this.update(userId, sockets => {
+      sockets.set(socketId, sessionId);
+    });
+  }
+
+  leaveGame(userId: string, socketId: string): PresenceStatus | null {
+    return this.update(userId, sockets => {
+      if (sockets.has(socketId)) {
+        sockets.set(socketId, null);
+      }
+    });
+  }
+
+  /**
+   * Take everyone out of a finished session. Returns the players whose presence changed.
+   */
+  clearSession(sessionId: string): Array<{ userId: string; presence: PresenceStatus }> {
+    const changed: Array<{ userId: string; presence: PresenceStatus }> = [];
+    for (const [userId, sockets] of this.connections) {
+      const presence = this.update(userId, () => {
+        for (const [socketId, socketSession] of sockets) {
+          if (socketSession === sessionId) {
+            sockets.set(socketId, null);
+          }
+        }
+      });
+      if (presence) {
+        changed.push({ userId, presence });
+      }
+    }
+    return changed;
+  }
+
+  private update(userId: string, change: (sockets: Map<string, string | null>) => void): PresenceStatus | null {
+    const before = this.getPresence(userId);
+    const sockets = this.connections.get(userId) || new Map<string, string | null>();
+    change(sockets);
+
+    if (sockets.size === 0) {
+      this.connections.delete(userId);
+    } else {
+      this.connections.set(userId, sockets);
+    }
+
+    const after = this.getPresence(userId);
+    return after === before ? null : after;
+  }
+}
+
+export const presenceService = new PresenceService();
+export default presenceService;
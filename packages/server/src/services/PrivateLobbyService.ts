@@ -0,0 +1,384 @@
+/**
+ * Private Lobby Service
+ * Host-created lobbies that friends join with a short code instead of matchmaking.
+ * A lobby is a waiting game session; it starts over the socket once every seat is filled and ready.
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import { db } from '../database/kysely';
+import type { GameSession } from '../database/types';
+import { DeckFormat, DeckType, LobbySettings } from '@kelseyabreu/shared';
+import { createError } from '../middleware/errorHandler';
+
+export type LobbyGameMode = 'casual_1v1' | 'team_2v2' | 'ffa_4p';
+
+/**
+ * Seats in each mode a lobby can be created for
+ */
+export const LOBBY_SEATS: Record<LobbyGameMode, number> = {
+  casual_1v1: 2,
+  team_2v2: 4,
+  ffa_4p: 4
+};
+
+export const JOIN_CODE_LENGTH = 6;
+// No 0/O or 1/I, so codes survive being read out loud
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_ATTEMPTS = 5;
+const MIN_DECK_SIZE = 30;
+
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  gridWidth: 9,
+  gridHeight: 10,
+  startingHandSize: 5,
+  maxHandSize: 7,
+  turnTimeLimit: 300,
+  deckFormat: DeckFormat.OPEN
+};
+
+/**
+ * A seat in a lobby, stored in both game_sessions.players and game_state.players
+ */
+export interface LobbyPlayer {
+  playerId: string;
+  id: string;
+  name: string;
+  username?: string;
+  ready: boolean;
+  team?: string;
+  selectedDeckId?: string | null;
+  hasDeckSelected?: boolean;
+}
+
+export interface LobbySummary {
+  sessionId: string;
+  joinCode: string;
+  hostUserId: string;
+  gameMode: string;
+  maxPlayers: number;
+  status: string;
+  players: Array<{ playerId: string; name: string; ready: boolean; team?: string }>;
+  settings: LobbySettings;
+}
+
+export interface LobbyUser {
+  id: string;
+  name: string;
+  username?: string;
+}
+
+export function generateJoinCode(): string {
+  return Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * Accept codes typed in any case, with spaces or dashes
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Lobby seats from a session; older rows may hold the players JSONB as a string
+ */
+function readPlayers(session: GameSession): LobbyPlayer[] {
+  const players = typeof session.players === 'string' ? JSON.parse(session.players) : session.players;
+  return (players || []) as LobbyPlayer[];
+}
+
+export function getLobbySettings(settings: object | null | undefined): LobbySettings {
+  return { ...DEFAULT_LOBBY_SETTINGS, ...(settings as Partial<LobbySettings> | undefined) };
+}
+
+export function toLobbySummary(session: GameSession): LobbySummary {
+  const players = readPlayers(session);
+  return {
+    sessionId: session.id,
+    joinCode: session.join_code || '',
+    hostUserId: session.host_user_id,
+    gameMode: session.game_mode,
+    maxPlayers: session.max_players,
+    status: session.status,
+    players: players.map(player => ({
+      playerId: player.playerId,
+      name: player.name,
+      ready: player.ready,
+      ...(player.team ? { team: player.team } : {})
+    })),
+    settings: getLobbySettings(session.settings)
+  };
+}
+
+/**
+ * Team lobbies seat each newcomer on the team with fewer players
+ */
+function pickTeam(players: LobbyPlayer[], gameMode: string): string | undefined {
+  if (gameMode !== 'team_2v2') return undefined;
+  const team1 = players.filter(player => player.team === 'team1').length;
+  const team2 = players.filter(player => player.team === 'team2').length;
+  return team1 <= team2 ? 'team1' : 'team2';
+}
+
+function toLobbyPlayer(user: LobbyUser, players: LobbyPlayer[], gameMode: string): LobbyPlayer {
+  const team = pickTeam(players, gameMode);
+  return {
+    playerId: user.id,
+    id: user.id,
+    name: user.name,
+    ...(user.username ? { username: user.username } : {}),
+    ready: false,
+    ...(team ? { team } : {})
+  };
+}
+
+export class PrivateLobbyService {
+  /**
+   * Open a lobby with the host in the first seat. A challenge lobby also records the one friend invited to it.
+   */
+  async createLobby(
+    host: LobbyUser,
+    gameMode: LobbyGameMode,
+    settings: Partial<LobbySettings> = {},
+    challengedUserId: string | null = null
+  ): Promise<LobbySummary> {
+    const lobbySettings = getLobbySettings(settings);
+    const players = [toLobbyPlayer(host, [], gameMode)];
+
+    for (let attempt = 1; attempt <= JOIN_CODE_ATTEMPTS; attempt++) {
+      const joinCode = generateJoinCode();
+      const codeTaken = await db
+        .selectFrom('game_sessions')
+        .select('id')
+        .where('join_code', '=', joinCode)
+        .where('status', '=', 'waiting')
+        .executeTakeFirst();
+
+      if (codeTaken) continue;
+
+      const session = await db
+        .insertInto('game_sessions')
+        .values({
+          id: randomUUID(),
+          host_user_id: host.id,
+          game_mode: gameMode,
+          is_private: true,
+          join_code: joinCode,
+          challenged_user_id: challengedUserId,
+          max_players: LOBBY_SEATS[gameMode],
+          current_players: players.length,
+          status: 'waiting',
+          players: JSON.stringify(players) as unknown as object,
+          game_state: {
+            gamePhase: 'lobby',
+            players,
+            currentPlayerIndex: 0,
+            turnNumber: 1,
+            settings: lobbySettings
+          },
+          settings: lobbySettings
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      console.log(`🔒 ${host.id} opened private ${gameMode} lobby ${joinCode}`);
+      return toLobbySummary(session);
+    }
+
+    throw createError('Could not generate a free join code', 503, 'JOIN_CODE_UNAVAILABLE');
+  }
+
+  /**
+   * Look up an open lobby by its join code
+   */
+  async getLobby(joinCode: string): Promise<LobbySummary | null> {
+    const session = await db
+      .selectFrom('game_sessions')
+      .selectAll()
+      .where('join_code', '=', normalizeJoinCode(joinCode))
+      .where('status', '=', 'waiting')
+      .executeTakeFirst();
+
+    return session ? toLobbySummary(session) : null;
+  }
+
+  /**
+   * Take a free seat in a lobby. Joining a lobby you are already in just returns it.
+   */
+  async joinLobby(joinCode: string, user: LobbyUser): Promise<LobbySummary> {
+    return await db.transaction().execute(async (trx) => {
+      const session = await trx
+        .selectFrom('game_sessions')
+        .selectAll()
+        .where('join_code', '=', normalizeJoinCode(joinCode))
+        .where('status', '=', 'waiting')
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!session) {
+        throw createError('No open lobby has that join code', 404, 'LOBBY_NOT_FOUND');
+      }
+
+      const players = readPlayers(session);
+      if (players.some(player => player.playerId === user.id)) {
+        return toLobbySummary(session);
+      }
+
+      if (players.length >= session.max_players) {
+        throw createError('This lobby is full', 409, 'LOBBY_FULL');
+      }
+
+      const updatedPlayers = [...players, toLobbyPlayer(user, players, session.game_mode)];
+      const updated = await trx
+        .updateTable('game_sessions')
+        .set({
+          players: JSON.stringify(updatedPlayers) as unknown as object,
+          game_state: { ...session.game_state, players: updatedPlayers },
+          current_players: updatedPlayers.length,
+          updated_at: new Date()
+        })
+        .where('id', '=', session.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      console.log(`🔒 ${user.id} joined private lobby ${session.join_code}`);
+      return toLobbySummary(updated);
+    });
+  }
+
+  /**
+   * Give up a seat. The lobby closes when the host leaves; returns null in that case.
+   */
+  async leaveLobby(sessionId: string, userId: string): Promise<LobbySummary | null> {
+    return await db.transaction().execute(async (trx) => {
+      const session = await trx
+        .selectFrom('game_sessions')
+        .selectAll()
+        .where('id', '=', sessionId)
+        .where('join_code', 'is not', null)
+        .where('status', '=', 'waiting')
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!session) {
+        throw createError('No open lobby with that ID', 404, 'LOBBY_NOT_FOUND');
+      }
+
+      if (session.host_user_id === userId) {
+        await trx
+          .updateTable('game_sessions')
+          .set({ status: 'cancelled', end_reason: 'host_left', ended_at: new Date(), updated_at: new Date() })
+          .where('id', '=', sessionId)
+          .execute();
+        return null;
+      }
+
+      const players = readPlayers(session).filter(player => player.playerId !== userId);
+      const updated = await trx
+        .updateTable('game_sessions')
+        .set({
+          players: JSON.stringify(players) as unknown as object,
+          game_state: { ...session.game_state, players },
+          current_players: players.length,
+          updated_at: new Date()
+        })
+        .where('id', '=', sessionId)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      return toLobbySummary(updated);
+    });
+  }
+
+  /**
+   * Ready up with a deck, or stand down. Ready players must pick a deck the lobby's format allows.
+   * The lobby can start once every seat is filled and ready.
+   */
+  async setReady(sessionId: string, userId: string, ready: boolean, deckId?: string): Promise<{ lobby: LobbySummary; canStart: boolean }> {
+    return await db.transaction().execute(async (trx) => {
+      const session = await trx
+        .selectFrom('game_sessions')
+        .selectAll()
+        .where('id', '=', sessionId)
+        .where('join_code', 'is not', null)
+        .where('status', '=', 'waiting')
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!session) {
+        throw createError('No open lobby with that ID', 404, 'LOBBY_NOT_FOUND');
+      }
+
+      const players = readPlayers(session);
+      const player = players.find(p => p.playerId === userId);
+      if (!player) {
+        throw createError('You are not in this lobby', 403, 'NOT_IN_LOBBY');
+      }
+
+      if (ready) {
+        const deckError = await this.checkDeck(userId, deckId, getLobbySettings(session.settings).deckFormat);
+        if (deckError) {
+          throw createError(deckError, 400, 'INVALID_DECK');
+        }
+      }
+
+      player.ready = ready;
+      player.selectedDeckId = ready ? deckId! : null;
+      player.hasDeckSelected = ready;
+
+      const updated = await trx
+        .updateTable('game_sessions')
+        .set({
+          players: JSON.stringify(players) as unknown as object,
+          game_state: { ...session.game_state, players },
+          updated_at: new Date()
+        })
+        .where('id', '=', sessionId)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      return {
+        lobby: toLobbySummary(updated),
+        canStart: players.length === session.max_players && players.every(p => p.ready)
+      };
+    });
+  }
+
+  /**
+   * Why a player's deck cannot be used in a lobby, or null when it can
+   */
+  async checkDeck(userId: string, deckId: string | undefined, deckFormat: DeckFormat): Promise<string | null> {
+    if (!deckId) {
+      return 'Choose a deck before readying up';
+    }
+
+    const deck = await db
+      .selectFrom('decks')
+      .leftJoin('deck_cards', 'decks.id', 'deck_cards.deck_id')
+      .select(['decks.id', 'decks.deck_type', db.fn.count('deck_cards.id').as('card_count')])
+      .where('decks.id', '=', deckId)
+      .where('decks.user_id', '=', userId)
+      .groupBy(['decks.id', 'decks.deck_type'])
+      .executeTakeFirst();
+
+    if (!deck) {
+      return 'You do not have that deck';
+    }
+
+    if (Number(deck.card_count) < MIN_DECK_SIZE) {
+      return `Deck must have at least ${MIN_DECK_SIZE} cards`;
+    }
+
+    const isCustom = deck.deck_type === DeckType.CUSTOM;
+    if (deckFormat === DeckFormat.PRECONSTRUCTED && isCustom) {
+      return 'This lobby only allows starter and theme decks';
+    }
+    if (deckFormat === DeckFormat.CUSTOM && !isCustom) {
+      return 'This lobby only allows player-built decks';
+    }
+
+    return null;
+  }
+}
+
+export const privateLobbyService = new PrivateLobbyService();
+export default privateLobbyService;
@@ -0,0 +1,67 @@
+/**
+ * Quick Chat Service
+ * Checks in-match quick-chat and emotes: only the fixed options are accepted, and each player
+ * may only send a few within a short window so nobody can flood the board.
+ */
+
+import { QuickChatMessage, getQuickChatOption } from '@kelseyabreu/shared';
+
+export const QUICK_CHAT_BURST = 3;
+export const QUICK_CHAT_WINDOW_MS = 10000;
+// Even inside the burst, back-to-back messages need a short gap
+export const QUICK_CHAT_MIN_GAP_MS = 1000;
+
+export type QuickChatResult =
+  | { accepted: true; message: QuickChatMessage }
+  | { accepted: false; reason: 'invalid_message' | 'rate_limited'; retryAfterMs?: number };
+
+const chatKey = (sessionId: string, playerId: string): string => `${sessionId}:${playerId}`;
+
+export class QuickChatService {
+  private recent = new Map<string, number[]>();
+
+  /**
+   * Accept a quick-chat option from a player, or say why it was refused
+   */
+  send(sessionId: string, playerId: string, textId: string, now: number = Date.now()): QuickChatResult {
+    const option = getQuickChatOption(textId);
+    if (!option) {
+      return { accepted: false, reason: 'invalid_message' };
+    }
+
+    const key = chatKey(sessionId, playerId);
+    const sent = (this.recent.get(key) || []).filter(sentAt => now - sentAt < QUICK_CHAT_WINDOW_MS);
+    const last = sent[sent.length - 1];
+
+    if (last !== undefined && now - last < QUICK_CHAT_MIN_GAP_MS) {
+      this.recent.set(key, sent);
+      return { accepted: false, reason: 'rate_limited', retryAfterMs: QUICK_CHAT_MIN_GAP_MS - (now - last) };
+    }
+    if (sent.length >= QUICK_CHAT_BURST) {
+      this.recent.set(key, sent);
+      return { accepted: false, reason: 'rate_limited', retryAfterMs: QUICK_CHAT_WINDOW_MS - (now - sent[0]!) };
+    }
+
+    sent.push(now);
+    this.recent.set(key, sent);
+
+    return {
+      accepted: true,
+      message: { sessionId, playerId, textId: option.textId, kind: option.kind, sentAt: now }
+    };
+  }
+
+  /**
+   * Forget a finished session's chat history
+   */
+  clearSession(sessionId: string): void {
+    for (const key of this.recent.keys()) {
+      if (key.startsWith(`${sessionId}:`)) {
+        this.recent.delete(key);
+      }
+    }
+  }
+}
+
+export const quickChatService = new QuickChatService();
+export default quickChatService;
@@ -0,0 +1,343 @@
+/**
+ * Rating Service
+ * Calculates Glicko-2 ratings on the server when a match finishes. Clients never submit ratings.
+ * Each game mode keeps its own rating; a finished match is one Glicko-2 rating period.
+ */
+
+import { sql } from 'kysely';
+import { db } from '../database/kysely';
+import { seasonService } from './SeasonService';
+import type { BioMastersEngine } from '@kelseyabreu/shared';
+
+/**
+ * What the engine reports about a finished game (BioMastersEngine.getEndGameData)
+ */
+export type EndGameData = ReturnType<BioMastersEngine['getEndGameData']>;
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/**
+ * One game against one opponent; score is 1 for a win, 0.5 for a draw, 0 for a loss
+ */
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  score: number;
+}
+
+export type MatchResultType = 'win' | 'loss' | 'draw' | 'forfeit';
+
+export interface MatchRatingChange {
+  playerId: string;
+  teamId?: string;
+  result: MatchResultType;
+  before: Glicko2Rating;
+  after: Glicko2Rating;
+}
+
+export const RATED_GAME_MODES = ['ranked_1v1', 'casual_1v1', 'team_2v2', 'ffa_4p'];
+
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = { rating: 1000, deviation: 350, volatility: 0.06 };
+
+// Glicko-2 works on its own scale; 173.7178 = 400 / ln(10)
+const GLICKO2_SCALE = 173.7178;
+// System constant limiting how fast volatility changes
+const TAU = 0.5;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number): number =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+/**
+ * Rate one player over one rating period (Glickman's Glicko-2 algorithm)
+ */
+export function updateGlicko2(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+  const phi = player.deviation / GLICKO2_SCALE;
+
+  // A player who did not play only becomes less certain
+  if (results.length === 0) {
+    const inactivePhi = Math.sqrt(phi * phi + player.volatility * player.volatility);
+    return { ...player, deviation: Math.min(inactivePhi * GLICKO2_SCALE, DEFAULT_GLICKO2_RATING.deviation) };
+  }
+
+  const mu = (player.rating - DEFAULT_GLICKO2_RATING.rating) / GLICKO2_SCALE;
+  const games = results.map(({ opponent, score }) => {
+    const opponentMu = (opponent.rating - DEFAULT_GLICKO2_RATING.rating) / GLICKO2_SCALE;
+    const opponentPhi = opponent.deviation / GLICKO2_SCALE;
+    return { gPhi: g(opponentPhi), expected: expectedScore(mu, opponentMu, opponentPhi), score };
+  });
+
+  const variance = 1 / games.reduce((sum, game) => sum + game.gPhi * game.gPhi * game.expected * (1 - game.expected), 0);
+  const improvement = games.reduce((sum, game) => sum + game.gPhi * (game.score - game.expected), 0);
+  const delta = variance * improvement;
+
+  // New volatility: solve f(x) = 0 with the Illinois algorithm
+  const a = Math.log(player.volatility * player.volatility);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower = fLower / 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+  const volatility = Math.exp(lower / 2);
+
+  const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * GLICKO2_SCALE + DEFAULT_GLICKO2_RATING.rating,
+    deviation: newPhi * GLICKO2_SCALE,
+    volatility
+  };
+}
+
+/**
+ * Rate everyone in a match from their ratings going in. The winner beat every other player;
+ * with no winner the match is a draw between all of them. In team games the winner's whole
+ * team wins, and players are only rated against the other teams.
+ */
+export function calculateMatchRatings(
+  players: { playerId: string; rating: Glicko2Rating; teamId?: string }[],
+  winnerId: string | null,
+  forfeitedBy?: string
+): MatchRatingChange[] {
+  const winningTeamId = players.find(player => player.playerId === winnerId)?.teamId;
+  const isWinner = (player: { playerId: string; teamId?: string }) =>
+    player.playerId === winnerId || (winningTeamId !== undefined && player.teamId === winningTeamId);
+
+  return players.map(player => {
+    const opponents = players.filter(other =>
+      other.playerId !== player.playerId && (player.teamId === undefined || other.teamId !== player.teamId)
+    );
+    let results: Glicko2Result[];
+    let result: MatchResultType;
+
+    if (!winnerId) {
+      results = opponents.map(other => ({ opponent: other.rating, score: 0.5 }));
+      result = 'draw';
+    } else if (isWinner(player)) {
+      results = opponents.map(other => ({ opponent: other.rating, score: 1 }));
+      result = 'win';
+    } else {
+      results = opponents
+        .filter(isWinner)
+        .map(other => ({ opponent: other.rating, score: 0 }));
+      result = player.playerId === forfeitedBy ? 'forfeit' : 'loss';
+    }
+
+    return {
+      playerId: player.playerId,
+      ...(player.teamId !== undefined ? { teamId: player.teamId } : {}),
+      result,
+      before: player.rating,
+      after: updateGlicko2(player.rating, results)
+    };
+  });
+}
+
+export class RatingService {
+  /**
+   * Rate a finished session and record every player's result. Safe to call more than once:
+   * a session that already has results is not rated again.
+   */
+  async recordMatchResult(sessionId: string, endData: EndGameData, forfeitedBy?: string): Promise<MatchRatingChange[]> {
+    return await db.transaction().execute(async (trx) => {
+      // One rating pass per session, even if the end is reported twice
+      await sql`SELECT pg_advisory_xact_lock(hashtext(${`ratings:${sessionId}`}))`.execute(trx);
+
+      const session = await trx
+        .selectFrom('game_sessions')
+        .select(['game_mode', 'players', 'created_at'])
+        .where('id', '=', sessionId)
+        .executeTakeFirst();
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      const gameMode = session.game_mode;
+      if (!RATED_GAME_MODES.includes(gameMode)) {
+        console.log(`📊 Session ${sessionId} (${gameMode}) is not rated`);
+        return [];
+      }
+
+      // Matchmaking leaves unrated placeholder rows; only a Glicko-2 result counts as rated
+      const alreadyRated = await trx
+        .selectFrom('match_results')
+        .select('id')
+        .where('session_id', '=', sessionId)
+        .where('deviation_after', 'is not', null)
+        .executeTakeFirst();
+
+      if (alreadyRated) {
+        console.log(`📊 Session ${sessionId} already rated`);
+        return [];
+      }
+
+      await trx
+        .deleteFrom('match_results')
+        .where('session_id', '=', sessionId)
+        .where('deviation_after', 'is', null)
+        .execute();
+
+      // Only registered players are rated; seats the AI filled or took over are left out
+      const sessionPlayers = session.players as { playerId: string; team?: string; isAI?: boolean }[];
+      const sessionPlayerIds = sessionPlayers.filter(player => !player.isAI).map(player => player.playerId);
+      const users = sessionPlayerIds.length > 0
+        ? await trx.selectFrom('users').select('id').where('id', 'in', sessionPlayerIds).execute()
+        : [];
+      const playerIds = sessionPlayerIds.filter(id => users.some(user => user.id === id));
+
+      if (playerIds.length < 2) {
+        console.log(`📊 Session ${sessionId} has fewer than two rated players`);
+        return [];
+      }
+
+      const storedRatings = await trx
+        .selectFrom('player_ratings')
+        .selectAll()
+        .where('user_id', 'in', playerIds)
+        .where('game_mode', '=', gameMode)
+        .execute();
+
+      const players = playerIds.map(playerId => {
+        const stored = storedRatings.find(rating => rating.user_id === playerId);
+        const teamId = sessionPlayers.find(player => player.playerId === playerId)?.team;
+        return {
+          playerId,
+          ...(teamId ? { teamId } : {}),
+          rating: stored
+            ? { rating: stored.rating, deviation: stored.deviation, volatility: stored.volatility }
+            : { ...DEFAULT_GLICKO2_RATING }
+        };
+      });
+
+      // Teammates who only faced AI seats have no rated opponent to be measured against
+      const isOpponent = (player: { playerId: string; teamId?: string }, other: { playerId: string; teamId?: string }) =>
+        other.playerId !== player.playerId && (!player.teamId || other.teamId !== player.teamId);
+      if (!players.some(player => players.some(other => isOpponent(player, other)))) {
+        console.log(`📊 Session ${sessionId} has no rated players on opposing sides`);
+        return [];
+      }
+
+      // The engine reports the winner by name; its final scores say which player that is
+      const reportedWinner = endData.finalScores?.find(score => score.isWinner)?.playerId || endData.winner;
+      let winnerId = reportedWinner && playerIds.includes(reportedWinner) ? reportedWinner : null;
+
+      // An AI seat's win carries its team; players it beat alone lose without a rated opponent
+      const aiWinner = sessionPlayers.find(player => player.isAI && player.playerId === reportedWinner);
+      if (aiWinner) {
+        winnerId = players.find(player => aiWinner.team !== undefined && player.teamId === aiWinner.team)?.playerId ?? aiWinner.playerId;
+      }
+      const changes = calculateMatchRatings(players, winnerId, forfeitedBy);
+      const matchDuration = Math.floor((Date.now() - new Date(session.created_at).getTime()) / 1000);
+      const now = new Date();
+
+      for (const change of changes) {
+        const isWin = change.result === 'win';
+        const ratingBefore = Math.round(change.before.rating);
+        const ratingAfter = Math.round(change.after.rating);
+
+        await trx
+          .insertInto('player_ratings')
+          .values({
+            user_id: change.playerId,
+            game_mode: gameMode,
+            rating: change.after.rating,
+            deviation: change.after.deviation,
+            volatility: change.after.volatility,
+            games_played: 1,
+            games_won: isWin ? 1 : 0,
+            last_played_at: now
+          })
+          .onConflict(oc => oc.columns(['user_id', 'game_mode']).doUpdateSet({
+            rating: change.after.rating,
+            deviation: change.after.deviation,
+            volatility: change.after.volatility,
+            games_played: sql`player_ratings.games_played + 1`,
+            games_won: isWin ? sql`player_ratings.games_won + 1` : sql`player_ratings.games_won`,
+            last_played_at: now,
+            updated_at: now
+          }))
+          .execute();
+
+        await seasonService.recordSeasonGame(trx, change.playerId, gameMode, change.after.rating, isWin);
+
+        await trx
+          .insertInto('match_results')
+          .values({
+            session_id: sessionId,
+            player_user_id: change.playerId,
+            opponent_user_id: changes.find(other => isOpponent(change, other))!.playerId,
+            team_id: change.teamId ?? null,
+            game_mode: gameMode,
+            result: change.result,
+            rating_before: ratingBefore,
+            rating_after: ratingAfter,
+            rating_change: ratingAfter - ratingBefore,
+            deviation_before: change.before.deviation,
+            deviation_after: change.after.deviation,
+            volatility_after: change.after.volatility,
+            match_duration: matchDuration,
+            created_at: now
+          })
+          .execute();
+
+        // Profile stats count every mode; the profile rating is the ranked 1v1 rating
+        await trx
+          .updateTable('users')
+          .set({
+            ...(gameMode === 'ranked_1v1' ? {
+              current_rating: ratingAfter,
+              peak_rating: sql`GREATEST(COALESCE(peak_rating, 0), ${ratingAfter})`
+            } : {}),
+            games_played: sql`COALESCE(games_played, 0) + 1`,
+            games_won: isWin ? sql`COALESCE(games_won, 0) + 1` : sql`COALESCE(games_won, 0)`,
+            win_streak: isWin ? sql`COALESCE(win_streak, 0) + 1` : 0,
+            updated_at: now
+          })
+          .where('id', '=', change.playerId)
+          .execute();
+
+        console.log(`✅ ${gameMode} rating for ${change.playerId}: ${ratingBefore} → ${ratingAfter} (RD ${Math.round(change.after.deviation)})`);
+      }
+
+      return changes;
+    });
+  }
+}
+
+export const ratingService = new RatingService();
+export default ratingService;
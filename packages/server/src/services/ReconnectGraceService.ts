@@ -0,0 +1,97 @@
+/**
+ * Reconnect Grace Service
+ * Holds a dropped player's seat for a grace window. A player who reconnects in time carries
+ * on where they left off; when the window runs out, the expiry callback forfeits them.
+ */
+
+export const DEFAULT_RECONNECT_GRACE_SECONDS = 60;
+
+/**
+ * A player whose connection dropped during a match
+ */
+export interface DisconnectedPlayer {
+  sessionId: string;
+  playerId: string;
+  disconnectedAt: number;
+  reconnectDeadline: number;
+}
+
+/**
+ * Grace window for reconnecting, from RECONNECT_GRACE_SECONDS
+ */
+export function getReconnectGraceMs(): number {
+  const configured = Number(process.env['RECONNECT_GRACE_SECONDS']);
+  const seconds = process.env['RECONNECT_GRACE_SECONDS'] !== undefined && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_RECONNECT_GRACE_SECONDS;
+  return seconds * 1000;
+}
+
+const graceKey = (sessionId: string, playerId: string): string => `${sessionId}:${playerId}`;
+
+export class ReconnectGraceService {
+  private pending = new Map<string, { player: DisconnectedPlayer; timer: NodeJS.Timeout }>();
+
+  /**
+   * Start a player's grace window. A window that is already running keeps its original deadline.
+   */
+  startGrace(
+    sessionId: string,
+    playerId: string,
+    onExpire: (player: DisconnectedPlayer) => Promise<void> | void,
+    graceMs: number = getReconnectGraceMs()
+  ): DisconnectedPlayer {
+    const key = graceKey(sessionId, playerId);
+    const existing = this.pending.get(key);
+    if (existing) {
+      return existing.player;
+    }
+
+    const now = Date.now();
+    const player: DisconnectedPlayer = { sessionId, playerId, disconnectedAt: now, reconnectDeadline: now + graceMs };
+    const timer = setTimeout(async () => {
+      this.pending.delete(key);
+      try {
+        await onExpire(player);
+      } catch (error) {
+        console.error(`❌ Failed to handle reconnect timeout for ${playerId} in session ${sessionId}:`, error);
+      }
+    }, graceMs);
+
+    this.pending.set(key, { player, timer });
+    console.log(`⏳ Holding ${playerId}'s seat in session ${sessionId} for ${graceMs / 1000}s`);
+    return player;
+  }
+
+  /**
+   * Stop a player's grace window because they are back. Returns the disconnect it ended,
+   * or null when the player was not waiting to reconnect.
+   */
+  endGrace(sessionId: string, playerId: string): DisconnectedPlayer | null {
+    const key = graceKey(sessionId, playerId);
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return null;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(key);
+    return pending.player;
+  }
+
+  getDisconnectedPlayers(sessionId: string): DisconnectedPlayer[] {
+    return Array.from(this.pending.values())
+      .map(pending => pending.player)
+      .filter(player => player.sessionId === sessionId);
+  }
+
+  /**
+   * Cancel every grace window in a session that has ended
+   */
+  clearSession(sessionId: string): void {
+    this.getDisconnectedPlayers(sessionId).forEach(player => this.endGrace(sessionId, player.playerId));
+  }
+}
+
+export const reconnectGraceService = new ReconnectGraceService();
+export default reconnectGraceService;
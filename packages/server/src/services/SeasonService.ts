@@ -0,0 +1,400 @@
+/**
+ * Season Service
+ * Ranked seasons: placement matches, biome tiers derived from rating, and the end-of-season
+ * rollover that grants rewards and softly resets everyone's rating for the next season.
+ * player_ratings stays the live Glicko-2 rating; season_ratings records each season's standings.
+ */
+
+import { sql, Selectable, Transaction } from 'kysely';
+import { db } from '../database/kysely';
+import type { Database, RankedSeasonsTable, SeasonRatingsTable } from '../database/types';
+import type { Glicko2Rating } from './RatingService';
+import { redemptionService } from './redemptionService';
+import { PromoCodeReward, RankedSeason, SeasonStanding, SeasonTier } from '@kelseyabreu/shared';
+
+export const PLACEMENT_GAMES = 5;
+export const SEASON_LENGTH_DAYS = 90;
+export const SEASON_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Between seasons ratings are pulled halfway back to where new players start,
+// and become uncertain enough that placement games move them quickly
+export const SOFT_RESET_ANCHOR = 1000;
+export const SOFT_RESET_FACTOR = 0.5;
+export const SEASON_START_DEVIATION = 200;
+
+/**
+ * Lowest rating for each tier, highest tier first
+ */
+export const TIER_THRESHOLDS: Array<{ tier: SeasonTier; minRating: number }> = [
+  { tier: SeasonTier.RAINFOREST, minRating: 1800 },
+  { tier: SeasonTier.CORAL_REEF, minRating: 1600 },
+  { tier: SeasonTier.TEMPERATE_FOREST, minRating: 1400 },
+  { tier: SeasonTier.TAIGA, minRating: 1250 },
+  { tier: SeasonTier.GRASSLAND, minRating: 1100 },
+  { tier: SeasonTier.DESERT, minRating: 950 },
+  { tier: SeasonTier.TUNDRA, minRating: -Infinity }
+];
+
+export const SEASON_REWARDS: Record<SeasonTier, PromoCodeReward[]> = {
+  [SeasonTier.UNRANKED]: [],
+  [SeasonTier.TUNDRA]: [{ type: 'packs', quantity: 1 }],
+  [SeasonTier.DESERT]: [{ type: 'packs', quantity: 1 }, { type: 'currency', quantity: 100 }],
+  [SeasonTier.GRASSLAND]: [{ type: 'packs', quantity: 2 }, { type: 'currency', quantity: 200 }],
+  [SeasonTier.TAIGA]: [{ type: 'packs', quantity: 2 }, { type: 'currency', quantity: 350 }],
+  [SeasonTier.TEMPERATE_FOREST]: [{ type: 'packs', quantity: 3 }, { type: 'currency', quantity: 500 }],
+  [SeasonTier.CORAL_REEF]: [{ type: 'packs', quantity: 4 }, { type: 'currency', quantity: 750 }],
+  [SeasonTier.RAINFOREST]: [{ type: 'packs', quantity: 5 }, { type: 'currency', quantity: 1000 }]
+};
+
+export interface SeasonLeaderboardEntry {
+  userId: string;
+  username: string;
+  rating: number;
+  peakRating: number;
+  tier: SeasonTier;
+  gamesPlayed: number;
+  gamesWon: number;
+}
+
+/**
+ * A player's tier for a rating; hidden until their placement games are done
+ */
+export function getTier(rating: number, gamesPlayed: number = PLACEMENT_GAMES): SeasonTier {
+  if (gamesPlayed < PLACEMENT_GAMES) {
+    return SeasonTier.UNRANKED;
+  }
+  return TIER_THRESHOLDS.find(threshold => rating >= threshold.minRating)!.tier;
+}
+
+/**
+ * How tiers rank against each other; unranked is lowest
+ */
+export function getTierRank(tier: SeasonTier): number {
+  const index = TIER_THRESHOLDS.findIndex(threshold => threshold.tier === tier);
+  return index === -1 ? 0 : TIER_THRESHOLDS.length - index;
+}
+
+/**
+ * Where a rating starts the next season
+ */
+export function softResetRating(rating: Glicko2Rating): Glicko2Rating {
+  return {
+    rating: SOFT_RESET_ANCHOR + (rating.rating - SOFT_RESET_ANCHOR) * SOFT_RESET_FACTOR,
+    deviation: Math.max(rating.deviation, SEASON_START_DEVIATION),
+    volatility: rating.volatility
+  };
+}
+
+export function toSeasonStanding(row: Selectable<SeasonRatingsTable>): SeasonStanding {
+  return {
+    seasonId: row.season_id,
+    gameMode: row.game_mode,
+    rating: Math.round(row.rating),
+    peakRating: Math.round(row.peak_rating),
+    tier: (row.final_tier as SeasonTier | null) ?? getTier(row.rating, row.games_played),
+    gamesPlayed: row.games_played,
+    gamesWon: row.games_won,
+    placementGamesRemaining: Math.max(0, PLACEMENT_GAMES - row.games_played)
+  };
+}
+
+function toRankedSeason(row: Selectable<RankedSeasonsTable>): RankedSeason {
+  return {
+    id: row.id,
+    name: row.name,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    isActive: row.ended_at === null
+  };
+}
+
+export class SeasonService {
+  private seasonCheckInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Check for a season past its end date now and on every interval after, so seasons close on time
+   */
+  startSeasonSchedule(intervalMs: number = SEASON_CHECK_INTERVAL_MS): void {
+    if (this.seasonCheckInterval) {
+      return;
+    }
+
+    this.seasonCheckInterval = setInterval(async () => {
+      await this.checkSeasonEnd();
+    }, intervalMs);
+    void this.checkSeasonEnd();
+
+    console.log('📅 Started the end-of-season schedule');
+  }
+
+  stopSeasonSchedule(): void {
+    if (this.seasonCheckInterval) {
+      clearInterval(this.seasonCheckInterval);
+      this.seasonCheckInterval = null;
+    }
+  }
+
+  /**
+   * Close the current season if its end date has passed, and finish granting the rewards of any
+   * closed season whose grant was interrupted. Errors are logged so the next check can retry.
+   */
+  async checkSeasonEnd(): Promise<RankedSeason | null> {
+    try {
+      const closed = await this.endSeason();
+
+      const ungranted = await db
+        .selectFrom('ranked_seasons')
+        .select('id')
+        .where('ended_at', 'is not', null)
+        .where('rewards_granted_at', 'is', null)
+        .execute();
+      for (const season of ungranted) {
+        await this.grantSeasonRewards(season.id);
+      }
+
+      return closed;
+    } catch (error) {
+      console.error('❌ End-of-season check failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The season games currently count toward: the latest one that has started and not been closed
+   */
+  async getCurrentSeason(): Promise<RankedSeason | null> {
+    const season = await db
+      .selectFrom('ranked_seasons')
+      .selectAll()
+      .where('starts_at', '<=', new Date())
+      .where('ended_at', 'is', null)
+      .orderBy('id', 'desc')
+      .executeTakeFirst();
+
+    return season ? toRankedSeason(season) : null;
+  }
+
+  async listSeasons(): Promise<RankedSeason[]> {
+    const seasons = await db
+      .selectFrom('ranked_seasons')
+      .selectAll()
+      .orderBy('id', 'desc')
+      .execute();
+
+    return seasons.map(toRankedSeason);
+  }
+
+  /**
+   * Count a rated game toward the current season, as part of the match's rating transaction
+   */
+  async recordSeasonGame(trx: Transaction<Database>, userId: string, gameMode: string, rating: number, isWin: boolean): Promise<void> {
+    const season = await trx
+      .selectFrom('ranked_seasons')
+      .select('id')
+      .where('starts_at', '<=', new Date())
+      .where('ended_at', 'is', null)
+      .orderBy('id', 'desc')
+      .executeTakeFirst();
+
+    if (!season) {
+      return;
+    }
+
+    await trx
+      .insertInto('season_ratings')
+      .values({
+        season_id: season.id,
+        user_id: userId,
+        game_mode: gameMode,
+        rating,
+        peak_rating: rating,
+        games_played: 1,
+        games_won: isWin ? 1 : 0
+      })
+      .onConflict(oc => oc.columns(['season_id', 'user_id', 'game_mode']).doUpdateSet({
+        rating,
+        peak_rating: sql`GREATEST(season_ratings.peak_rating, ${rating})`,
+        games_played: sql`season_ratings.games_played + 1`,
+        games_won: isWin ? sql`season_ratings.games_won + 1` : sql`season_ratings.games_won`,
+        updated_at: new Date()
+      }))
+      .execute();
+  }
+
+  /**
+   * A player's standings in a season, one per game mode they played
+   */
+  async getStandings(userId: string, seasonId: number): Promise<SeasonStanding[]> {
+    const rows = await db
+      .selectFrom('season_ratings')
+      .selectAll()
+      .where('season_id', '=', seasonId)
+      .where('user_id', '=', userId)
+      .execute();
+
+    return rows.map(toSeasonStanding);
+  }
+
+  /**
+   * A season's leaderboard for one game mode; players still in placements are not listed
+   */
+  async getLeaderboard(seasonId: number, gameMode: string, limit: number): Promise<SeasonLeaderboardEntry[]> {
+    const rows = await db
+      .selectFrom('season_ratings')
+      .innerJoin('users', 'users.id', 'season_ratings.user_id')
+      .selectAll('season_ratings')
+      .select('users.username')
+      .where('season_ratings.season_id', '=', seasonId)
+      .where('season_ratings.game_mode', '=', gameMode)
+      .where('season_ratings.games_played', '>=', PLACEMENT_GAMES)
+      .orderBy('season_ratings.rating', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows.map(row => {
+      const standing = toSeasonStanding(row);
+      return {
+        userId: row.user_id,
+        username: row.username,
+        rating: standing.rating,
+        peakRating: standing.peakRating,
+        tier: standing.tier,
+        gamesPlayed: standing.gamesPlayed,
+        gamesWon: standing.gamesWon
+      };
+    });
+  }
+
+  /**
+   * Close the current season: fix everyone's final tier, softly reset ratings and open the
+   * next season, then grant the rewards. Does nothing before the season's end date unless forced.
+   * Returns the season that was closed, or null.
+   */
+  async endSeason(force: boolean = false): Promise<RankedSeason | null> {
+    const ended = await db.transaction().execute(async (trx) => {
+      const season = await trx
+        .selectFrom('ranked_seasons')
+        .selectAll()
+        .where('ended_at', 'is', null)
+        .orderBy('id', 'desc')
+        .forUpdate()
+        .executeTakeFirst();
+
+      if (!season || (!force && season.ends_at > new Date())) {
+        return null;
+      }
+
+      const now = new Date();
+
+      await trx
+        .updateTable('season_ratings')
+        .set({ final_tier: SeasonTier.UNRANKED })
+        .where('season_id', '=', season.id)
+        .where('games_played', '<', PLACEMENT_GAMES)
+        .execute();
+
+      let ceiling = Infinity;
+      for (const { tier, minRating } of TIER_THRESHOLDS) {
+        let query = trx
+          .updateTable('season_ratings')
+          .set({ final_tier: tier })
+          .where('season_id', '=', season.id)
+          .where('games_played', '>=', PLACEMENT_GAMES);
+        if (minRating !== -Infinity) query = query.where('rating', '>=', minRating);
+        if (ceiling !== Infinity) query = query.where('rating', '<', ceiling);
+        await query.execute();
+        ceiling = minRating;
+      }
+
+      // Same formula as softResetRating, applied to every live rating at once
+      await trx
+        .updateTable('player_ratings')
+        .set({
+          rating: sql`${SOFT_RESET_ANCHOR} + (rating - ${SOFT_RESET_ANCHOR}) * ${SOFT_RESET_FACTOR}`,
+          deviation: sql`GREATEST(deviation, ${SEASON_START_DEVIATION})`,
+          updated_at: now
+        })
+        .execute();
+
+      // The profile rating follows the ranked 1v1 rating
+      await sql`
+        UPDATE users SET current_rating = ROUND(player_ratings.rating), updated_at = ${now}
+        FROM player_ratings
+        WHERE player_ratings.user_id = users.id AND player_ratings.game_mode = 'ranked_1v1'
+      `.execute(trx);
+
+      const closed = await trx
+        .updateTable('ranked_seasons')
+        .set({ ended_at: now })
+        .where('id', '=', season.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await trx
+        .insertInto('ranked_seasons')
+        .values({
+          id: season.id + 1,
+          name: `Season ${season.id + 1}`,
+          starts_at: now,
+          ends_at: new Date(now.getTime() + SEASON_LENGTH_DAYS * 24 * 60 * 60 * 1000)
+        })
+        .execute();
+
+      console.log(`🏁 Closed ${season.name}; Season ${season.id + 1} has begun`);
+      return closed;
+    });
+
+    if (!ended) {
+      return null;
+    }
+
+    await this.grantSeasonRewards(ended.id);
+    return toRankedSeason(ended);
+  }
+
+  /**
+   * Reward every player who finished a closed season by the best tier they reached in any mode.
+   * Rewards go through redemptions, so running this again never pays anyone twice.
+   */
+  async grantSeasonRewards(seasonId: number): Promise<number> {
+    const rows = await db
+      .selectFrom('season_ratings')
+      .select(['user_id', 'final_tier'])
+      .where('season_id', '=', seasonId)
+      .where('final_tier', 'is not', null)
+      .execute();
+
+    const bestTiers = new Map<string, SeasonTier>();
+    for (const row of rows) {
+      const tier = row.final_tier as SeasonTier;
+      const best = bestTiers.get(row.user_id);
+      if (!best || getTierRank(tier) > getTierRank(best)) {
+        bestTiers.set(row.user_id, tier);
+      }
+    }
+
+    let granted = 0;
+    for (const [userId, tier] of bestTiers) {
+      if (SEASON_REWARDS[tier].length === 0) continue;
+
+      const result = await redemptionService.redeemSeasonRewards(userId, seasonId, tier, SEASON_REWARDS[tier]);
+      if (result.success) {
+        granted++;
+      } else if (result.code !== 'ALREADY_REDEEMED') {
+        console.error(`❌ Season ${seasonId} rewards for ${userId} failed: ${result.message}`);
+      }
+    }
+
+    await db
+      .updateTable('ranked_seasons')
+      .set({ rewards_granted_at: new Date() })
+      .where('id', '=', seasonId)
+      .execute();
+
+    console.log(`🎁 Granted season ${seasonId} rewards to ${granted} players`);
+    return granted;
+  }
+}
+
+export const seasonService = new SeasonService();
+export default seasonService;
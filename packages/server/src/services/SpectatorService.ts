@@ -0,0 +1,134 @@
+/**
+ * Spectator Service
+ * Relays live matches to spectators. Spectators receive the board as players see it but
+ * with every hand and deck hidden. Ranked matches reach spectators on a delay, so a
+ * spectator cannot pass live information to a player.
+ */
+
+import type { Server as SocketIOServer } from 'socket.io';
+
+/**
+ * One published state of a match, as spectators receive it
+ */
+export interface SpectatorFrame {
+  sessionId: string;
+  gameMode: string;
+  status: string;
+  stateVersion: number;
+  gameState: unknown;
+  publishedAt: number;
+}
+
+export const DELAYED_GAME_MODES = ['ranked_1v1'];
+
+const DEFAULT_RANKED_DELAY_SECONDS = 30;
+
+export function getSpectatorRoom(sessionId: string): string {
+  return `${sessionId}_spectators`;
+}
+
+/**
+ * Broadcast delay for a game mode. Ranked modes use SPECTATOR_DELAY_SECONDS (0 turns the delay off);
+ * every other mode is live.
+ */
+export function getSpectatorDelayMs(gameMode: string): number {
+  if (!DELAYED_GAME_MODES.includes(gameMode)) {
+    return 0;
+  }
+
+  const configured = Number(process.env['SPECTATOR_DELAY_SECONDS']);
+  const seconds = process.env['SPECTATOR_DELAY_SECONDS'] !== undefined && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_RANKED_DELAY_SECONDS;
+  return seconds * 1000;
+}
+
+export class SpectatorService {
+  // Recent frames per session, oldest first; enough to serve the delayed view to new spectators
+  private frames = new Map<string, SpectatorFrame[]>();
+  private timers = new Map<string, Set<NodeJS.Timeout>>();
+
+  /**
+   * Record a new state and send it to the session's spectators once its delay has passed
+   */
+  publish(io: SocketIOServer, frame: SpectatorFrame): void {
+    const delayMs = getSpectatorDelayMs(frame.gameMode);
+    const frames = this.frames.get(frame.sessionId) || [];
+    frames.push(frame);
+    this.frames.set(frame.sessionId, this.pruneFrames(frames, frame.publishedAt - delayMs));
+
+    const deliver = () => {
+      io.to(getSpectatorRoom(frame.sessionId)).emit('spectator_game_state', this.toUpdate(frame));
+      if (frame.status === 'finished') {
+        this.clearSession(frame.sessionId);
+      }
+    };
+
+    if (delayMs === 0) {
+      deliver();
+      return;
+    }
+
+    const timers = this.timers.get(frame.sessionId) || new Set<NodeJS.Timeout>();
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      deliver();
+    }, delayMs);
+    timers.add(timer);
+    this.timers.set(frame.sessionId, timers);
+  }
+
+  /**
+   * The latest frame a spectator may see now, or null when nothing has cleared the delay yet
+   */
+  getVisibleFrame(sessionId: string, gameMode: string, now: number = Date.now()): SpectatorFrame | null {
+    const visibleBefore = now - getSpectatorDelayMs(gameMode);
+    const frames = this.frames.get(sessionId) || [];
+    const visible = frames.filter(frame => frame.publishedAt <= visibleBefore);
+    return visible[visible.length - 1] || null;
+  }
+
+  /**
+   * The spectator_game_state message for a frame
+   */
+  toUpdate(frame: SpectatorFrame) {
+    return {
+      type: 'spectator_game_state',
+      sessionId: frame.sessionId,
+      data: {
+        session: {
+          id: frame.sessionId,
+          gameMode: frame.gameMode,
+          status: frame.status,
+          gameState: frame.gameState
+        },
+        stateVersion: frame.stateVersion,
+        delaySeconds: getSpectatorDelayMs(frame.gameMode) / 1000
+      },
+      timestamp: frame.publishedAt
+    };
+  }
+
+  /**
+   * Forget a session and cancel anything still waiting to be sent
+   */
+  clearSession(sessionId: string): void {
+    this.timers.get(sessionId)?.forEach(timer => clearTimeout(timer));
+    this.timers.delete(sessionId);
+    this.frames.delete(sessionId);
+  }
+
+  // Keep the newest frame that has cleared the delay and everything after it
+  private pruneFrames(frames: SpectatorFrame[], visibleBefore: number): SpectatorFrame[] {
+    let firstKept = 0;
+    frames.forEach((frame, index) => {
+      if (frame.publishedAt <= visibleBefore) {
+        firstKept = index;
+      }
+    });
+    return frames.slice(firstKept);
+  }
+}
+
+export const spectatorService = new SpectatorService();
+export default spectatorService;
@@ -1,4 +1,6 @@
 import { Redis } from 'ioredis';
+import { TimeBankSnapshot, TimeControl } from '@kelseyabreu/shared';
+import { getReconnectGraceMs } from './ReconnectGraceService';
 
 // Simple logger for now
 const logger = {
@@ -12,30 +14,99 @@ interface TurnTimerData {
   playerId: string;
   startTime: number;
   timeoutAt: number;
+  extensionMs?: number; // Spent before the bank, and never banked
   workerId: string;
   sessionId: string;
 }
 
+/**
+ * Called when a player's time bank runs dry on their turn
+ */
+export type TimeExpiredHandler = (sessionId: string, playerId: string) => Promise<void>;
+
+/**
+ * Chess-clock timing for each game mode; ranked games play faster
+ */
+export const TIME_CONTROLS: Record<string, TimeControl> = {
+  ranked_1v1: { initialBankSeconds: 300, incrementSeconds: 15 },
+  casual_1v1: { initialBankSeconds: 600, incrementSeconds: 20 },
+  team_2v2: { initialBankSeconds: 480, incrementSeconds: 20 },
+  ffa_4p: { initialBankSeconds: 480, incrementSeconds: 20 }
+};
+
+export const DEFAULT_TIME_CONTROL: TimeControl = { initialBankSeconds: 600, incrementSeconds: 20 };
+
+/**
+ * Timing for a game mode; a private lobby's host-chosen bank replaces the mode's
+ */
+export function getTimeControl(gameMode: string, bankSeconds?: number): TimeControl {
+  const timeControl = TIME_CONTROLS[gameMode] || DEFAULT_TIME_CONTROL;
+  return bankSeconds ? { ...timeControl, initialBankSeconds: bankSeconds } : timeControl;
+}
+
+// Time banks outlive any realistic match
+const TIME_BANK_TTL_SECONDS = 24 * 60 * 60;
+
 export class TurnTimerManager {
   private redis: Redis;
   private workerId: string;
-  private turnTimeoutSeconds: number = 60; // 60 seconds per turn
+  private turnTimeoutSeconds: number = 60; // Turn length for sessions without time banks
+  private reconnectExtensionSeconds: number = 10; // Extra time to get back into a turn after reconnecting
   private activeTimers: Map<string, NodeJS.Timeout> = new Map();
+  private onTimeExpired: TimeExpiredHandler | undefined;
 
-  constructor(redis: Redis, workerId: string) {
+  constructor(redis: Redis, workerId: string, onTimeExpired?: TimeExpiredHandler) {
     this.redis = redis;
     this.workerId = workerId;
+    this.onTimeExpired = onTimeExpired;
+  }
+
+  /**
+   * Give every player a full time bank at the start of a game
+   */
+  async initializeTimeBanks(sessionId: string, playerIds: string[], timeControl: TimeControl): Promise<void> {
+    const banksKey = `session:${sessionId}:time_banks`;
+    const bankMs = timeControl.initialBankSeconds * 1000;
+
+    try {
+      await this.redis
+        .multi()
+        .del(banksKey)
+        .hset(banksKey, Object.fromEntries(playerIds.map(playerId => [playerId, bankMs.toString()])))
+        .expire(banksKey, TIME_BANK_TTL_SECONDS)
+        .setex(`session:${sessionId}:time_control`, TIME_BANK_TTL_SECONDS, JSON.stringify(timeControl))
+        .exec();
+
+      logger.info(`Time banks set for session ${sessionId}: ${timeControl.initialBankSeconds}s + ${timeControl.incrementSeconds}s per turn`);
+    } catch (error) {
+      logger.error(`Failed to set time banks for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Whether a session's clock has been set up
+   */
+  async hasTimeBanks(sessionId: string): Promise<boolean> {
+    return (await this.redis.exists(`session:${sessionId}:time_control`)) === 1;
   }
 
   /**
-   * Start a turn timer for a player
+   * Start a player's turn. Without an explicit timeout the clock runs on the player's time bank.
+   * An extension runs before the turn's own time and is gone once the turn ends.
    */
-  async startTurnTimer(sessionId: string, playerId: string, timeoutSeconds: number = this.turnTimeoutSeconds): Promise<void> {
+  async startTurnTimer(sessionId: string, playerId: string, timeoutSeconds?: number, extensionSeconds: number = 0): Promise<void> {
+    if (timeoutSeconds === undefined) {
+      const bankMs = await this.getBankMs(sessionId, playerId);
+      timeoutSeconds = bankMs === null ? this.turnTimeoutSeconds : bankMs / 1000;
+    }
+    timeoutSeconds += extensionSeconds;
+
     const timerKey = `session:${sessionId}:turn_timer`;
     const timerData: TurnTimerData = {
       playerId,
       startTime: Date.now(),
       timeoutAt: Date.now() + (timeoutSeconds * 1000),
+      extensionMs: extensionSeconds * 1000,
       workerId: this.workerId,
       sessionId
     };
@@ -45,7 +116,7 @@ export class TurnTimerManager {
       await this.clearTurnTimer(sessionId);
 
       // Store timer in Redis with TTL (extra 5 seconds buffer)
-      await this.redis.setex(timerKey, timeoutSeconds + 5, JSON.stringify(timerData));
+      await this.redis.setex(timerKey, Math.ceil(timeoutSeconds) + 5, JSON.stringify(timerData));
 
       // Set up local timeout
       const timeout = setTimeout(async () => {
@@ -54,12 +125,82 @@ export class TurnTimerManager {
 
       this.activeTimers.set(sessionId, timeout);
 
-      logger.info(`Turn timer started for player ${playerId} in session ${sessionId} (${timeoutSeconds}s)`);
+      logger.info(`Turn timer started for player ${playerId} in session ${sessionId} (${Math.ceil(timeoutSeconds)}s)`);
     } catch (error) {
       logger.error(`Failed to start turn timer for session ${sessionId}:`, error);
     }
   }
 
+  /**
+   * Stop the clock at the end of a player's turn: the time used comes out of their bank
+   * and the increment goes back in. Returns the new bank in seconds.
+   */
+  async endTurn(sessionId: string, playerId: string): Promise<number | null> {
+    try {
+      const remainingMs = await this.stopClock(sessionId, playerId);
+      if (remainingMs === null) return null;
+
+      const timeControl = await this.getStoredTimeControl(sessionId);
+      const bankMs = remainingMs + (timeControl?.incrementSeconds ?? 0) * 1000;
+      await this.redis.hset(`session:${sessionId}:time_banks`, playerId, bankMs.toString());
+
+      return Math.floor(bankMs / 1000);
+    } catch (error) {
+      logger.error(`Failed to end turn for player ${playerId} in session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Every player's bank, with the active player's counted down to now
+   */
+  async getTimeBanks(sessionId: string): Promise<TimeBankSnapshot | null> {
+    try {
+      const [banks, timeControl, timerDataStr] = await Promise.all([
+        this.redis.hgetall(`session:${sessionId}:time_banks`),
+        this.getStoredTimeControl(sessionId),
+        this.redis.get(`session:${sessionId}:turn_timer`)
+      ]);
+      if (!timeControl) return null;
+
+      const timerData: TurnTimerData | null = timerDataStr ? JSON.parse(timerDataStr) : null;
+      const snapshot: TimeBankSnapshot = {
+        activePlayerId: timerData?.playerId ?? null,
+        banks: {},
+        initialBankSeconds: timeControl.initialBankSeconds,
+        incrementSeconds: timeControl.incrementSeconds
+      };
+
+      for (const [playerId, bankMs] of Object.entries(banks)) {
+        snapshot.banks[playerId] = Math.floor(Number(bankMs) / 1000);
+      }
+      if (timerData) {
+        snapshot.banks[timerData.playerId] = Math.max(0, Math.floor((timerData.timeoutAt - Date.now()) / 1000));
+      }
+
+      return snapshot;
+    } catch (error) {
+      logger.error(`Failed to get time banks for session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop a finished session's clock
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    try {
+      await this.clearTurnTimer(sessionId);
+      await this.redis.del(
+        `session:${sessionId}:time_banks`,
+        `session:${sessionId}:time_control`,
+        `session:${sessionId}:turn_timer_paused`
+      );
+    } catch (error) {
+      logger.error(`Failed to clear the clock for session ${sessionId}:`, error);
+    }
+  }
+
   /**
    * Clear a turn timer for a session
    */
@@ -83,6 +224,77 @@ export class TurnTimerManager {
     }
   }
 
+  /**
+   * Pause the turn timer while the player whose turn it is is disconnected. The time left
+   * goes back into their bank so the turn can resume from it; other players' turns run on as usual.
+   */
+  async pauseTurnTimer(sessionId: string, playerId: string): Promise<number | null> {
+    try {
+      const remainingMs = await this.stopClock(sessionId, playerId);
+      if (remainingMs === null) return null;
+
+      const remainingSeconds = Math.ceil(remainingMs / 1000);
+      await this.redis.hset(`session:${sessionId}:time_banks`, playerId, remainingMs.toString());
+
+      // Outlives the reconnect grace window, after which the player is forfeited anyway
+      const pausedTtlSeconds = Math.ceil(getReconnectGraceMs() / 1000) + 60;
+      await this.redis.setex(`session:${sessionId}:turn_timer_paused`, pausedTtlSeconds, JSON.stringify({ playerId, remainingSeconds }));
+
+      logger.info(`Turn timer paused for player ${playerId} in session ${sessionId} (${remainingSeconds}s left)`);
+      return remainingSeconds;
+    } catch (error) {
+      logger.error(`Failed to pause turn timer for session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Restart a paused turn timer once its player reconnects, with the time that was left
+   * plus a short extension
+   */
+  async resumeTurnTimer(sessionId: string, playerId: string, extensionSeconds: number = this.reconnectExtensionSeconds): Promise<void> {
+    const pausedKey = `session:${sessionId}:turn_timer_paused`;
+
+    try {
+      const pausedStr = await this.redis.get(pausedKey);
+      if (!pausedStr) return;
+
+      const paused: { playerId: string; remainingSeconds: number } = JSON.parse(pausedStr);
+      if (paused.playerId !== playerId) return;
+
+      await this.redis.del(pausedKey);
+      await this.startTurnTimer(sessionId, playerId, paused.remainingSeconds, extensionSeconds);
+    } catch (error) {
+      logger.error(`Failed to resume turn timer for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Stop the running turn timer if it belongs to the player, returning the time they had left
+   * of their own; whatever is left of an extension is dropped
+   */
+  private async stopClock(sessionId: string, playerId: string): Promise<number | null> {
+    const timerDataStr = await this.redis.get(`session:${sessionId}:turn_timer`);
+    if (!timerDataStr) return null;
+
+    const timerData: TurnTimerData = JSON.parse(timerDataStr);
+    if (timerData.playerId !== playerId) return null;
+
+    await this.clearTurnTimer(sessionId);
+    const ownMs = timerData.timeoutAt - timerData.startTime - (timerData.extensionMs ?? 0);
+    return Math.max(0, Math.min(ownMs, timerData.timeoutAt - Date.now()));
+  }
+
+  private async getBankMs(sessionId: string, playerId: string): Promise<number | null> {
+    const bankMs = await this.redis.hget(`session:${sessionId}:time_banks`, playerId);
+    return bankMs === null ? null : Number(bankMs);
+  }
+
+  private async getStoredTimeControl(sessionId: string): Promise<TimeControl | null> {
+    const timeControlStr = await this.redis.get(`session:${sessionId}:time_control`);
+    return timeControlStr ? JSON.parse(timeControlStr) : null;
+  }
+
   /**
    * Get remaining time for a turn timer
    */
@@ -104,7 +316,7 @@ export class TurnTimerManager {
   }
 
   /**
-   * Handle turn timeout - auto-pass the turn
+   * Handle turn timeout - the player ran out of time and forfeits
    */
   private async handleTurnTimeout(sessionId: string, playerId: string): Promise<void> {
     const timerKey = `session:${sessionId}:turn_timer`;
@@ -126,36 +338,19 @@ export class TurnTimerManager {
         return; // Not our timer anymore
       }
 
-      // Auto-pass the turn
-      await this.autoPassTurn(sessionId, playerId);
-
-      // Clear the timer
+      // The bank is empty; clear the timer before handing off so the forfeit cannot race it
+      await this.redis.hset(`session:${sessionId}:time_banks`, playerId, '0');
       await this.clearTurnTimer(sessionId);
 
-    } catch (error) {
-      logger.error(`Failed to handle turn timeout for session ${sessionId}:`, error);
-    }
-  }
-
-  /**
-   * Auto-pass the turn for an AFK player
-   */
-  private async autoPassTurn(sessionId: string, playerId: string): Promise<void> {
-    try {
-      logger.info(`Auto-passing turn for player ${playerId} in session ${sessionId} due to timeout`);
-
-      // TODO: Integrate with game engine to process PASS_TURN action
-      // This would typically:
-      // 1. Load the game state
-      // 2. Process a PASS_TURN action for the player
-      // 3. Update the game state
-      // 4. Notify all players via WebSocket
-
-      // For now, just log the action
-      logger.debug(`PASS_TURN action processed for player ${playerId} in session ${sessionId}`);
+      logger.info(`Player ${playerId} ran out of time in session ${sessionId}`);
+      if (this.onTimeExpired) {
+        await this.onTimeExpired(sessionId, playerId);
+      } else {
+        logger.warn(`No time-expired handler for session ${sessionId}; player ${playerId} keeps their turn`);
+      }
 
     } catch (error) {
-      logger.error(`Failed to auto-pass turn for player ${playerId} in session ${sessionId}:`, error);
+      logger.error(`Failed to handle turn timeout for session ${sessionId}:`, error);
     }
   }
 
@@ -114,6 +114,9 @@ export class WebSocketGameHandler {
       }
       this.sessionPlayers.get(sessionId)!.add(playerId);
 
+      // A player back from a dropped connection picks up their turn where it paused
+      await this.turnTimerManager.resumeTurnTimer(sessionId, playerId);
+
       // Load and send current game state
       const gameState = await this.stateManager.loadGameState(sessionId);
       socket.emit('game_state', gameState);
@@ -235,6 +238,9 @@ export class WebSocketGameHandler {
         this.connectedPlayers.delete(disconnectedPlayerId);
         this.sessionPlayers.get(sessionId)?.delete(disconnectedPlayerId);
 
+        // Their turn should not run out while they try to reconnect
+        await this.turnTimerManager.pauseTurnTimer(sessionId, disconnectedPlayerId);
+
         // Notify other players
         socket.to(sessionId).emit('player_disconnected', { playerId: disconnectedPlayerId });
 
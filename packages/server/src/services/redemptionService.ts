@@ -227,6 +227,63 @@ export class RedemptionService {
     }
   }
 
+  /**
+   * Grant end-of-season rewards (once per season)
+   */
+  async redeemSeasonRewards(
+    userId: string,
+    seasonId: number,
+    tier: string,
+    rewards: PromoCodeReward[]
+  ): Promise<RedemptionResult> {
+    try {
+      const seasonCode = `SEASON_${seasonId}`;
+
+      const alreadyRedeemed = await this.hasUserRedeemed(userId, RedemptionType.SEASON_REWARD, seasonCode);
+      if (alreadyRedeemed) {
+        return {
+          success: false,
+          message: 'Season rewards already granted',
+          code: 'ALREADY_REDEEMED'
+        };
+      }
+
+      return await db.transaction().execute(async (trx) => {
+        const givenRewards = await this.givePromoCodeRewards(trx, userId, rewards);
+
+        const redemption = await trx
+          .insertInto('user_redemptions')
+          .values({
+            user_id: userId,
+            redemption_type: RedemptionType.SEASON_REWARD,
+            redemption_code: seasonCode,
+            redemption_data: {
+              season_id: seasonId,
+              tier,
+              rewards_given: givenRewards
+            },
+            status: RedemptionStatus.ACTIVE
+          })
+          .returning(['id'])
+          .executeTakeFirst();
+
+        return {
+          success: true,
+          message: `Season ${seasonId} rewards granted`,
+          rewards: givenRewards,
+          redemption_id: redemption?.id
+        };
+      });
+    } catch (error) {
+      console.error('Error granting season rewards:', error);
+      return {
+        success: false,
+        message: 'Failed to grant season rewards',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get user's redemption status for frontend
    */
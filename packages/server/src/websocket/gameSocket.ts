@@ -4,7 +4,35 @@ import jwt from 'jsonwebtoken';
 import { sql } from 'kysely';
 import { randomUUID } from 'crypto';
 import { db } from '../database/kysely';
-import { PhyloGameAction, deepSerialize, deepDeserialize } from '@kelseyabreu/shared';
+import type { GameSession } from '../database/types';
+import { actionLogService } from '../services/ActionLogService';
+import { ratingService, EndGameData } from '../services/RatingService';
+import { spectatorService, getSpectatorDelayMs, getSpectatorRoom } from '../services/SpectatorService';
+import { reconnectGraceService, getReconnectGraceMs } from '../services/ReconnectGraceService';
+import { privateLobbyService, getLobbySettings, toLobbySummary, LobbyPlayer, LobbySummary } from '../services/PrivateLobbyService';
+import { TurnTimerManager, getTimeControl } from '../services/TurnTimerManager';
+import { quickChatService } from '../services/QuickChatService';
+import { presenceService } from '../services/PresenceService';
+import { friendService } from '../services/FriendService';
+import { aiSeatService, SeatedPlayer } from '../services/AISeatService';
+import { getIORedisClient, isIORedisAvailable } from '../config/ioredis';
+import {
+  BioMastersEngine,
+  GameActionType,
+  GameEndReason,
+  GamePhase,
+  GameState,
+  GameStatePatch,
+  PendingChoice,
+  PhyloGameAction,
+  PresenceStatus,
+  SessionEndReason,
+  TeamSettings,
+  TimeBankSnapshot,
+  deepSerialize,
+  deepDeserialize,
+  diffState
+} from '@kelseyabreu/shared';
 
 // Global WebSocket server instance
 let globalIo: SocketIOServer | null = null;
@@ -13,6 +41,23 @@ export function getGlobalIo(): SocketIOServer | null {
   return globalIo;
 }
 
+// Chess clock for online games; created once Redis is up, games run untimed without it
+let turnTimerManager: TurnTimerManager | null = null;
+
+function getTurnTimerManager(): TurnTimerManager | null {
+  if (!turnTimerManager && isIORedisAvailable()) {
+    const redis = getIORedisClient();
+    if (redis) {
+      turnTimerManager = new TurnTimerManager(redis, `socket-${process.pid}`, async (sessionId, playerId) => {
+        if (globalIo) {
+          await forfeitPlayer(globalIo, sessionId, playerId, GameEndReason.TIME_LIMIT);
+        }
+      });
+    }
+  }
+  return turnTimerManager;
+}
+
 /**
  * Utility functions for game state serialization
  * Handles Map objects that don't serialize properly over WebSocket
@@ -57,7 +102,11 @@ function serializeGameStateForTransmission(gameState: any): any {
  * Filter game state to only show appropriate information to each player
  * Each player should only see their own cards and silhouettes/counts for opponents
  */
-function filterGameStateForPlayer(gameState: any, requestingPlayerId: string): any {
+/**
+ * Hide every hand and deck except the requesting player's. A null player (a spectator) sees no hands.
+ * An open choice's options are only shown to the player making it, since a hand choice lists their hand.
+ */
+function filterGameStateForPlayer(gameState: any, requestingPlayerId: string | null): any {
   console.log('🔒 [PRIVACY FILTER] Starting filter for player:', requestingPlayerId, {
     hasGameState: !!gameState,
     hasEngineState: !!gameState?.engineState,
@@ -105,14 +154,155 @@ function filterGameStateForPlayer(gameState: any, requestingPlayerId: string): a
     };
   }
 
+  const pendingChoice: PendingChoice | undefined = gameState.engineState.pendingChoice;
+  if (pendingChoice && pendingChoice.playerId !== requestingPlayerId) {
+    filtered.engineState = {
+      ...filtered.engineState,
+      pendingChoice: { ...pendingChoice, options: pendingChoice.options.map(() => 'hidden-option') }
+    };
+  }
+
   return filtered;
 }
 
+/**
+ * Advance the session's state version. Every stored change to the game state gets a
+ * new version, so clients can tell whether a patch applies to what they hold.
+ */
+function bumpStateVersion(gameState: { stateVersion?: number }): number {
+  gameState.stateVersion = getStateVersion(gameState) + 1;
+  return gameState.stateVersion;
+}
+
+function getStateVersion(gameState: unknown): number {
+  return (gameState as { stateVersion?: number } | null)?.stateVersion || 0;
+}
+
+/**
+ * The game state one player receives, in its wire (JSON) form
+ */
+export function getPlayerView(gameState: object, playerId: string): unknown {
+  return JSON.parse(JSON.stringify(serializeGameStateForTransmission(filterGameStateForPlayer(gameState, playerId))));
+}
+
+/**
+ * The game state spectators receive: every hand hidden, in its wire (JSON) form.
+ * An open choice is shown without its options at all.
+ */
+export function getSpectatorView(gameState: object): unknown {
+  const filtered = filterGameStateForPlayer(gameState, null);
+  const pendingChoice: PendingChoice | undefined = filtered?.engineState?.pendingChoice;
+  if (pendingChoice) {
+    // Undefined fields are dropped on the wire
+    filtered.engineState = { ...filtered.engineState, pendingChoice: { ...pendingChoice, options: undefined } };
+  }
+  return JSON.parse(JSON.stringify(serializeGameStateForTransmission(filtered)));
+}
+
+/**
+ * Send a stored game state to the session's spectators (delayed for ranked modes)
+ */
+function publishToSpectators(io: SocketIOServer, sessionId: string, gameMode: string, status: string, gameState: object): void {
+  spectatorService.publish(io, {
+    sessionId,
+    gameMode,
+    status,
+    stateVersion: getStateVersion(gameState),
+    gameState: getSpectatorView(gameState),
+    publishedAt: Date.now()
+  });
+}
+
+// Sockets fetched from a room keep the user ID set at authentication
+function getSocketUserId(playerSocket: unknown): string {
+  return (playerSocket as { userId?: string }).userId || 'unknown';
+}
+
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   sessionId?: string;
 }
 
+/**
+ * Send one player the full state of their session, filtered for them
+ */
+function emitFullState(socket: AuthenticatedSocket, session: GameSession): void {
+  const filteredGameState = filterGameStateForPlayer(session.game_state, socket.userId || 'unknown');
+  socket.emit('game_state_update', {
+    type: 'game_state_update',
+    sessionId: session.id,
+    data: {
+      session: {
+        id: session.id,
+        hostUserId: session.host_user_id,
+        gameMode: session.game_mode,
+        isPrivate: session.is_private,
+        maxPlayers: session.max_players,
+        currentPlayers: session.current_players,
+        status: session.status,
+        gameState: serializeGameStateForTransmission(filteredGameState),
+        settings: session.settings,
+        createdAt: session.created_at,
+        updatedAt: session.updated_at
+      },
+      stateVersion: getStateVersion(session.game_state)
+    },
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * A BioMasters engine loaded with the server's card, ability and keyword data
+ */
+async function createServerEngine(): Promise<BioMastersEngine> {
+  const serverDataLoader = (global as any).serverDataLoader;
+  if (!serverDataLoader) {
+    throw new Error('Server data loader not initialized');
+  }
+
+  const [cardsResult, abilitiesResult, keywordsResult] = await Promise.all([
+    serverDataLoader.loadCards(),
+    serverDataLoader.loadAbilities(),
+    serverDataLoader.loadKeywords()
+  ]);
+
+  if (!cardsResult.success || !abilitiesResult.success || !keywordsResult.success) {
+    throw new Error('Failed to load game data');
+  }
+
+  // Convert to Maps as expected by BioMasters engine
+  const cardDatabase = new Map();
+  cardsResult.data?.forEach((card: any) => {
+    cardDatabase.set(card.cardId || card.id, card);
+  });
+
+  const abilityDatabase = new Map();
+  abilitiesResult.data?.forEach((ability: any) => {
+    abilityDatabase.set(ability.abilityId || ability.id, ability);
+  });
+
+  const keywordDatabase = new Map();
+  keywordsResult.data?.forEach((keyword: any) => {
+    keywordDatabase.set(keyword.id, keyword.name);
+  });
+
+  const { MockLocalizationManager } = await import('../utils/mockLocalizationManager');
+  return new BioMastersEngine(cardDatabase, abilityDatabase, keywordDatabase, new MockLocalizationManager());
+}
+
+/**
+ * Engine teams from a session's players; team games mark each player with a team
+ */
+function getTeamSettings(players: { playerId?: string; id?: string; team?: string }[]): TeamSettings[] | undefined {
+  const teams = new Map<string, string[]>();
+  players.forEach(player => {
+    if (player.team) {
+      teams.set(player.team, [...(teams.get(player.team) || []), (player.playerId || player.id)!]);
+    }
+  });
+  return teams.size > 1 ? Array.from(teams, ([id, playerIds]) => ({ id, playerIds })) : undefined;
+}
+
 // Use shared PhyloGameAction instead of local interface
 type GameAction = PhyloGameAction;
 
@@ -155,7 +345,7 @@ export async function initializeBioMastersGame(sessionId: string, gameState: any
 
     const abilityDatabase = new Map();
     abilitiesResult.data?.forEach((ability: any) => {
-      abilityDatabase.set(ability.id, ability);
+      abilityDatabase.set(ability.abilityId || ability.id, ability);
     });
 
     const keywordDatabase = new Map();
@@ -176,15 +366,19 @@ export async function initializeBioMastersGame(sessionId: string, gameState: any
       localizationManager
     );
 
-    // Initialize game with basic player info
+    // Initialize game with basic player info; private lobbies bring the host's settings
+    const gridSize = BioMastersEngine.getGridSize(players.length);
+    const teams = getTeamSettings(players);
+    const customSettings = gameState.settings || {};
     const gameSettings = {
       maxPlayers: players.length,
-      gridWidth: 9,
-      gridHeight: 10,
-      startingHandSize: 5,
-      maxHandSize: 7,
+      gridWidth: customSettings.gridWidth ?? gridSize.width,
+      gridHeight: customSettings.gridHeight ?? gridSize.height,
+      startingHandSize: customSettings.startingHandSize ?? 5,
+      maxHandSize: customSettings.maxHandSize ?? 7,
       startingEnergy: 10,
-      turnTimeLimit: 300
+      turnTimeLimit: customSettings.turnTimeLimit ?? 300,
+      ...(teams ? { teams } : {})
     };
 
     console.log(`🔍 [PLAYER-NAMES] Players data:`, players.map(p => ({
@@ -226,23 +420,30 @@ export async function initializeBioMastersGame(sessionId: string, gameState: any
         throw new Error(`Player ${player.playerId || player.id} has no selected deck`);
       }
 
-      console.log(`🔍 [DECK-LOADING] Loading deck for player ${player.playerId || player.id}, deckId: ${player.selectedDeckId}`);
-
-      // Get deck cards from deck_cards table
-      const deckCards = await db
-        .selectFrom('deck_cards')
-        .select(['species_name', 'position_in_deck'])
-        .where('deck_id', '=', player.selectedDeckId)
-        .orderBy('position_in_deck', 'asc')
-        .execute();
+      let deck: string[];
+      if (player.isAI) {
+        // AI seats play the AI seat deck rather than a saved one
+        deck = aiSeatService.dealDeck();
+      } else {
+        console.log(`🔍 [DECK-LOADING] Loading deck for player ${player.playerId || player.id}, deckId: ${player.selectedDeckId}`);
+
+        // Get deck cards from deck_cards table
+        const deckCards = await db
+          .selectFrom('deck_cards')
+          .select(['species_name', 'position_in_deck'])
+          .where('deck_id', '=', player.selectedDeckId)
+          .orderBy('position_in_deck', 'asc')
+          .execute();
 
-      console.log(`🔍 [DECK-LOADING] Found ${deckCards.length} cards for deck ${player.selectedDeckId}:`, deckCards.map(dc => dc.species_name));
+        console.log(`🔍 [DECK-LOADING] Found ${deckCards.length} cards for deck ${player.selectedDeckId}:`, deckCards.map(dc => dc.species_name));
+        deck = deckCards.map(dc => `card-${dc.species_name}-${Date.now()}-${Math.random()}`);
+      }
 
       // Find the player in the game state
       const gamePlayer = initialGameState.players.find(p => p.id === (player.playerId || player.id));
       if (gamePlayer) {
         // Set up the player's deck with actual card IDs
-        gamePlayer.deck = deckCards.map(dc => `card-${dc.species_name}-${Date.now()}-${Math.random()}`);
+        gamePlayer.deck = deck;
         gamePlayer.energy = gameSettings.startingEnergy;
 
         // Draw starting hand
@@ -255,6 +456,9 @@ export async function initializeBioMastersGame(sessionId: string, gameState: any
       }
     }
 
+    // The dealt state is where the match replay starts
+    await actionLogService.recordInitialState(sessionId, initialGameState);
+
     // Store engine state and settings in session
     gameState.engineState = initialGameState;
     gameState.gameSettings = gameSettings;
@@ -479,6 +683,10 @@ export function setupGameSocket(server: HTTPServer) {
     socket.join(userRoom);
     console.log(`✅ [WebSocket] User ${socket.userId} joined personal notification room: ${userRoom}`);
 
+    if (socket.userId) {
+      broadcastPresence(io, socket.userId, presenceService.connect(socket.userId, socket.id));
+    }
+
     // Verify room membership
     const rooms = Array.from(socket.rooms);
     console.log(`🔌 [WebSocket] User ${socket.userId} is in rooms:`, rooms);
@@ -533,29 +741,23 @@ export function setupGameSocket(server: HTTPServer) {
 
         socket.sessionId = sessionId;
         socket.join(sessionId);
+        if (socket.userId) {
+          broadcastPresence(io, socket.userId, presenceService.enterGame(socket.userId, socket.id, sessionId));
+        }
+
+        // Rejoining (e.g. after a page reload) also counts as reconnecting in time
+        if (socket.userId && reconnectGraceService.endGrace(sessionId, socket.userId)) {
+          await getTurnTimerManager()?.resumeTurnTimer(sessionId, socket.userId);
+          socket.to(sessionId).emit('player_reconnected', {
+            type: 'player_reconnected',
+            sessionId,
+            data: { userId: socket.userId },
+            timestamp: Date.now()
+          });
+        }
 
         // Send current game state (filtered for this player)
-        const filteredGameState = filterGameStateForPlayer(session.game_state, socket.userId || 'unknown');
-        socket.emit('game_state_update', {
-          type: 'game_state_update',
-          sessionId,
-          data: {
-            session: {
-              id: session.id,
-              hostUserId: session.host_user_id,
-              gameMode: session.game_mode,
-              isPrivate: session.is_private,
-              maxPlayers: session.max_players,
-              currentPlayers: session.current_players,
-              status: session.status,
-              gameState: serializeGameStateForTransmission(filteredGameState),
-              settings: session.settings,
-              createdAt: session.created_at,
-              updatedAt: session.updated_at
-            }
-          },
-          timestamp: Date.now()
-        });
+        emitFullState(socket, session);
 
         // Notify other players
         socket.to(sessionId).emit('player_joined', {
@@ -568,6 +770,12 @@ export function setupGameSocket(server: HTTPServer) {
           timestamp: Date.now()
         });
 
+        // Private lobbies start when everyone readies up, not when everyone connects
+        if (session.join_code && session.status === 'waiting') {
+          broadcastLobbyUpdate(sessionId, toLobbySummary(session));
+          return;
+        }
+
         // Check if all players have joined and start the game
         const connectedSockets = await io.in(sessionId).fetchSockets();
         console.log(`🔍 Session ${sessionId}: ${connectedSockets.length}/${session.max_players} players connected`);
@@ -583,6 +791,7 @@ export function setupGameSocket(server: HTTPServer) {
             currentPlayerIndex: gameState.currentPlayerIndex || 0,
             turnNumber: gameState.turnNumber || 1
           };
+          bumpStateVersion(updatedGameState);
 
           console.log(`🔍 Updated game state:`, {
             gamePhase: updatedGameState.gamePhase,
@@ -600,6 +809,7 @@ export function setupGameSocket(server: HTTPServer) {
             })
             .where('id', '=', sessionId)
             .execute();
+          publishToSpectators(io, sessionId, session.game_mode, 'playing', updatedGameState);
 
           // Notify all players that the game has started (send personalized state to each)
           const socketsInRoom = await io.in(sessionId).fetchSockets();
@@ -621,7 +831,8 @@ export function setupGameSocket(server: HTTPServer) {
                   settings: session.settings,
                   createdAt: session.created_at,
                   updatedAt: new Date()
-                }
+                },
+                stateVersion: updatedGameState.stateVersion
               },
               timestamp: Date.now()
             });
@@ -651,18 +862,20 @@ export function setupGameSocket(server: HTTPServer) {
 
         socket.leave(socket.sessionId);
         (socket as any).sessionId = undefined;
+        if (socket.userId) {
+          broadcastPresence(io, socket.userId, presenceService.leaveGame(socket.userId, socket.id));
+        }
       }
     });
 
-    // Handle game actions
-    socket.on('game_action', async (data: { action: GameAction }) => {
+    // Resend the full state to a client whose version fell behind the patches
+    socket.on('request_state_sync', async () => {
       if (!socket.sessionId) {
         socket.emit('error', { message: 'You must join a session first' });
         return;
       }
 
       try {
-        // Get current session
         const session = await db
           .selectFrom('game_sessions')
           .selectAll()
@@ -674,356 +887,76 @@ export function setupGameSocket(server: HTTPServer) {
           return;
         }
 
-        if (session.status !== 'playing') {
-          socket.emit('error', { message: 'Game is not in playing state' });
-          return;
-        }
-
-        const gameState = session.game_state as any;
-
-        // Handle game completion actions (check for forfeit in data)
-        if (data.action.data?.forfeit === true) {
-          console.log(`🏁 Game completion action: forfeit by ${socket.userId}`);
-
-          // Player who forfeits loses, other player wins
-          const loserId = socket.userId || null;
-          const winnerId = gameState.players.find((p: any) => p.id !== socket.userId)?.id || null;
-
-          // Update game state to completed
-          gameState.gamePhase = 'completed';
-          gameState.winner = winnerId;
-          gameState.completedAt = new Date();
-
-          // Update session status
-          await db
-            .updateTable('game_sessions')
-            .set({
-              status: 'finished',
-              game_state: gameState,
-              updated_at: new Date()
-            })
-            .where('id', '=', socket.sessionId)
-            .execute();
-
-          // Broadcast game end to all players
-          io.to(socket.sessionId).emit('game_ended', {
-            type: 'game_ended',
-            sessionId: socket.sessionId,
-            data: {
-              winner: winnerId,
-              reason: 'forfeit',
-              completedAt: gameState.completedAt
-            },
-            timestamp: Date.now()
-          });
-
-          // Update ratings and quest progress
-          await updateGameResults(session, winnerId, loserId);
-
-          return;
-        }
-
-        // Validate it's the player's turn for regular actions
-        const currentPlayerIndex = gameState.currentPlayerIndex || 0;
-        const currentPlayer = gameState.players[currentPlayerIndex];
+        emitFullState(socket, session);
+      } catch (error) {
+        console.error('Error resyncing game state:', error);
+        socket.emit('error', { message: 'Failed to resync game state' });
+      }
+    });
 
-        console.log(`🔍 Turn validation for ${socket.userId}:`);
-        console.log(`   Current player index: ${currentPlayerIndex}`);
-        console.log(`   Current player ID: ${currentPlayer?.id}`);
-        console.log(`   Socket user ID: ${socket.userId}`);
-        console.log(`   Is current player: ${currentPlayer?.id === socket.userId}`);
+    // A player's client reconnected: put them back in their session and catch them up
+    socket.on('resume_session', async (data: { sessionId: string; stateVersion?: number | null }) => {
+      try {
+        const session = await db
+          .selectFrom('game_sessions')
+          .selectAll()
+          .where('id', '=', data.sessionId)
+          .executeTakeFirst();
 
-        if (currentPlayer.id !== socket.userId) {
-          console.log(`❌ Turn rejected: Not ${socket.userId}'s turn (current: ${currentPlayer.id})`);
-          socket.emit('error', { message: 'It is not your turn' });
+        if (!session) {
+          socket.emit('error', { message: 'Game session not found' });
           return;
         }
 
-        console.log(`✅ Turn accepted for ${socket.userId}`);
-
-        // Initialize BioMasters engine if needed
-        if (!gameState.engineInitialized) {
-          console.log(`🎮 [WebSocket] Initializing BioMasters engine for session ${socket.sessionId}`);
-
-          // Get the global server data loader
-          const serverDataLoader = (global as any).serverDataLoader;
-          if (!serverDataLoader) {
-            throw new Error('Server data loader not initialized');
-          }
-
-          // Load game data using unified data loader
-          const [cardsResult, abilitiesResult, keywordsResult] = await Promise.all([
-            serverDataLoader.loadCards(),
-            serverDataLoader.loadAbilities(),
-            serverDataLoader.loadKeywords()
-          ]);
-
-          if (!cardsResult.success || !abilitiesResult.success || !keywordsResult.success) {
-            throw new Error('Failed to load game data');
-          }
-
-          // Convert to Maps as expected by BioMasters engine
-          const cardDatabase = new Map();
-          cardsResult.data?.forEach((card: any) => {
-            cardDatabase.set(card.cardId || card.id, card);
-          });
-
-          const abilityDatabase = new Map();
-          abilitiesResult.data?.forEach((ability: any) => {
-            abilityDatabase.set(ability.id, ability);
-          });
-
-          const keywordDatabase = new Map();
-          keywordsResult.data?.forEach((keyword: any) => {
-            keywordDatabase.set(keyword.id, keyword.name);
-          });
-
-          // Use the existing MockLocalizationManager
-          const { MockLocalizationManager } = await import('../utils/mockLocalizationManager');
-          const localizationManager = new MockLocalizationManager();
-
-          // Import and initialize engine
-          const { BioMastersEngine } = await import('@kelseyabreu/shared');
-          const engine = new BioMastersEngine(
-            cardDatabase,
-            abilityDatabase,
-            keywordDatabase,
-            localizationManager
-          );
-
-          // Initialize game with session players
-          const players = (session.players as any[]).map(p => ({ id: p.playerId, name: p.username }));
-          const gameSettings = {
-            maxPlayers: session.max_players,
-            gridWidth: 9,
-            gridHeight: 10,
-            startingHandSize: 5,
-            maxHandSize: 7,
-            startingEnergy: 10,
-            turnTimeLimit: 300
-          };
-
-          const initialGameState = engine.initializeNewGame(socket.sessionId, players, gameSettings);
-
-          // Store engine state in session
-          gameState.engineState = initialGameState;
-          gameState.engineInitialized = true;
-
-          await db
-            .updateTable('game_sessions')
-            .set({
-              game_state: gameState,
-              updated_at: new Date()
-            })
-            .where('id', '=', socket.sessionId)
-            .execute();
-
-          console.log(`✅ [WebSocket] BioMasters engine initialized for session ${socket.sessionId}`);
-        }
-
-        // Process action through BioMasters engine
-        const { BioMastersEngine } = await import('@kelseyabreu/shared');
-
-        // Get the global server data loader
-        const serverDataLoader = (global as any).serverDataLoader;
-        if (!serverDataLoader) {
-          throw new Error('Server data loader not initialized');
-        }
-
-        // Load game data using unified data loader
-        const [cardsResult, abilitiesResult, keywordsResult] = await Promise.all([
-          serverDataLoader.loadCards(),
-          serverDataLoader.loadAbilities(),
-          serverDataLoader.loadKeywords()
-        ]);
-
-        if (!cardsResult.success || !abilitiesResult.success || !keywordsResult.success) {
-          throw new Error('Failed to load game data');
-        }
-
-        // Convert to Maps as expected by BioMasters engine
-        const cardDatabase = new Map();
-        cardsResult.data?.forEach((card: any) => {
-          cardDatabase.set(card.cardId || card.id, card);
-        });
-
-        const abilityDatabase = new Map();
-        abilitiesResult.data?.forEach((ability: any) => {
-          abilityDatabase.set(ability.id, ability);
-        });
-
-        const keywordDatabase = new Map();
-        keywordsResult.data?.forEach((keyword: any) => {
-          keywordDatabase.set(keyword.id, keyword.name);
-        });
-
-        // Use the existing MockLocalizationManager
-        const { MockLocalizationManager } = await import('../utils/mockLocalizationManager');
-        const localizationManager = new MockLocalizationManager();
-
-        const engine = new BioMastersEngine(
-          cardDatabase,
-          abilityDatabase,
-          keywordDatabase,
-          localizationManager
-        );
-
-        // Restore engine state by initializing a new game if needed
-        if (gameState.engineState) {
-          // Use the existing state if available
-          console.log('🔄 Using existing engine state');
-        } else {
-          // Initialize new game if no state exists
-          const players = session.players as any[];
-          const gameSettings = {
-            maxPlayers: players.length,
-            gridWidth: 9,
-            gridHeight: 10,
-            startingHandSize: 5,
-            maxHandSize: 7,
-            startingEnergy: 3,
-            turnTimeLimit: 300000
-          };
-
-          const initialState = engine.initializeNewGame(socket.sessionId, players, gameSettings);
-          gameState.engineState = initialState;
-          gameState.engineInitialized = true;
-        }
-
-        // Convert PhyloGameAction to GameActionType
-        let actionType;
-        switch (data.action.type) {
-          case 'place_card':
-            actionType = 'PLAY_CARD';
-            break;
-          case 'move_card':
-            actionType = 'MOVE_CARD';
-            break;
-          case 'challenge':
-            actionType = 'CHALLENGE';
-            break;
-          case 'pass_turn':
-            actionType = 'PASS_TURN';
-            break;
-          case 'drop_and_draw':
-            actionType = 'DROP_AND_DRAW_THREE';
-            break;
-          default:
-            actionType = 'PLAY_CARD';
-        }
-
-        // Process the action through the engine
-        const actionResult = engine.processAction({
-          type: actionType as any,
-          playerId: socket.userId || 'unknown',
-          payload: data.action.data || {}
-        });
-
-        if (!actionResult.isValid) {
-          socket.emit('error', {
-            message: actionResult.errorMessage || 'Invalid action',
-            action: data.action
-          });
+        const isPlayerInSession = (session.players as { playerId: string }[]).some(player => player.playerId === socket.userId);
+        if (!isPlayerInSession || !socket.userId) {
+          socket.emit('error', { message: 'You are not part of this game session' });
           return;
         }
 
-        // Update stored game state
-        const updatedEngineState = actionResult.newState || engine.getGameState();
-        gameState.engineState = updatedEngineState;
-        gameState.lastAction = {
-          action: data.action,
-          playerId: socket.userId,
-          timestamp: Date.now(),
-          result: actionResult
-        };
-
-        // Check for game end condition
-        const gameEnded = updatedEngineState.gamePhase === 'ended';
-
-        if (gameEnded) {
-          gameState.status = 'finished';
-          gameState.endedAt = new Date();
-          gameState.winner = updatedEngineState.winner;
-
-          // Update session status
-          await db
-            .updateTable('game_sessions')
-            .set({
-              status: 'finished',
-              game_state: gameState,
-              updated_at: new Date()
-            })
-            .where('id', '=', socket.sessionId)
-            .execute();
-
-          // Create match results and update ratings
-          await createMatchResults(socket.sessionId, session, updatedEngineState);
-
-          // Track quest progress for all players
-          const players = session.players as any[];
-          for (const player of players) {
-            await trackQuestProgress(player.playerId, {
-              winner: updatedEngineState.winner || null,
-              gameMode: session.game_mode || 'casual_1v1',
-              playerId: player.playerId
-            });
-          }
-
-          // Broadcast game end
-          io.to(socket.sessionId).emit('game_ended', {
-            type: 'game_ended',
-            sessionId: socket.sessionId,
-            data: {
-              winner: updatedEngineState.winner || null,
-              finalState: updatedEngineState,
-              matchDuration: Date.now() - new Date(session.created_at).getTime()
-            },
+        socket.sessionId = session.id;
+        socket.join(session.id);
+        broadcastPresence(io, socket.userId, presenceService.enterGame(socket.userId, socket.id, session.id));
+
+        const disconnect = reconnectGraceService.endGrace(session.id, socket.userId);
+        if (disconnect) {
+          console.log(`🔌 User ${socket.userId} reconnected to session ${session.id} after ${Date.now() - disconnect.disconnectedAt}ms`);
+          await getTurnTimerManager()?.resumeTurnTimer(session.id, socket.userId);
+          socket.to(session.id).emit('player_reconnected', {
+            type: 'player_reconnected',
+            sessionId: session.id,
+            data: { userId: socket.userId },
             timestamp: Date.now()
           });
-
-          return; // Don't continue with turn processing
         }
 
-        // Save updated game state
-        await db
-          .updateTable('game_sessions')
-          .set({
-            game_state: gameState,
-            updated_at: new Date()
-          })
-          .where('id', '=', socket.sessionId)
-          .execute();
-
-        // Broadcast action result to all players in the session
-        io.to(socket.sessionId).emit('action_result', {
-          type: 'action_result',
-          sessionId: socket.sessionId,
-          data: {
-            action: data.action,
-            playerId: socket.userId,
-            result: actionResult,
-            newGameState: updatedEngineState
-          },
-          timestamp: Date.now()
-        });
+        // Patches sent while the client was away are gone; a client behind the current version gets the full state
+        const stateVersion = getStateVersion(session.game_state);
+        const upToDate = data.stateVersion === stateVersion;
+        if (!upToDate) {
+          emitFullState(socket, session);
+        }
 
-        // Broadcast turn change if game continues
-        const newCurrentPlayer = updatedEngineState.players[updatedEngineState.currentPlayer || 0];
-        io.to(socket.sessionId).emit('turn_change', {
-          type: 'turn_change',
-          sessionId: socket.sessionId,
-          data: {
-            currentPlayer: newCurrentPlayer,
-            turnNumber: updatedEngineState.turnNumber,
-            turnPhase: updatedEngineState.turnPhase
-          },
+        socket.emit('session_resumed', {
+          type: 'session_resumed',
+          sessionId: session.id,
+          data: { stateVersion, upToDate, status: session.status },
           timestamp: Date.now()
         });
-
       } catch (error) {
-        console.error('Error processing game action:', error);
-        socket.emit('error', { message: 'Failed to process game action' });
+        console.error('Error resuming session:', error);
+        socket.emit('error', { message: 'Failed to resume game session' });
+      }
+    });
+
+    // Handle game actions
+    socket.on('game_action', async (data: { action: GameAction }) => {
+      if (!socket.sessionId) {
+        socket.emit('error', { message: 'You must join a session first' });
+        return;
       }
+
+      await processGameAction(io, socket.sessionId, socket.userId || 'unknown', data.action, error => socket.emit('error', error));
     });
 
     // Handle deck selection
@@ -1125,6 +1058,7 @@ export function setupGameSocket(server: HTTPServer) {
         }
 
         // Serialize game state before storing (to handle Maps properly)
+        bumpStateVersion(gameState);
         const serializedGameState = deepSerialize(gameState);
 
         console.log('💾 [WEBSOCKET] Serializing game state for database storage:', {
@@ -1179,15 +1113,23 @@ export function setupGameSocket(server: HTTPServer) {
             timestamp: Date.now()
           });
 
-          // Also send a game_state_update to ensure clients get the latest state
-          io.to(socket.sessionId).emit('game_state_update', {
-            type: 'game_state_update',
-            sessionId: socket.sessionId,
-            data: {
-              gameState: serializeGameStateForTransmission(gameState)
-            },
-            timestamp: Date.now()
-          });
+          // An AI seat may have the first move
+          scheduleAITurn(io, socket.sessionId, players, gameState.engineState);
+
+          // Also send a game_state_update to ensure clients get the latest state (personalized for each)
+          const socketsInRoom = await io.in(socket.sessionId).fetchSockets();
+          for (const playerSocket of socketsInRoom) {
+            const filteredGameState = filterGameStateForPlayer(gameState, getSocketUserId(playerSocket));
+            playerSocket.emit('game_state_update', {
+              type: 'game_state_update',
+              sessionId: socket.sessionId,
+              data: {
+                gameState: serializeGameStateForTransmission(filteredGameState),
+                stateVersion: gameState.stateVersion
+              },
+              timestamp: Date.now()
+            });
+          }
         }
 
       } catch (error) {
@@ -1197,7 +1139,7 @@ export function setupGameSocket(server: HTTPServer) {
     });
 
     // Handle player ready status
-    socket.on('player_ready', async (data: { ready: boolean }) => {
+    socket.on('player_ready', async (data: { ready: boolean; deckId?: string }) => {
       if (!socket.sessionId) {
         socket.emit('error', { message: 'You must join a session first' });
         return;
@@ -1221,6 +1163,12 @@ export function setupGameSocket(server: HTTPServer) {
 
         console.log(`🔍 [WEBSOCKET] Current session status: ${session.status}`);
 
+        // Private lobbies ready up with a deck and start once every seat is ready
+        if (session.join_code && session.status === 'waiting') {
+          await readyUpInLobby(io, socket, session.id, data);
+          return;
+        }
+
         // Parse players array
         let players: any[];
         try {
@@ -1311,7 +1259,8 @@ export function setupGameSocket(server: HTTPServer) {
                   settings: session.settings,
                   createdAt: session.created_at,
                   updatedAt: new Date()
-                }
+                },
+                stateVersion: getStateVersion(session.game_state)
               },
               timestamp: Date.now()
             });
@@ -1326,6 +1275,31 @@ export function setupGameSocket(server: HTTPServer) {
       }
     });
 
+    // Quick chat and emotes: only the fixed, localized options, rate limited per player
+    socket.on('quick_chat', (data: { textId: string }) => {
+      if (!socket.sessionId || !socket.userId) {
+        socket.emit('error', { message: 'You must join a session first' });
+        return;
+      }
+
+      const result = quickChatService.send(socket.sessionId, socket.userId, data?.textId);
+      if (!result.accepted) {
+        socket.emit('quick_chat_rejected', {
+          reason: result.reason,
+          ...(result.retryAfterMs !== undefined ? { retryAfterMs: result.retryAfterMs } : {})
+        });
+        return;
+      }
+
+      // Muting is up to each recipient, so everyone in the match gets it
+      io.to(socket.sessionId).emit('quick_chat', {
+        type: 'quick_chat',
+        sessionId: socket.sessionId,
+        data: result.message,
+        timestamp: result.message.sentAt
+      });
+    });
+
     // Handle spectator mode
     socket.on('spectate_session', async (sessionId: string) => {
       try {
@@ -1347,23 +1321,26 @@ export function setupGameSocket(server: HTTPServer) {
           return;
         }
 
-        socket.join(`${sessionId}_spectators`);
+        socket.join(getSpectatorRoom(sessionId));
 
-        // Send current game state to spectator
-        socket.emit('spectator_game_state', {
-          type: 'spectator_game_state',
-          sessionId,
-          data: {
-            session: {
-              id: session.id,
-              gameMode: session.game_mode,
-              status: session.status,
-              gameState: session.game_state,
-              createdAt: session.created_at
-            }
-          },
-          timestamp: Date.now()
-        });
+        // Start from the latest state the broadcast delay allows; a finished game has nothing left to hide
+        const frame = spectatorService.getVisibleFrame(sessionId, session.game_mode);
+        if (frame) {
+          socket.emit('spectator_game_state', spectatorService.toUpdate(frame));
+        } else {
+          const isOver = ['finished', 'completed', 'cancelled', 'abandoned', 'error'].includes(session.status);
+          const delayed = !isOver && getSpectatorDelayMs(session.game_mode) > 0;
+
+          // Until the first delayed state arrives, a delayed spectator only learns the match exists
+          socket.emit('spectator_game_state', spectatorService.toUpdate({
+            sessionId,
+            gameMode: session.game_mode,
+            status: session.status,
+            stateVersion: getStateVersion(session.game_state),
+            gameState: delayed ? null : getSpectatorView(session.game_state as object),
+            publishedAt: Date.now()
+          }));
+        }
 
       } catch (error) {
         console.error('Error joining as spectator:', error);
@@ -1371,6 +1348,10 @@ export function setupGameSocket(server: HTTPServer) {
       }
     });
 
+    socket.on('stop_spectating', (sessionId: string) => {
+      socket.leave(getSpectatorRoom(sessionId));
+    });
+
     // ============================================================================
     // ONLINE MULTIPLAYER WEBSOCKET HANDLERS
     // ============================================================================
@@ -1568,6 +1549,7 @@ export function setupGameSocket(server: HTTPServer) {
                   delete currentGameState.deckSelectionDeadline;
 
                   // Serialize game state before storing (to handle Maps properly)
+                  bumpStateVersion(currentGameState);
                   const serializedCurrentGameState = deepSerialize(currentGameState);
 
                   console.log('💾 [AUTO-SELECTION] Serializing game state for database storage:', {
@@ -1612,15 +1594,20 @@ export function setupGameSocket(server: HTTPServer) {
                     timestamp: Date.now()
                   });
 
-                  // Also send a game_state_update to ensure clients get the latest state
-                  io.to(sessionId).emit('game_state_update', {
-                    type: 'game_state_update',
-                    sessionId,
-                    data: {
-                      gameState: serializeGameStateForTransmission(currentGameState)
-                    },
-                    timestamp: Date.now()
-                  });
+                  // Also send a game_state_update to ensure clients get the latest state (personalized for each)
+                  const socketsInRoom = await io.in(sessionId).fetchSockets();
+                  for (const playerSocket of socketsInRoom) {
+                    const filteredGameState = filterGameStateForPlayer(currentGameState, getSocketUserId(playerSocket));
+                    playerSocket.emit('game_state_update', {
+                      type: 'game_state_update',
+                      sessionId,
+                      data: {
+                        gameState: serializeGameStateForTransmission(filteredGameState),
+                        stateVersion: currentGameState.stateVersion
+                      },
+                      timestamp: Date.now()
+                    });
+                  }
 
                   console.log(`✅ [DECK SELECTION] Session ${sessionId} auto-selection and initialization complete`);
                 }
@@ -1846,25 +1833,6 @@ export function setupGameSocket(server: HTTPServer) {
       }
     });
 
-    // Rating update handlers
-    socket.on('rating_update', async (data: { newRating: number; ratingChange: number }) => {
-      try {
-        console.log(`📈 User ${socket.userId} rating updated: ${data.newRating} (${data.ratingChange > 0 ? '+' : ''}${data.ratingChange})`);
-
-        socket.emit('rating_updated', {
-          ratingUpdate: {
-            newRating: data.newRating,
-            ratingChange: data.ratingChange
-          },
-          timestamp: Date.now()
-        });
-
-      } catch (error) {
-        console.error('Error updating rating:', error);
-        socket.emit('error', { message: 'Failed to update rating' });
-      }
-    });
-
     // Handle disconnection
     socket.on('disconnect', () => {
       console.log(`User ${socket.userId} disconnected from game socket`);
@@ -1883,16 +1851,26 @@ export function setupGameSocket(server: HTTPServer) {
       socket.leave(`user:${socket.userId}`);
       console.log(`✅ User ${socket.userId} left personal notification room`);
 
+      if (socket.userId) {
+        broadcastPresence(io, socket.userId, presenceService.disconnect(socket.userId, socket.id));
+      }
+
       if (socket.sessionId) {
+        const reconnectGraceSeconds = getReconnectGraceMs() / 1000;
         socket.to(socket.sessionId).emit('player_disconnected', {
           type: 'player_disconnected',
           sessionId: socket.sessionId,
           data: {
             userId: socket.userId,
-            message: 'A player has disconnected'
+            message: 'A player has disconnected',
+            reconnectGraceSeconds
           },
           timestamp: Date.now()
         });
+
+        if (socket.userId) {
+          holdSeatForReconnect(io, socket.sessionId, socket.userId);
+        }
       }
     });
   });
@@ -1966,110 +1944,786 @@ async function setupMatchFoundSubscription(io: SocketIOServer) {
 }
 
 /**
- * Create match results and update ratings for completed games
+ * Ready a player up in a private lobby and start the game once every seat is ready
  */
-async function createMatchResults(sessionId: string, session: any, finalGameState: any) {
+async function readyUpInLobby(io: SocketIOServer, socket: AuthenticatedSocket, sessionId: string, data: { ready: boolean; deckId?: string }) {
+  let result;
   try {
-    console.log(`📊 Creating match results for session ${sessionId}`);
+    result = await privateLobbyService.setReady(sessionId, socket.userId!, data.ready, data.deckId);
+  } catch (error) {
+    socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to update ready status' });
+    return;
+  }
 
-    const players = session.players as any[];
-    const gameMode = session.game_mode || 'casual_1v1';
-    const matchDuration = Math.floor((Date.now() - new Date(session.created_at).getTime()) / 1000);
-    const winnerId = finalGameState.winner;
+  io.to(sessionId).emit('player_ready', {
+    type: 'player_ready',
+    sessionId,
+    data: {
+      userId: socket.userId,
+      ready: data.ready,
+      allPlayersReady: result.canStart,
+      sessionStatus: result.lobby.status,
+      lobby: result.lobby
+    },
+    timestamp: Date.now()
+  });
 
-    // Calculate rating changes using ELO system
-    const ratingChanges = await calculateRatingChanges(players, winnerId, gameMode);
+  if (result.canStart) {
+    await startPrivateLobbyGame(io, sessionId);
+  }
+}
 
-    // Create match result entries for each player
-    for (const player of players) {
-      const isWinner = player.playerId === winnerId;
-      const result = isWinner ? 'win' : 'loss';
-      const ratingChange = ratingChanges[player.playerId] || 0;
-      const oldRating = player.rating || 1000;
-      const newRating = oldRating + ratingChange;
+/**
+ * Deal a private lobby's game with the decks its players readied up with
+ */
+async function startPrivateLobbyGame(io: SocketIOServer, sessionId: string) {
+  // Claim the start so a late ready toggle cannot deal the game twice
+  const session = await db
+    .updateTable('game_sessions')
+    .set({ status: 'playing', started_at: new Date(), updated_at: new Date() })
+    .where('id', '=', sessionId)
+    .where('status', '=', 'waiting')
+    .returningAll()
+    .executeTakeFirst();
+
+  if (!session) {
+    return;
+  }
+
+  try {
+    const gameState = session.game_state as { players: LobbyPlayer[]; settings?: object; gamePhase?: string; stateVersion?: number };
+    const players = gameState.players;
+    gameState.settings = getLobbySettings(session.settings);
+
+    await initializeBioMastersGame(sessionId, gameState, players);
+    gameState.gamePhase = 'playing';
+    bumpStateVersion(gameState);
+
+    const started = await db
+      .updateTable('game_sessions')
+      .set({ game_state: deepSerialize(gameState), updated_at: new Date() })
+      .where('id', '=', sessionId)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const socketsInRoom = await io.in(sessionId).fetchSockets();
+    for (const playerSocket of socketsInRoom) {
+      emitFullState(playerSocket as unknown as AuthenticatedSocket, started);
+    }
+
+    console.log(`✅ Private lobby ${session.join_code} started as session ${sessionId}`);
+  } catch (error) {
+    console.error(`❌ Failed to start private lobby ${sessionId}:`, error);
+    await db
+      .updateTable('game_sessions')
+      .set({ status: 'waiting', updated_at: new Date() })
+      .where('id', '=', sessionId)
+      .execute();
+    io.to(sessionId).emit('error', { message: 'Failed to start the game' });
+  }
+}
+
+/**
+ * Let a player's friends know their presence changed; null means it did not
+ */
+async function broadcastPresence(io: SocketIOServer, userId: string, presence: PresenceStatus | null) {
+  if (!presence) return;
+
+  try {
+    const friendIds = await friendService.getFriendIds(userId);
+    for (const friendId of friendIds) {
+      io.to(`user:${friendId}`).emit('friend_presence', { userId, presence, timestamp: Date.now() });
+    }
+  } catch (error) {
+    console.error(`❌ Failed to send presence of ${userId} to their friends:`, error);
+  }
+}
+
+/**
+ * Tell everyone already in a lobby's socket room that it changed; a null lobby has closed,
+ * and whoever sat in it is no longer in a game
+ */
+export function broadcastLobbyUpdate(sessionId: string, lobby: LobbySummary | null) {
+  if (!globalIo) return;
+
+  globalIo.to(sessionId).emit('lobby_updated', {
+    type: 'lobby_updated',
+    sessionId,
+    data: { lobby, closed: lobby === null },
+    timestamp: Date.now()
+  });
+
+  if (lobby === null) {
+    releaseSessionPresence(globalIo, sessionId);
+  }
+}
+
+/**
+ * Everyone in a finished session is back to just being online
+ */
+function releaseSessionPresence(io: SocketIOServer, sessionId: string) {
+  for (const { userId, presence } of presenceService.clearSession(sessionId)) {
+    broadcastPresence(io, userId, presence);
+  }
+}
+
+/**
+ * Validate and apply one player's action, save it and tell the room. Players' sockets and
+ * AI seats (asAI) both play through here; errors go back through emitError.
+ */
+async function processGameAction(
+  io: SocketIOServer,
+  sessionId: string,
+  playerId: string,
+  action: GameAction,
+  emitError: (error: { message: string; action?: GameAction }) => void,
+  asAI = false
+) {
+  try {
+    // Get current session
+    const session = await db
+      .selectFrom('game_sessions')
+      .selectAll()
+      .where('id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      emitError({ message: 'Game session not found' });
+      return;
+    }
+
+    if (session.status !== 'playing') {
+      emitError({ message: 'Game is not in playing state' });
+      return;
+    }
+
+    const gameState = session.game_state as any;
+    // What clients were last sent, so they can be patched forward
+    const previousGameState = JSON.parse(JSON.stringify(gameState));
+
+    // A seat the AI has taken over is the AI's to play
+    const sessionPlayers = session.players as SeatedPlayer[];
+    if (aiSeatService.isAISeat(sessionPlayers, playerId) !== asAI) {
+      emitError({ message: 'The AI is playing this seat' });
+      return;
+    }
+
+    // Where others play on, a forfeited seat goes to the AI instead of ending the match
+    if (action.data?.forfeit === true && aiSeatService.canTakeOverSeat(sessionPlayers, playerId)) {
+      await handOverSeatToAI(io, session, playerId, 'forfeit');
+      return;
+    }
+
+    // The engine decides who a forfeit hands the match to, whole teams included
+    if (action.data?.forfeit === true) {
+      console.log(`🏁 Game completion action: forfeit by ${playerId}`);
+      await endSessionByForfeit(io, session, playerId, GameEndReason.FORFEIT);
+      return;
+    }
+
+    // Validate it's the player's turn for regular actions; once play starts the engine knows whose turn it is
+    const currentPlayerIndex = gameState.engineState?.currentPlayerIndex ?? gameState.currentPlayerIndex ?? 0;
+    const currentPlayer = (gameState.engineState?.players ?? gameState.players)[currentPlayerIndex];
+
+    console.log(`🔍 Turn validation for ${playerId}:`);
+    console.log(`   Current player index: ${currentPlayerIndex}`);
+    console.log(`   Current player ID: ${currentPlayer?.id}`);
+    console.log(`   Socket user ID: ${playerId}`);
+    console.log(`   Is current player: ${currentPlayer?.id === playerId}`);
+
+    // A pending ability choice is answered by its chooser, who may not be the current player
+    const isPendingChooser = action.type === 'resolve_choice' &&
+      gameState.engineState?.pendingChoice?.playerId === playerId;
+
+    if (currentPlayer?.id !== playerId && !isPendingChooser) {
+      console.log(`❌ Turn rejected: Not ${playerId}'s turn (current: ${currentPlayer?.id})`);
+      emitError({ message: 'It is not your turn' });
+      return;
+    }
+
+    console.log(`✅ Turn accepted for ${playerId}`);
+
+    // Initialize BioMasters engine if needed
+    if (!gameState.engineInitialized) {
+      console.log(`🎮 [WebSocket] Initializing BioMasters engine for session ${sessionId}`);
+
+      // Get the global server data loader
+      const serverDataLoader = (global as any).serverDataLoader;
+      if (!serverDataLoader) {
+        throw new Error('Server data loader not initialized');
+      }
+
+      // Load game data using unified data loader
+      const [cardsResult, abilitiesResult, keywordsResult] = await Promise.all([
+        serverDataLoader.loadCards(),
+        serverDataLoader.loadAbilities(),
+        serverDataLoader.loadKeywords()
+      ]);
+
+      if (!cardsResult.success || !abilitiesResult.success || !keywordsResult.success) {
+        throw new Error('Failed to load game data');
+      }
+
+      // Convert to Maps as expected by BioMasters engine
+      const cardDatabase = new Map();
+      cardsResult.data?.forEach((card: any) => {
+        cardDatabase.set(card.cardId || card.id, card);
+      });
+
+      const abilityDatabase = new Map();
+      abilitiesResult.data?.forEach((ability: any) => {
+        abilityDatabase.set(ability.abilityId || ability.id, ability);
+      });
+
+      const keywordDatabase = new Map();
+      keywordsResult.data?.forEach((keyword: any) => {
+        keywordDatabase.set(keyword.id, keyword.name);
+      });
+
+      // Use the existing MockLocalizationManager
+      const { MockLocalizationManager } = await import('../utils/mockLocalizationManager');
+      const localizationManager = new MockLocalizationManager();
+
+      // Import and initialize engine
+      const { BioMastersEngine } = await import('@kelseyabreu/shared');
+      const engine = new BioMastersEngine(
+        cardDatabase,
+        abilityDatabase,
+        keywordDatabase,
+        localizationManager
+      );
+
+      // Initialize game with session players
+      const players = (session.players as any[]).map(p => ({ id: p.playerId, name: p.username }));
+      const gridSize = BioMastersEngine.getGridSize(players.length);
+      const teams = getTeamSettings(session.players as any[]);
+      const gameSettings = {
+        maxPlayers: session.max_players,
+        gridWidth: gridSize.width,
+        gridHeight: gridSize.height,
+        startingHandSize: 5,
+        maxHandSize: 7,
+        startingEnergy: 10,
+        turnTimeLimit: getTimeControl(session.game_mode).initialBankSeconds,
+        ...(teams ? { teams } : {})
+      };
+
+      const initialGameState = engine.initializeNewGame(sessionId, players, gameSettings);
+      await actionLogService.recordInitialState(sessionId, initialGameState);
+
+      // Store engine state in session
+      gameState.engineState = deepSerialize(initialGameState);
+      gameState.engineInitialized = true;
 
-      // Insert match result
       await db
-        .insertInto('match_results')
-        .values({
-          session_id: sessionId,
-          player_user_id: player.playerId,
-          opponent_user_id: players.find(p => p.playerId !== player.playerId)?.playerId || null,
-          game_mode: gameMode,
-          result,
-          rating_before: oldRating,
-          rating_after: newRating,
-          rating_change: ratingChange,
-          match_duration: matchDuration,
-          created_at: new Date()
+        .updateTable('game_sessions')
+        .set({
+          game_state: gameState,
+          updated_at: new Date()
         })
+        .where('id', '=', sessionId)
         .execute();
 
-      // Update user rating
+      console.log(`✅ [WebSocket] BioMasters engine initialized for session ${sessionId}`);
+    }
+
+    // Process action through BioMasters engine
+    const engine = await createServerEngine();
+
+    // Restore engine state by initializing a new game if needed
+    if (gameState.engineState) {
+      // Use the existing state if available
+      console.log('🔄 Using existing engine state');
+      engine.loadGameState(deepDeserialize(gameState.engineState));
+    } else {
+      // Initialize new game if no state exists
+      const players = session.players as any[];
+      const gameSettings = {
+        maxPlayers: players.length,
+        gridWidth: 9,
+        gridHeight: 10,
+        startingHandSize: 5,
+        maxHandSize: 7,
+        startingEnergy: 3,
+        turnTimeLimit: getTimeControl(session.game_mode).initialBankSeconds
+      };
+
+      const initialState = engine.initializeNewGame(sessionId, players, gameSettings);
+      await actionLogService.recordInitialState(sessionId, initialState);
+      gameState.engineState = initialState;
+      gameState.engineInitialized = true;
+    }
+
+    // Convert PhyloGameAction to GameActionType
+    let actionType;
+    switch (action.type) {
+      case 'place_card':
+        actionType = 'PLAY_CARD';
+        break;
+      case 'move_card':
+        actionType = 'MOVE_CARD';
+        break;
+      case 'challenge':
+        actionType = 'CHALLENGE';
+        break;
+      case 'pass_turn':
+        actionType = 'PASS_TURN';
+        break;
+      case 'drop_and_draw':
+        actionType = 'DROP_AND_DRAW_THREE';
+        break;
+      case 'resolve_choice':
+        actionType = 'RESOLVE_CHOICE';
+        break;
+      case 'activate_ability':
+        actionType = 'ACTIVATE_ABILITY';
+        break;
+      case 'metamorphosis':
+        actionType = 'METAMORPHOSIS';
+        break;
+      default:
+        actionType = 'PLAY_CARD';
+    }
+
+    // Process the action through the engine
+    const engineAction = {
+      type: actionType as any,
+      playerId,
+      payload: action.data || {}
+    };
+    const actionStartTime = Date.now();
+    const actionResult = engine.processAction(engineAction);
+
+    if (!actionResult.isValid) {
+      emitError({
+        message: actionResult.errorMessage || 'Invalid action',
+        action: action
+      });
+      return;
+    }
+
+    // Log the accepted action so the match can be replayed
+    await actionLogService.appendAction(sessionId, engineAction, undefined, Date.now() - actionStartTime);
+
+    // Update stored game state (the new engine state lives in engineState, not in lastAction)
+    const updatedEngineState = actionResult.newState || engine.getGameState();
+    const baseVersion = getStateVersion(previousGameState);
+    gameState.engineState = deepSerialize(updatedEngineState);
+    gameState.lastAction = {
+      action: action,
+      playerId,
+      timestamp: Date.now(),
+      result: { isValid: actionResult.isValid }
+    };
+    const stateVersion = bumpStateVersion(gameState);
+
+    // Check for game end condition
+    const gameEnded = updatedEngineState.gamePhase === 'ended';
+
+    if (gameEnded) {
+      gameState.status = 'finished';
+      gameState.endedAt = new Date();
+      gameState.winner = updatedEngineState.winner;
+
+      // Update session status
       await db
-        .updateTable('users')
+        .updateTable('game_sessions')
         .set({
-          current_rating: newRating,
-          peak_rating: db.fn('GREATEST', ['peak_rating', newRating]),
-          games_played: sql`COALESCE(games_played, 0) + 1`,
-          games_won: isWinner ? sql`COALESCE(games_won, 0) + 1` : sql`COALESCE(games_won, 0)`,
+          status: 'finished',
+          game_state: gameState,
           updated_at: new Date()
         })
-        .where('id', '=', player.playerId)
+        .where('id', '=', sessionId)
         .execute();
+      publishToSpectators(io, sessionId, session.game_mode, 'finished', gameState);
+      reconnectGraceService.clearSession(sessionId);
+      quickChatService.clearSession(sessionId);
+      aiSeatService.clearSession(sessionId);
+      releaseSessionPresence(io, sessionId);
+      await getTurnTimerManager()?.clearSession(sessionId);
+
+      // Create match results and update ratings from the engine's end-of-game report
+      await createMatchResults(sessionId, session, engine.getEndGameData());
+
+      // Track quest progress for all players; AI seats have none
+      const players = (session.players as any[]).filter(player => !player.isAI);
+      for (const player of players) {
+        await trackQuestProgress(player.playerId, {
+          winner: updatedEngineState.winner || null,
+          gameMode: session.game_mode || 'casual_1v1',
+          playerId: player.playerId
+        });
+      }
 
-      console.log(`✅ Updated rating for ${player.playerId}: ${oldRating} → ${newRating} (${ratingChange >= 0 ? '+' : ''}${ratingChange})`);
+      // Broadcast game end
+      io.to(sessionId).emit('game_ended', {
+        type: 'game_ended',
+        sessionId,
+        data: {
+          winner: updatedEngineState.winner || null,
+          finalState: updatedEngineState,
+          matchDuration: Date.now() - new Date(session.created_at).getTime()
+        },
+        timestamp: Date.now()
+      });
+
+      return; // Don't continue with turn processing
     }
 
-    // Clean up Redis matchmaking state
-    await cleanupMatchmakingState(players.map(p => p.playerId));
+    // Save updated game state
+    await db
+      .updateTable('game_sessions')
+      .set({
+        game_state: gameState,
+        updated_at: new Date()
+      })
+      .where('id', '=', sessionId)
+      .execute();
+    publishToSpectators(io, sessionId, session.game_mode, session.status, gameState);
+
+    // Broadcast action result to all players in the session
+    io.to(sessionId).emit('action_result', {
+      type: 'action_result',
+      sessionId,
+      data: {
+        action: action,
+        playerId,
+        result: { isValid: actionResult.isValid }
+      },
+      timestamp: Date.now()
+    });
+
+    // Send each player only what changed in their view of the state
+    const socketsInRoom = await io.in(sessionId).fetchSockets();
+    for (const playerSocket of socketsInRoom) {
+      const playerId = getSocketUserId(playerSocket);
+      const patch: GameStatePatch = {
+        baseVersion,
+        version: stateVersion,
+        operations: diffState(getPlayerView(previousGameState, playerId), getPlayerView(gameState, playerId))
+      };
+      playerSocket.emit('game_state_patch', {
+        type: 'game_state_patch',
+        sessionId,
+        data: patch,
+        timestamp: Date.now()
+      });
+    }
+
+    // Hand the clock to whoever plays next, then broadcast the turn change if game continues
+    const timeBanks = await advanceTurnClock(session, previousGameState.engineState, updatedEngineState);
+    const newCurrentPlayer = updatedEngineState.players[updatedEngineState.currentPlayer || 0];
+    io.to(sessionId).emit('turn_change', {
+      type: 'turn_change',
+      sessionId,
+      data: {
+        currentPlayer: newCurrentPlayer,
+        turnNumber: updatedEngineState.turnNumber,
+        turnPhase: updatedEngineState.turnPhase,
+        timeBanks
+      },
+      timestamp: Date.now()
+    });
+
+    // The next seat may be the AI's
+    scheduleAITurn(io, sessionId, sessionPlayers, updatedEngineState);
 
-    console.log(`✅ Match results created successfully for session ${sessionId}`);
   } catch (error) {
-    console.error('❌ Failed to create match results:', error);
+    console.error('Error processing game action:', error);
+    emitError({ message: 'Failed to process game action' });
   }
 }
 
 /**
- * Calculate rating changes using ELO system
+ * Let the AI seat that has to act next, if any, play its action after its thinking delay
  */
-async function calculateRatingChanges(players: any[], winnerId: string | null, gameMode: string): Promise<Record<string, number>> {
-  const K_FACTOR = gameMode.includes('ranked') ? 32 : 16; // Higher K-factor for ranked games
-  const changes: Record<string, number> = {};
-
-  if (!winnerId || players.length !== 2) {
-    // For draws or non-1v1 games, minimal rating changes
-    players.forEach(player => {
-      changes[player.playerId] = 0;
-    });
-    return changes;
+function scheduleAITurn(io: SocketIOServer, sessionId: string, players: SeatedPlayer[], engineState: GameState) {
+  aiSeatService.scheduleTurn(sessionId, players, engineState, createServerEngine, (playerId, action) =>
+    playAIAction(io, sessionId, playerId, action)
+  );
+}
+
+/**
+ * Play an AI seat's action like any other player's. An action the engine turns down passes the
+ * turn instead, and a turned-down answer is replaced by one to the choice pending now, so the
+ * match never waits on an AI that cannot act.
+ */
+async function playAIAction(io: SocketIOServer, sessionId: string, playerId: string, action: GameAction) {
+  const errors: string[] = [];
+  await processGameAction(io, sessionId, playerId, action, error => errors.push(error.message), true);
+  if (errors.length === 0 || action.type === 'pass_turn') {
+    return;
   }
 
-  const winner = players.find(p => p.playerId === winnerId);
-  const loser = players.find(p => p.playerId !== winnerId);
+  if (action.type === 'resolve_choice') {
+    const session = await db
+      .selectFrom('game_sessions')
+      .select('game_state')
+      .where('id', '=', sessionId)
+      .executeTakeFirst();
+    const choice = (session?.game_state as { engineState?: { pendingChoice?: PendingChoice } } | undefined)?.engineState?.pendingChoice;
+    if (choice?.playerId !== playerId) {
+      return;
+    }
 
-  if (!winner || !loser) {
-    players.forEach(player => {
-      changes[player.playerId] = 0;
-    });
-    return changes;
+    console.warn(`⚠️ AI seat ${playerId} in session ${sessionId} could not resolve_choice (${errors.join(', ')}), answering choice ${choice.choiceId} again`);
+    await processGameAction(io, sessionId, playerId, aiSeatService.answerChoice(playerId, choice),
+      error => console.error(`❌ AI seat ${playerId} in session ${sessionId} could not answer its choice: ${error.message}`), true);
+    return;
   }
 
-  const winnerRating = winner.rating || 1000;
-  const loserRating = loser.rating || 1000;
+  console.warn(`⚠️ AI seat ${playerId} in session ${sessionId} could not ${action.type} (${errors.join(', ')}), passing`);
+  await processGameAction(io, sessionId, playerId, aiSeatService.toSocketAction({
+    type: GameActionType.PASS_TURN,
+    playerId,
+    payload: {}
+  }), error => console.error(`❌ AI seat ${playerId} in session ${sessionId} could not pass: ${error.message}`), true);
+}
+
+/**
+ * A player left a match that others still play: the AI takes their seat and plays on under
+ * their player ID, so the match carries on instead of ending
+ */
+export async function handOverSeatToAI(io: SocketIOServer, session: GameSession, playerId: string, reason: string) {
+  const players = aiSeatService.takeOverSeat(session.players as SeatedPlayer[], playerId);
+
+  await db
+    .updateTable('game_sessions')
+    .set({
+      players: sql`${JSON.stringify(players)}::jsonb`,
+      updated_at: new Date()
+    })
+    .where('id', '=', session.id)
+    .execute();
+
+  console.log(`🤖 AI takes over ${playerId}'s seat in session ${session.id} (${reason})`);
+  reconnectGraceService.endGrace(session.id, playerId);
+  await getTurnTimerManager()?.resumeTurnTimer(session.id, playerId, 0);
+
+  io.to(session.id).emit('player_replaced_by_ai', {
+    type: 'player_replaced_by_ai',
+    sessionId: session.id,
+    data: { userId: playerId, reason },
+    timestamp: Date.now()
+  });
+
+  const engineState = (session.game_state as { engineState?: unknown } | null)?.engineState;
+  if (engineState) {
+    scheduleAITurn(io, session.id, players, deepDeserialize(engineState));
+  }
+}
+
+/**
+ * Keep a dropped player's seat in a running match for the reconnect grace window;
+ * a player still connected from another socket has not dropped at all
+ */
+async function holdSeatForReconnect(io: SocketIOServer, sessionId: string, playerId: string) {
+  try {
+    const session = await db
+      .selectFrom('game_sessions')
+      .select(['status'])
+      .where('id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (session?.status !== 'playing') {
+      return;
+    }
 
-  // Calculate expected scores
-  const winnerExpected = 1 / (1 + Math.pow(10, (loserRating - winnerRating) / 400));
-  const loserExpected = 1 - winnerExpected;
+    const socketsInRoom = await io.in(sessionId).fetchSockets();
+    if (socketsInRoom.some(playerSocket => getSocketUserId(playerSocket) === playerId)) {
+      return;
+    }
 
-  // Calculate rating changes
-  const winnerChange = Math.round(K_FACTOR * (1 - winnerExpected));
-  const loserChange = Math.round(K_FACTOR * (0 - loserExpected));
+    reconnectGraceService.startGrace(sessionId, playerId, () => forfeitPlayer(io, sessionId, playerId, SessionEndReason.CONNECTION_TIMEOUT));
+    await getTurnTimerManager()?.pauseTurnTimer(sessionId, playerId);
+  } catch (error) {
+    console.error(`❌ Failed to hold seat for ${playerId} in session ${sessionId}:`, error);
+  }
+}
 
-  changes[winnerId] = winnerChange;
-  changes[loser.playerId] = loserChange;
+/**
+ * The reconnect grace window or the player's time bank ran out: the engine forfeits the player
+ * and the match ends, unless others play on and the AI can take the seat
+ */
+async function forfeitPlayer(io: SocketIOServer, sessionId: string, playerId: string, reason: SessionEndReason.CONNECTION_TIMEOUT | GameEndReason.TIME_LIMIT) {
+  const session = await db
+    .selectFrom('game_sessions')
+    .selectAll()
+    .where('id', '=', sessionId)
+    .executeTakeFirst();
+
+  if (!session || session.status !== 'playing') {
+    return;
+  }
 
-  return changes;
+  if (aiSeatService.canTakeOverSeat(session.players as SeatedPlayer[], playerId)) {
+    await handOverSeatToAI(io, session, playerId, reason);
+    return;
+  }
+
+  await endSessionByForfeit(io, session, playerId, reason);
+}
+
+/**
+ * The engine forfeits the player, which in team games loses the match for their whole team, and
+ * the session ends and is rated. Resolves to the engine's end-of-game data, or null when there
+ * is no engine state to forfeit from
+ */
+export async function endSessionByForfeit(
+  io: SocketIOServer,
+  session: GameSession,
+  playerId: string,
+  reason: SessionEndReason.CONNECTION_TIMEOUT | GameEndReason.TIME_LIMIT | GameEndReason.FORFEIT
+): Promise<EndGameData | null> {
+  const sessionId = session.id;
+  const gameState = session.game_state as any;
+  if (!gameState?.engineState) {
+    console.warn(`⚠️ Session ${sessionId} has no engine state to forfeit ${playerId} from`);
+    return null;
+  }
+
+  console.log(`⏰ ${playerId} forfeits session ${sessionId} (${reason})`);
+
+  const engine = await createServerEngine();
+  engine.loadGameState(deepDeserialize(gameState.engineState));
+  const forfeitAction = {
+    type: GameActionType.FORFEIT,
+    playerId,
+    payload: { reason }
+  };
+  const result = engine.processAction(forfeitAction);
+  if (!result.isValid || !result.newState) {
+    console.error(`❌ Could not forfeit ${playerId} in session ${sessionId}: ${result.errorMessage}`);
+    return null;
+  }
+
+  await actionLogService.appendAction(sessionId, forfeitAction);
+
+  const winnerId = result.newState.winner || null;
+  gameState.engineState = deepSerialize(result.newState);
+  gameState.status = 'finished';
+  gameState.endedAt = new Date();
+  gameState.winner = winnerId;
+  bumpStateVersion(gameState);
+
+  await db
+    .updateTable('game_sessions')
+    .set({
+      status: 'finished',
+      game_state: gameState,
+      winner_id: winnerId || undefined,
+      end_reason: reason,
+      ended_at: new Date(),
+      updated_at: new Date()
+    })
+    .where('id', '=', sessionId)
+    .execute();
+  publishToSpectators(io, sessionId, session.game_mode, 'finished', gameState);
+  reconnectGraceService.clearSession(sessionId);
+  quickChatService.clearSession(sessionId);
+  aiSeatService.clearSession(sessionId);
+  releaseSessionPresence(io, sessionId);
+  await getTurnTimerManager()?.clearSession(sessionId);
+
+  io.to(sessionId).emit('game_ended', {
+    type: 'game_ended',
+    sessionId,
+    data: {
+      winner: winnerId,
+      reason,
+      forfeitedBy: playerId,
+      completedAt: gameState.endedAt
+    },
+    timestamp: Date.now()
+  });
+
+  const endData = engine.getEndGameData();
+  await createMatchResults(sessionId, session, endData, playerId);
+  await updateGameResults(session, winnerId, playerId);
+
+  return endData;
+}
+
+/**
+ * Keep the chess clock in step with the engine: banks are dealt when play begins, and a turn
+ * change stops the previous player's clock (adding their increment) and starts the next one's
+ */
+async function advanceTurnClock(
+  session: GameSession,
+  previousEngineState: { gamePhase?: string; currentPlayerIndex?: number; players?: { id: string }[] } | undefined,
+  engineState: { gamePhase: string; currentPlayerIndex: number; players: { id: string }[] }
+): Promise<TimeBankSnapshot | null> {
+  const clock = getTurnTimerManager();
+  if (!clock || engineState.gamePhase !== GamePhase.PLAYING) {
+    return null;
+  }
+
+  const activePlayerId = engineState.players[engineState.currentPlayerIndex]?.id;
+  if (!activePlayerId) {
+    return null;
+  }
+
+  if (!(await clock.hasTimeBanks(session.id))) {
+    const lobbyBankSeconds = session.join_code ? getLobbySettings(session.settings).turnTimeLimit : undefined;
+    await clock.initializeTimeBanks(session.id, engineState.players.map(player => player.id), getTimeControl(session.game_mode, lobbyBankSeconds));
+    await clock.startTurnTimer(session.id, activePlayerId);
+  } else {
+    const previousPlayerId = previousEngineState?.gamePhase === GamePhase.PLAYING
+      ? previousEngineState.players?.[previousEngineState.currentPlayerIndex ?? 0]?.id
+      : undefined;
+
+    if (previousPlayerId !== activePlayerId) {
+      if (previousPlayerId) {
+        await clock.endTurn(session.id, previousPlayerId);
+      }
+      await clock.startTurnTimer(session.id, activePlayerId);
+    }
+  }
+
+  return clock.getTimeBanks(session.id);
+}
+
+/**
+ * Rate a completed game on the server and tell each player their new rating
+ */
+async function createMatchResults(sessionId: string, session: any, endData: EndGameData, forfeitedBy?: string) {
+  try {
+    console.log(`📊 Creating match results for session ${sessionId}`);
+
+    const gameMode = session.game_mode || 'casual_1v1';
+    const ratingChanges = await ratingService.recordMatchResult(sessionId, endData, forfeitedBy);
+
+    // Each player only hears about their own rating
+    const io = getGlobalIo();
+    if (io && ratingChanges.length > 0) {
+      const socketsInRoom = await io.in(sessionId).fetchSockets();
+      for (const playerSocket of socketsInRoom) {
+        const change = ratingChanges.find(c => c.playerId === getSocketUserId(playerSocket));
+        if (!change) continue;
+
+        const oldRating = Math.round(change.before.rating);
+        const newRating = Math.round(change.after.rating);
+        playerSocket.emit('rating_updated', {
+          ratingUpdate: {
+            userId: change.playerId,
+            oldRating,
+            newRating,
+            ratingChange: newRating - oldRating,
+            gameMode,
+            result: change.result
+          },
+          timestamp: Date.now()
+        });
+      }
+    }
+
+    console.log(`✅ Match results created successfully for session ${sessionId}`);
+  } catch (error) {
+    console.error('❌ Failed to create match results:', error);
+  } finally {
+    // Clean up Redis matchmaking state, rated or not
+    await cleanupMatchmakingState((session.players as any[]).map(p => p.playerId));
+  }
 }
 
 /**
@@ -2202,52 +2856,12 @@ async function updateQuestProgressInDB(userId: string, questType: string, progre
 }
 
 /**
- * Update game results including ratings and quest progress
+ * Update quest progress after a game (ratings and stats come from createMatchResults)
  */
 async function updateGameResults(_session: any, winnerId: string | null, loserId: string | null) {
   try {
     console.log(`📊 Updating game results: winner=${winnerId}, loser=${loserId}`);
 
-    // Update player statistics by reading current values and updating
-    if (winnerId) {
-      const winner = await db
-        .selectFrom('users')
-        .select(['games_played', 'games_won', 'current_rating'])
-        .where('id', '=', winnerId)
-        .executeTakeFirst();
-
-      if (winner) {
-        await db
-          .updateTable('users')
-          .set({
-            games_played: (winner.games_played || 0) + 1,
-            games_won: (winner.games_won || 0) + 1,
-            current_rating: (winner.current_rating || 1000) + 25
-          })
-          .where('id', '=', winnerId)
-          .execute();
-      }
-    }
-
-    if (loserId) {
-      const loser = await db
-        .selectFrom('users')
-        .select(['games_played', 'current_rating'])
-        .where('id', '=', loserId)
-        .executeTakeFirst();
-
-      if (loser) {
-        await db
-          .updateTable('users')
-          .set({
-            games_played: (loser.games_played || 0) + 1,
-            current_rating: Math.max((loser.current_rating || 1000) - 15, 100)
-          })
-          .where('id', '=', loserId)
-          .execute();
-      }
-    }
-
     // Update quest progress for both players
     const playerIds = [winnerId, loserId].filter(Boolean) as string[];
     for (const playerId of playerIds) {
@@ -9,6 +9,9 @@ import crypto from 'crypto';
 import { workerDb as db } from '../database/kysely';
 import { getSubscription, publishMessage, PUBSUB_TOPICS, PUBSUB_SUBSCRIPTIONS } from '../config/pubsub';
 import { MatchmakingRequest, MatchFound, MatchmakingQueueEntry, SessionStatus } from '@kelseyabreu/shared';
+import { selectMatch, MatchSelection, AI_FILL_SECONDS, getRatingBand } from '../services/MatchmakingRules';
+import { aiSeatService, createAIPlayerId } from '../services/AISeatService';
+import { sql } from 'kysely';
 
 export class MatchmakingWorker {
     private isRunning = false;
@@ -250,7 +253,7 @@ export class MatchmakingWorker {
 
             // Step 2: Atomic reservation of all players
             const sessionId = crypto.randomUUID();
-            const reservationSuccess = await this.atomicPlayerReservation(potentialMatch.players, sessionId);
+            const reservationSuccess = await this.atomicPlayerReservation(potentialMatch.players.filter(p => !p.isAI), sessionId);
 
             if (!reservationSuccess) {
                 console.log(`🔒 [MATCHMAKING WORKER] Atomic reservation failed - another worker won the race`);
@@ -267,6 +270,8 @@ export class MatchmakingWorker {
                 estimatedStartTime: Date.now() + 5000
             };
 
+            await this.recordMatchAnalytics(request.gameMode, potentialMatch);
+
             return match;
         } catch (error) {
             console.error('❌ Error finding match:', error);
@@ -277,7 +282,7 @@ export class MatchmakingWorker {
     /**
      * Find potential match without modifying the queue
      */
-    private async findPotentialMatch(request: MatchmakingRequest, queueKey: string): Promise<{ players: Array<{ playerId: string, rating: number }> } | null> {
+    private async findPotentialMatch(request: MatchmakingRequest, queueKey: string): Promise<MatchSelection | null> {
         try {
             // Get all players in queue (read-only operation)
             const requests = await this.getRedis().zrange(queueKey, 0, -1);
@@ -288,7 +293,7 @@ export class MatchmakingWorker {
             }
 
             // Parse and filter valid requests
-            const validRequests: MatchmakingRequest[] = [];
+            const validRequests: MatchmakingQueueEntry[] = [];
             for (const requestItem of requests) {
                 try {
                     let requestStr: string;
@@ -300,7 +305,7 @@ export class MatchmakingWorker {
                         requestStr = String(requestItem);
                     }
 
-                    const parsedRequest = JSON.parse(requestStr) as MatchmakingRequest;
+                    const parsedRequest = JSON.parse(requestStr) as MatchmakingQueueEntry;
 
                     if (parsedRequest.playerId && parsedRequest.gameMode && typeof parsedRequest.rating === 'number') {
                         validRequests.push(parsedRequest);
@@ -310,54 +315,27 @@ export class MatchmakingWorker {
                 }
             }
 
-            // Determine required players for game mode
+            // Determine required players for game mode; modes AI can fill may start short
             const requiredPlayers = this.getRequiredPlayers(request.gameMode);
-            if (validRequests.length < requiredPlayers) {
+            if (validRequests.length < requiredPlayers && AI_FILL_SECONDS[request.gameMode] === undefined) {
                 console.log(`⏱️ [POTENTIAL MATCH] Not enough players: ${validRequests.length}/${requiredPlayers}`);
                 return null;
             }
 
-            // Find current player and compatible opponents
-            const currentPlayer = validRequests.find(r => r.playerId === request.playerId);
-            if (!currentPlayer) {
+            if (!validRequests.some(r => r.playerId === request.playerId)) {
                 console.log(`❌ [POTENTIAL MATCH] Current player ${request.playerId} not found in queue`);
                 return null;
             }
 
-            const otherPlayers = validRequests.filter(r => r.playerId !== request.playerId);
-
-            // Calculate rating range based on wait time
-            const waitTime = Date.now() - currentPlayer.timestamp;
-            const ratingRange = this.calculateRatingRange(currentPlayer.rating, currentPlayer.timestamp);
-            console.log(`⏰ [POTENTIAL MATCH] Wait time: ${waitTime}ms, rating range: ±${ratingRange}`);
-
-            // Filter by rating compatibility
-            const compatiblePlayers = otherPlayers.filter(player => {
-                const ratingDiff = Math.abs(player.rating - currentPlayer.rating);
-                return ratingDiff <= ratingRange;
-            });
-
-            if (compatiblePlayers.length < requiredPlayers - 1) {
-                console.log(`⏱️ [POTENTIAL MATCH] Not enough compatible players: ${compatiblePlayers.length}/${requiredPlayers - 1}`);
+            // Rating windows, regions, latency buckets and parties all decide who fits
+            const selection = selectMatch(request.playerId, validRequests, request.gameMode, requiredPlayers, Date.now(), createAIPlayerId);
+            if (!selection) {
+                console.log(`⏱️ [POTENTIAL MATCH] No compatible group for ${request.playerId} yet`);
                 return null;
             }
 
-            // Select best opponents
-            const selectedOpponents = compatiblePlayers
-                .sort((a, b) => Math.abs(a.rating - currentPlayer.rating) - Math.abs(b.rating - currentPlayer.rating))
-                .slice(0, requiredPlayers - 1);
-
-            console.log(`🎯 [POTENTIAL MATCH] Selected ${selectedOpponents.length} opponents for ${request.playerId}`);
-
-            return {
-                players: [
-                    { playerId: request.playerId, rating: request.rating },
-                    ...selectedOpponents.map(opponent => ({
-                        playerId: opponent.playerId,
-                        rating: opponent.rating
-                    }))
-                ]
-            };
+            console.log(`🎯 [POTENTIAL MATCH] Selected ${selection.players.length} players for ${request.playerId} (rating spread ${selection.ratingSpread})`);
+            return selection;
         } catch (error) {
             console.error('❌ Error finding potential match:', error);
             return null;
@@ -425,9 +403,10 @@ export class MatchmakingWorker {
             // Store match in database
             await this.storeMatchInDatabase(match);
 
-            // Notify players via Pub/Sub
+            // Notify players via Pub/Sub; AI seats have nobody to tell
+            const humanPlayers = match.players.filter(p => !p.isAI);
             console.log(`📢 [MatchmakingWorker] ===== PUBLISHING MATCH_FOUND NOTIFICATIONS =====`);
-            for (const player of match.players) {
+            for (const player of humanPlayers) {
                 const attributes = {
                     playerId: player.playerId,
                     sessionId: match.sessionId,
@@ -448,7 +427,7 @@ export class MatchmakingWorker {
             await this.createMatchHistory(match);
 
             // Clean up player reservations
-            await this.cleanupPlayerReservations(match.players.map(p => `${this.namespace}:reserved:${p.playerId}`));
+            await this.cleanupPlayerReservations(humanPlayers.map(p => `${this.namespace}:reserved:${p.playerId}`));
 
             console.log(`✅ Match ${match.sessionId} created successfully with players: ${match.players.map(p => p.playerId).join(', ')}`);
         } catch (error) {
@@ -482,8 +461,8 @@ export class MatchmakingWorker {
      */
     private async storeMatchInDatabase(match: MatchFound): Promise<void> {
         try {
-            // Get user details for all players
-            const playerIds = match.players.map(p => p.playerId);
+            // Get user details for all players; AI seats have no user behind them
+            const playerIds = match.players.filter(p => !p.isAI).map(p => p.playerId);
             console.log('🔴 [MatchmakingWorker] Looking up users for playerIds:', playerIds);
 
             // Add retry logic for database operations
@@ -536,7 +515,7 @@ export class MatchmakingWorker {
             };
 
             // Create players array with team assignments for game state
-            const players = users.map((user, index) => {
+            const humanPlayers = users.map((user, index) => {
                 const basePlayer = {
                     playerId: user.id,
                     id: user.id,
@@ -547,11 +526,12 @@ export class MatchmakingWorker {
                     rating: match.players.find(p => p.playerId === user.id)?.rating || 1000
                 };
 
-                // Add team assignment for team-based modes
-                if (match.gameMode === 'team_2v2') {
+                // Team modes keep the teams matchmaking chose, so parties stay together
+                const team = match.players.find(p => p.playerId === user.id)?.team;
+                if (team) {
                     return {
                         ...basePlayer,
-                        team: index < 2 ? 'team1' : 'team2'
+                        team
                     };
                 }
 
@@ -559,6 +539,14 @@ export class MatchmakingWorker {
                 return basePlayer;
             });
 
+            const aiPlayers = match.players
+                .filter(p => p.isAI)
+                .map((p, index) => ({
+                    ...aiSeatService.createAIPlayer(p.playerId, index + 1, p.rating),
+                    ...(p.team ? { team: p.team } : {})
+                }));
+            const players = [...humanPlayers, ...aiPlayers];
+
             const initialGameState = {
                 gamePhase: 'lobby',
                 players,
@@ -581,7 +569,7 @@ export class MatchmakingWorker {
                 .insertInto('game_sessions')
                 .values({
                     id: match.sessionId,
-                    host_user_id: match.players[0]?.playerId || '',
+                    host_user_id: playerIds[0] || '',
                     game_mode: match.gameMode as any, // Use actual game mode
                     is_private: false,
                     max_players: match.players.length,
@@ -619,9 +607,10 @@ export class MatchmakingWorker {
      */
     private async createMatchHistory(match: MatchFound): Promise<void> {
         try {
-            // Create match results for each player
-            for (const player of match.players) {
-                const opponent = match.players.find(p => p.playerId !== player.playerId);
+            // Create match results for each player; AI seats are never rated
+            const humanPlayers = match.players.filter(p => !p.isAI);
+            for (const player of humanPlayers) {
+                const opponent = humanPlayers.find(p => p.playerId !== player.playerId);
                 const values: any = {
                     session_id: match.sessionId,
                     player_user_id: player.playerId,
@@ -769,15 +758,39 @@ export class MatchmakingWorker {
 
 
     /**
-     * Calculate rating range based on wait time
+     * Fold a new match into today's matchmaking analytics, which drive wait-time estimates,
+     * under the rating band of the players who queued for it
      */
-    private calculateRatingRange(_rating: number, requestTime: number): number {
-        const waitTime = Date.now() - requestTime;
-        const baseRange = 100;
+    private async recordMatchAnalytics(gameMode: string, selection: MatchSelection): Promise<void> {
+        try {
+            const matchedPlayers = selection.waitSeconds.length;
+            const averageWait = Math.round(selection.waitSeconds.reduce((sum, wait) => sum + wait, 0) / matchedPlayers);
+            const queuedPlayers = selection.players.filter(player => !player.isAI);
+            const averageRating = queuedPlayers.reduce((sum, player) => sum + player.rating, 0) / queuedPlayers.length;
 
-        // Expand range over time to improve match probability
-        const timeBonus = Math.floor(waitTime / 30000) * 50; // +50 every 30 seconds
-        return Math.min(baseRange + timeBonus, 500); // Cap at 500 rating difference
+            await db
+                .insertInto('matchmaking_analytics')
+                .values({
+                    date: sql<Date>`CURRENT_DATE`,
+                    game_mode: gameMode,
+                    rating_band: getRatingBand(averageRating),
+                    successful_matches: 1,
+                    average_wait_time_seconds: averageWait,
+                    avg_rating_difference: selection.ratingSpread.toFixed(2)
+                })
+                .onConflict((oc) => oc
+                    .columns(['date', 'game_mode', 'rating_band'])
+                    .doUpdateSet({
+                        // Running average over every match today
+                        average_wait_time_seconds: sql<number>`ROUND((matchmaking_analytics.average_wait_time_seconds * matchmaking_analytics.successful_matches + ${averageWait}) / (matchmaking_analytics.successful_matches + 1))`,
+                        avg_rating_difference: sql<string>`(matchmaking_analytics.avg_rating_difference * matchmaking_analytics.successful_matches + ${selection.ratingSpread}) / (matchmaking_analytics.successful_matches + 1)`,
+                        successful_matches: sql<number>`matchmaking_analytics.successful_matches + 1`
+                    })
+                )
+                .execute();
+        } catch (error) {
+            console.error('❌ Failed to record matchmaking analytics:', error);
+        }
     }
 
     /**
@@ -807,6 +820,7 @@ export class MatchmakingWorker {
         this.cleanupInterval = setInterval(async () => {
             if (this.isRunning) {
                 await this.cleanupExpiredRequests();
+                await this.fillStalledQueues();
             }
         }, 30000); // Every 30 seconds
 
@@ -843,6 +857,37 @@ export class MatchmakingWorker {
         }
     }
 
+    /**
+     * Match players who have waited past their mode's AI fill time, with AI in the seats nobody
+     * else could fill. Without this a lone player would only be matched when someone new queues.
+     */
+    private async fillStalledQueues(): Promise<void> {
+        for (const [gameMode, fillSeconds] of Object.entries(AI_FILL_SECONDS)) {
+            try {
+                const entries = (await this.getRedis().zrange(this.getQueueKey(gameMode), 0, -1))
+                    .map(item => JSON.parse(typeof item === 'string' ? item : JSON.stringify(item)) as MatchmakingQueueEntry)
+                    .sort((a, b) => a.timestamp - b.timestamp);
+                const matched = new Set<string>();
+
+                for (const entry of entries) {
+                    // Oldest first, so everyone after this player has waited less
+                    if (Date.now() - entry.timestamp < fillSeconds * 1000) break;
+                    if (matched.has(entry.playerId)) continue;
+
+                    const match = await this.findMatch({ ...entry, requestId: crypto.randomUUID() });
+                    if (match) {
+                        console.log(`🤖 [MATCHMAKING WORKER] Filling ${gameMode} match ${match.sessionId} for ${entry.playerId} with ${match.players.filter(p => p.isAI).length} AI players`);
+                        await this.createMatch(match);
+                        await this.removePlayersFromQueue(match.players, gameMode);
+                        match.players.forEach(p => matched.add(p.playerId));
+                    }
+                }
+            } catch (error) {
+                console.error(`❌ Failed to fill stalled ${gameMode} queue with AI:`, error);
+            }
+        }
+    }
+
     /**
      * Check if a string is a valid UUID
      */
@@ -0,0 +1,85 @@
+/**
+ * AI Personalities - Named opponents with a curated deck and weighted decision heuristics
+ * The profiles themselves are data in personalities.json; strategies take them through setPersonality
+ */
+
+import { CardData } from '../types';
+import { DEFAULT_EVALUATION_WEIGHTS, EvaluationWeights } from './StateEvaluator';
+import personalityData from './personalities.json';
+
+/**
+ * One card of a personality's deck list
+ */
+export interface AIPersonalityDeckEntry {
+  cardId: number;
+  quantity: number;
+}
+
+/**
+ * Cards a personality wants on its side of the board; a card matching any list is favoured
+ */
+export interface AIFavouredCards {
+  trophicLevels?: number[];
+  keywords?: number[];
+  cardIds?: number[];
+}
+
+/**
+ * How a personality leans its strategy's decisions
+ */
+export interface AIPersonalityHeuristics {
+  weights?: Partial<EvaluationWeights>; // Over the strategy's own evaluation weights
+  passChance?: number;                  // Replaces the difficulty's random pass chance
+  favouredCards?: AIFavouredCards;
+  favouredCardWeight?: number;          // Score per favoured card on the board, and extra odds of playing one
+}
+
+/**
+ * A named AI opponent
+ */
+export interface AIPersonality {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  deck: AIPersonalityDeckEntry[];
+  heuristics: AIPersonalityHeuristics;
+}
+
+/**
+ * Every personality, in the order they are listed
+ */
+export const AI_PERSONALITIES: readonly AIPersonality[] = personalityData.personalities;
+
+export function getAIPersonality(personalityId: string): AIPersonality | undefined {
+  return AI_PERSONALITIES.find(personality => personality.id === personalityId);
+}
+
+/**
+ * The personality's deck as card IDs, one entry per copy, in list order
+ */
+export function buildPersonalityDeck(personality: AIPersonality): string[] {
+  return personality.deck.flatMap(entry => Array<string>(entry.quantity).fill(String(entry.cardId)));
+}
+
+/**
+ * Evaluation weights with the personality's adjustments laid over the given ones
+ */
+export function getPersonalityWeights(
+  personality: AIPersonality,
+  base: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+): EvaluationWeights {
+  return { ...base, ...personality.heuristics.weights };
+}
+
+/**
+ * Whether a card is one the personality favours
+ */
+export function isFavouredCard(personality: AIPersonality, cardData: CardData | undefined): boolean {
+  const favoured = personality.heuristics.favouredCards;
+  if (!favoured || !cardData) return false;
+
+  return (cardData.trophicLevel !== null && !!favoured.trophicLevels?.includes(cardData.trophicLevel)) ||
+    !!favoured.keywords?.some(keyword => cardData.keywords?.includes(keyword)) ||
+    !!favoured.cardIds?.includes(cardData.cardId);
+}
@@ -2,7 +2,11 @@
  * AI Strategy Interface and Base Implementation for BioMasters TCG
  */
 
-import { GameState, Position } from '../types';
+import { GameState, PendingChoice, Position, deepDeserialize, deepSerialize } from '../types';
+import { GameActionType, GamePhase } from '../enums';
+import { BioMastersEngine, PlayerAction } from '../game-engine/BioMastersEngine';
+import { DEFAULT_EVALUATION_WEIGHTS, EvaluationWeights, areAlliesInState, evaluateGameState } from './StateEvaluator';
+import { AIPersonality, getPersonalityWeights, isFavouredCard } from './AIPersonality';
 
 /**
  * Notification callback for AI actions
@@ -32,11 +36,38 @@ export interface AIStrategy {
    */
   setCardDataFunctions(getCardData: CardDataLookup, getCardName: CardNameLookup): void;
 
+  /**
+   * Give the strategy an engine of its own to simulate candidate plays on.
+   * It must share the game's card data but never run the live game.
+   */
+  setSimulationEngine(engine: BioMastersEngine | null): void;
+
+  /**
+   * Replace Math.random for the strategy's own decisions, e.g. with a seeded stream for reproducible simulations
+   */
+  setRandomSource(random: () => number): void;
+
+  /**
+   * Play as a named personality: its weights, pass chance and favoured cards lean every decision
+   */
+  setPersonality(personality: AIPersonality): void;
+
+  /**
+   * The personality the strategy plays as, if any
+   */
+  getPersonality(): AIPersonality | null;
+
   /**
    * Notify when AI passes turn
    */
   notifyPassTurn(gameState: GameState, playerId: string): void;
 
+  /**
+   * Plan the turn as legal actions from the engine, in order. A plan ending in PASS_TURN stops the
+   * turn there; any other plan is played out and the turn planned again. Returns [] without a simulation engine.
+   */
+  planTurn(gameState: GameState, playerId: string): PlayerAction[];
+
   /**
    * Select a card from the AI's hand to play
    */
@@ -52,6 +83,11 @@ export interface AIStrategy {
    */
   shouldPassTurn(hand: string[], actionsRemaining: number, gameState: GameState, playerId: string): boolean;
 
+  /**
+   * Answer a pending ability choice with option values from choice.options
+   */
+  selectChoice(choice: PendingChoice, gameState: GameState, playerId: string): string[];
+
   /**
    * Get the thinking delay before making a move (for UX)
    */
@@ -73,6 +109,18 @@ export type CardDataLookup = (cardId: string) => any;
  */
 export type CardNameLookup = (cardData: any) => string;
 
+/**
+ * Longest plan any strategy builds; turns normally end well before this
+ */
+const MAX_PLAN_LENGTH = 10;
+
+/**
+ * Copy a state for simulation so the live state is never touched
+ */
+function cloneGameStateForSimulation(state: GameState): GameState {
+  return deepDeserialize(deepSerialize(state));
+}
+
 /**
  * Base AI Strategy - provides default implementations that can be overridden
  */
@@ -81,6 +129,10 @@ export abstract class BaseAIStrategy implements AIStrategy {
   protected notificationCallback: AINotificationCallback | null = null;
   protected getCardData: CardDataLookup | null = null;
   protected getCardName: CardNameLookup | null = null;
+  protected simulationEngine: BioMastersEngine | null = null;
+  protected evaluationWeights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS;
+  protected personality: AIPersonality | null = null;
+  protected random: () => number = Math.random;
 
   constructor(difficulty: AIDifficulty) {
     this.difficulty = difficulty;
@@ -94,6 +146,35 @@ export abstract class BaseAIStrategy implements AIStrategy {
     this.getCardName = getCardName;
   }
 
+  /**
+   * Set the engine used for lookahead; strategies that do not search ignore it
+   */
+  setSimulationEngine(engine: BioMastersEngine | null): void {
+    this.simulationEngine = engine;
+  }
+
+  /**
+   * Set where random decisions come from
+   */
+  setRandomSource(random: () => number): void {
+    this.random = random;
+  }
+
+  /**
+   * Set the personality, laying its weights over the strategy's own
+   */
+  setPersonality(personality: AIPersonality): void {
+    this.personality = personality;
+    this.evaluationWeights = getPersonalityWeights(personality, this.evaluationWeights);
+  }
+
+  /**
+   * Get the personality the strategy plays as
+   */
+  getPersonality(): AIPersonality | null {
+    return this.personality;
+  }
+
   /**
    * Set notification callback for AI actions
    */
@@ -120,6 +201,61 @@ export abstract class BaseAIStrategy implements AIStrategy {
     }
   }
 
+  /**
+   * Default turn planning - one action at a time from the engine's legal actions, each picked by
+   * chooseAction and simulated before the next is picked. Stops at a pass, at the end of the turn,
+   * or when the simulated action leaves a choice to answer.
+   */
+  planTurn(gameState: GameState, playerId: string): PlayerAction[] {
+    const engine = this.simulationEngine;
+    if (!engine) {
+      return [];
+    }
+
+    const plan: PlayerAction[] = [];
+    let state = gameState;
+
+    while (plan.length < MAX_PLAN_LENGTH) {
+      engine.loadGameState(state);
+      const actions = engine.getLegalActions(playerId);
+      if (actions.length === 0) break;
+
+      const action = this.chooseAction(actions, state, playerId);
+      plan.push(action);
+      if (action.type === GameActionType.PASS_TURN) break;
+
+      const next = this.simulateAction(engine, state, action);
+      if (!next || !this.canAct(next, playerId)) break;
+      state = next;
+    }
+
+    console.log(`🤖 [${this.difficulty.toUpperCase()}] AI planned ${plan.map(action => action.type).join(' → ') || 'nothing'}`);
+    return plan;
+  }
+
+  /**
+   * Default action choice - random legal action, passing at the difficulty's pass chance.
+   * A personality makes playing its favoured cards the likelier pick.
+   * Override in subclasses for smarter planning
+   */
+  protected chooseAction(actions: PlayerAction[], _gameState: GameState, playerId: string): PlayerAction {
+    const pass: PlayerAction = actions.find(action => action.type === GameActionType.PASS_TURN) ||
+      { type: GameActionType.PASS_TURN, playerId, payload: {} };
+    const others = actions.filter(action => action.type !== GameActionType.PASS_TURN);
+
+    if (others.length === 0 || this.random() < this.getBasePassChance()) {
+      return pass;
+    }
+
+    const odds = others.map(action => this.isFavouredPlay(action) ? 1 + this.getFavouredCardWeight() : 1);
+    let pick = this.random() * odds.reduce((total, weight) => total + weight, 0);
+    for (let i = 0; i < others.length; i++) {
+      pick -= odds[i]!;
+      if (pick < 0) return others[i]!;
+    }
+    return others[others.length - 1]!;
+  }
+
   /**
    * Default card selection - random choice
    * Override in subclasses for smarter selection
@@ -130,7 +266,7 @@ export abstract class BaseAIStrategy implements AIStrategy {
     }
 
     console.log(`🤖 [${this.difficulty.toUpperCase()}] AI selecting random card from ${hand.length} cards`);
-    const randomIndex = Math.floor(Math.random() * hand.length);
+    const randomIndex = Math.floor(this.random() * hand.length);
     return hand[randomIndex]!; // Safe because we check for empty hand above
   }
 
@@ -144,10 +280,27 @@ export abstract class BaseAIStrategy implements AIStrategy {
     }
 
     console.log(`🤖 [${this.difficulty.toUpperCase()}] AI selecting random position from ${validPositions.length} options`);
-    const randomIndex = Math.floor(Math.random() * validPositions.length);
+    const randomIndex = Math.floor(this.random() * validPositions.length);
     return validPositions[randomIndex]!; // Safe because we check for empty positions above
   }
 
+  /**
+   * Default choice selection - random options, as many as the choice allows
+   * Override in subclasses for smarter targeting
+   */
+  selectChoice(choice: PendingChoice, _gameState: GameState, _playerId: string): string[] {
+    const remaining = [...choice.options];
+    const selections: string[] = [];
+
+    while (selections.length < choice.maxSelections && remaining.length > 0) {
+      const randomIndex = Math.floor(this.random() * remaining.length);
+      selections.push(...remaining.splice(randomIndex, 1));
+    }
+
+    console.log(`🤖 [${this.difficulty.toUpperCase()}] AI chose ${selections.length} of ${choice.options.length} options`);
+    return selections;
+  }
+
   /**
    * Default pass turn logic - random chance based on difficulty
    * Override in subclasses for strategic passing
@@ -167,7 +320,7 @@ export abstract class BaseAIStrategy implements AIStrategy {
 
     // Third check: Random chance based on difficulty (only if moves are available)
     const passChance = this.getBasePassChance();
-    const shouldPass = Math.random() < passChance;
+    const shouldPass = this.random() < passChance;
 
     console.log(`🤖 [${this.difficulty.toUpperCase()}] AI pass turn check: ${shouldPass} (chance: ${passChance})`);
     return shouldPass;
@@ -189,7 +342,7 @@ export abstract class BaseAIStrategy implements AIStrategy {
    */
   getThinkingDelay(): number {
     const baseDelay = this.getBaseThinkingDelay();
-    const randomVariation = Math.random() * 1000; // 0-1 second variation
+    const randomVariation = this.random() * 1000; // 0-1 second variation
     return baseDelay + randomVariation;
   }
 
@@ -201,9 +354,14 @@ export abstract class BaseAIStrategy implements AIStrategy {
   }
 
   /**
-   * Protected helper: Get base pass chance for this difficulty
+   * Protected helper: Get base pass chance for this difficulty, or the personality's own
    */
   protected getBasePassChance(): number {
+    const personalityPassChance = this.personality?.heuristics.passChance;
+    if (personalityPassChance !== undefined) {
+      return personalityPassChance;
+    }
+
     switch (this.difficulty) {
       case AIDifficulty.EASY: return 0.3;   // 30% chance to pass randomly
       case AIDifficulty.MEDIUM: return 0.15; // 15% chance to pass randomly  
@@ -246,13 +404,68 @@ export abstract class BaseAIStrategy implements AIStrategy {
     return this.getCardName(cardData);
   }
 
+  /**
+   * Protected helper: Run one action on a copy of the state; null when the engine rejects it
+   */
+  protected simulateAction(engine: BioMastersEngine, state: GameState, action: PlayerAction): GameState | null {
+    engine.loadGameState(cloneGameStateForSimulation(state));
+    const result = engine.processAction(action);
+    return result.isValid && result.newState ? result.newState : null;
+  }
+
+  /**
+   * Protected helper: Score a state for a player with this strategy's weights, plus the
+   * personality's bonus for each favoured card on its side of the board
+   */
+  protected evaluateState(engine: BioMastersEngine, state: GameState, playerId: string): number {
+    const score = evaluateGameState(state, playerId, cardId => engine.getCardData(cardId), this.evaluationWeights);
+    const personality = this.personality;
+    if (!personality || state.gamePhase === GamePhase.ENDED) {
+      return score;
+    }
+
+    const favouredCards = Array.from(state.grid.values()).filter(card =>
+      !card.isHOME && !card.isDetritus && areAlliesInState(state, card.ownerId, playerId) &&
+      isFavouredCard(personality, engine.getCardData(card.cardId))
+    ).length;
+    return score + favouredCards * this.getFavouredCardWeight();
+  }
+
+  /**
+   * Protected helper: Whether an action plays a card the personality favours
+   */
+  protected isFavouredPlay(action: PlayerAction): boolean {
+    if (!this.personality || !this.simulationEngine || action.type !== GameActionType.PLAY_CARD) {
+      return false;
+    }
+    const cardId = parseInt(String(action.payload.cardId).split('_')[0] || '0');
+    return isFavouredCard(this.personality, this.simulationEngine.getCardData(cardId));
+  }
+
+  /**
+   * Protected helper: How strongly the personality leans toward its favoured cards
+   */
+  protected getFavouredCardWeight(): number {
+    return this.personality?.heuristics.favouredCardWeight ?? 0;
+  }
+
+  /**
+   * Protected helper: Whether the player can still act this turn in a state
+   */
+  protected canAct(state: GameState, playerId: string): boolean {
+    return (state.gamePhase === GamePhase.PLAYING || state.gamePhase === GamePhase.FINAL_TURN) &&
+      state.players[state.currentPlayerIndex]?.id === playerId &&
+      state.actionsRemaining > 0 &&
+      !state.pendingChoice;
+  }
+
   /**
    * Protected helper: Evaluate position strategic value
    */
   protected evaluatePositionValue(_position: Position, _cardId: string, _gameState: GameState): number {
     // Base implementation returns random value
     // Override in subclasses for actual strategic evaluation
-    return Math.random();
+    return this.random();
   }
 
   /**
@@ -5,16 +5,19 @@
 import { AIDifficulty, AIStrategy } from './AIStrategy';
 import { EasyAIStrategy } from './strategies/EasyAIStrategy';
 import { MediumAIStrategy } from './strategies/MediumAIStrategy';
-import { HardAIStrategy } from './strategies/HardAIStrategy';
+import { HardAIStrategy, HardAIOptions } from './strategies/HardAIStrategy';
+import { AIPersonality } from './AIPersonality';
+
+export type { HardAIOptions } from './strategies/HardAIStrategy';
 
 /**
  * Factory class for creating AI strategies
  */
 export class AIStrategyFactory {
   /**
-   * Create an AI strategy based on difficulty level
+   * Create an AI strategy based on difficulty level; search options only apply to HARD
    */
-  static createStrategy(difficulty: AIDifficulty): AIStrategy {
+  static createStrategy(difficulty: AIDifficulty, hardOptions: HardAIOptions = {}): AIStrategy {
     console.log(`🏭 AIStrategyFactory: Creating ${difficulty} AI strategy`);
     
     switch (difficulty) {
@@ -25,7 +28,7 @@ export class AIStrategyFactory {
         return new MediumAIStrategy();
         
       case AIDifficulty.HARD:
-        return new HardAIStrategy();
+        return new HardAIStrategy(hardOptions);
         
       default:
         console.warn(`⚠️ Unknown AI difficulty: ${difficulty}, defaulting to EASY`);
@@ -33,6 +36,16 @@ export class AIStrategyFactory {
     }
   }
 
+  /**
+   * Create a difficulty's strategy playing as a named personality
+   */
+  static createPersonalityStrategy(difficulty: AIDifficulty, personality: AIPersonality, hardOptions: HardAIOptions = {}): AIStrategy {
+    const strategy = this.createStrategy(difficulty, hardOptions);
+    strategy.setPersonality(personality);
+    console.log(`🏭 AIStrategyFactory: ${difficulty} AI plays as ${personality.name} (${personality.title})`);
+    return strategy;
+  }
+
   /**
    * Get all available difficulty levels
    */
@@ -0,0 +1,191 @@
+/**
+ * State Evaluator - Scores a TCG game state from one player's point of view
+ * Used by search-based AI to compare the outcomes of simulated plays
+ */
+
+import { CardData, CardInstance, GameState } from '../types';
+import { GamePhase, TrophicCategoryId, TrophicLevel } from '../enums';
+
+/**
+ * Card data lookup by numeric card ID
+ */
+export type EvaluatorCardLookup = (cardId: number) => CardData | undefined;
+
+/**
+ * How much each feature of a position is worth
+ */
+export interface EvaluationWeights {
+  victoryPoints: number;     // Each VP in the score pile
+  scorePileCards: number;    // Each card banked in the score pile, e.g. from detritus conversion
+  boardCards: number;        // Each card on the grid
+  trophicLinks: number;      // Each card fed by a card one trophic level below it
+  longestChain: number;      // Each level of the longest producer-to-predator chain
+  payableHandCards: number;  // Each hand card whose cost the board can pay next turn
+  detritusOpportunities: number; // Each detritus tile a saprotroph in hand can still convert
+  handCards: number;         // Each card in hand
+  opponentScore: number;     // Multiplier on the best opponent's score-pile value
+}
+
+export const DEFAULT_EVALUATION_WEIGHTS: EvaluationWeights = {
+  victoryPoints: 10,
+  scorePileCards: 4,
+  boardCards: 1,
+  trophicLinks: 2,
+  longestChain: 1.5,
+  payableHandCards: 0.75,
+  detritusOpportunities: 1,
+  handCards: 0.25,
+  opponentScore: 1
+};
+
+const WIN_SCORE = 10000;
+
+const ADJACENT_OFFSETS = [
+  { x: 0, y: 1 }, { x: 1, y: 0 }, { x: 0, y: -1 }, { x: -1, y: 0 }
+];
+
+/**
+ * Cards in hands and score piles are stored by card ID string, optionally suffixed ("3" or "3_abc")
+ */
+function parseCardId(entry: string): number {
+  return parseInt(entry.split('_')[0] || '0');
+}
+
+function isSaprotroph(cardData: CardData): boolean {
+  return cardData.trophicLevel === TrophicLevel.SAPROTROPH && cardData.trophicCategory === TrophicCategoryId.SAPROTROPH;
+}
+
+/**
+ * Whether two players are on the same side: the same player, or teammates in a team game
+ */
+export function areAlliesInState(state: GameState, playerA: string, playerB: string): boolean {
+  if (playerA === playerB) return true;
+  const teamA = state.gameSettings.teams?.find(team => team.playerIds.includes(playerA));
+  return !!teamA && teamA.playerIds.includes(playerB);
+}
+
+/**
+ * Score-pile value of a player: VP counted the way the engine counts it, plus the banked cards themselves
+ */
+function scorePileValue(state: GameState, playerId: string, getCard: EvaluatorCardLookup, weights: EvaluationWeights): number {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return 0;
+
+  const victoryPoints = player.scorePile.reduce((total, entry) => {
+    const cardData = getCard(parseCardId(entry));
+    return cardData ? total + (cardData.victoryPoints || 1) : total;
+  }, 0);
+
+  return victoryPoints * weights.victoryPoints + player.scorePile.length * weights.scorePileCards;
+}
+
+/**
+ * Trophic links and the longest chain among one side's living grid cards.
+ * A card's chain depth is one more than the deepest adjacent allied card one level below it;
+ * producers start chains and unconnected consumers have no depth.
+ */
+function trophicChains(cards: CardInstance[], getCard: EvaluatorCardLookup): { links: number; longest: number } {
+  const byPosition = new Map(cards.map(card => [`${card.position.x},${card.position.y}`, card]));
+  const depths = new Map<string, number>();
+
+  const depthOf = (card: CardInstance): number => {
+    const cached = depths.get(card.id);
+    if (cached !== undefined) return cached;
+
+    const level = getCard(card.cardId)?.trophicLevel;
+    let depth = 0;
+    if (level === TrophicLevel.PRODUCER) {
+      depth = 1;
+    } else if (level && level > TrophicLevel.PRODUCER) {
+      depths.set(card.id, 0); // Guards against revisiting while this card is being resolved
+      for (const offset of ADJACENT_OFFSETS) {
+        const neighbour = byPosition.get(`${card.position.x + offset.x},${card.position.y + offset.y}`);
+        if (neighbour && getCard(neighbour.cardId)?.trophicLevel === level - 1) {
+          const neighbourDepth = depthOf(neighbour);
+          if (neighbourDepth > 0) {
+            depth = Math.max(depth, neighbourDepth + 1);
+          }
+        }
+      }
+    }
+
+    depths.set(card.id, depth);
+    return depth;
+  };
+
+  let links = 0;
+  let longest = 0;
+  for (const card of cards) {
+    const depth = depthOf(card);
+    if (depth > 1) links++;
+    longest = Math.max(longest, depth);
+  }
+
+  return { links, longest };
+}
+
+/**
+ * Whether the given cards could pay a card's cost once they are ready again
+ */
+function canPayCost(cardData: CardData, payers: CardInstance[], getCard: EvaluatorCardLookup): boolean {
+  if (!cardData.cost) return true;
+
+  const cost = typeof cardData.cost === 'string' ? JSON.parse(cardData.cost) : cardData.cost;
+  const requirements: Array<{ Category?: number; Level?: number; Count: number }> = cost.Requires || [];
+
+  return requirements.every(requirement => payers.filter(card => {
+    const payerData = getCard(card.cardId);
+    if (!payerData) return false;
+    if (requirement.Category && payerData.trophicCategory !== requirement.Category) return false;
+    if (requirement.Level && payerData.trophicLevel !== requirement.Level) return false;
+    return true;
+  }).length >= requirement.Count);
+}
+
+/**
+ * Score a game state for a player: higher is better for them
+ */
+export function evaluateGameState(
+  state: GameState,
+  playerId: string,
+  getCard: EvaluatorCardLookup,
+  weights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+): number {
+  if (state.gamePhase === GamePhase.ENDED) {
+    if (!state.winner) return 0;
+    return areAlliesInState(state, state.winner, playerId) ? WIN_SCORE : -WIN_SCORE;
+  }
+
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return 0;
+
+  const gridCards = Array.from(state.grid.values());
+  const ownCards = gridCards.filter(card =>
+    !card.isHOME && !card.isDetritus && areAlliesInState(state, card.ownerId, playerId)
+  );
+  const detritusTiles = gridCards.filter(card => card.isDetritus).length;
+
+  const ownScore = state.players
+    .filter(p => areAlliesInState(state, p.id, playerId))
+    .reduce((total, p) => total + scorePileValue(state, p.id, getCard, weights), 0);
+  const bestOpponentScore = state.players
+    .filter(p => !areAlliesInState(state, p.id, playerId))
+    .reduce((best, p) => Math.max(best, scorePileValue(state, p.id, getCard, weights)), 0);
+
+  const chains = trophicChains(ownCards, getCard);
+
+  const handData = player.hand
+    .map(entry => getCard(parseCardId(entry)))
+    .filter((cardData): cardData is CardData => !!cardData);
+  const payableHandCards = handData.filter(cardData => !isSaprotroph(cardData) && canPayCost(cardData, ownCards, getCard)).length;
+  const saprotrophsInHand = handData.filter(isSaprotroph).length;
+
+  return ownScore
+    - bestOpponentScore * weights.opponentScore
+    + ownCards.length * weights.boardCards
+    + chains.links * weights.trophicLinks
+    + chains.longest * weights.longestChain
+    + payableHandCards * weights.payableHandCards
+    + Math.min(detritusTiles, saprotrophsInHand) * weights.detritusOpportunities
+    + player.hand.length * weights.handCards;
+}
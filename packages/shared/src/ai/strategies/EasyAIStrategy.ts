@@ -10,6 +10,7 @@ import { BaseAIStrategy, AIDifficulty } from '../AIStrategy';
  * - Selects cards randomly
  * - Places cards at random valid positions
  * - Passes turn randomly (30% chance)
+ * - Plans turns from random legal actions of every type (base planTurn)
  * - Quick thinking time (1-2 seconds)
  */
 export class EasyAIStrategy extends BaseAIStrategy {
@@ -1,68 +1,315 @@
 /**
- * Hard AI Strategy - Advanced strategic decisions with deep game awareness
- * Currently uses Easy AI implementation - will be enhanced later
+ * Hard AI Strategy - Searches ahead by simulating its own turn and the opponent's reply on its own copy of the engine
+ * Falls back to the base random behaviour when no simulation engine is set
  */
 
 import { GameState, Position } from '../../types';
+import { GameActionType, GamePhase } from '../../enums';
+import { BioMastersEngine, PlayerAction } from '../../game-engine/BioMastersEngine';
 import { BaseAIStrategy, AIDifficulty } from '../AIStrategy';
+import { DEFAULT_EVALUATION_WEIGHTS, EvaluationWeights, areAlliesInState, evaluateGameState } from '../StateEvaluator';
+
+/**
+ * Search settings for the Hard AI
+ */
+export interface HardAIOptions {
+  beamWidth?: number;   // Lines kept after each ply
+  maxDepth?: number;    // Actions searched ahead within the turn
+  replyDepth?: number;  // Actions of the opponent's reply turn simulated after each line; 0 plans the AI's own turn only
+  searchBudgetMs?: number; // Search time per decision until getThinkingDelay sets it from the delay
+  searchNodeBudget?: number; // Actions simulated per decision instead of a time budget; the same state always gets the same plan
+  weights?: EvaluationWeights;
+}
+
+interface SearchNode {
+  state: GameState;
+  actions: PlayerAction[];
+  score: number;
+  pathScore: number; // Sum of scores along the line; breaks ties in favour of getting value sooner
+}
+
+interface SearchPlan {
+  plannedFor: GameState;
+  playerId: string;
+  actions: PlayerAction[];
+}
+
+const DEFAULT_BEAM_WIDTH = 4;
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_REPLY_DEPTH = 2;
+const OWN_TURN_SHARE_OF_BUDGET = 0.5; // The rest of the search budget goes to the opponent's replies
+const DEFAULT_SEARCH_BUDGET_MS = 1000;
+const SEARCH_SHARE_OF_THINKING = 0.5; // Part of the thinking delay spent searching instead of waiting
+
+function compareNodes(a: SearchNode, b: SearchNode): number {
+  return a.score !== b.score ? a.score - b.score : a.pathScore - b.pathScore;
+}
 
 /**
  * Hard AI Strategy Implementation
- * TODO: Implement advanced strategic behaviors:
- * - Evaluate trophic chain opportunities
- * - Consider domain compatibility
- * - Plan multiple moves ahead
- * - Optimize energy usage
- * - Strategic passing only when beneficial
- * - Longer thinking time (2-3 seconds)
+ * Two-ply search over turns. A beam search over its own actions this turn runs every legal action
+ * (plays, abilities, moves, drop-and-draw, metamorphosis) through BioMastersEngine.processAction
+ * on a cloned state. The best lines, stopping now included, are then played out through the
+ * pass and the next opponent's reply, who greedily takes the actions the state evaluator scores
+ * best for them. The AI follows the line that leaves it best placed after that reply.
  */
 export class HardAIStrategy extends BaseAIStrategy {
-  constructor() {
+  private readonly beamWidth: number;
+  private readonly maxDepth: number;
+  private readonly replyDepth: number;
+  private searchBudgetMs: number;
+  private readonly searchNodeBudget: number | undefined;
+  private plan: SearchPlan | null = null;
+
+  constructor(options: HardAIOptions = {}) {
     super(AIDifficulty.HARD);
+    this.beamWidth = options.beamWidth ?? DEFAULT_BEAM_WIDTH;
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.replyDepth = options.replyDepth ?? DEFAULT_REPLY_DEPTH;
+    this.searchBudgetMs = options.searchBudgetMs ?? DEFAULT_SEARCH_BUDGET_MS;
+    this.searchNodeBudget = options.searchNodeBudget;
+    this.evaluationWeights = options.weights ?? DEFAULT_EVALUATION_WEIGHTS;
   }
 
   /**
-   * Hard AI: For now, uses random selection like Easy AI
-   * TODO: Implement advanced strategic card selection
+   * Hard AI: The best line found by the search, or a pass when no action improves the position
+   */
+  override planTurn(gameState: GameState, playerId: string): PlayerAction[] {
+    return this.getPlan(gameState, playerId)?.actions ?? super.planTurn(gameState, playerId);
+  }
+
+  /**
+   * Hard AI: Play the card the plan starts with
    */
   override selectCard(hand: string[], gameState: GameState, playerId: string): string {
-    console.log(`🤖 [HARD] AI selecting card (currently using random selection)`);
-    
-    // For now, use base class random selection
-    // TODO: Add advanced strategic selection logic
+    const next = this.nextPlay(gameState, playerId);
+    if (next && hand.includes(next.cardId)) {
+      console.log(`🤖 [HARD] AI selected card ${next.cardId} from search`);
+      return next.cardId;
+    }
+
+    console.log(`🤖 [HARD] AI has no planned card play, using random selection`);
     return super.selectCard(hand, gameState, playerId);
   }
 
   /**
-   * Hard AI: For now, uses random position like Easy AI
-   * TODO: Implement advanced strategic position selection
+   * Hard AI: Use the planned position, or the best single play of this card when the plan chose another
    */
   override selectPosition(validPositions: Position[], gameState: GameState, cardId: string, playerId: string): Position {
-    console.log(`🤖 [HARD] AI selecting position (currently using random selection)`);
-    
-    // For now, use base class random selection
-    // TODO: Add advanced strategic position logic
+    const next = this.nextPlay(gameState, playerId);
+    const planned = next?.cardId === cardId
+      ? validPositions.find(position => position.x === next.position.x && position.y === next.position.y)
+      : undefined;
+    if (planned) {
+      console.log(`🤖 [HARD] AI selected position (${planned.x}, ${planned.y}) from search`);
+      return planned;
+    }
+
+    const best = this.bestPositionFor(validPositions, gameState, cardId, playerId);
+    if (best) {
+      return best;
+    }
+
+    console.log(`🤖 [HARD] AI has no search result, using random position`);
     return super.selectPosition(validPositions, gameState, cardId, playerId);
   }
 
   /**
-   * Hard AI: Uses base class pass logic (5% chance)
-   * TODO: Add advanced strategic passing logic
+   * Hard AI: Pass only when the plan starts with a pass
    */
   override shouldPassTurn(hand: string[], actionsRemaining: number, gameState: GameState, playerId: string): boolean {
-    console.log(`🤖 [HARD] AI considering pass turn (currently using base logic)`);
-    
-    // Uses base class logic with 5% pass chance
-    // TODO: Add advanced strategic passing considerations
-    return super.shouldPassTurn(hand, actionsRemaining, gameState, playerId);
+    if (!this.simulationEngine || actionsRemaining <= 0) {
+      return super.shouldPassTurn(hand, actionsRemaining, gameState, playerId);
+    }
+
+    const next = this.getPlan(gameState, playerId)?.actions[0];
+    if (!next || next.type === GameActionType.PASS_TURN) {
+      console.log(`🤖 [HARD] AI passes - no line beats stopping now`);
+      return true;
+    }
+
+    return false;
   }
 
   /**
-   * Hard AI: Longer thinking time (2-3 seconds)
+   * Hard AI: Part of the 2-3 second thinking time goes to the search itself
    */
   override getThinkingDelay(): number {
     const delay = super.getThinkingDelay();
-    console.log(`🤖 [HARD] AI thinking for ${Math.round(delay)}ms`);
-    return delay;
+    this.searchBudgetMs = Math.round(delay * SEARCH_SHARE_OF_THINKING);
+    console.log(`🤖 [HARD] AI thinking for ${Math.round(delay)}ms (${this.searchBudgetMs}ms searching)`);
+    return delay - this.searchBudgetMs;
+  }
+
+  /**
+   * The plan for this exact state, searching once and reusing it across calls
+   */
+  private getPlan(gameState: GameState, playerId: string): SearchPlan | null {
+    if (!this.simulationEngine) {
+      return null;
+    }
+    if (this.plan?.plannedFor === gameState && this.plan.playerId === playerId) {
+      return this.plan;
+    }
+
+    this.plan = this.search(this.simulationEngine, gameState, playerId);
+    return this.plan;
+  }
+
+  private nextPlay(gameState: GameState, playerId: string): { cardId: string; position: Position } | null {
+    const next = this.getPlan(gameState, playerId)?.actions[0];
+    return next?.type === GameActionType.PLAY_CARD ? { cardId: String(next.payload.cardId), position: next.payload.position } : null;
+  }
+
+  /**
+   * Beam search over this turn's actions, then the opponent's reply to the best lines. The first
+   * ply is always searched in full so the AI never passes for lack of time; deeper plies stop when
+   * the own-turn share of the budget runs out, and replies stop when the rest does.
+   */
+  private search(engine: BioMastersEngine, gameState: GameState, playerId: string): SearchPlan {
+    const startedAt = Date.now();
+    let simulated = 0;
+    const outOfBudget = (share: number) => this.searchNodeBudget !== undefined
+      ? simulated >= this.searchNodeBudget * share
+      : Date.now() >= startedAt + this.searchBudgetMs * share;
+    const root: SearchNode = { state: gameState, actions: [], score: this.evaluateState(engine, gameState, playerId), pathScore: 0 };
+
+    let beam = [root];
+    const lines = [root];
+
+    for (let depth = 0; depth < this.maxDepth && beam.length > 0; depth++) {
+      const children: SearchNode[] = [];
+
+      for (const node of beam) {
+        if (depth > 0 && outOfBudget(OWN_TURN_SHARE_OF_BUDGET)) break;
+        if (!this.canAct(node.state, playerId)) continue;
+
+        engine.loadGameState(node.state);
+        const candidates = engine.getLegalActions(playerId).filter(action => action.type !== GameActionType.PASS_TURN);
+
+        for (const action of candidates) {
+          if (depth > 0 && outOfBudget(OWN_TURN_SHARE_OF_BUDGET)) break;
+
+          const state = this.simulateAction(engine, node.state, action);
+          if (!state) continue;
+          simulated++;
+
+          const score = this.evaluateState(engine, state, playerId);
+          const child: SearchNode = { state, actions: [...node.actions, action], score, pathScore: node.pathScore + score };
+          children.push(child);
+          lines.push(child);
+        }
+      }
+
+      beam = children.sort((a, b) => compareNodes(b, a)).slice(0, this.beamWidth);
+    }
+
+    // Best lines by this turn alone; the first stands when no reply could be searched
+    const candidates = lines.sort((a, b) => compareNodes(b, a)).slice(0, this.beamWidth);
+    let best = candidates[0]!;
+    let bestAfterReply = -Infinity;
+
+    for (const line of this.replyDepth > 0 ? candidates : []) {
+      if (outOfBudget(1)) break;
+
+      const reply = this.playReply(engine, line.state, playerId, () => {
+        simulated++;
+        return outOfBudget(1);
+      });
+      if (!reply) break;
+
+      const score = this.evaluateState(engine, reply, playerId);
+      if (score > bestAfterReply) {
+        best = line;
+        bestAfterReply = score;
+      }
+    }
+
+    console.log(`🤖 [HARD] AI simulated ${simulated} actions in ${Date.now() - startedAt}ms`);
+
+    // Stopping now is the best line, so pass; otherwise plan again once the line is played
+    const actions = best.actions.length === 0 ? [{ type: GameActionType.PASS_TURN, playerId, payload: {} }] : best.actions;
+
+    return { plannedFor: gameState, playerId, actions };
+  }
+
+  /**
+   * The state after the AI ends its turn here and the next player, if an opponent, takes up to
+   * replyDepth actions, each the one the evaluator scores best for them. Null when the budget
+   * ran out before the reply was done.
+   */
+  private playReply(engine: BioMastersEngine, lineState: GameState, playerId: string, countSimulation: () => boolean): GameState | null {
+    // A line that ended the game or is waiting on a choice has no reply to play out
+    if (lineState.gamePhase === GamePhase.ENDED || lineState.pendingChoice ||
+      lineState.players[lineState.currentPlayerIndex]?.id !== playerId) {
+      return lineState;
+    }
+
+    let state = this.simulateAction(engine, lineState, { type: GameActionType.PASS_TURN, playerId, payload: {} });
+    if (!state) {
+      return lineState;
+    }
+
+    const opponentId = state.players[state.currentPlayerIndex]?.id;
+    if (!opponentId || areAlliesInState(state, opponentId, playerId)) {
+      return state;
+    }
+
+    for (let depth = 0; depth < this.replyDepth && this.canAct(state, opponentId); depth++) {
+      engine.loadGameState(state);
+      const actions = engine.getLegalActions(opponentId).filter(action => action.type !== GameActionType.PASS_TURN);
+
+      let next: { state: GameState; score: number } | null = null;
+      for (const action of actions) {
+        const simulatedState = this.simulateAction(engine, state, action);
+        if (countSimulation()) return null;
+        if (!simulatedState) continue;
+
+        const score = this.evaluateForOpponent(engine, simulatedState, opponentId);
+        if (!next || score > next.score) {
+          next = { state: simulatedState, score };
+        }
+      }
+
+      // The opponent stops once nothing improves on where they stand
+      if (!next || next.score <= this.evaluateForOpponent(engine, state, opponentId)) break;
+      state = next.state;
+    }
+
+    return state;
+  }
+
+  /**
+   * An opponent's view of a state; their style is unknown, so the default weights stand in for it
+   */
+  private evaluateForOpponent(engine: BioMastersEngine, state: GameState, opponentId: string): number {
+    return evaluateGameState(state, opponentId, cardId => engine.getCardData(cardId), DEFAULT_EVALUATION_WEIGHTS);
+  }
+
+  /**
+   * Best single play of one card among the given positions
+   */
+  private bestPositionFor(validPositions: Position[], gameState: GameState, cardId: string, playerId: string): Position | null {
+    const engine = this.simulationEngine;
+    if (!engine) {
+      return null;
+    }
+
+    let best: { position: Position; score: number } | null = null;
+    for (const position of validPositions) {
+      const state = this.simulateAction(engine, gameState, {
+        type: GameActionType.PLAY_CARD,
+        playerId,
+        payload: { cardId, position }
+      });
+      if (!state) continue;
+
+      const score = this.evaluateState(engine, state, playerId);
+      if (!best || score > best.score) {
+        best = { position, score };
+      }
+    }
+
+    return best ? best.position : null;
   }
 }
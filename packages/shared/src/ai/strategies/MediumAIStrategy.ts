@@ -1,18 +1,20 @@
 /**
- * Medium AI Strategy - Strategic decisions with some game awareness
- * Currently uses Easy AI implementation - will be enhanced later
+ * Medium AI Strategy - Greedy one-step lookahead over a sample of its legal actions
+ * Falls back to the base random behaviour when no simulation engine is set
  */
 
-import { GameState, Position } from '../../types';
+import { GameState } from '../../types';
+import { GameActionType } from '../../enums';
+import { PlayerAction } from '../../game-engine/BioMastersEngine';
 import { BaseAIStrategy, AIDifficulty } from '../AIStrategy';
 
+// Actions looked at per decision; the rest of the legal list goes unseen
+const MAX_CANDIDATES = 24;
+
 /**
  * Medium AI Strategy Implementation
- * TODO: Implement strategic behaviors:
- * - Prefer high-value cards
- * - Consider adjacent cards for placement
- * - Pass turn more strategically
- * - Moderate thinking time (1.5-2.5 seconds)
+ * Simulates a random sample of legal actions one step ahead and takes the best of them,
+ * still passing now and then (15%) like a distracted player
  */
 export class MediumAIStrategy extends BaseAIStrategy {
   constructor() {
@@ -20,39 +22,31 @@ export class MediumAIStrategy extends BaseAIStrategy {
   }
 
   /**
-   * Medium AI: For now, uses random selection like Easy AI
-   * TODO: Implement strategic card selection
+   * Medium AI: Best sampled action by the state evaluator; pass when none of them helps
    */
-  override selectCard(hand: string[], gameState: GameState, playerId: string): string {
-    console.log(`🤖 [MEDIUM] AI selecting card (currently using random selection)`);
-    
-    // For now, use base class random selection
-    // TODO: Add strategic selection logic
-    return super.selectCard(hand, gameState, playerId);
-  }
+  protected override chooseAction(actions: PlayerAction[], gameState: GameState, playerId: string): PlayerAction {
+    const engine = this.simulationEngine;
+    const pass = actions.find(action => action.type === GameActionType.PASS_TURN);
+    const others = actions.filter(action => action.type !== GameActionType.PASS_TURN);
 
-  /**
-   * Medium AI: For now, uses random position like Easy AI
-   * TODO: Implement strategic position selection
-   */
-  override selectPosition(validPositions: Position[], gameState: GameState, cardId: string, playerId: string): Position {
-    console.log(`🤖 [MEDIUM] AI selecting position (currently using random selection)`);
-    
-    // For now, use base class random selection
-    // TODO: Add strategic position logic
-    return super.selectPosition(validPositions, gameState, cardId, playerId);
-  }
+    if (!engine || !pass || others.length === 0 || this.random() < this.getBasePassChance()) {
+      return super.chooseAction(actions, gameState, playerId);
+    }
 
-  /**
-   * Medium AI: Uses base class pass logic (15% chance)
-   * TODO: Add strategic passing logic
-   */
-  override shouldPassTurn(hand: string[], actionsRemaining: number, gameState: GameState, playerId: string): boolean {
-    console.log(`🤖 [MEDIUM] AI considering pass turn (currently using base logic)`);
-    
-    // Uses base class logic with 15% pass chance
-    // TODO: Add strategic passing considerations
-    return super.shouldPassTurn(hand, actionsRemaining, gameState, playerId);
+    const baseline = this.evaluateState(engine, gameState, playerId);
+    let best: { action: PlayerAction; score: number } | null = null;
+
+    for (const action of this.sample(others)) {
+      const state = this.simulateAction(engine, gameState, action);
+      if (!state) continue;
+
+      const score = this.evaluateState(engine, state, playerId);
+      if (!best || score > best.score) {
+        best = { action, score };
+      }
+    }
+
+    return best && best.score >= baseline ? best.action : pass;
   }
 
   /**
@@ -63,4 +57,13 @@ export class MediumAIStrategy extends BaseAIStrategy {
     console.log(`🤖 [MEDIUM] AI thinking for ${Math.round(delay)}ms`);
     return delay;
   }
+
+  private sample(actions: PlayerAction[]): PlayerAction[] {
+    const remaining = [...actions];
+    const picked: PlayerAction[] = [];
+    while (picked.length < MAX_CANDIDATES && remaining.length > 0) {
+      picked.push(...remaining.splice(Math.floor(this.random() * remaining.length), 1));
+    }
+    return picked;
+  }
 }
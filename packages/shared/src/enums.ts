@@ -991,7 +991,10 @@ export enum RedemptionType {
   // Special Events
   HOLIDAY_EVENT = 60,
   ANNIVERSARY_EVENT = 61,
-  COMMUNITY_EVENT = 62
+  COMMUNITY_EVENT = 62,
+
+  // Ranked play
+  SEASON_REWARD = 70
 }
 
 /**
@@ -1150,7 +1153,8 @@ export enum GameActionType {
   PLAYER_READY = 'PLAYER_READY',
   REMOVE_CARD = 'REMOVE_CARD',
   METAMORPHOSIS = 'METAMORPHOSIS',
-  FORFEIT = 'FORFEIT'
+  FORFEIT = 'FORFEIT',
+  RESOLVE_CHOICE = 'RESOLVE_CHOICE'
 }
 
 // ============================================================================
@@ -1406,6 +1410,47 @@ export enum DeckType {
   EDUCATIONAL_CONSERVATION = 8     // Conservation education deck
 }
 
+/**
+ * Which decks a private lobby allows
+ */
+export enum DeckFormat {
+  OPEN = 'open',                   // Any legal deck
+  PRECONSTRUCTED = 'preconstructed', // Starter and theme decks only
+  CUSTOM = 'custom'                // Player-built decks only
+}
+
+/**
+ * Ranked tiers, climbing from the harshest biome to the richest
+ */
+export enum SeasonTier {
+  UNRANKED = 'unranked',           // Placement matches still to play
+  TUNDRA = 'tundra',
+  DESERT = 'desert',
+  GRASSLAND = 'grassland',
+  TAIGA = 'taiga',
+  TEMPERATE_FOREST = 'temperate_forest',
+  CORAL_REEF = 'coral_reef',
+  RAINFOREST = 'rainforest'
+}
+
+/**
+ * Where two players stand with each other. Blocked rows belong to the player who blocked.
+ */
+export enum FriendshipStatus {
+  PENDING = 'pending',             // Request sent, not yet answered
+  ACCEPTED = 'accepted',
+  BLOCKED = 'blocked'
+}
+
+/**
+ * What friends see of a player's connection
+ */
+export enum PresenceStatus {
+  OFFLINE = 'offline',
+  ONLINE = 'online',
+  IN_GAME = 'in_game'
+}
+
 /**
  * Physical product categories for merchandise
  */
@@ -12,12 +12,16 @@ import {
   TurnPhase,
   KeywordId,
   GameActionType,
+  GameEndReason,
   TrophicLevel,
   TrophicCategoryId,
   Domain,
   DOMAIN_COMPATIBILITY,
   CardZone,
-  CardId
+  CardId,
+  TriggerId,
+  EffectId,
+  SelectorId
 } from '../enums';
 
 // Import localization types
@@ -29,12 +33,20 @@ import {
 } from '../text-ids';
 
 import { ILocalizationManager } from '../localization-manager';
+import { SeededRandom } from '../utils/SeededRandom';
+import { getActionId, getEffectId, getSelectorId, isRegisteredEffect, validateAbilityEffects } from './EffectRegistry';
 import {
   CardData as SharedCardData,
   AbilityData as SharedAbilityData,
   GameState,
   Player,
-  CardInstance
+  CardInstance,
+  TriggerEvent,
+  PendingChoice,
+  ChoiceKind,
+  ChallengeClaim,
+  ChallengeRecord,
+  TeamSettings
 } from '../types';
 
 // Runtime card data that extends shared CardData with game state
@@ -100,6 +112,7 @@ export interface GameSettings {
   maxHandSize: number;
   startingEnergy?: number;
   turnTimeLimit?: number;
+  teams?: TeamSettings[];
 }
 
 // Action interfaces
@@ -123,6 +136,25 @@ export interface ActivateAbilityPayload {
   additionalTargets?: string[];
 }
 
+export interface MoveCardPayload {
+  instanceId: string;
+  targetPosition: { x: number; y: number };
+}
+
+export interface ChallengePayload {
+  targetInstanceId: string;
+  claim: ChallengeClaim;
+}
+
+export interface ResolveChoicePayload {
+  choiceId: string;
+  selections: string[]; // Option values from the pending choice
+}
+
+export interface ForfeitPayload {
+  reason?: string; // Why the player forfeited, e.g. SessionEndReason.CONNECTION_TIMEOUT or GameEndReason.TIME_LIMIT; defaults to 'forfeit'
+}
+
 // Using CardData and AbilityData from GameDataManager (JSON-driven)
 
 export interface EffectContext {
@@ -131,8 +163,63 @@ export interface EffectContext {
   gameState: GameState;
   ability: AbilityData;
   additionalData?: Record<string, any>;
+  pendingChoice?: PendingChoice; // Set by an effect that needs a player decision before it can finish
+}
+
+type EffectResult = { isValid: boolean; errorMessage?: string };
+
+/**
+ * A trigger event after resolution, with the abilities it fired in order
+ */
+export interface ResolvedTrigger {
+  triggerId: TriggerId;
+  playerId: string;
+  sourceInstanceId?: string;
+  firedAbilities: Array<{ instanceId: string; abilityId: number }>;
 }
 
+/**
+ * Ability trigger IDs that answer each raised trigger.
+ * ON_PLAY is an alias of ON_ENTER_PLAY, and persistent abilities switch on when
+ * their card enters play (PERSISTENT) or is tucked under a host (PERSISTENT_ATTACHED).
+ * Activated abilities are never raised by the queue - they go through ACTIVATE_ABILITY.
+ */
+const TRIGGER_LISTENERS: Record<TriggerId, TriggerId[]> = {
+  [TriggerId.ON_ACTIVATE]: [],
+  [TriggerId.ACTION]: [],
+  [TriggerId.PERSISTENT_ATTACHED]: [],
+  [TriggerId.PERSISTENT]: [],
+  [TriggerId.ON_PLAY]: [],
+  [TriggerId.ON_ENTER_PLAY]: [TriggerId.ON_ENTER_PLAY, TriggerId.ON_PLAY, TriggerId.PERSISTENT],
+  [TriggerId.ON_ATTACH]: [TriggerId.ON_ATTACH, TriggerId.PERSISTENT_ATTACHED],
+  [TriggerId.ON_DETACH]: [TriggerId.ON_DETACH],
+  [TriggerId.ON_LEAVE_PLAY]: [TriggerId.ON_LEAVE_PLAY],
+  [TriggerId.ON_DEATH]: [TriggerId.ON_DEATH],
+  [TriggerId.ON_TURN_START]: [TriggerId.ON_TURN_START],
+  [TriggerId.ON_TURN_END]: [TriggerId.ON_TURN_END],
+  [TriggerId.ON_READY]: [TriggerId.ON_READY],
+  [TriggerId.ON_EXHAUST]: [TriggerId.ON_EXHAUST],
+  [TriggerId.ON_ATTACK]: [TriggerId.ON_ATTACK],
+  [TriggerId.ON_DEFEND]: [TriggerId.ON_DEFEND],
+  [TriggerId.ON_DAMAGE]: [TriggerId.ON_DAMAGE]
+};
+
+// Turn events are heard by every card the active player controls; all other events only by their source card
+const TURN_SCOPED_TRIGGERS: TriggerId[] = [TriggerId.ON_TURN_START, TriggerId.ON_TURN_END];
+
+// executeAction IDs that harm an opponent's card (exhaust, move to hand, move to detritus, prevent ready, discard)
+const DAMAGING_ACTION_IDS: number[] = [1, 3, 4, 5, 8];
+
+// Safety valve against abilities that keep re-triggering each other
+const MAX_TRIGGER_RESOLUTIONS = 200;
+
+// Grid spaces a migratory card moves per action, by its fastest movement speed in m/hr (checked in order)
+const MOVEMENT_SPEED_TIERS: Array<{ minSpeed: number; range: number }> = [
+  { minSpeed: 10000, range: 3 },
+  { minSpeed: 1000, range: 2 },
+  { minSpeed: 0, range: 1 }
+];
+
 /**
  * Main BioMasters Game Engine Class
  * Environment-agnostic game logic engine that accepts data via dependency injection
@@ -144,7 +231,29 @@ export class BioMastersEngine {
   public readonly keywordDatabase: Map<number, string>;
   public readonly localizationManager: ILocalizationManager;
 
-
+  // Ordered trigger queue - events raised while an action resolves, drained before the action returns
+  private triggerQueue: TriggerEvent[] = [];
+  private triggerLog: ResolvedTrigger[] = [];
+  private resolvingTriggers = false;
+
+  // Effect handlers keyed by EffectId - a full Record, so every effect in EFFECT_REGISTRY has one
+  private readonly effectHandlers: Record<EffectId, (effect: any, context: EffectContext) => EffectResult> = {
+    [EffectId.TARGET]: (effect, context) => this.executeTargetEffect(effect, context),
+    [EffectId.TAKE_CARD]: (effect, context) => this.executeTakeCardEffect(effect, context),
+    [EffectId.APPLY_STATUS]: (effect, context) => this.executeApplyStatusEffect(effect, context),
+    [EffectId.MOVE_CARD]: (effect, context) => this.executeMoveCardEffect(effect, context),
+    [EffectId.EXHAUST_TARGET]: (effect, context) => this.executeExhaustTargetEffect(effect, context),
+    [EffectId.READY_TARGET]: (effect, context) => this.executeReadyTargetEffect(effect, context),
+    [EffectId.DESTROY_TARGET]: (effect, context) => this.executeDestroyTargetEffect(effect, context),
+    [EffectId.GAIN_ENERGY]: (effect, context) => this.executeGainEnergyEffect(effect, context),
+    [EffectId.LOSE_ENERGY]: (effect, context) => this.executeLoseEnergyEffect(effect, context),
+    [EffectId.DRAW_CARD]: (effect, context) => this.executeDrawCardEffect(effect, context),
+    [EffectId.DISCARD_CARD]: (effect, context) => this.executeDiscardCardEffect(effect, context),
+    [EffectId.SEARCH_DECK]: (effect, context) => this.executeSearchDeckEffect(effect, context),
+    [EffectId.SHUFFLE_DECK]: (effect, context) => this.executeShuffleDeckEffect(effect, context),
+    [EffectId.GAIN_VP]: (effect, context) => this.executeGainVPEffect(effect, context),
+    [EffectId.LOSE_VP]: (effect, context) => this.executeLoseVPEffect(effect, context)
+  };
 
   /**
    * Environment-agnostic constructor
@@ -161,6 +270,9 @@ export class BioMastersEngine {
     this.keywordDatabase = keywordDatabase;
     this.localizationManager = localizationManager;
 
+    // Reject abilities the engine cannot run before any game starts
+    validateAbilityEffects(this.abilityDatabase.values());
+
     console.log(`🎮 Engine initialized with data: ${this.cardDatabase.size} cards, ${this.abilityDatabase.size} abilities, ${this.keywordDatabase.size} keywords`);
   }
 
@@ -203,15 +315,23 @@ export class BioMastersEngine {
 
   /**
    * Initialize a new game state
-   * This method creates a new game and sets it as the current game state
+   * This method creates a new game and sets it as the current game state.
+   * Every random decision in the game is drawn from the seed, so the seed and the
+   * action list are enough to reproduce a match.
    */
   public initializeNewGame(
     gameId: string,
     players: { id: string; name: string }[],
-    gameSettings: GameSettings
+    gameSettings: GameSettings,
+    seed: string = Math.random().toString(36).substring(2, 11)
   ): GameState {
     const grid = new Map<string, CardInstance>();
 
+    // Team games seat the teams alternately, so turn order alternates teams
+    if (gameSettings.teams) {
+      players = this.seatTeams(players, gameSettings.teams);
+    }
+
     // Initialize HOME cards for each player
     console.log('🏠 [ENGINE] Creating HOME cards for players:', players.map(p => ({ id: p.id, name: p.name })));
 
@@ -269,7 +389,8 @@ export class BioMastersEngine {
         isReady: false,
         actionsRemaining: 0,
         field: [],
-        playedSpecies: new Set<string>()
+        playedSpecies: new Set<string>(),
+        ...(gameSettings.teams ? { teamId: gameSettings.teams.find(team => team.playerIds.includes(p.id))!.id } : {})
       })),
       currentPlayerIndex: 0,
       gamePhase: GamePhase.SETUP,
@@ -283,7 +404,10 @@ export class BioMastersEngine {
         turnTimeLimit: gameSettings.turnTimeLimit || 300, // Default 5 minutes
         startingEnergy: gameSettings.startingEnergy || 3 // Default starting energy
       },
-      metadata: {}
+      metadata: {
+        rngSeed: seed,
+        rngState: new SeededRandom(seed).getState()
+      }
     };
 
     // Set as current game state
@@ -304,6 +428,26 @@ export class BioMastersEngine {
     }
   }
 
+  /**
+   * Order players for a team game: one seat from each team in turn (A1, B1, A2, B2)
+   */
+  private seatTeams(players: { id: string; name: string }[], teams: TeamSettings[]): { id: string; name: string }[] {
+    const unassigned = players.filter(player => !teams.some(team => team.playerIds.includes(player.id)));
+    if (unassigned.length > 0) {
+      throw new Error(`Players without a team: ${unassigned.map(player => player.id).join(', ')}`);
+    }
+
+    const seats: { id: string; name: string }[] = [];
+    const teamSize = Math.max(...teams.map(team => team.playerIds.length));
+    for (let seat = 0; seat < teamSize; seat++) {
+      teams.forEach(team => {
+        const player = players.find(p => p.id === team.playerIds[seat]);
+        if (player) seats.push(player);
+      });
+    }
+    return seats;
+  }
+
   /**
    * Get HOME card position based on player count and index
    * Centers HOME positions in the middle of the grid (9x10 or 10x10)
@@ -312,6 +456,15 @@ export class BioMastersEngine {
     const centerX = Math.floor(gameSettings.gridWidth / 2);
     const centerY = Math.floor(gameSettings.gridHeight / 2);
 
+    if (gameSettings.teams) {
+      // Teams: each team's HOMEs stack into one shared column, e.g. [A1][B1] over [A2][B2]
+      const teamCount = gameSettings.teams.length;
+      return {
+        x: centerX - Math.floor(teamCount / 2) + (playerIndex % teamCount),
+        y: centerY - 1 + Math.floor(playerIndex / teamCount)
+      };
+    }
+
     if (playerCount === 2) {
       // 2 players: [H1][H2] horizontally centered
       return {
@@ -377,7 +530,7 @@ export class BioMastersEngine {
       }
 
       // Validate card placement rules (domain and trophic compatibility)
-      const placementValidation = this.validateCardPlacement(cardData, position);
+      const placementValidation = this.validateCardPlacement(cardData, position, undefined, undefined, playerId);
       if (!placementValidation.isValid) {
         return placementValidation;
       }
@@ -396,17 +549,175 @@ export class BioMastersEngine {
     }
   }
 
+  /**
+   * Validate if a card on the grid can move to a position without actually moving it.
+   * Only ready MIGRATORY cards move: range comes from their speed fields, walkers and swimmers
+   * need a clear straight path, and the destination must satisfy the same domain and trophic
+   * connection rules as playing the card there.
+   */
+  public validateCardMove(instanceId: string, targetPosition: { x: number; y: number }, playerId: string): { isValid: boolean; errorMessage?: string } {
+    const gameState = this.ensureGameInitialized();
+
+    if (gameState.gamePhase !== GamePhase.PLAYING && gameState.gamePhase !== GamePhase.FINAL_TURN) {
+      return { isValid: false, errorMessage: 'Cannot move cards during setup phase' };
+    }
+
+    const card = this.findCardByInstanceId(instanceId);
+    if (!card || card.isHOME || card.isDetritus) {
+      return { isValid: false, errorMessage: 'Card not found on grid' };
+    }
+
+    if (card.ownerId !== playerId) {
+      return { isValid: false, errorMessage: 'You can only move your own cards' };
+    }
+
+    const cardData = this.cardDatabase.get(card.cardId);
+    if (!cardData || !cardData.keywords.includes(KeywordId.MIGRATORY)) {
+      return { isValid: false, errorMessage: 'Only migratory species can move' };
+    }
+
+    if (card.isExhausted) {
+      return { isValid: false, errorMessage: 'Card is exhausted' };
+    }
+
+    const { range, canFly } = this.getMovementProfile(cardData);
+    if (range === 0) {
+      return { isValid: false, errorMessage: 'Card has no movement speed' };
+    }
+
+    if (!this.isValidPosition(targetPosition)) {
+      return { isValid: false, errorMessage: 'Invalid position' };
+    }
+
+    if (gameState.grid.has(`${targetPosition.x},${targetPosition.y}`)) {
+      return { isValid: false, errorMessage: 'Position already occupied' };
+    }
+
+    // Flyers move diagonally; everything else moves orthogonally
+    const deltaX = Math.abs(targetPosition.x - card.position.x);
+    const deltaY = Math.abs(targetPosition.y - card.position.y);
+    const distance = canFly ? Math.max(deltaX, deltaY) : deltaX + deltaY;
+    if (distance > range) {
+      return { isValid: false, errorMessage: `Card can only move ${range} space${range === 1 ? '' : 's'}` };
+    }
+
+    if (!canFly && this.isMovePathBlocked(card.position, targetPosition)) {
+      return { isValid: false, errorMessage: 'Path is blocked' };
+    }
+
+    return this.validateCardPlacement(cardData, targetPosition, undefined, card.instanceId, playerId);
+  }
+
+  /**
+   * Get every position a card on the grid can currently move to
+   */
+  public getValidMovePositions(instanceId: string, playerId: string): Array<{ x: number; y: number }> {
+    const gameState = this.ensureGameInitialized();
+    const positions: Array<{ x: number; y: number }> = [];
+
+    for (let x = 0; x < gameState.gameSettings.gridWidth; x++) {
+      for (let y = 0; y < gameState.gameSettings.gridHeight; y++) {
+        if (this.validateCardMove(instanceId, { x, y }, playerId).isValid) {
+          positions.push({ x, y });
+        }
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Sandbox board setup: put any card on an empty square for any player.
+   * Ignores turn order, cost and placement rules; the card enters ready.
+   */
+  public placeSetupCard(cardId: number, position: { x: number; y: number }, ownerId: string): { isValid: boolean; newState?: GameState; errorMessage?: string } {
+    const gameState = this.ensureGameInitialized();
+
+    if (!this.getCardData(cardId)) {
+      return { isValid: false, errorMessage: 'Card not found' };
+    }
+    if (!gameState.players.some(p => p.id === ownerId)) {
+      return { isValid: false, errorMessage: 'Player not found' };
+    }
+    if (!this.isValidPosition(position)) {
+      return { isValid: false, errorMessage: 'Invalid position' };
+    }
+
+    const positionKey = `${position.x},${position.y}`;
+    if (gameState.grid.has(positionKey)) {
+      return { isValid: false, errorMessage: 'Position already occupied' };
+    }
+
+    const newState = this.cloneGameState();
+    const instanceId = this.generateInstanceId(newState);
+    newState.grid.set(positionKey, {
+      id: instanceId,
+      instanceId,
+      cardId,
+      ownerId,
+      position: { x: position.x, y: position.y },
+      isExhausted: false,
+      isReady: true,
+      attachedCards: [],
+      attachments: [],
+      modifiers: [],
+      statusEffects: [],
+      zone: CardZone.GRID,
+      isDetritus: false,
+      isHOME: false
+    });
+
+    this.gameState = newState;
+    return { isValid: true, newState };
+  }
+
+  /**
+   * Sandbox board setup: clear a square. HOME cards stay, since every game needs them.
+   */
+  public removeSetupCard(position: { x: number; y: number }): { isValid: boolean; newState?: GameState; errorMessage?: string } {
+    const gameState = this.ensureGameInitialized();
+    const positionKey = `${position.x},${position.y}`;
+    const card = gameState.grid.get(positionKey);
+
+    if (!card) {
+      return { isValid: false, errorMessage: 'No card at position' };
+    }
+    if (card.isHOME) {
+      return { isValid: false, errorMessage: 'HOME cards cannot be removed' };
+    }
+
+    const newState = this.cloneGameState();
+    newState.grid.delete(positionKey);
+
+    this.gameState = newState;
+    return { isValid: true, newState };
+  }
+
   /**
    * Core action processor - single entry point for all player actions
    */
   public processAction(action: PlayerAction): { isValid: boolean; newState?: GameState; errorMessage?: string } {
     console.log(`🎯 Processing action: ${action.type}`, action);
 
+    // Every action starts with an empty trigger queue and log
+    this.triggerQueue = [];
+    this.triggerLog = [];
+
     try {
       const gameState = this.ensureGameInitialized();
 
-      // Check if it's the correct player's turn (except for setup actions)
-      if (action.type !== GameActionType.PLAYER_READY && (gameState.gamePhase === GamePhase.PLAYING || gameState.gamePhase === GamePhase.FINAL_TURN)) {
+      // A forfeit ends the game whoever's turn it is
+      if (action.type === GameActionType.FORFEIT) {
+        return this.handleForfeit(action.playerId, action.payload as ForfeitPayload);
+      }
+
+      // While an ability waits on a player decision, that decision is the only legal action
+      if (gameState.pendingChoice && action.type !== GameActionType.RESOLVE_CHOICE) {
+        return { isValid: false, errorMessage: `Waiting for ${gameState.pendingChoice.playerId} to make a choice` };
+      }
+
+      // Check if it's the correct player's turn (except for setup actions and choices, which belong to the choosing player)
+      if (action.type !== GameActionType.PLAYER_READY && action.type !== GameActionType.RESOLVE_CHOICE && (gameState.gamePhase === GamePhase.PLAYING || gameState.gamePhase === GamePhase.FINAL_TURN)) {
         if (this.getCurrentPlayer().id !== action.playerId) {
           console.log(`🚨 Not player's turn: current=${this.getCurrentPlayer().id}, action=${action.playerId}`);
           return { isValid: false, errorMessage: 'Not your turn' };
@@ -440,7 +751,7 @@ export class BioMastersEngine {
         case GameActionType.PASS_TURN:
           return this.handlePassTurn(action.playerId);
         case GameActionType.MOVE_CARD:
-          result = this.handleMoveCard(action.payload);
+          result = this.handleMoveCard(action.payload as MoveCardPayload);
           break;
         case GameActionType.CHALLENGE:
           result = this.handleChallenge(action.payload);
@@ -453,6 +764,9 @@ export class BioMastersEngine {
         case GameActionType.METAMORPHOSIS:
           result = this.handleMetamorphosis(action.payload);
           break;
+        case GameActionType.RESOLVE_CHOICE:
+          result = this.handleResolveChoice(action.playerId, action.payload as ResolveChoicePayload);
+          break;
         default:
           return {
             isValid: false,
@@ -460,6 +774,13 @@ export class BioMastersEngine {
           };
       }
 
+      // Resolve everything the action raised before it counts as complete; a rejected action raises nothing
+      if (result.isValid && result.newState) {
+        this.resolveTriggerQueue(result.newState);
+      } else {
+        this.triggerQueue = [];
+      }
+
       // Consume an action if it was successful and during action phase
       const actionConsumingTypes = ['PLAY_CARD', 'ACTIVATE_ABILITY', 'MOVE_CARD', 'CHALLENGE', 'REMOVE_CARD', 'METAMORPHOSIS'];
       const currentGameState = this.ensureGameInitialized();
@@ -469,14 +790,20 @@ export class BioMastersEngine {
           result.newState.actionsRemaining--;
           console.log(`🎯 Action consumed. ${result.newState.actionsRemaining} actions remaining.`);
 
-          // Auto-pass turn if no actions remaining
-          if (result.newState.actionsRemaining <= 0) {
+          // Auto-pass turn if no actions remaining - unless a choice still holds the turn open
+          if (result.newState.actionsRemaining <= 0 && !result.newState.pendingChoice) {
             console.log(`⏭️ No actions remaining, ending turn for ${this.getCurrentPlayer().name}`);
             return this.handlePassTurn(action.playerId);
           }
         }
       }
 
+      // Answering the choice that held the turn open after its last action ends the turn
+      if (result.isValid && result.newState && action.type === GameActionType.RESOLVE_CHOICE &&
+          !result.newState.pendingChoice && result.newState.turnPhase === 'action' && result.newState.actionsRemaining <= 0) {
+        return this.handlePassTurn(this.getCurrentPlayer().id);
+      }
+
       return result;
     } catch (error) {
       console.error('❌ Error processing action:', error);
@@ -605,7 +932,7 @@ export class BioMastersEngine {
 
     // Check placement rules FIRST (domain and trophic compatibility) - per official rules
     console.log(`🔍 Validating card placement for card ${actualCardId} at position (${position.x}, ${position.y})`);
-    const validationResult = this.validateCardPlacement(cardData, position, connectionTargetId);
+    const validationResult = this.validateCardPlacement(cardData, position, connectionTargetId, undefined, this.getCurrentPlayer().id);
     console.log(`🔍 Placement validation result:`, validationResult);
     if (!validationResult.isValid) {
       console.log(`🚨 Placement validation failed: ${validationResult.errorMessage}`);
@@ -628,7 +955,7 @@ export class BioMastersEngine {
     }
 
     // Create card instance
-    const instanceId = this.generateInstanceId();
+    const instanceId = this.generateInstanceId(newState);
 
     // Check for preferred diet bonus (cards enter ready)
     const adjacentCards = this.getAdjacentCards(position);
@@ -652,6 +979,7 @@ export class BioMastersEngine {
     };
 
     // Handle attachment BEFORE placing card on grid for Parasites and Mutualists
+    let attachedToHost = false;
     if (this.isParasite(cardData) || this.isMutualist(cardData)) {
       const hostAtPosition = newState.grid.get(positionKey);
 
@@ -659,11 +987,12 @@ export class BioMastersEngine {
         // Attaching to host at same position - don't place the attachment on grid
         hostAtPosition.attachments.push(gridCard);
 
-        this.applyAttachmentEffects(gridCard, hostAtPosition, cardData);
+        this.applyAttachmentEffects(newState, gridCard, hostAtPosition, cardData);
+        attachedToHost = true;
       } else {
         // Look for adjacent hosts
         const adjacentCards = this.getAdjacentCards(position);
-        this.processAttachment(gridCard, cardData, adjacentCards);
+        attachedToHost = this.processAttachment(newState, gridCard, cardData, adjacentCards) !== null;
       }
     } else {
       // Process detritus conversion BEFORE placing the Saprotroph
@@ -717,8 +1046,11 @@ export class BioMastersEngine {
     // Check for synergy bonuses (Preferred Diet)
     this.checkSynergyBonuses(newState, gridCard);
 
-    // Process ON_PLAY abilities
-    this.processOnPlayAbilities(newState, gridCard, cardData);
+    // Raise enter-play (and attach) triggers - resolved by processAction once the play completes
+    this.raiseTrigger(TriggerId.ON_ENTER_PLAY, gridCard.ownerId, gridCard);
+    if (attachedToHost) {
+      this.raiseTrigger(TriggerId.ON_ATTACH, gridCard.ownerId, gridCard);
+    }
 
     this.gameState = newState;
     return { isValid: true, newState };
@@ -822,7 +1154,7 @@ export class BioMastersEngine {
     }
 
     // Check if ability is activated type
-    if (ability.triggerId !== 2) { // 2 = ACTIVATED
+    if (ability.triggerId !== TriggerId.ON_ACTIVATE && ability.triggerId !== TriggerId.ACTION) {
       return { isValid: false, errorMessage: 'This ability cannot be manually activated' };
     }
 
@@ -867,7 +1199,7 @@ export class BioMastersEngine {
     // Exhaust the acting card
     const gridCard = this.findCardInState(newState, instanceId);
     if (gridCard) {
-      gridCard.isExhausted = true;
+      this.exhaustCard(gridCard);
     }
 
     console.log(`✅ Ability ${ability.id} activated successfully`);
@@ -875,6 +1207,86 @@ export class BioMastersEngine {
     return { isValid: true, newState };
   }
 
+  /**
+   * Handle a player's answer to the pending choice, then finish the resolution it paused:
+   * the rest of the waiting ability, the remaining listeners of its trigger event, then the queued triggers.
+   */
+  private handleResolveChoice(playerId: string, payload: ResolveChoicePayload): { isValid: boolean; newState?: GameState; errorMessage?: string } {
+    const gameState = this.ensureGameInitialized();
+    const choice = gameState.pendingChoice;
+
+    if (!choice) {
+      return { isValid: false, errorMessage: 'No choice is pending' };
+    }
+    if (choice.playerId !== playerId) {
+      return { isValid: false, errorMessage: 'This choice belongs to another player' };
+    }
+    if (!payload || payload.choiceId !== choice.choiceId) {
+      return { isValid: false, errorMessage: 'Choice not found' };
+    }
+
+    const selections = payload.selections;
+    if (!Array.isArray(selections) || selections.length < choice.minSelections || selections.length > choice.maxSelections) {
+      return { isValid: false, errorMessage: `Choose between ${choice.minSelections} and ${choice.maxSelections} options` };
+    }
+
+    // Each selection must be offered, and an option can only be picked as many times as it is offered
+    const unpicked = [...choice.options];
+    for (const selection of selections) {
+      const optionIndex = unpicked.indexOf(selection);
+      if (optionIndex === -1) {
+        return { isValid: false, errorMessage: `Invalid selection: ${selection}` };
+      }
+      unpicked.splice(optionIndex, 1);
+    }
+
+    const newState = this.cloneGameState();
+    delete newState.pendingChoice;
+    this.gameState = newState; // Selectors read the state being resolved
+
+    // Finish the ability from the effect that asked
+    const ability = this.abilityDatabase.get(choice.abilityId);
+    if (ability) {
+      const context: EffectContext = {
+        actingCard: this.findCardInState(newState, choice.sourceCard.instanceId) || choice.sourceCard,
+        targetCard: choice.targetInstanceId ? this.findCardInState(newState, choice.targetInstanceId) || undefined : undefined,
+        gameState: newState,
+        ability,
+        additionalData: { choice: selections }
+      };
+
+      const effectResult = this.executeEffects(ability.effects, context, choice.effectIndex);
+      if (!effectResult.isValid) {
+        console.log(`⚠️ Ability ${ability.id} failed after choice: ${effectResult.errorMessage}`);
+      }
+    }
+
+    // Then the listeners that were still waiting on the paused trigger event
+    if (!newState.pendingChoice && choice.pausedTrigger && choice.pausedTrigger.remainingListeners.length > 0) {
+      const { event, remainingListeners } = choice.pausedTrigger;
+      const listeners = remainingListeners.flatMap(({ instanceId, abilityId }) => {
+        const card = this.getCardsInResolutionOrder(newState).find(c => c.instanceId === instanceId) ||
+          (event.sourceCard?.instanceId === instanceId ? event.sourceCard : undefined);
+        const listenerAbility = this.abilityDatabase.get(abilityId);
+        return card && listenerAbility ? [{ card, ability: listenerAbility }] : [];
+      });
+      this.fireTriggerListeners(newState, event, listeners);
+    }
+
+    // Resolution above may have raised a new choice on the state
+    const nextChoice = newState.pendingChoice as PendingChoice | undefined;
+    if (nextChoice) {
+      // Another decision is needed first - everything suspended behind the old choice waits behind the new one
+      nextChoice.pausedTrigger = nextChoice.pausedTrigger || choice.pausedTrigger;
+      nextChoice.queuedTriggers = [...choice.queuedTriggers];
+    } else {
+      this.triggerQueue.unshift(...choice.queuedTriggers);
+    }
+
+    console.log(`✅ ${playerId} resolved choice ${choice.choiceId}: [${selections.join(', ')}]`);
+    return { isValid: true, newState };
+  }
+
   /**
    * Validate ability targeting requirements
    */
@@ -917,7 +1329,8 @@ export class BioMastersEngine {
 
     // Check if any effect has a selector that requires targeting
     for (const effect of ability.effects) {
-      if (effect.selector && this.selectorRequiresTarget(Number(effect.selector))) {
+      const selectorId = getSelectorId(effect);
+      if (selectorId !== undefined && this.selectorRequiresTarget(selectorId)) {
         return true;
       }
     }
@@ -926,11 +1339,12 @@ export class BioMastersEngine {
   }
 
   /**
-   * Check if selector requires manual targeting
+   * Check if selector requires a target named when the ability is activated.
+   * CHOOSE selectors ask during resolution through a pending choice instead.
    */
   private selectorRequiresTarget(selectorId: number): boolean {
     switch (selectorId) {
-      case 7: // MANUAL_TARGET (hypothetical - would need to be added to database)
+      case SelectorId.TARGET_CREATURE:
         return true;
       default:
         return false; // Most selectors are automatic
@@ -950,9 +1364,9 @@ export class BioMastersEngine {
       ability
     };
 
-    // For each effect that has targeting, validate the target
+    // Every effect aimed at the activation target must accept it
     for (const effect of ability.effects) {
-      if (effect.selector) {
+      if (getSelectorId(effect) === SelectorId.TARGET_CREATURE) {
         const validTargets = this.selectTargets(effect, tempContext);
         if (!validTargets.some(t => t.instanceId === targetCard.instanceId)) {
           return { isValid: false, errorMessage: 'Invalid target for this ability' };
@@ -1115,7 +1529,7 @@ export class BioMastersEngine {
   /**
    * Process attachment when a parasite or mutualist is played
    */
-  private processAttachment(attachmentCard: CardInstance, cardData: CardData, adjacentCards: CardInstance[]): void {
+  private processAttachment(state: GameState, attachmentCard: CardInstance, cardData: CardData, adjacentCards: CardInstance[]): CardInstance | null {
     const host = this.findValidHost(cardData, adjacentCards);
     if (host) {
       // Attach the card to the host
@@ -1128,18 +1542,19 @@ export class BioMastersEngine {
       console.log(`🔗 ${attachmentType} ${attachmentName} attached to host ${hostName}`);
 
       // Apply attachment effects
-      this.applyAttachmentEffects(attachmentCard, host, cardData);
+      this.applyAttachmentEffects(state, attachmentCard, host, cardData);
     }
+    return host;
   }
 
   /**
    * Apply effects when a card attaches to a host
    */
-  private applyAttachmentEffects(attachment: CardInstance, host: CardInstance, attachmentData: CardData): void {
+  private applyAttachmentEffects(state: GameState, attachment: CardInstance, host: CardInstance, attachmentData: CardData): void {
     if (this.isParasite(attachmentData)) {
       // Parasites typically harm the host
       host.statusEffects.push({
-        effectId: this.generateInstanceId(),
+        effectId: this.generateInstanceId(state),
         type: 'parasitized',
         duration: -1, // Permanent while attached
         source: attachment.instanceId,
@@ -1151,7 +1566,7 @@ export class BioMastersEngine {
     if (this.isMutualist(attachmentData)) {
       // Mutualists typically benefit both cards
       host.statusEffects.push({
-        effectId: this.generateInstanceId(),
+        effectId: this.generateInstanceId(state),
         type: 'mutualistic_benefit',
         duration: -1, // Permanent while attached
         source: attachment.instanceId,
@@ -1159,7 +1574,7 @@ export class BioMastersEngine {
       });
 
       attachment.statusEffects.push({
-        effectId: this.generateInstanceId(),
+        effectId: this.generateInstanceId(state),
         type: 'mutualistic_benefit',
         duration: -1,
         source: host.instanceId,
@@ -1200,8 +1615,30 @@ export class BioMastersEngine {
     return cloned;
   }
 
-  private generateInstanceId(): string {
-    return `instance_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  private generateInstanceId(state: GameState): string {
+    return `instance_${state.turnNumber}_${this.nextRandom(state).toString(36).substring(2, 11)}`;
+  }
+
+  /**
+   * Draw the next number from the game's random stream and save the stream's position in the state
+   */
+  private nextRandom(state: GameState): number {
+    const rng = state.metadata.rngState !== undefined
+      ? SeededRandom.fromState(state.metadata.rngState)
+      : new SeededRandom(state.metadata.rngSeed ?? state.gameId);
+    const value = rng.next();
+    state.metadata.rngState = rng.getState();
+    return value;
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates) using the game's random stream
+   */
+  private shuffleInPlace<T>(state: GameState, items: T[]): void {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.nextRandom(state) * (i + 1));
+      [items[i], items[j]] = [items[j]!, items[i]!];
+    }
   }
 
   private findCardByInstanceId(instanceId: string): CardInstance | null {
@@ -1224,14 +1661,22 @@ export class BioMastersEngine {
   }
 
   /**
-   * Validate card placement according to domain and trophic rules
+   * Validate card placement according to domain and trophic rules.
+   * In team games the card can only connect to its own team's cards and HOMEs.
    */
-  private validateCardPlacement(cardData: CardData, position: { x: number; y: number }, _connectionTargetId?: string): { isValid: boolean; errorMessage?: string } {
-    // Check if there are adjacent cards for connection validation
-    const adjacentCards = this.getAdjacentCards(position);
+  private validateCardPlacement(cardData: CardData, position: { x: number; y: number }, _connectionTargetId?: string, movingInstanceId?: string, playerId?: string): { isValid: boolean; errorMessage?: string } {
+    // Check if there are adjacent cards for connection validation - a moving card cannot connect to itself
+    const adjacentCards = this.getAdjacentCards(position).filter(card =>
+      card.instanceId !== movingInstanceId && (!playerId || !this.isTeamGame() || this.areAllies(card.ownerId, playerId))
+    );
 
     if (adjacentCards.length === 0 && !this.isHomePosition(position)) {
-      return { isValid: false, errorMessage: 'Cards must be placed adjacent to existing cards or HOME' };
+      return {
+        isValid: false,
+        errorMessage: this.isTeamGame()
+          ? 'Cards must be placed adjacent to your team\'s cards or HOME'
+          : 'Cards must be placed adjacent to existing cards or HOME'
+      };
     }
 
     // For producers (trophic level 1), check HOME connection or decomposer connection
@@ -1597,8 +2042,8 @@ export class BioMastersEngine {
 
 
 
-    // Get player's cards on grid
-    const playerCards = Array.from(gameState.grid.values()).filter(card => card.ownerId === playerId);
+    // Get player's cards on grid; allies' cards can pay too
+    const playerCards = Array.from(gameState.grid.values()).filter(card => this.areAllies(card.ownerId, playerId));
 
     // Check cost requirements
     if (cost.Requires) {
@@ -1659,7 +2104,7 @@ export class BioMastersEngine {
     if (!cardData.cost) return { isValid: true };
 
     const cost = typeof cardData.cost === 'string' ? JSON.parse(cardData.cost) : cardData.cost;
-    const playerCards = Array.from(state.grid.values()).filter(card => card.ownerId === playerId);
+    const playerCards = Array.from(state.grid.values()).filter(card => this.areAllies(card.ownerId, playerId));
 
     const cardName = this.getCardName(cardData);
     console.log(`💰 Paying cost for ${cardName}: ${JSON.stringify(cost)}`);
@@ -1976,63 +2421,39 @@ export class BioMastersEngine {
   /**
    * Execute ability effects
    */
-  private executeEffects(effects: any[], context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    for (const effect of effects) {
-      const result = this.executeEffect(effect, context);
+  private executeEffects(effects: any[], context: EffectContext, startIndex: number = 0): { isValid: boolean; errorMessage?: string } {
+    for (let i = startIndex; i < effects.length; i++) {
+      const result = this.executeEffect(effects[i], context);
       if (!result.isValid) {
         return result;
       }
+
+      // An effect asked for a player decision - pause here and resume from this effect once it is answered
+      if (context.pendingChoice) {
+        context.pendingChoice.effectIndex = i;
+        context.gameState.pendingChoice = context.pendingChoice;
+        return { isValid: true };
+      }
     }
     return { isValid: true };
   }
 
   /**
-   * Execute a single effect
+   * Execute a single effect through the effect handler registry
    */
-  private executeEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    // Debug logging to identify the issue
-    console.log(`🎯 Executing effect ${effect.EffectID} for ability ${context.ability.id}`);
+  private executeEffect(effect: any, context: EffectContext): EffectResult {
+    const effectId = getEffectId(effect);
+    console.log(`🎯 Executing effect ${effectId} for ability ${context.ability.id}`);
 
-    // Ensure EffectID exists and is a number
-    const effectId = effect.EffectID || effect.effectId || effect.id;
-    if (!effectId) {
+    if (effectId === undefined) {
       console.error(`❌ No EffectID found in effect:`, effect);
       return { isValid: false, errorMessage: 'Effect missing EffectID' };
     }
-
-    switch (effectId) {
-      case 1: // TARGET
-        return this.executeTargetEffect(effect, context);
-      case 2: // TAKE_CARD
-        return this.executeTakeCardEffect(effect, context);
-      case 3: // APPLY_STATUS
-        return this.executeApplyStatusEffect(effect, context);
-      case 4: // MOVE_CARD
-        return this.executeMoveCardEffect(effect, context);
-      case 5: // EXHAUST_TARGET
-        return this.executeExhaustTargetEffect(effect, context);
-      case 6: // READY_TARGET
-        return this.executeReadyTargetEffect(effect, context);
-      case 7: // DESTROY_TARGET
-        return this.executeDestroyTargetEffect(effect, context);
-      case 8: // GAIN_ENERGY
-        return this.executeGainEnergyEffect(effect, context);
-      case 9: // LOSE_ENERGY
-        return this.executeLoseEnergyEffect(effect, context);
-      case 10: // DRAW_CARD
-        return this.executeDrawCardEffect(effect, context);
-      case 11: // MOVE_TO_HAND
-        return this.executeMoveToHandEffect(effect, context);
-      case 12: // PREVENT_READY
-        return this.executePreventReadyEffect(effect, context);
-      case 13: // GAIN_VP
-        return this.executeGainVPEffect(effect, context);
-      case 14: // DISCARD_CARD
-        return this.executeDiscardCardEffect(effect, context);
-      default:
-        console.warn(`⚠️ Unknown effect ID: ${effectId}`);
-        return { isValid: true }; // Continue execution for unknown effects
+    if (!isRegisteredEffect(effectId)) {
+      return { isValid: false, errorMessage: `Unknown effect ID: ${effectId}` };
     }
+
+    return this.effectHandlers[effectId](effect, context);
   }
 
   /**
@@ -2040,13 +2461,30 @@ export class BioMastersEngine {
    */
   private executeTargetEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
     const targets = this.selectTargets(effect, context);
+    if (context.pendingChoice) {
+      return { isValid: true };
+    }
     if (targets.length === 0) {
       return { isValid: false, errorMessage: 'No valid targets found' };
     }
 
+    // Targeting an opponent's card is an attack: the attacker hears ON_ATTACK, each target ON_DEFEND
+    const isHostile = (target: CardInstance) => !target.isHOME && target.ownerId !== context.actingCard.ownerId;
+    if (targets.some(isHostile)) {
+      this.raiseTrigger(TriggerId.ON_ATTACK, context.actingCard.ownerId, context.actingCard);
+    }
+
     // Execute action on targets
+    const actionId = getActionId(effect);
     for (const target of targets) {
-      const actionResult = this.executeAction(effect.ActionID, target, context);
+      if (isHostile(target)) {
+        this.raiseTrigger(TriggerId.ON_DEFEND, target.ownerId, target);
+        if (actionId !== undefined && DAMAGING_ACTION_IDS.includes(actionId)) {
+          this.raiseTrigger(TriggerId.ON_DAMAGE, target.ownerId, target);
+        }
+      }
+
+      const actionResult = this.executeAction(actionId, target, context);
       if (!actionResult.isValid) {
         return actionResult;
       }
@@ -2059,7 +2497,7 @@ export class BioMastersEngine {
    * Execute TAKE_CARD effect - take cards from zones
    */
   private executeTakeCardEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    if (effect.SelectorID === 3) { // CARD_IN_DETRITUS_ZONE
+    if (getSelectorId(effect) === SelectorId.DETRITUS) {
       const player = context.gameState.players.find(p => p.id === context.actingCard.ownerId);
       if (!player) return { isValid: false, errorMessage: 'Player not found' };
 
@@ -2095,7 +2533,7 @@ export class BioMastersEngine {
     }
 
     const statusEffect: StatusEffect = {
-      effectId: this.generateInstanceId(),
+      effectId: this.generateInstanceId(context.gameState),
       type: effect.StatusType || 'generic',
       duration: effect.Duration || 1,
       source: context.actingCard.instanceId,
@@ -2116,7 +2554,7 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'No target specified for move effect' };
     }
 
-    const actionResult = this.executeAction(effect.ActionID, context.targetCard, context);
+    const actionResult = this.executeAction(getActionId(effect), context.targetCard, context);
     return actionResult;
   }
 
@@ -2128,7 +2566,7 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'No target specified for exhaust effect' };
     }
 
-    context.targetCard.isExhausted = true;
+    this.exhaustCard(this.findCardInState(context.gameState, context.targetCard.instanceId) || context.targetCard);
     console.log(`😴 Exhausted ${context.targetCard.instanceId}`);
 
     return { isValid: true };
@@ -2142,7 +2580,7 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'No target specified for ready effect' };
     }
 
-    context.targetCard.isExhausted = false;
+    this.readyCard(this.findCardInState(context.gameState, context.targetCard.instanceId) || context.targetCard);
     console.log(`⚡ Readied ${context.targetCard.instanceId}`);
 
     return { isValid: true };
@@ -2156,17 +2594,8 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'No target specified for destroy effect' };
     }
 
-    // Move card to detritus zone
-    const positionKey = `${context.targetCard.position.x},${context.targetCard.position.y}`;
-
-    // Convert the card to detritus instead of removing it
-    const detritusCard: CardInstance = {
-      ...context.targetCard,
-      isDetritus: true,
-      isExhausted: true // Visual indicator that it's face-down
-    };
-
-    context.gameState.grid.set(positionKey, detritusCard);
+    // The card dies and flips face-down into a detritus tile
+    this.destroyCard(context.gameState, context.targetCard.instanceId);
 
     console.log(`💀 Destroyed ${context.targetCard.instanceId}`);
 
@@ -2228,57 +2657,83 @@ export class BioMastersEngine {
   }
 
   /**
-   * Execute MOVE_TO_HAND effect
+   * Execute DISCARD_CARD effect - the acting player discards from the end of their hand,
+   * or picks the cards to discard with a CHOOSE selector
    */
-  private executeMoveToHandEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    const targets = this.selectTargets(effect, context);
+  private executeDiscardCardEffect(effect: any, context: EffectContext): EffectResult {
+    const player = context.gameState.players.find(p => p.id === context.actingCard.ownerId);
+    if (!player) return { isValid: false, errorMessage: 'Player not found' };
 
-    for (const target of targets) {
-      const player = context.gameState.players.find(p => p.id === target.ownerId);
-      if (player) {
-        const positionKey = `${target.position.x},${target.position.y}`;
-        context.gameState.grid.delete(positionKey);
-        player.hand.push(target.instanceId);
-        console.log(`🏠 ${target.cardId} moved to ${player.name}'s hand`);
+    if (getSelectorId(effect) === SelectorId.CHOOSE) {
+      const chosen = this.chooseFromOptions(effect, context, 'hand_card', [...player.hand]);
+      for (const cardId of chosen || []) {
+        const handIndex = player.hand.indexOf(cardId);
+        if (handIndex !== -1) {
+          player.discardPile.push(...player.hand.splice(handIndex, 1));
+          console.log(`🗑️ ${cardId} discarded from ${player.name}'s hand`);
+        }
       }
+      return { isValid: true };
+    }
+
+    const amount = effect.value || effect.Amount || 1;
+    for (let i = 0; i < amount && player.hand.length > 0; i++) {
+      const discardedCard = player.hand.pop()!;
+      player.discardPile.push(discardedCard);
+      console.log(`🗑️ ${discardedCard} discarded from ${player.name}'s hand`);
     }
 
     return { isValid: true };
   }
 
   /**
-   * Execute PREVENT_READY effect
+   * Execute SEARCH_DECK effect - move matching cards from the deck to hand, then shuffle the deck
    */
-  private executePreventReadyEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    const targets = this.selectTargets(effect, context);
-    const duration = effect.Duration || 1;
+  private executeSearchDeckEffect(effect: any, context: EffectContext): EffectResult {
+    const player = context.gameState.players.find(p => p.id === context.actingCard.ownerId);
+    if (!player) return { isValid: false, errorMessage: 'Player not found' };
 
-    for (const target of targets) {
-      target.statusEffects.push({
-        effectId: this.generateInstanceId(),
-        type: 'prevent_ready',
-        duration: duration,
-        source: context.actingCard.instanceId,
-        metadata: {}
-      });
-      console.log(`🚫 ${target.cardId} cannot ready for ${duration} turn(s)`);
+    const amount = effect.value || effect.Amount || 1;
+    const found: string[] = [];
+
+    // Search from the top of the deck (the end of the array, where draws come from)
+    for (let i = player.deck.length - 1; i >= 0 && found.length < amount; i--) {
+      const cardData = this.cardDatabase.get(Number(player.deck[i]));
+      if (cardData && this.cardMatchesFilters(cardData, effect)) {
+        found.push(player.deck.splice(i, 1)[0]!);
+      }
     }
 
+    player.hand.push(...found);
+    console.log(`🔍 ${player.name} searched their deck and found ${found.length} card(s)`);
+
+    this.shuffleDeck(context.gameState, player);
+    return { isValid: true };
+  }
+
+  /**
+   * Execute SHUFFLE_DECK effect
+   */
+  private executeShuffleDeckEffect(_effect: any, context: EffectContext): EffectResult {
+    const player = context.gameState.players.find(p => p.id === context.actingCard.ownerId);
+    if (!player) return { isValid: false, errorMessage: 'Player not found' };
+
+    this.shuffleDeck(context.gameState, player);
     return { isValid: true };
   }
 
   /**
-   * Execute GAIN_VP effect
+   * Execute GAIN_VP effect - score the targets into the acting player's score pile
    */
-  private executeGainVPEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
+  private executeGainVPEffect(effect: any, context: EffectContext): EffectResult {
     const targets = this.selectTargets(effect, context);
     const player = context.gameState.players.find(p => p.id === context.actingCard.ownerId);
 
     if (!player) return { isValid: false, errorMessage: 'Player not found' };
+    if (context.pendingChoice) return { isValid: true };
 
     for (const target of targets) {
-      const positionKey = `${target.position.x},${target.position.y}`;
-      context.gameState.grid.delete(positionKey);
+      this.removeCardFromPlay(context.gameState, target.instanceId);
       player.scorePile.push(target.id);
       console.log(`🏆 ${player.name} gained VP from ${target.cardId}`);
     }
@@ -2287,140 +2742,164 @@ export class BioMastersEngine {
   }
 
   /**
-   * Execute DISCARD_CARD effect
+   * Execute LOSE_VP effect - the owners of the targets (or the acting player, without a selector)
+   * move their most recently scored cards to the discard pile
    */
-  private executeDiscardCardEffect(effect: any, context: EffectContext): { isValid: boolean; errorMessage?: string } {
-    const targets = this.selectTargets(effect, context);
+  private executeLoseVPEffect(effect: any, context: EffectContext): EffectResult {
+    const ownerIds = getSelectorId(effect) !== undefined
+      ? new Set(this.selectTargets(effect, context).map(target => target.ownerId))
+      : new Set([context.actingCard.ownerId]);
+    if (context.pendingChoice) {
+      return { isValid: true };
+    }
+    const amount = effect.value || effect.Amount || 1;
 
-    for (const target of targets) {
-      const player = context.gameState.players.find(p => p.id === target.ownerId);
-      if (player) {
-        const handIndex = player.hand.indexOf(target.instanceId);
-        if (handIndex !== -1) {
-          player.hand.splice(handIndex, 1);
-          console.log(`🗑️ ${target.cardId} discarded from ${player.name}'s hand`);
-        }
+    for (const player of context.gameState.players.filter(p => ownerIds.has(p.id))) {
+      for (let i = 0; i < amount && player.scorePile.length > 0; i++) {
+        player.discardPile.push(player.scorePile.pop()!);
       }
+      console.log(`📉 ${player.name} lost VP (${player.scorePile.length} cards left in score pile)`);
     }
 
     return { isValid: true };
   }
 
+  /**
+   * Shuffle a player's deck in place
+   */
+  private shuffleDeck(state: GameState, player: Player): void {
+    this.shuffleInPlace(state, player.deck);
+    console.log(`🔀 Shuffled ${player.name}'s deck (${player.deck.length} cards)`);
+  }
+
   /**
    * Select targets based on selector and filters
    */
   private selectTargets(effect: any, context: EffectContext): CardInstance[] {
-    const targets: CardInstance[] = [];
-
-    switch (effect.SelectorID) {
-      case 1: // ADJACENT
-        targets.push(...this.getAdjacentCards(context.actingCard.position));
-        break;
-      case 2: // ADJACENT_TO_SHARED_AMPHIBIOUS
-        targets.push(...this.getAdjacentsToSharedAmphibious(context.actingCard));
-        break;
-      case 3: // CARD_IN_DETRITUS_ZONE
-        // Note: Detritus cards are DetritusCard type, not GridCard
-        // This selector needs special handling for detritus zone
-        // For now, skip detritus targeting until we implement proper conversion
-        break;
-      case 4: // SELF_HOST
-        if (context.actingCard.attachments.length > 0) {
-          // Find the host this card is attached to
-          for (const card of context.gameState.grid.values()) {
-            if (card.attachments.some(att => att.instanceId === context.actingCard.instanceId)) {
-              targets.push(card);
-              break;
-            }
-          }
-        }
-        break;
-      case 5: // ALL_CARDS
-        targets.push(...Array.from(context.gameState.grid.values()));
-        break;
-      case 6: // RANDOM_CARD
-        const allCards = Array.from(context.gameState.grid.values());
-        if (allCards.length > 0) {
-          const randomIndex = Math.floor(Math.random() * allCards.length);
-          const randomCard = allCards[randomIndex];
-          if (randomCard) {
-            targets.push(randomCard);
-          }
-        }
-        break;
+    const gridCards = Array.from(context.gameState.grid.values());
+    const liveCards = gridCards.filter(card => !card.isHOME && !card.isDetritus);
+
+    switch (getSelectorId(effect)) {
+      case SelectorId.ADJACENT:
+        return this.applyFilters(this.getAdjacentCards(context.actingCard.position), effect, context);
+      case SelectorId.SELF:
+        return this.applyFilters([this.findCardInState(context.gameState, context.actingCard.instanceId) || context.actingCard], effect, context);
+      case SelectorId.ALL:
+        return this.applyFilters(gridCards, effect, context);
+      case SelectorId.RANDOM: {
+        const candidates = this.applyFilters(liveCards, effect, context);
+        const randomCard = candidates[Math.floor(this.nextRandom(context.gameState) * candidates.length)];
+        return randomCard ? [randomCard] : [];
+      }
+      case SelectorId.CHOOSE: {
+        const candidates = this.applyFilters(liveCards, effect, context);
+        const chosen = this.chooseFromOptions(effect, context, 'grid_card', candidates.map(card => card.instanceId));
+        return chosen ? candidates.filter(card => chosen.includes(card.instanceId)) : [];
+      }
+      case SelectorId.DETRITUS:
+        return this.applyFilters(gridCards.filter(card => card.isDetritus), effect, context);
+      case SelectorId.ADJACENT_TO_SHARED_AMPHIBIOUS:
+        return this.applyFilters(this.getAdjacentsToSharedAmphibious(context.actingCard), effect, context);
+      case SelectorId.ALL_OWNED_CARDS:
+        return this.applyFilters(liveCards.filter(card => card.ownerId === context.actingCard.ownerId), effect, context);
+      case SelectorId.TARGET_CREATURE:
+        return context.targetCard ? this.applyFilters([context.targetCard], effect, context) : [];
+      case SelectorId.HOST_CREATURE: {
+        const host = gridCards.find(card => card.attachments.some(att => att.instanceId === context.actingCard.instanceId));
+        return host ? this.applyFilters([host], effect, context) : [];
+      }
+      default:
+        return [];
     }
+  }
 
-    // Apply filters
-    return this.applyFilters(targets, effect, context);
+  /**
+   * Ask the acting player to pick from a set of options (SelectorId.CHOOSE).
+   * Returns the selections when they are already known, or null after recording a pending choice on the context.
+   * MaxTargets (default 1) caps the pick; MinTargets defaults to MaxTargets, so 0 means "choose up to N".
+   */
+  private chooseFromOptions(effect: any, context: EffectContext, kind: ChoiceKind, options: string[]): string[] | null {
+    // An answered choice is consumed by the first CHOOSE effect that resumes
+    const answer = context.additionalData?.['choice'] as string[] | undefined;
+    if (answer) {
+      delete context.additionalData!['choice'];
+      return answer;
+    }
+
+    const maxSelections = Math.min(effect.MaxTargets ?? 1, options.length);
+    const minSelections = Math.min(effect.MinTargets ?? maxSelections, maxSelections);
+
+    // Nothing to decide when every option must be taken
+    if (minSelections >= options.length) {
+      return options;
+    }
+
+    context.pendingChoice = {
+      choiceId: this.generateInstanceId(context.gameState),
+      playerId: context.actingCard.ownerId,
+      kind,
+      options,
+      minSelections,
+      maxSelections,
+      abilityId: context.ability.id,
+      sourceCard: { ...context.actingCard },
+      ...(context.targetCard ? { targetInstanceId: context.targetCard.instanceId } : {}),
+      effectIndex: 0, // Filled in by executeEffects
+      queuedTriggers: []
+    };
+    console.log(`🤔 Ability ${context.ability.id} waiting for ${context.actingCard.ownerId} to choose from ${options.length} options`);
+    return null;
   }
 
   /**
    * Apply filters to target selection
    */
   private applyFilters(targets: CardInstance[], effect: any, _context: EffectContext): CardInstance[] {
-    let filteredTargets = targets;
+    return targets.filter(card => this.cardMatchesFilters(this.cardDatabase.get(card.cardId), effect));
+  }
 
-    // Filter by keywords
-    if (effect.FilterKeywords) {
-      filteredTargets = filteredTargets.filter(card => {
-        const cardData = this.cardDatabase.get(card.cardId);
-        return cardData && effect.FilterKeywords.some((keyword: number) => cardData.keywords.includes(keyword));
-      });
+  /**
+   * Check a card against an effect's keyword, trophic category and trophic level filters.
+   * Cards without card data (HOME) only pass when the effect has no filters.
+   */
+  private cardMatchesFilters(cardData: CardData | undefined, effect: any): boolean {
+    if (effect.FilterKeywords && !(cardData && effect.FilterKeywords.some((keyword: number) => cardData.keywords.includes(keyword)))) {
+      return false;
     }
-
-    // Filter by trophic categories
-    if (effect.FilterTrophicCategories) {
-      filteredTargets = filteredTargets.filter(card => {
-        const cardData = this.cardDatabase.get(card.cardId);
-        return cardData && effect.FilterTrophicCategories.includes(cardData.trophicCategory);
-      });
+    if (effect.FilterTrophicCategories && !(cardData && effect.FilterTrophicCategories.includes(cardData.trophicCategory))) {
+      return false;
     }
-
-    // Filter by trophic levels
-    if (effect.FilterTrophicLevels) {
-      filteredTargets = filteredTargets.filter(card => {
-        const cardData = this.cardDatabase.get(card.cardId);
-        return cardData && effect.FilterTrophicLevels.includes(cardData.trophicLevel);
-      });
+    if (effect.FilterTrophicLevels && !(cardData && effect.FilterTrophicLevels.includes(cardData.trophicLevel))) {
+      return false;
     }
-
-    return filteredTargets;
+    return true;
   }
 
   /**
    * Execute an action on a target
    */
-  private executeAction(actionId: number, target: CardInstance, context: EffectContext): { isValid: boolean; errorMessage?: string } {
+  private executeAction(actionId: number | undefined, target: CardInstance, context: EffectContext): { isValid: boolean; errorMessage?: string } {
     switch (actionId) {
       case 1: // EXHAUST_TARGET
-        target.isExhausted = true;
+        this.exhaustCard(this.findCardInState(context.gameState, target.instanceId) || target);
         break;
       case 2: // READY_TARGET
-        target.isExhausted = false;
+        this.readyCard(this.findCardInState(context.gameState, target.instanceId) || target);
         break;
       case 3: // MOVE_TO_HAND
         const player = context.gameState.players.find(p => p.id === target.ownerId);
         if (player) {
-          const positionKey = `${target.position.x},${target.position.y}`;
-          context.gameState.grid.delete(positionKey);
+          this.removeCardFromPlay(context.gameState, target.instanceId);
           player.hand.push(target.instanceId);
         }
         break;
       case 4: // MOVE_TO_DETRITUS
-        const detritusKey = `${target.position.x},${target.position.y}`;
-
         // Convert the card to detritus instead of removing it
-        const detritusCard: CardInstance = {
-          ...target,
-          isDetritus: true,
-          isExhausted: true // Visual indicator that it's face-down
-        };
-
-        context.gameState.grid.set(detritusKey, detritusCard);
+        this.destroyCard(context.gameState, target.instanceId);
         break;
       case 5: // PREVENT_READY
         target.statusEffects.push({
-          effectId: this.generateInstanceId(),
+          effectId: this.generateInstanceId(context.gameState),
           type: 'prevent_ready',
           duration: 1,
           source: context.actingCard.instanceId,
@@ -2505,6 +2984,46 @@ export class BioMastersEngine {
   /**
    * Check if position is a HOME position
    */
+  /**
+   * Movement range and style from a card's speed fields: the fastest speed sets the range, and any flight speed makes it a flyer
+   */
+  private getMovementProfile(cardData: CardData): { range: number; canFly: boolean } {
+    const flySpeed = cardData.fly_speed_m_per_hr || 0;
+    const fastestSpeed = Math.max(
+      cardData.walk_speed_m_per_hr || 0,
+      cardData.run_speed_m_per_hr || 0,
+      cardData.swim_speed_m_per_hr || 0,
+      flySpeed
+    );
+
+    if (fastestSpeed <= 0) {
+      return { range: 0, canFly: false };
+    }
+
+    const tier = MOVEMENT_SPEED_TIERS.find(speedTier => fastestSpeed >= speedTier.minSpeed)!;
+    return { range: tier.range, canFly: flySpeed > 0 };
+  }
+
+  /**
+   * Check the straight line between two positions for cards in the way (the endpoints are not checked)
+   */
+  private isMovePathBlocked(from: { x: number; y: number }, to: { x: number; y: number }): boolean {
+    const gameState = this.ensureGameInitialized();
+    const deltaX = to.x - from.x;
+    const deltaY = to.y - from.y;
+    const steps = Math.max(Math.abs(deltaX), Math.abs(deltaY));
+
+    for (let step = 1; step < steps; step++) {
+      const x = from.x + Math.round((deltaX * step) / steps);
+      const y = from.y + Math.round((deltaY * step) / steps);
+      if (gameState.grid.has(`${x},${y}`)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   private isHomePosition(position: { x: number; y: number }): boolean {
     // Check if there's actually a HOME card at this position
     const gameState = this.ensureGameInitialized();
@@ -2513,6 +3032,29 @@ export class BioMastersEngine {
     return card?.isHOME === true;
   }
 
+  /**
+   * Whether the game is played in teams
+   */
+  public isTeamGame(): boolean {
+    return !!this.ensureGameInitialized().gameSettings.teams;
+  }
+
+  /**
+   * Get the team a player is on, or undefined outside team games
+   */
+  public getTeamId(playerId: string): string | undefined {
+    return this.ensureGameInitialized().gameSettings.teams?.find(team => team.playerIds.includes(playerId))?.id;
+  }
+
+  /**
+   * Whether two players are on the same side: the same player, or teammates in a team game
+   */
+  public areAllies(playerA: string, playerB: string): boolean {
+    if (playerA === playerB) return true;
+    const teamId = this.getTeamId(playerA);
+    return teamId !== undefined && teamId === this.getTeamId(playerB);
+  }
+
   /**
    * Handle pass turn action - now manages turn phases
    */
@@ -2523,9 +3065,9 @@ export class BioMastersEngine {
 
     const newState = this.cloneGameState();
 
-    // Process turn end abilities for the current player
-    this.processTriggerAbilities(newState, 'on_turn_end');
-    this.processPassiveAbilities(newState, 'turn_end');
+    // Process turn end abilities for the current player before the turn passes
+    this.raiseTrigger(TriggerId.ON_TURN_END, playerId);
+    this.resolveTriggerQueue(newState);
 
     // Update status effect durations
     this.updateStatusEffects(newState);
@@ -2609,20 +3151,20 @@ export class BioMastersEngine {
 
     console.log(`⚡ Ready Phase: Readying ${currentPlayer.name}'s cards`);
 
-    // Ready all cards owned by the current player
-    for (const card of state.grid.values()) {
+    // Ready all cards owned by the current player (in resolution order so ON_READY events queue predictably)
+    for (const card of this.getCardsInResolutionOrder(state)) {
       if (card.ownerId === currentPlayer.id) {
         // Check for prevent ready status effects
         const hasPreventReady = card.statusEffects.some(effect => effect.type === 'prevent_ready');
         if (!hasPreventReady) {
-          card.isExhausted = false;
+          this.readyCard(card);
         }
       }
     }
 
-    // Process turn start abilities
-    this.processTriggerAbilities(state, 'on_turn_start');
-    this.processPassiveAbilities(state, 'turn_start');
+    // Process ready and turn start abilities
+    this.raiseTrigger(TriggerId.ON_TURN_START, currentPlayer.id);
+    this.resolveTriggerQueue(state);
 
     // Process mixotroph abilities
     this.processMixotrophsOnTurnStart(state);
@@ -2704,19 +3246,133 @@ export class BioMastersEngine {
   /**
    * Handle move card action (for special abilities)
    */
-  private handleMoveCard(_payload: any): { isValid: boolean; newState?: GameState; errorMessage?: string } {
-    // TODO: Implement move card logic for migration abilities
-    const gameState = this.ensureGameInitialized();
-    return { isValid: true, newState: gameState };
+  private handleMoveCard(payload: MoveCardPayload): { isValid: boolean; newState?: GameState; errorMessage?: string } {
+    const { instanceId, targetPosition } = payload || ({} as MoveCardPayload);
+    if (!instanceId || !targetPosition) {
+      return { isValid: false, errorMessage: 'Move requires a card and a target position' };
+    }
+
+    const validation = this.validateCardMove(instanceId, targetPosition, this.getCurrentPlayer().id);
+    if (!validation.isValid) {
+      return validation;
+    }
+
+    const newState = this.cloneGameState();
+    const card = this.findCardInState(newState, instanceId)!;
+    const fromPosition = card.position;
+
+    // Attachments travel with their host
+    newState.grid.delete(`${fromPosition.x},${fromPosition.y}`);
+    card.position = { x: targetPosition.x, y: targetPosition.y };
+    newState.grid.set(`${targetPosition.x},${targetPosition.y}`, card);
+
+    // Migrating uses the card for the turn
+    this.exhaustCard(card);
+
+    console.log(`🦅 Moved ${instanceId} from (${fromPosition.x}, ${fromPosition.y}) to (${targetPosition.x}, ${targetPosition.y})`);
+    return { isValid: true, newState };
   }
 
   /**
-   * Handle challenge action (for competitive play)
+   * Handle challenge action (for competitive play).
+   * The current player disputes an opponent's card on scientific grounds. The claim is checked against
+   * the card data and the card's current neighbours: if it is upheld the card dies, otherwise the
+   * challenger loses their most recently scored card.
    */
-  private handleChallenge(_payload: any): { isValid: boolean; newState?: GameState; errorMessage?: string } {
-    // TODO: Implement challenge logic for rule disputes
+  private handleChallenge(payload: ChallengePayload): { isValid: boolean; newState?: GameState; errorMessage?: string } {
     const gameState = this.ensureGameInitialized();
-    return { isValid: true, newState: gameState };
+    const { targetInstanceId, claim } = payload || ({} as ChallengePayload);
+    if (!targetInstanceId || !claim) {
+      return { isValid: false, errorMessage: 'Challenge requires a target card and a claim' };
+    }
+
+    if (gameState.gamePhase !== GamePhase.PLAYING && gameState.gamePhase !== GamePhase.FINAL_TURN) {
+      return { isValid: false, errorMessage: 'Cards can only be challenged during the playing phase' };
+    }
+
+    const target = Array.from(gameState.grid.values()).find(card => card.instanceId === targetInstanceId);
+    if (!target || target.isHOME || target.isDetritus) {
+      return { isValid: false, errorMessage: 'Card not found on grid' };
+    }
+
+    const challengerId = this.getCurrentPlayer().id;
+    if (target.ownerId === challengerId) {
+      return { isValid: false, errorMessage: 'You can only challenge opponent cards' };
+    }
+
+    const cardData = this.cardDatabase.get(target.cardId);
+    if (!cardData) {
+      return { isValid: false, errorMessage: 'Card data not found' };
+    }
+
+    const adjacentCards = this.getAdjacentCards(target.position);
+    let verdict: { upheld: boolean; reason: string };
+    switch (claim) {
+      case 'diet':
+        verdict = this.checkDietClaim(cardData, adjacentCards);
+        break;
+      case 'domain': {
+        const domainValidation = this.validateDomainCompatibility(cardData, adjacentCards);
+        verdict = domainValidation.isValid
+          ? { upheld: false, reason: 'Card is compatible with every neighbouring domain' }
+          : { upheld: true, reason: domainValidation.errorMessage! };
+        break;
+      }
+      default:
+        return { isValid: false, errorMessage: `Invalid challenge claim: ${claim}` };
+    }
+
+    const newState = this.cloneGameState();
+    if (verdict.upheld) {
+      // The placement was wrong: the card dies
+      this.destroyCard(newState, targetInstanceId);
+    } else {
+      // The challenger was wrong: they lose their most recently scored card
+      const challenger = newState.players.find(p => p.id === challengerId)!;
+      if (challenger.scorePile.length > 0) {
+        challenger.discardPile.push(challenger.scorePile.pop()!);
+      }
+    }
+
+    const record: ChallengeRecord = {
+      challengerId,
+      targetPlayerId: target.ownerId,
+      targetInstanceId,
+      targetCardId: target.cardId,
+      claim,
+      outcome: verdict.upheld ? 'upheld' : 'overturned',
+      reason: verdict.reason,
+      turnNumber: newState.turnNumber
+    };
+    newState.challengeHistory = [...(newState.challengeHistory || []), record];
+
+    console.log(`🔬 ${challengerId} challenged ${targetInstanceId} (${claim}): ${record.outcome} - ${verdict.reason}`);
+    return { isValid: true, newState };
+  }
+
+  /**
+   * A consumer's diet holds if it touches a living card one trophic level down, or its preferred food.
+   * Producers, decomposers and attached cards (parasites, mutualists) feed without a grid link.
+   */
+  private checkDietClaim(cardData: CardData, adjacentCards: CardInstance[]): { upheld: boolean; reason: string } {
+    if (!cardData.trophicLevel || cardData.trophicLevel <= TrophicLevel.PRODUCER || this.isParasite(cardData) || this.isMutualist(cardData)) {
+      return { upheld: false, reason: 'Card does not need a food link' };
+    }
+
+    const hasPrey = adjacentCards.some(card => {
+      if (card.isHOME || card.isDetritus) return false;
+      const adjCardData = this.cardDatabase.get(card.cardId);
+      return adjCardData && adjCardData.trophicLevel === cardData.trophicLevel! - 1;
+    });
+    if (hasPrey) {
+      return { upheld: false, reason: `Card connects to a trophic level ${cardData.trophicLevel - 1} card` };
+    }
+
+    if (this.checkPreferredDiet(cardData, adjacentCards.filter(card => !card.isDetritus))) {
+      return { upheld: false, reason: 'Card connects to its preferred diet' };
+    }
+
+    return { upheld: true, reason: `Trophic level ${cardData.trophicLevel} card has no trophic level ${cardData.trophicLevel - 1} food source` };
   }
 
   /**
@@ -2765,7 +3421,8 @@ export class BioMastersEngine {
         if (availableCardIds.length > 0) {
           console.log(`✅ Found ${availableCardIds.length} cards, distributing to ${p.name}`);
           // Shuffle and distribute real cards
-          const shuffledCards = [...availableCardIds].sort(() => Math.random() - 0.5);
+          const shuffledCards = [...availableCardIds];
+          this.shuffleInPlace(newState, shuffledCards);
           p.hand = shuffledCards.slice(0, 5).map(String);
           p.deck = shuffledCards.slice(5, 15).map(String);
           console.log(`🎒 Player ${p.name} starting hand:`, p.hand);
@@ -2780,6 +3437,13 @@ export class BioMastersEngine {
 
       console.log(`🎮 Game started! Player ${newState.players[newState.currentPlayerIndex]?.name} begins with ${newState.actionsRemaining} actions`);
 
+      // The first turn skips ready and draw, but still starts
+      const firstPlayer = newState.players[newState.currentPlayerIndex];
+      if (firstPlayer) {
+        this.raiseTrigger(TriggerId.ON_TURN_START, firstPlayer.id);
+        this.resolveTriggerQueue(newState);
+      }
+
       // Log final hand state for debugging
       newState.players.forEach(p => {
         console.log(`🎒 Final hand for ${p.name}:`, p.hand);
@@ -2806,45 +3470,14 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'Card not found on grid' };
     }
 
-    const [position, card] = cardPosition;
+    const [, card] = cardPosition;
 
-    // Process death abilities before removing the card
     if (reason === 'death') {
-      const cardData = this.cardDatabase.get(card.cardId);
-      if (cardData && cardData.abilities) {
-        const deathAbilities = cardData.abilities
-          .map(abilityId => this.abilityDatabase.get(abilityId))
-          .filter(ability => ability && ability.triggerId === 4); // 4 = ON_DEATH trigger
-
-        for (const ability of deathAbilities) {
-          if (ability) {
-            console.log(`💀 Triggering death ability: ${ability.id}`);
-            this.processAbilityEffects(newState, card, ability);
-          }
-        }
-      }
-
-      // Trigger passive abilities that respond to death
-      this.processTriggerAbilities(newState, 'on_death', card);
-      this.processPassiveAbilities(newState, 'card_death');
-    }
-
-    // Remove the card from grid
-    newState.grid.delete(position);
-
-    // Create detritus tile if it's a creature death
-    if (reason === 'death') {
-      // Convert the card to detritus by setting the flag and keeping it on the grid
-      const detritusCard: CardInstance = {
-        ...card,
-        isDetritus: true,
-        isExhausted: true // Visual indicator that it's face-down
-      };
-
-      // Put the detritus card back on the grid
-      newState.grid.set(position, detritusCard);
-
+      // Creature death leaves a detritus tile behind
+      this.destroyCard(newState, instanceId);
       console.log(`🪦 ${card.cardId} died and became detritus at ${card.position.x},${card.position.y}`);
+    } else {
+      this.removeCardFromPlay(newState, instanceId);
     }
 
     this.gameState = newState;
@@ -2859,6 +3492,13 @@ export class BioMastersEngine {
     return this.gameState;
   }
 
+  /**
+   * Resume from a saved state, e.g. one stored by the server or a replay's starting point
+   */
+  public loadGameState(state: GameState): void {
+    this.gameState = state;
+  }
+
   public isGameInitialized(): boolean {
     return this.gameState !== null;
   }
@@ -2895,31 +3535,6 @@ export class BioMastersEngine {
     return this.abilityDatabase.get(abilityId);
   }
 
-  /**
-   * Process ON_PLAY abilities when a card is played
-   */
-  private processOnPlayAbilities(gameState: GameState, playedCard: CardInstance, cardData: CardData): void {
-    if (cardData.abilities.length === 0) {
-      return;
-    }
-
-    // Find all ON_PLAY abilities for this card
-    const onPlayAbilities = cardData.abilities
-      .map(abilityId => this.abilityDatabase.get(abilityId))
-      .filter(ability => ability && ability.triggerId === 1); // 1 = ON_PLAY trigger
-
-    // Process each ON_PLAY ability
-    for (const ability of onPlayAbilities) {
-      if (ability) {
-        this.processAbilityEffects(gameState, playedCard, ability);
-      }
-    }
-
-    // Also process any passive abilities that might be triggered by this card being played
-    this.processPassiveAbilities(gameState, 'card_played');
-    this.processTriggerAbilities(gameState, 'on_play', playedCard);
-  }
-
   /**
    * Process the effects of an ability
    */
@@ -2931,7 +3546,7 @@ export class BioMastersEngine {
     // Create effect context
     const context: EffectContext = {
       actingCard: sourceCard,
-      targetCard: undefined, // For ON_PLAY abilities, no specific target
+      targetCard: undefined, // Triggered abilities have no chosen target
       gameState: gameState,
       ability: ability
     };
@@ -2940,106 +3555,230 @@ export class BioMastersEngine {
     this.executeEffects(ability.effects, context);
   }
 
+  /**
+   * Queue a trigger event. It resolves when the queue is next drained, after everything raised before it.
+   */
+  private raiseTrigger(triggerId: TriggerId, playerId: string, sourceCard?: CardInstance): void {
+    const event: TriggerEvent = { triggerId, playerId };
+    if (sourceCard) {
+      // Snapshot the card so abilities still resolve after it leaves play
+      event.sourceCard = { ...sourceCard };
+    }
+    this.triggerQueue.push(event);
+  }
 
+  /**
+   * Drain the trigger queue against a state, first-in first-out.
+   * Events raised while an ability resolves join the back of the queue, so resolution is breadth-first:
+   * everything one action caused resolves before anything those abilities caused in turn.
+   */
+  private resolveTriggerQueue(state: GameState): void {
+    if (this.resolvingTriggers) {
+      return; // The outer drain picks up anything raised now
+    }
 
+    this.resolvingTriggers = true;
+    this.gameState = state; // Selectors and adjacency read the state being resolved
 
+    try {
+      let resolutions = 0;
+      while (this.triggerQueue.length > 0 && !state.pendingChoice) {
+        if (resolutions >= MAX_TRIGGER_RESOLUTIONS) {
+          console.warn(`⚠️ Trigger queue exceeded ${MAX_TRIGGER_RESOLUTIONS} resolutions - dropping ${this.triggerQueue.length} pending triggers`);
+          this.triggerQueue = [];
+          break;
+        }
+        resolutions++;
+
+        const event = this.triggerQueue.shift()!;
+        this.fireTriggerListeners(state, event, this.getTriggerListeners(state, event));
+      }
+
+      // A pending choice holds the rest of the queue until it is answered
+      if (state.pendingChoice) {
+        state.pendingChoice.queuedTriggers.push(...this.triggerQueue);
+        this.triggerQueue = [];
+      }
+    } finally {
+      this.resolvingTriggers = false;
+    }
+  }
 
   /**
-   * Process all passive abilities currently in play
+   * Fire an event's listeners in order and log them.
+   * If a listener pauses for a player choice, the listeners after it are saved on the pending choice.
    */
-  private processPassiveAbilities(gameState: GameState, triggerEvent?: string): void {
-    console.log(`🔄 Processing passive abilities for trigger: ${triggerEvent || 'general'}`);
+  private fireTriggerListeners(state: GameState, event: TriggerEvent, listeners: Array<{ card: CardInstance; ability: AbilityData }>): void {
+    const resolved: ResolvedTrigger = {
+      triggerId: event.triggerId,
+      playerId: event.playerId,
+      ...(event.sourceCard ? { sourceInstanceId: event.sourceCard.instanceId } : {}),
+      firedAbilities: []
+    };
+    this.triggerLog.push(resolved);
 
-    // Find all cards on the grid with passive abilities
-    for (const [_position, gridCard] of gameState.grid) {
-      const cardData = this.cardDatabase.get(gridCard.cardId);
-      if (!cardData || !cardData.abilities) {
+    const isTurnEvent = TURN_SCOPED_TRIGGERS.includes(event.triggerId);
+    for (let i = 0; i < listeners.length; i++) {
+      const { card, ability } = listeners[i]!;
+
+      // A card removed by an earlier listener of the same turn event no longer answers it
+      if (isTurnEvent && !this.getCardsInResolutionOrder(state).some(c => c.instanceId === card.instanceId)) {
         continue;
       }
 
-      // Find passive abilities (trigger_id 3)
-      const passiveAbilities = cardData.abilities
-        .map(abilityId => this.abilityDatabase.get(abilityId))
-        .filter(ability => ability && ability.triggerId === 3); // 3 = PASSIVE trigger
+      console.log(`⚡ Triggering ability ${ability.id} on ${card.instanceId} (trigger ${event.triggerId})`);
+      resolved.firedAbilities.push({ instanceId: card.instanceId, abilityId: ability.id });
+      this.processAbilityEffects(state, card, ability);
 
-      // Process each passive ability
-      for (const ability of passiveAbilities) {
-        if (ability && this.shouldTriggerPassiveAbility(ability, triggerEvent)) {
-          console.log(`⚡ Triggering passive ability: ${ability.id}`);
-          this.processAbilityEffects(gameState, gridCard, ability);
-        }
+      if (state.pendingChoice) {
+        state.pendingChoice.pausedTrigger = {
+          event,
+          remainingListeners: listeners.slice(i + 1).map(listener => ({ instanceId: listener.card.instanceId, abilityId: listener.ability.id }))
+        };
+        return;
       }
     }
   }
 
   /**
-   * Check if a passive ability should trigger for a specific event
+   * Collect the abilities that answer a trigger event, in resolution order:
+   * turn events go to the active player's cards in grid order, every other event to its source card only.
+   * A card's abilities fire in the order they are listed on its card data.
    */
-  private shouldTriggerPassiveAbility(ability: AbilityData, triggerEvent?: string): boolean {
-    // For now, trigger all passive abilities on any event
-    // In a full implementation, you'd check ability metadata for specific triggers
-    // like "on_card_played", "on_turn_start", "on_death", etc.
+  private getTriggerListeners(state: GameState, event: TriggerEvent): Array<{ card: CardInstance; ability: AbilityData }> {
+    const listenerTriggers = TRIGGER_LISTENERS[event.triggerId] || [];
+    if (listenerTriggers.length === 0) {
+      return [];
+    }
 
-    // Example logic for specific triggers (using ability IDs):
-    // TODO: Replace with proper ability ID checks based on actual game data
-    if (ability.id === 21 as any) { // Decomposer ability
-      return triggerEvent === 'card_death' || triggerEvent === 'turn_end';
+    let cards: CardInstance[];
+    if (TURN_SCOPED_TRIGGERS.includes(event.triggerId)) {
+      cards = this.getCardsInResolutionOrder(state).filter(card => card.ownerId === event.playerId);
+    } else {
+      cards = event.sourceCard && !event.sourceCard.isHOME ? [event.sourceCard] : [];
     }
 
-    if (ability.id === 20 as any) { // Photosynthesis ability
-      return triggerEvent === 'turn_start' || !triggerEvent;
+    const listeners: Array<{ card: CardInstance; ability: AbilityData }> = [];
+    for (const card of cards) {
+      const cardData = this.cardDatabase.get(card.cardId);
+      if (!cardData || !cardData.abilities) {
+        continue;
+      }
+
+      for (const abilityId of cardData.abilities) {
+        const ability = this.abilityDatabase.get(abilityId);
+        if (ability && listenerTriggers.includes(ability.triggerId)) {
+          listeners.push({ card, ability });
+        }
+      }
     }
 
-    // Default: trigger on any event for now
-    return true;
+    return listeners;
   }
 
   /**
-   * Process triggered abilities based on specific game events
+   * Live cards in a fixed order: grid row by row (y, then x), each host followed by its attachments.
+   * HOME cards and detritus tiles never hold abilities.
    */
-  private processTriggerAbilities(gameState: GameState, triggerType: string, _sourceCard?: CardInstance): void {
-    console.log(`🎯 Processing trigger abilities for: ${triggerType}`);
+  private getCardsInResolutionOrder(state: GameState): CardInstance[] {
+    const gridCards = Array.from(state.grid.values())
+      .filter(card => !card.isHOME && !card.isDetritus)
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
 
-    // Find all cards with abilities that match the trigger type
-    for (const [_position, gridCard] of gameState.grid) {
-      const cardData = this.cardDatabase.get(gridCard.cardId);
-      if (!cardData || !cardData.abilities) {
-        continue;
-      }
+    const ordered: CardInstance[] = [];
+    for (const card of gridCards) {
+      ordered.push(card, ...(card.attachments || []));
+    }
+    return ordered;
+  }
 
-      // Find abilities with matching triggers
-      const triggeredAbilities = cardData.abilities
-        .map(abilityId => this.abilityDatabase.get(abilityId))
-        .filter(ability => ability && this.abilityMatchesTrigger(ability, triggerType));
+  /**
+   * Exhaust a card, raising ON_EXHAUST if it was ready
+   */
+  private exhaustCard(card: CardInstance): void {
+    if (card.isExhausted) {
+      return;
+    }
+    card.isExhausted = true;
+    this.raiseTrigger(TriggerId.ON_EXHAUST, card.ownerId, card);
+  }
 
-      // Process each triggered ability
-      for (const ability of triggeredAbilities) {
-        if (ability) {
-          console.log(`⚡ Triggering ability: ${ability.id} due to ${triggerType}`);
-          this.processAbilityEffects(gameState, gridCard, ability);
-        }
-      }
+  /**
+   * Ready a card, raising ON_READY if it was exhausted
+   */
+  private readyCard(card: CardInstance): void {
+    if (!card.isExhausted) {
+      return;
     }
+    card.isExhausted = false;
+    this.raiseTrigger(TriggerId.ON_READY, card.ownerId, card);
   }
 
   /**
-   * Check if an ability matches a specific trigger type
+   * Kill a card on the grid: it flips face-down into a detritus tile in its space.
+   * Raises ON_DEATH then ON_LEAVE_PLAY for the card, then ON_DETACH and ON_LEAVE_PLAY for each attachment,
+   * which go to their owners' discard piles.
    */
-  private abilityMatchesTrigger(ability: AbilityData, triggerType: string): boolean {
-    // Map trigger types to trigger IDs
-    const triggerMap: { [key: string]: number } = {
-      'on_play': 1,
-      'activated': 2,
-      'passive': 3,
-      'on_death': 4,
-      'on_turn_start': 5,
-      'on_turn_end': 6,
-      'on_attack': 7,
-      'on_damage': 8
+  private destroyCard(state: GameState, instanceId: string): CardInstance | null {
+    const card = this.findCardInState(state, instanceId);
+    if (!card || card.isHOME || card.isDetritus) {
+      return null;
+    }
+
+    const positionKey = `${card.position.x},${card.position.y}`;
+    const detritusCard: CardInstance = {
+      ...card,
+      attachments: [],
+      attachedCards: [],
+      isDetritus: true,
+      isExhausted: true // Visual indicator that it's face-down
     };
+    state.grid.set(positionKey, detritusCard);
 
-    const expectedTriggerId = triggerMap[triggerType];
-    return expectedTriggerId ? ability.triggerId === expectedTriggerId : false;
+    this.raiseTrigger(TriggerId.ON_DEATH, card.ownerId, card);
+    this.raiseTrigger(TriggerId.ON_LEAVE_PLAY, card.ownerId, card);
+    this.detachAll(state, card);
+
+    return card;
+  }
+
+  /**
+   * Take a card off the grid without leaving detritus (bounced to hand, scored, removed).
+   * Raises ON_LEAVE_PLAY for the card, then ON_DETACH and ON_LEAVE_PLAY for each attachment.
+   */
+  private removeCardFromPlay(state: GameState, instanceId: string): CardInstance | null {
+    const card = this.findCardInState(state, instanceId);
+    if (!card || card.isHOME) {
+      return null;
+    }
+
+    state.grid.delete(`${card.position.x},${card.position.y}`);
+
+    this.raiseTrigger(TriggerId.ON_LEAVE_PLAY, card.ownerId, card);
+    this.detachAll(state, card);
+
+    return card;
+  }
+
+  /**
+   * Detach every card tucked under a host that is leaving play
+   */
+  private detachAll(state: GameState, host: CardInstance): void {
+    for (const attachment of host.attachments || []) {
+      const owner = state.players.find(p => p.id === attachment.ownerId);
+      if (owner) {
+        owner.discardPile.push(attachment.cardId.toString());
+      }
+      this.raiseTrigger(TriggerId.ON_DETACH, attachment.ownerId, attachment);
+      this.raiseTrigger(TriggerId.ON_LEAVE_PLAY, attachment.ownerId, attachment);
+    }
+  }
+
+  /**
+   * Trigger events resolved by the last processed action, in resolution order
+   */
+  public getTriggerLog(): ResolvedTrigger[] {
+    return [...this.triggerLog];
   }
 
   // Methods to load real data for testing
@@ -3057,6 +3796,66 @@ export class BioMastersEngine {
     });
   }
 
+  /**
+   * A player concedes, or is conceded for (e.g. after a connection timeout). The forfeiting
+   * player loses; the best-scoring other player wins, and a tie for best is a draw.
+   */
+  private handleForfeit(playerId: string, payload?: ForfeitPayload): { isValid: boolean; newState?: GameState; errorMessage?: string } {
+    const gameState = this.ensureGameInitialized();
+
+    if (gameState.gamePhase === GamePhase.ENDED) {
+      return { isValid: false, errorMessage: 'Game has already ended' };
+    }
+
+    const forfeiting = gameState.players.find(player => player.id === playerId);
+    if (!forfeiting) {
+      return { isValid: false, errorMessage: 'Player not found' };
+    }
+
+    const newState = this.cloneGameState();
+    const reason = payload?.reason || GameEndReason.FORFEIT;
+    const scoreOf = (player: Player) => ({
+      playerId: player.id,
+      playerName: player.name,
+      victoryPoints: this.calculateVictoryPoints(player),
+      scorePileSize: player.scorePile.length
+    });
+
+    const remainingScores = newState.players
+      .filter(player => player.id !== playerId)
+      .map(scoreOf)
+      .sort((a, b) => b.victoryPoints - a.victoryPoints);
+
+    // In team games the forfeiting player's whole team loses
+    const forfeitingTeamId = this.getTeamId(playerId);
+    const opposingTeams = this.calculateTeamScores(newState).filter(team => team.teamId !== forfeitingTeamId);
+    const rankedScores = forfeitingTeamId ? opposingTeams : remainingScores;
+    const isTie = rankedScores.length > 1 && rankedScores[0]!.victoryPoints === rankedScores[1]!.victoryPoints;
+    const winningTeam = forfeitingTeamId && !isTie ? opposingTeams[0] : undefined;
+    const winner = isTie
+      ? null
+      : (winningTeam ? remainingScores.find(score => winningTeam.playerIds.includes(score.playerId)) : remainingScores[0]) || null;
+
+    newState.pendingChoice = undefined;
+    newState.gamePhase = GamePhase.ENDED;
+    // Running out of time bank is a forfeit of its own kind
+    newState.endReason = reason === GameEndReason.TIME_LIMIT ? GameEndReason.TIME_LIMIT : GameEndReason.FORFEIT;
+    newState.winner = winner?.playerId;
+    newState.metadata['gameResult'] = {
+      winner,
+      ...(forfeitingTeamId ? { winningTeamId: winningTeam?.teamId ?? null, teamScores: this.calculateTeamScores(newState) } : {}),
+      finalScores: [...remainingScores, scoreOf(forfeiting)],
+      endReason: reason,
+      reason,
+      forfeitedBy: playerId,
+      endedAt: Date.now()
+    };
+
+    console.log(`🏳️ ${forfeiting.name} forfeited (${reason})`);
+    this.gameState = newState;
+    return { isValid: true, newState };
+  }
+
   /**
    * End the game and determine winner
    */
@@ -3075,6 +3874,29 @@ export class BioMastersEngine {
     // Sort by victory points (highest first)
     playerScores.sort((a, b) => b.victoryPoints - a.victoryPoints);
 
+    // Team games are won on the teams' combined score piles
+    if (state.gameSettings.teams) {
+      const teamScores = this.calculateTeamScores(state);
+      const winningTeam = teamScores[0];
+      const isTeamTie = teamScores.length > 1 && teamScores[0]!.victoryPoints === teamScores[1]!.victoryPoints;
+
+      if (isTeamTie) {
+        console.log(`🤝 Game ended in a tie with ${winningTeam!.victoryPoints} VP per team`);
+      } else if (winningTeam) {
+        console.log(`🏆 ${winningTeam.teamId} wins with ${winningTeam.victoryPoints} Victory Points!`);
+      }
+
+      state.metadata['gameResult'] = {
+        winner: isTeamTie ? null : playerScores.find(score => winningTeam?.playerIds.includes(score.playerId)) || null,
+        winningTeamId: isTeamTie ? null : winningTeam?.teamId ?? null,
+        teamScores,
+        finalScores: playerScores,
+        endReason: reason,
+        endedAt: Date.now()
+      };
+      return;
+    }
+
     // Determine winner
     const winner = playerScores[0];
     const isTie = playerScores.length > 1 &&
@@ -3107,9 +3929,9 @@ export class BioMastersEngine {
   private calculateVictoryPoints(player: Player): number {
     let totalVP = 0;
 
-    // Count VP from cards in score pile
+    // Count VP from cards in score pile; entries are parsed the same way as hand cards
     for (const card of player.scorePile) {
-      const cardData = this.cardDatabase.get(card as unknown as CardId);
+      const cardData = this.cardDatabase.get(parseInt(card.split('_')[0] || '0') as CardId);
       if (cardData) {
         // Each card in score pile is worth 1 VP by default
         // Some cards might have special VP values in the future
@@ -3121,6 +3943,21 @@ export class BioMastersEngine {
     return totalVP;
   }
 
+  /**
+   * Score each team from its members' combined score piles, highest first
+   */
+  private calculateTeamScores(state: GameState): Array<{ teamId: string; playerIds: string[]; victoryPoints: number }> {
+    return (state.gameSettings.teams || [])
+      .map(team => ({
+        teamId: team.id,
+        playerIds: team.playerIds,
+        victoryPoints: state.players
+          .filter(player => team.playerIds.includes(player.id))
+          .reduce((total, player) => total + this.calculateVictoryPoints(player), 0)
+      }))
+      .sort((a, b) => b.victoryPoints - a.victoryPoints);
+  }
+
   /**
    * Get current game winner (if game has ended)
    */
@@ -3280,22 +4117,90 @@ export class BioMastersEngine {
    * Get available action types for a player
    */
   public getAvailableActions(playerId: string): string[] {
+    return Array.from(new Set(this.getLegalActions(playerId).map(action => action.type)));
+  }
+
+  /**
+   * Every concrete action a player can take right now, passing first. Each one passes the same
+   * checks its handler runs, so processAction accepts it unless one of its effects fails.
+   * Nothing is listed off turn or while a choice is pending; choices are answered with RESOLVE_CHOICE.
+   */
+  public getLegalActions(playerId: string): PlayerAction[] {
     const gameState = this.ensureGameInitialized();
     const player = gameState.players.find(p => p.id === playerId);
     const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
-    if (!player || !currentPlayer || currentPlayer.id !== playerId) {
-      return []; // Not player's turn
+    if (!player || !currentPlayer || currentPlayer.id !== playerId || gameState.pendingChoice ||
+        (gameState.gamePhase !== GamePhase.PLAYING && gameState.gamePhase !== GamePhase.FINAL_TURN)) {
+      return [];
     }
 
-    const actions: string[] = [];
+    const actions: PlayerAction[] = [{ type: GameActionType.PASS_TURN, playerId, payload: {} }];
+    if (gameState.turnPhase !== 'action' || gameState.actionsRemaining <= 0) {
+      return actions;
+    }
 
-    // Can always pass turn
-    actions.push('PASS_TURN');
+    const handCards = Array.from(new Set(player.hand));
 
-    // Can play cards if has actions remaining and valid moves
-    if (gameState.actionsRemaining > 0 && this.canPlayerMakeMove(playerId)) {
-      actions.push('PLAY_CARD');
+    for (const cardId of handCards) {
+      for (const position of this.getValidPositionsForCard(cardId, playerId)) {
+        actions.push({ type: GameActionType.PLAY_CARD, playerId, payload: { cardId, position } });
+      }
+    }
+
+    if (player.deck.length >= 3) {
+      for (const cardIdToDiscard of handCards) {
+        actions.push({ type: GameActionType.DROP_AND_DRAW_THREE, playerId, payload: { cardIdToDiscard } });
+      }
+    }
+
+    const ownCards = Array.from(gameState.grid.values()).filter(card =>
+      card.ownerId === playerId && !card.isHOME && !card.isDetritus
+    );
+
+    for (const card of ownCards) {
+      const cardData = this.cardDatabase.get(card.cardId);
+      if (!cardData) continue;
+
+      // Activated abilities of ready cards, once per valid target when they need one
+      if (!card.isExhausted) {
+        for (const abilityId of cardData.abilities) {
+          const ability = this.abilityDatabase.get(abilityId);
+          if (!ability || (ability.triggerId !== TriggerId.ON_ACTIVATE && ability.triggerId !== TriggerId.ACTION)) continue;
+
+          const targets = this.abilityRequiresTarget(ability)
+            ? Array.from(gameState.grid.values()).filter(target => !target.isHOME).map(target => target.instanceId)
+            : [undefined];
+          for (const targetInstanceId of targets) {
+            if (this.validateAbilityTargeting(ability, card, targetInstanceId).isValid) {
+              actions.push({
+                type: GameActionType.ACTIVATE_ABILITY,
+                playerId,
+                payload: { instanceId: card.instanceId, abilityId, ...(targetInstanceId ? { targetInstanceId } : {}) }
+              });
+            }
+          }
+        }
+      }
+
+      // Migration to any square the card can reach
+      if (cardData.keywords.includes(KeywordId.MIGRATORY)) {
+        for (const targetPosition of this.getValidMovePositions(card.instanceId, playerId)) {
+          actions.push({ type: GameActionType.MOVE_CARD, playerId, payload: { instanceId: card.instanceId, targetPosition } });
+        }
+      }
+
+      // Metamorphosis into an adult form held in hand
+      if (this.hasMetamorphosis(cardData)) {
+        for (const handCard of handCards) {
+          const adultCardId = parseInt(handCard.split('_')[0] || '0');
+          const adultData = this.cardDatabase.get(adultCardId);
+          if (adultData && adultCardId !== card.cardId && player.hand.includes(adultCardId.toString()) &&
+              this.validateMetamorphosis(cardData, adultData).isValid) {
+            actions.push({ type: GameActionType.METAMORPHOSIS, playerId, payload: { juvenileInstanceId: card.instanceId, adultCardId } });
+          }
+        }
+      }
     }
 
     return actions;
@@ -3316,6 +4221,13 @@ export class BioMastersEngine {
       energy: number;
       cardsPlayed: number;
       isWinner: boolean;
+      teamId?: string;
+    }>;
+    teamScores?: Array<{
+      teamId: string;
+      playerIds: string[];
+      victoryPoints: number;
+      isWinner: boolean;
     }>;
     gameStats?: {
       totalTurns: number;
@@ -3337,7 +4249,10 @@ export class BioMastersEngine {
     // Format final scores
     const finalScores = gameState.players.map(player => {
       const playerScore = gameResult.playerScores?.find((score: any) => score.playerId === player.id);
-      const isWinner = gameResult.winner?.playerId === player.id;
+      // Everyone on the winning team wins a team game
+      const isWinner = gameResult.teamScores
+        ? !!gameResult.winningTeamId && player.teamId === gameResult.winningTeamId
+        : gameResult.winner?.playerId === player.id;
 
       return {
         playerId: player.id,
@@ -3347,7 +4262,8 @@ export class BioMastersEngine {
         handCount: player.hand.length,
         energy: player.energy,
         cardsPlayed: player.field?.length || 0,
-        isWinner
+        isWinner,
+        ...(player.teamId ? { teamId: player.teamId } : {})
       };
     });
 
@@ -3364,6 +4280,9 @@ export class BioMastersEngine {
         case 'forfeit':
           endReason = 'Player Forfeit';
           break;
+        case 'time_limit':
+          endReason = 'Time Bank Exhausted';
+          break;
         default:
           endReason = gameResult.reason;
       }
@@ -3371,8 +4290,16 @@ export class BioMastersEngine {
 
     return {
       isGameEnded: true,
-      winner: gameResult.winner?.playerName,
+      winner: gameResult.teamScores
+        ? finalScores.filter(score => score.isWinner).map(score => score.playerName).join(' & ') || undefined
+        : gameResult.winner?.playerName,
       finalScores,
+      ...(gameResult.teamScores ? {
+        teamScores: gameResult.teamScores.map((team: { teamId: string; playerIds: string[]; victoryPoints: number }) => ({
+          ...team,
+          isWinner: team.teamId === gameResult.winningTeamId
+        }))
+      } : {}),
       gameStats: {
         totalTurns: gameState.turnNumber || 1,
         endReason
@@ -3443,9 +4370,10 @@ export class BioMastersEngine {
       return { isValid: false, errorMessage: 'Adult card not in hand' };
     }
 
-    // Execute metamorphosis
+    // Execute metamorphosis on the card in the new state
     const newState = this.cloneGameState();
-    const result = this.executeMetamorphosis(newState, juvenileCard, adultData);
+    const juvenileInState = this.findCardInState(newState, juvenileInstanceId) || juvenileCard;
+    const result = this.executeMetamorphosis(newState, juvenileInState, adultData);
 
     if (!result.isValid) {
       return result;
@@ -3524,7 +4452,7 @@ export class BioMastersEngine {
     juvenileCard.cardId = adultData.cardId;
 
     // Metamorphosis tempo bonus: adult enters ready
-    juvenileCard.isExhausted = false;
+    this.readyCard(juvenileCard);
 
     // Preserve position and attachments
     // (position and attachments are already part of the GridCard)
@@ -3532,8 +4460,8 @@ export class BioMastersEngine {
     const adultName = this.getCardName(adultData);
     console.log(`🦋 Metamorphosis: ${juvenileCard.instanceId} transformed into ${adultName} (enters ready)`);
 
-    // Process any ON_PLAY abilities of the adult form
-    this.processOnPlayAbilities(state, juvenileCard, adultData);
+    // The adult form enters play - its enter-play abilities fire
+    this.raiseTrigger(TriggerId.ON_ENTER_PLAY, juvenileCard.ownerId, juvenileCard);
 
     return { isValid: true };
   }
@@ -0,0 +1,135 @@
+/**
+ * Effect Registry
+ * Single source of truth for the ability effects the engine can execute.
+ *
+ * abilities.json stores effects by EffectId, the engine dispatches on EffectId,
+ * and abilities are validated against this registry when an engine is created.
+ * TARGET and MOVE_CARD effects also name an action, checked against the action registry.
+ */
+
+import { EffectId } from '../enums';
+import { AbilityData } from '../types';
+
+/**
+ * Every effect the engine implements, keyed by EffectId.
+ * Typed as a full Record so adding an EffectId without registering it fails to compile.
+ */
+export const EFFECT_REGISTRY: Readonly<Record<EffectId, { name: string; description: string }>> = {
+  [EffectId.TARGET]: { name: 'TARGET', description: 'Select targets and apply the effect action to each' },
+  [EffectId.TAKE_CARD]: { name: 'TAKE_CARD', description: 'Take a card from a zone' },
+  [EffectId.APPLY_STATUS]: { name: 'APPLY_STATUS', description: 'Apply a status effect to the target' },
+  [EffectId.MOVE_CARD]: { name: 'MOVE_CARD', description: 'Move the target to another zone' },
+  [EffectId.EXHAUST_TARGET]: { name: 'EXHAUST_TARGET', description: 'Exhaust the target' },
+  [EffectId.READY_TARGET]: { name: 'READY_TARGET', description: 'Ready the target' },
+  [EffectId.DESTROY_TARGET]: { name: 'DESTROY_TARGET', description: 'Destroy the target, leaving detritus' },
+  [EffectId.GAIN_ENERGY]: { name: 'GAIN_ENERGY', description: 'Gain energy' },
+  [EffectId.LOSE_ENERGY]: { name: 'LOSE_ENERGY', description: 'Lose energy' },
+  [EffectId.DRAW_CARD]: { name: 'DRAW_CARD', description: 'Draw cards' },
+  [EffectId.DISCARD_CARD]: { name: 'DISCARD_CARD', description: 'Discard cards from hand' },
+  [EffectId.SEARCH_DECK]: { name: 'SEARCH_DECK', description: 'Search the deck for matching cards, then shuffle it' },
+  [EffectId.SHUFFLE_DECK]: { name: 'SHUFFLE_DECK', description: 'Shuffle the deck' },
+  [EffectId.GAIN_VP]: { name: 'GAIN_VP', description: 'Score targets into the score pile' },
+  [EffectId.LOSE_VP]: { name: 'LOSE_VP', description: 'Lose cards from the score pile' }
+};
+
+/**
+ * Every action a TARGET or MOVE_CARD effect applies to its targets, keyed by the action ID
+ * abilities.json stores and the engine's executeAction dispatches on
+ */
+export const ACTION_REGISTRY: Readonly<Record<number, { name: string; description: string }>> = {
+  1: { name: 'EXHAUST_TARGET', description: 'Exhaust the target' },
+  2: { name: 'READY_TARGET', description: 'Ready the target' },
+  3: { name: 'MOVE_TO_HAND', description: 'Return the target to its owner\'s hand' },
+  4: { name: 'MOVE_TO_DETRITUS', description: 'Turn the target into detritus' },
+  5: { name: 'PREVENT_READY', description: 'Keep the target from readying next turn' },
+  6: { name: 'GAIN_VP', description: 'Score the target into the acting player\'s score pile' },
+  7: { name: 'DRAW_CARD', description: 'The acting player draws a card' },
+  8: { name: 'DISCARD_CARD', description: 'Discard the target from its owner\'s hand' }
+};
+
+/**
+ * Read the effect ID from any of the shapes effects arrive in:
+ * engine (EffectID), abilities.json (effectId) and the typed AbilityEffect (type as a numeric string)
+ */
+export function getEffectId(effect: unknown): number | undefined {
+  if (!effect || typeof effect !== 'object') {
+    return undefined;
+  }
+
+  const { EffectID, effectId, id, type } = effect as Record<string, unknown>;
+  return toIntegerId(EffectID ?? effectId ?? id ?? type);
+}
+
+/**
+ * Read the SelectorId from the same effect shapes as getEffectId (SelectorID, selectorId or selector)
+ */
+export function getSelectorId(effect: unknown): number | undefined {
+  if (!effect || typeof effect !== 'object') {
+    return undefined;
+  }
+
+  const { SelectorID, selectorId, selector } = effect as Record<string, unknown>;
+  return toIntegerId(SelectorID ?? selectorId ?? selector);
+}
+
+/**
+ * Read the action ID from the same effect shapes as getEffectId (ActionID, actionId or action)
+ */
+export function getActionId(effect: unknown): number | undefined {
+  if (!effect || typeof effect !== 'object') {
+    return undefined;
+  }
+
+  const { ActionID, actionId, action } = effect as Record<string, unknown>;
+  return toIntegerId(ActionID ?? actionId ?? action);
+}
+
+// IDs arrive as numbers or numeric strings depending on the data source
+function toIntegerId(rawId: unknown): number | undefined {
+  const numericId = typeof rawId === 'string' && rawId.trim() !== '' ? Number(rawId) : rawId;
+  return typeof numericId === 'number' && Number.isInteger(numericId) ? numericId : undefined;
+}
+
+/**
+ * Check whether an effect ID is registered with the engine
+ */
+export function isRegisteredEffect(effectId: number | undefined): effectId is EffectId {
+  return effectId !== undefined && Object.prototype.hasOwnProperty.call(EFFECT_REGISTRY, effectId);
+}
+
+/**
+ * Check whether an action ID is one the engine can apply
+ */
+export function isRegisteredAction(actionId: number | undefined): boolean {
+  return actionId !== undefined && Object.prototype.hasOwnProperty.call(ACTION_REGISTRY, actionId);
+}
+
+/**
+ * Validate that every ability effect references a registered effect, and a registered action when it names one.
+ * Throws one error listing every offending effect so bad data fails at load time rather than mid-game.
+ */
+export function validateAbilityEffects(abilities: Iterable<AbilityData>): void {
+  const problems: string[] = [];
+
+  for (const ability of abilities) {
+    const abilityId = ability.id ?? (ability as { abilityId?: number }).abilityId;
+    (ability.effects || []).forEach((effect, index) => {
+      const effectId = getEffectId(effect);
+      if (effectId === undefined) {
+        problems.push(`ability ${abilityId} effect #${index + 1} has no effect ID`);
+      } else if (!isRegisteredEffect(effectId)) {
+        problems.push(`ability ${abilityId} effect #${index + 1} uses unknown effect ID ${effectId}`);
+      }
+
+      const { ActionID, actionId, action } = effect as unknown as Record<string, unknown>;
+      const rawActionId = ActionID ?? actionId ?? action;
+      if (rawActionId !== undefined && !isRegisteredAction(getActionId(effect))) {
+        problems.push(`ability ${abilityId} effect #${index + 1} uses unknown action ID ${rawActionId}`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ability data: ${problems.join('; ')}`);
+  }
+}
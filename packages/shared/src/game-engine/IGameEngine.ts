@@ -29,6 +29,7 @@ export interface UnifiedGameSettings {
   gridWidth: number;
   gridHeight: number;
   turnTimeLimit?: number;
+  seed?: string; // Seed for every random decision in the game
   
   // TCG-specific settings
   startingHandSize?: number;
@@ -38,6 +39,9 @@ export interface UnifiedGameSettings {
   // Phylo-specific settings
   maxTurns?: number;
   gameTimeLimit?: number;
+  eventFrequency?: number;
+  allowChallenges?: boolean;
+  deckSize?: number;
   enableAI?: boolean;
   aiDifficulty?: 'easy' | 'medium' | 'hard';
 }
@@ -0,0 +1,38 @@
+/**
+ * Match Replay
+ * Rebuilds every intermediate state of a match from its starting state and action log.
+ *
+ * Games are seeded, so feeding the logged actions back through the engine reproduces
+ * the match exactly; a rejected action means the log and the rules have diverged.
+ */
+
+import { ActionLogEntry, GameState, MatchReplay } from '../types';
+import { BioMastersEngine } from './BioMastersEngine';
+
+/**
+ * One step of a replay: the state after the action with the given version (version 0 is the start)
+ */
+export interface ReplayFrame {
+  version: number;
+  entry: ActionLogEntry | null;
+  state: GameState;
+}
+
+/**
+ * Replay a match on the given engine and return the state after every logged action
+ */
+export function buildReplayFrames(engine: BioMastersEngine, replay: MatchReplay): ReplayFrame[] {
+  engine.loadGameState(replay.initialState);
+  const frames: ReplayFrame[] = [{ version: 0, entry: null, state: replay.initialState }];
+
+  const entries = [...replay.actions].sort((a, b) => a.version - b.version);
+  for (const entry of entries) {
+    const result = engine.processAction(entry.action);
+    if (!result.isValid || !result.newState) {
+      throw new Error(`Replay of ${replay.sessionId} diverged at version ${entry.version}: ${result.errorMessage || 'action rejected'}`);
+    }
+    frames.push({ version: entry.version, entry, state: result.newState });
+  }
+
+  return frames;
+}
@@ -1,56 +1,50 @@
 /**
  * Phylo Game Engine Implementation
- * Adapts the existing gameStateManager to the unified interface
- * Maintains all existing Phylo functionality while providing consistent API
+ * Authoritative Phylo rules behind the unified interface: placement compatibility, movement,
+ * scientific challenges, events, scoring and win conditions all come from the shared phylo modules,
+ * so every environment running this engine agrees on what is legal
  */
 
 import { BaseGameEngine } from './BaseGameEngine';
-import { 
-  GameMode, 
-  UnifiedGameSettings, 
-  UnifiedGameAction, 
-  UnifiedActionResult 
+import {
+  GameMode,
+  UnifiedGameSettings,
+  UnifiedGameAction,
+  UnifiedActionResult
 } from './IGameEngine';
-import { GameState, Position } from '../types';
-import { GameActionType } from '../enums';
-
-// Import existing Phylo game logic - using relative path from shared to src
-// Note: These imports will be resolved at runtime
-// import {
-//   createGameState,
-//   setPlayerReady,
-//   startGame,
-//   executeTurnAction,
-//   type TurnAction
-// } from '../../../src/game-logic/gameStateManager';
-
-// For now, we'll use dynamic imports to avoid compilation issues
-// const phyloGameLogic = {
-//   createGameState: null as any,
-//   setPlayerReady: null as any,
-//   startGame: null as any,
-//   executeTurnAction: null as any
-// };
-
-// Define PhyloGameState interface locally to avoid circular imports
-interface PhyloGameState {
-  gameId: string;
-  players: any[];
-  currentPlayerIndex: number;
-  gameBoard: any;
-  cards: any[];
-  gamePhase: string;
-  turnNumber: number;
-  actionHistory: any[];
-  pendingChallenges: any[];
-  eventDeck: any[];
-  gameSettings: any;
-  metadata: any;
-  gameStats: any;
-}
+import {
+  CardInstance,
+  GameState,
+  PhyloCard,
+  PhyloCardPosition,
+  PhyloGameBoard,
+  PhyloGameSettings,
+  PhyloGameState,
+  PhyloPlayer,
+  Position,
+  ScientificChallenge
+} from '../types';
+import { CardZone, GameActionType, GamePhase, TurnPhase } from '../enums';
+import { SeededRandom } from '../utils/SeededRandom';
+import { createPhyloCard, createPhyloHomeCard } from './phylo/PhyloCards';
+import { validatePhyloPlacement } from './phylo/PhyloCompatibility';
+import { getAdjacentCardsAtPosition, moveCardOnBoard, placeCardOnBoard } from './phylo/PhyloEcosystem';
+import { PHYLO_EVENT_CARDS, executeEventCard } from './phylo/PhyloEvents';
+import {
+  PhyloPlayerScore,
+  PhyloWinCondition,
+  calculatePlayerScore,
+  createScientificChallenge,
+  determineWinCondition,
+  resolveScientificChallenge
+} from './phylo/PhyloScoring';
+
+const CHALLENGE_CLAIM_TYPES: ScientificChallenge['claimType'][] = ['habitat', 'diet', 'behavior', 'conservation_status', 'scale'];
+
+type PhyloHandlerResult = { isValid: boolean; newState?: PhyloGameState; errorMessage?: string };
 
 /**
- * Phylo Engine - Unified interface adapter for gameStateManager
+ * Phylo Engine - authoritative Phylo rules behind the unified interface
  */
 export class PhyloEngine extends BaseGameEngine {
   readonly mode = GameMode.PHYLO;
@@ -63,43 +57,84 @@ export class PhyloEngine extends BaseGameEngine {
   ): GameState {
     console.log(`🌱 Phylo Engine: Initializing game ${gameId} with ${players.length} players`);
 
-    // Convert unified settings to Phylo-specific settings
-    const phyloSettings = {
+    const phyloSettings: PhyloGameSettings = {
       maxPlayers: settings.maxPlayers,
-      gridWidth: settings.gridWidth,
-      gridHeight: settings.gridHeight,
+      startingHandSize: settings.startingHandSize || 5,
+      turnTimeLimit: settings.turnTimeLimit,
+      gameTimeLimit: settings.gameTimeLimit ?? 30 * 60 * 1000, // 30 minutes
       maxTurns: settings.maxTurns || 20,
-      gameTimeLimit: settings.gameTimeLimit || 1800, // 30 minutes
-      enableAI: settings.enableAI || false,
-      aiDifficulty: settings.aiDifficulty || 'medium'
+      eventFrequency: settings.eventFrequency ?? 0.2,
+      allowChallenges: settings.allowChallenges ?? true,
+      deckSize: settings.deckSize || 20,
+      gridWidth: settings.gridWidth || 9,
+      gridHeight: settings.gridHeight || 10
     };
 
-    // Create initial deck for players (simplified for now)
-    const deckCards = Array.from(this.cardDatabase.values()).slice(0, 20);
+    const seed = settings.seed ?? gameId;
+    const rng = new SeededRandom(seed);
+    const cards = new Map<string, PhyloCard>();
+
+    // Every player draws from their own copy of each species, dealt in a seeded order
+    const phyloPlayers: PhyloPlayer[] = players.map(player => {
+      const instanceIds: string[] = [];
+      for (const cardData of this.cardDatabase.values()) {
+        const card = createPhyloCard(cardData, `${player.id}_${cardData.cardId}`);
+        cards.set(card.id, card);
+        instanceIds.push(card.id);
+      }
+      const shuffled = this.shuffle(instanceIds, rng);
+
+      return {
+        id: player.id,
+        name: player.name,
+        hand: shuffled.slice(0, phyloSettings.startingHandSize),
+        deck: shuffled.slice(phyloSettings.startingHandSize, phyloSettings.startingHandSize + phyloSettings.deckSize),
+        discardPile: [],
+        score: 0,
+        isReady: true
+      };
+    });
+
+    // HOME cards sit side by side in the middle row of the board
+    const gameBoard: PhyloGameBoard = { positions: new Map(), connections: new Map(), homeCards: [] };
+    const centerX = Math.floor((phyloSettings.gridWidth! - 1) / 2);
+    const centerY = Math.floor((phyloSettings.gridHeight! - 1) / 2);
+    phyloPlayers.forEach((player, index) => {
+      const homeCard = createPhyloHomeCard(player.id);
+      cards.set(homeCard.id, homeCard);
+
+      const homePosition: PhyloCardPosition = { x: centerX + index, y: centerY, cardId: homeCard.id, playerId: player.id };
+      gameBoard.positions.set(`${homePosition.x},${homePosition.y}`, homePosition);
+      gameBoard.homeCards.push(homePosition);
+    });
+    gameBoard.homeCards.forEach(home => {
+      gameBoard.connections.set(home.cardId, gameBoard.homeCards.filter(other => other !== home).map(other => other.cardId));
+    });
 
-    // Create initial Phylo game state (simplified for compilation)
     const phyloState: PhyloGameState = {
       gameId,
-      players: players.map(p => ({ ...p, isReady: true })),
+      players: phyloPlayers,
       currentPlayerIndex: 0,
-      gameBoard: { grid: [], width: settings.gridWidth || 9, height: settings.gridHeight || 10 },
-      cards: deckCards,
+      gameBoard,
+      cards,
       gamePhase: 'playing',
       turnNumber: 1,
       actionHistory: [],
       pendingChallenges: [],
-      eventDeck: [],
+      eventDeck: this.shuffle(PHYLO_EVENT_CARDS, rng),
       gameSettings: phyloSettings,
-      metadata: { createdAt: Date.now() },
-      gameStats: { totalTurns: 0, cardsPlayed: 0 }
+      metadata: { createdAt: new Date(), startedAt: new Date(), rngSeed: seed },
+      gameStats: {
+        gameStartTime: Date.now(),
+        totalTurns: 0,
+        cardsPlayed: 0,
+        eventsTriggered: 0
+      }
     };
 
-    const startedState = phyloState;
-    
-    // Store both states
-    this.phyloGameState = startedState;
-    this.gameState = this.convertPhyloToUnified(startedState);
-    
+    this.phyloGameState = phyloState;
+    this.gameState = this.convertPhyloToUnified(phyloState);
+
     return this.gameState;
   }
 
@@ -112,46 +147,98 @@ export class PhyloEngine extends BaseGameEngine {
       return this.createActionResult(false, undefined, 'Game not initialized');
     }
 
+    if (this.phyloGameState.gamePhase !== 'playing') {
+      return this.createActionResult(false, undefined, 'Invalid game phase');
+    }
+
+    if (this.phyloGameState.players[this.phyloGameState.currentPlayerIndex]?.id !== action.playerId) {
+      return this.createActionResult(false, undefined, 'Not your turn');
+    }
+
     try {
-      // Convert unified action to Phylo format (simplified for compilation)
-      const phyloAction = this.convertUnifiedToPhyloAction(action);
-
-      // Process action using simplified logic for now
-      const result = this.executePhyloAction(this.phyloGameState, action.playerId, phyloAction);
-
-      if (result.success) {
-        // Update our states
-        this.phyloGameState = result.gameState;
-        this.gameState = this.convertPhyloToUnified(result.gameState);
-
-        return this.createActionResult(
-          true,
-          this.gameState,
-          undefined,
-          {
-            gameEnded: result.gameEnded || false,
-            nextPlayer: result.nextPlayer,
-            winCondition: result.winCondition
-          }
-        );
-      } else {
+      let result: PhyloHandlerResult;
+      switch (action.type) {
+        case GameActionType.PLAY_CARD:
+          result = this.handlePlaceCard(action.playerId, String(action.payload.cardId), action.payload.position!);
+          break;
+        case GameActionType.MOVE_CARD:
+          result = this.handleMoveCard(action.playerId, String(action.payload.cardId ?? action.payload['instanceId']), action.payload.targetPosition!);
+          break;
+        case GameActionType.CHALLENGE:
+          result = this.handleChallenge(action.playerId, action.payload.challengeData ?? action.payload);
+          break;
+        case GameActionType.DROP_AND_DRAW_THREE:
+          result = this.handleDropAndDraw(action.playerId, String(action.payload['cardIdToDiscard']));
+          break;
+        case GameActionType.PASS_TURN:
+          result = { isValid: true, newState: this.cloneState() };
+          break;
+        default:
+          return this.createActionResult(false, undefined, `Unsupported action type for Phylo: ${action.type}`);
+      }
+
+      if (!result.isValid || !result.newState) {
         return this.createActionResult(false, undefined, result.errorMessage);
       }
 
+      const newState = result.newState;
+      newState.actionHistory.push({
+        type: action.type,
+        playerId: action.playerId,
+        payload: action.payload,
+        timestamp: new Date()
+      });
+
+      this.advanceToNextTurn(newState);
+      this.updateScores(newState);
+
+      const winCondition = this.checkWinCondition(newState);
+      if (winCondition) {
+        newState.gamePhase = 'game_over';
+        newState.winner = winCondition.winner || undefined;
+        newState.metadata = { ...newState.metadata, endedAt: new Date(), winCondition };
+      }
+
+      this.phyloGameState = newState;
+      this.gameState = this.convertPhyloToUnified(newState);
+
+      return this.createActionResult(true, this.gameState, undefined, {
+        gameEnded: !!winCondition,
+        nextPlayer: winCondition ? undefined : newState.players[newState.currentPlayerIndex]?.id,
+        winCondition
+      });
     } catch (error: any) {
       console.error(`❌ Phylo Engine: Action processing failed:`, error);
       return this.createActionResult(false, undefined, error.message);
     }
   }
 
-  getValidMoves(_playerId: string, _cardId?: string): Position[] {
-    if (!this.phyloGameState) return [];
+  /**
+   * Positions a card can go to: free spaces a hand card can be placed on,
+   * or the destinations of a movable card already on the board
+   */
+  getValidMoves(playerId: string, cardId?: string): Position[] {
+    const state = this.phyloGameState;
+    const player = state?.players.find(p => p.id === playerId);
+    if (!state || !player) return [];
 
     try {
-      // Phylo-specific valid move calculation
-      // This would implement the ecosystem placement rules
-      // For now, return empty array - to be implemented
-      return [];
+      const boardPosition = cardId ? this.findBoardPosition(state.gameBoard, cardId) : undefined;
+      if (boardPosition) {
+        if (boardPosition.playerId !== playerId) return [];
+        return this.getEmptyPositions(state).filter(position =>
+          moveCardOnBoard(state.gameBoard, state.cards, cardId!, position).success
+        );
+      }
+
+      const handCards = (cardId ? player.hand.filter(id => id === cardId) : player.hand)
+        .map(id => state.cards.get(id))
+        .filter((card): card is PhyloCard => !!card);
+
+      return this.getEmptyPositions(state).filter(position => {
+        const adjacentCards = getAdjacentCardsAtPosition(position.x, position.y, state.gameBoard, state.cards);
+        return handCards.some(card => validatePhyloPlacement(card, adjacentCards).isValid);
+      });
     } catch (error) {
       console.error(`❌ Phylo Engine: Failed to get valid moves:`, error);
       return [];
@@ -160,25 +247,43 @@ export class PhyloEngine extends BaseGameEngine {
 
   getWinCondition(): any {
     if (!this.isGameEnded() || !this.phyloGameState) return null;
-    
-    try {
-      // Extract win condition from Phylo game state
-      return this.phyloGameState.metadata?.winCondition || null;
-    } catch (error) {
-      console.error(`❌ Phylo Engine: Failed to get win condition:`, error);
-      return null;
-    }
+
+    return this.phyloGameState.metadata?.['winCondition'] || null;
+  }
+
+  /**
+   * Full Phylo state (board, connections, challenges, event deck) behind the unified view
+   */
+  getPhyloGameState(): PhyloGameState | null {
+    return this.phyloGameState;
+  }
+
+  getPlayerStats(playerId: string): PhyloPlayerScore | null {
+    if (!this.phyloGameState) return null;
+    const { gameBoard, cards, pendingChallenges } = this.phyloGameState;
+    return calculatePlayerScore(gameBoard, cards, playerId, pendingChallenges);
   }
 
   protected validateModeSpecificAction(action: UnifiedGameAction): boolean {
     // Phylo-specific validation logic
     switch (action.type) {
       case GameActionType.PLAY_CARD:
-        return !!(action.payload.cardId);
-      
+        return !!(action.payload.cardId && action.payload.position);
+
+      case GameActionType.MOVE_CARD:
+        return !!((action.payload.cardId || action.payload['instanceId']) && action.payload.targetPosition);
+
+      case GameActionType.CHALLENGE: {
+        const challengeData = action.payload.challengeData ?? action.payload;
+        return !!(challengeData.targetCardId && challengeData.claimType);
+      }
+
+      case GameActionType.DROP_AND_DRAW_THREE:
+        return !!(action.payload['cardIdToDiscard']);
+
       case GameActionType.PASS_TURN:
         return true;
-      
+
       default:
         console.warn(`⚠️ Phylo Engine: Unknown action type: ${action.type}`);
         return false;
@@ -186,52 +291,292 @@ export class PhyloEngine extends BaseGameEngine {
   }
 
   /**
-   * Execute Phylo action (simplified implementation for compilation)
+   * Place a card from hand onto the board, then draw a replacement
+   */
+  private handlePlaceCard(playerId: string, cardId: string, position: Position): PhyloHandlerResult {
+    const state = this.phyloGameState!;
+    const player = state.players.find(p => p.id === playerId)!;
+
+    if (!player.hand.includes(cardId)) {
+      return { isValid: false, errorMessage: 'Card not in hand' };
+    }
+
+    const card = state.cards.get(cardId);
+    if (!card) {
+      return { isValid: false, errorMessage: 'Card not found' };
+    }
+
+    if (!this.isInBounds(state, position)) {
+      return { isValid: false, errorMessage: 'Position out of bounds' };
+    }
+
+    const placeResult = placeCardOnBoard(state.gameBoard, state.cards, card, position, playerId);
+    if (!placeResult.success) {
+      return { isValid: false, errorMessage: placeResult.errorMessage || 'Failed to place card' };
+    }
+
+    const newState = this.cloneState();
+    newState.gameBoard = placeResult.updatedBoard;
+
+    const newPlayer = newState.players.find(p => p.id === playerId)!;
+    newPlayer.hand = newPlayer.hand.filter(id => id !== cardId);
+    if (newPlayer.deck.length > 0) {
+      newPlayer.hand.push(newPlayer.deck.pop()!);
+    }
+
+    newState.gameStats.cardsPlayed++;
+
+    console.log(`🌿 Phylo Engine: ${playerId} placed ${cardId} at (${position.x}, ${position.y})`);
+    return { isValid: true, newState };
+  }
+
+  /**
+   * Move one of the player's cards on the board
+   */
+  private handleMoveCard(playerId: string, cardId: string, targetPosition: Position): PhyloHandlerResult {
+    const state = this.phyloGameState!;
+    const currentPosition = this.findBoardPosition(state.gameBoard, cardId);
+
+    if (!currentPosition || currentPosition.playerId !== playerId) {
+      return { isValid: false, errorMessage: 'Card not found or not owned by player' };
+    }
+
+    if (!this.isInBounds(state, targetPosition)) {
+      return { isValid: false, errorMessage: 'Position out of bounds' };
+    }
+
+    const moveResult = moveCardOnBoard(state.gameBoard, state.cards, cardId, targetPosition);
+    if (!moveResult.success) {
+      return { isValid: false, errorMessage: moveResult.errorMessage || 'Failed to move card' };
+    }
+
+    const newState = this.cloneState();
+    newState.gameBoard = moveResult.updatedBoard;
+
+    console.log(`🦅 Phylo Engine: ${playerId} moved ${cardId} to (${targetPosition.x}, ${targetPosition.y})`);
+    return { isValid: true, newState };
+  }
+
+  /**
+   * Raise a scientific challenge against an opponent's card.
+   * The engine is the referee: the claim is judged against the card's data straight away.
+   */
+  private handleChallenge(
+    playerId: string,
+    challengeData: { targetCardId: string; claimType: ScientificChallenge['claimType']; evidence?: string }
+  ): PhyloHandlerResult {
+    const state = this.phyloGameState!;
+
+    if (!state.gameSettings.allowChallenges) {
+      return { isValid: false, errorMessage: 'Challenges not allowed in this game' };
+    }
+
+    if (!CHALLENGE_CLAIM_TYPES.includes(challengeData.claimType)) {
+      return { isValid: false, errorMessage: `Invalid challenge claim: ${challengeData.claimType}` };
+    }
+
+    const targetPosition = this.findBoardPosition(state.gameBoard, challengeData.targetCardId);
+    const targetCard = state.cards.get(challengeData.targetCardId);
+    if (!targetPosition || !targetCard || targetCard.phyloAttributes?.specialKeywords.includes('HOME')) {
+      return { isValid: false, errorMessage: 'Card not found on board' };
+    }
+
+    if (targetPosition.playerId === playerId) {
+      return { isValid: false, errorMessage: 'You can only challenge opponent cards' };
+    }
+
+    const challenge = createScientificChallenge(
+      playerId,
+      challengeData.targetCardId,
+      targetPosition.playerId,
+      challengeData.claimType,
+      challengeData.evidence || ''
+    );
+    const resolvedChallenge = resolveScientificChallenge(challenge, targetCard);
+
+    const newState = this.cloneState();
+    newState.pendingChallenges.push(resolvedChallenge);
+
+    console.log(`🔬 Phylo Engine: ${playerId} challenged ${challengeData.targetCardId} (${challengeData.claimType}): ${resolvedChallenge.outcome}`);
+    return { isValid: true, newState };
+  }
+
+  /**
+   * Discard a card from hand to draw three
    */
-  private executePhyloAction(gameState: PhyloGameState, _playerId: string, _action: any): any {
-    // Simplified implementation for compilation
+  private handleDropAndDraw(playerId: string, cardId: string): PhyloHandlerResult {
+    const player = this.phyloGameState!.players.find(p => p.id === playerId)!;
+
+    if (!player.hand.includes(cardId)) {
+      return { isValid: false, errorMessage: 'Card not in hand' };
+    }
+
+    if (player.deck.length < 3) {
+      return { isValid: false, errorMessage: 'Not enough cards in deck' };
+    }
+
+    const newState = this.cloneState();
+    const newPlayer = newState.players.find(p => p.id === playerId)!;
+    newPlayer.hand = newPlayer.hand.filter(id => id !== cardId);
+    newPlayer.discardPile.push(cardId);
+    newPlayer.hand.push(...newPlayer.deck.splice(0, 3));
+
+    return { isValid: true, newState };
+  }
+
+  private checkWinCondition(state: PhyloGameState): PhyloWinCondition | null {
+    return determineWinCondition(
+      state.gameBoard,
+      state.cards,
+      state.players.map(p => p.id),
+      {
+        ...state.gameStats,
+        maxTurns: state.gameSettings.maxTurns,
+        timeLimit: state.gameSettings.gameTimeLimit,
+        gameStartTime: state.gameStats.gameStartTime
+      },
+      state.pendingChallenges
+    );
+  }
+
+  /**
+   * Hand the turn to the next player; a new round may set off an environmental event
+   */
+  private advanceToNextTurn(state: PhyloGameState): void {
+    state.currentPlayerIndex = (state.currentPlayerIndex + 1) % state.players.length;
+
+    if (state.currentPlayerIndex === 0) {
+      state.turnNumber++;
+      state.gameStats.totalTurns++;
+    }
+
+    const rng = new SeededRandom(`${state.metadata.rngSeed ?? state.gameId}:${state.turnNumber}:${state.currentPlayerIndex}:${state.actionHistory.length}`);
+    if (rng.next() < state.gameSettings.eventFrequency && state.eventDeck.length > 0) {
+      const eventCard = state.eventDeck.pop()!;
+      const eventResult = executeEventCard(state.gameBoard, state.cards, eventCard, 'system', () => rng.next());
+
+      // Reactions are not offered yet, so the game stays in the playing phase.
+      // An event with nothing to hit is still drawn and logged.
+      if (eventResult.success) {
+        state.gameBoard = eventResult.updatedBoard;
+      }
+      state.gameStats.eventsTriggered++;
+      state.actionHistory.push({
+        type: GameActionType.ACTIVATE_ABILITY,
+        playerId: 'system',
+        payload: { eventCard, cardsRemoved: eventResult.cardsRemoved, cardsMoved: eventResult.cardsMoved },
+        timestamp: new Date()
+      });
+      console.log(`🌋 Phylo Engine: Event ${eventCard.name} removed ${eventResult.cardsRemoved.length} cards`);
+    }
+  }
+
+  private updateScores(state: PhyloGameState): void {
+    state.players.forEach(player => {
+      player.score = calculatePlayerScore(state.gameBoard, state.cards, player.id, state.pendingChallenges).totalPoints;
+    });
+  }
+
+  private getEmptyPositions(state: PhyloGameState): Position[] {
+    const positions: Position[] = [];
+    for (let y = 0; y < state.gameSettings.gridHeight!; y++) {
+      for (let x = 0; x < state.gameSettings.gridWidth!; x++) {
+        if (!state.gameBoard.positions.has(`${x},${y}`)) {
+          positions.push({ x, y });
+        }
+      }
+    }
+    return positions;
+  }
+
+  private isInBounds(state: PhyloGameState, position: Position): boolean {
+    return position.x >= 0 && position.y >= 0 &&
+      position.x < state.gameSettings.gridWidth! && position.y < state.gameSettings.gridHeight!;
+  }
+
+  private findBoardPosition(gameBoard: PhyloGameBoard, cardId: string): PhyloCardPosition | undefined {
+    return Array.from(gameBoard.positions.values()).find(position => position.cardId === cardId);
+  }
+
+  /**
+   * Copy the current state so a failed action never leaves a half-applied change behind.
+   * Cards are never mutated, so the card map is shared.
+   */
+  private cloneState(): PhyloGameState {
+    const state = this.phyloGameState!;
     return {
-      success: true,
-      gameState: { ...gameState, turnNumber: gameState.turnNumber + 1 },
-      message: 'Action executed successfully'
+      ...state,
+      players: state.players.map(player => ({
+        ...player,
+        hand: [...player.hand],
+        deck: [...player.deck],
+        discardPile: [...player.discardPile]
+      })),
+      gameBoard: {
+        positions: new Map(Array.from(state.gameBoard.positions, ([key, position]) => [key, { ...position }])),
+        connections: new Map(Array.from(state.gameBoard.connections, ([key, connected]) => [key, [...connected]])),
+        homeCards: state.gameBoard.homeCards.map(home => ({ ...home }))
+      },
+      actionHistory: [...state.actionHistory],
+      pendingChallenges: [...state.pendingChallenges],
+      eventDeck: [...state.eventDeck],
+      metadata: { ...state.metadata },
+      gameStats: { ...state.gameStats }
     };
   }
 
-  // Helper methods for state conversion
-  private convertUnifiedToPhyloAction(action: UnifiedGameAction): any {
-    switch (action.type) {
-      case GameActionType.PLAY_CARD:
-        return {
-          type: 'place_card',
-          cardId: action.payload.cardId!,
-          position: action.payload.position
-        };
-      
-      case GameActionType.PASS_TURN:
-        return {
-          type: 'pass_turn'
-        };
-      
-      default:
-        throw new Error(`Unsupported action type for Phylo: ${action.type}`);
+  private shuffle<T>(items: T[], rng: SeededRandom): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = rng.nextInt(0, i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
     }
+    return shuffled;
   }
 
   private convertPhyloToUnified(phyloState: PhyloGameState): GameState {
-    // Convert Phylo game state to unified format
-    // This is a simplified conversion - would need full implementation
+    // The unified grid shows every placed card; the food web itself stays in getPhyloGameState()
+    const grid = new Map<string, CardInstance>();
+    phyloState.gameBoard.positions.forEach((position, key) => {
+      const card = phyloState.cards.get(position.cardId);
+      grid.set(key, {
+        id: position.cardId,
+        instanceId: position.cardId,
+        cardId: card?.cardId ?? 0,
+        ownerId: position.playerId,
+        position: { x: position.x, y: position.y },
+        isExhausted: false,
+        isReady: true,
+        attachedCards: [],
+        attachments: [],
+        modifiers: [],
+        statusEffects: [],
+        zone: CardZone.GRID,
+        isDetritus: false,
+        isHOME: !!card?.phyloAttributes?.specialKeywords.includes('HOME')
+      });
+    });
+
     return {
       gameId: phyloState.gameId,
-      players: phyloState.players,
+      players: phyloState.players.map((player, index) => ({
+        ...player,
+        scorePile: [],
+        energy: 0,
+        actionsRemaining: index === phyloState.currentPlayerIndex ? 1 : 0,
+        field: [],
+        playedSpecies: new Set<string>()
+      })),
       currentPlayerIndex: phyloState.currentPlayerIndex,
-      gamePhase: phyloState.gamePhase as any,
-      turnPhase: 'action' as any, // Phylo doesn't have turn phases
+      gamePhase: phyloState.gamePhase === 'game_over' ? GamePhase.ENDED : GamePhase.PLAYING,
+      turnPhase: TurnPhase.ACTION, // Phylo doesn't have turn phases
       actionsRemaining: 1,
       turnNumber: phyloState.turnNumber,
-      grid: new Map(), // Convert from Phylo board format
+      grid,
       detritus: [],
       gameSettings: phyloState.gameSettings as any,
-      metadata: phyloState.metadata || {}
+      metadata: phyloState.metadata || {},
+      winner: phyloState.winner
     };
   }
 }
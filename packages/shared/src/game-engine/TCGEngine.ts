@@ -69,7 +69,7 @@ export class TCGEngine extends BaseGameEngine {
     console.log(`🎯 TCG Engine: Converted TCG settings:`, tcgSettings);
 
     // Use the existing BioMastersEngine initialization
-    const newState = this.coreEngine.initializeNewGame(gameId, players, tcgSettings);
+    const newState = this.coreEngine.initializeNewGame(gameId, players, tcgSettings, settings.seed);
     this.gameState = newState;
 
     console.log(`✅ TCG Engine: Game initialized successfully. Players:`, newState.players.map(p => ({
@@ -193,6 +193,44 @@ export class TCGEngine extends BaseGameEngine {
     }
   }
 
+  /**
+   * Get the positions a migratory card on the grid can move to - delegates to core engine
+   */
+  getValidCardMoves(playerId: string, instanceId: string): Position[] {
+    if (!this.gameState) {
+      return [];
+    }
+
+    try {
+      return this.coreEngine.getValidMovePositions(instanceId, playerId);
+    } catch (error) {
+      console.error(`❌ TCG Engine: Failed to get valid card moves:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Sandbox board setup: place any card for any player - delegates to core engine
+   */
+  placeSetupCard(cardId: number, position: Position, ownerId: string): UnifiedActionResult {
+    const result = this.coreEngine.placeSetupCard(cardId, position, ownerId);
+    if (result.isValid && result.newState) {
+      this.gameState = result.newState;
+    }
+    return this.createActionResult(result.isValid, result.newState, result.errorMessage);
+  }
+
+  /**
+   * Sandbox board setup: clear a square - delegates to core engine
+   */
+  removeSetupCard(position: Position): UnifiedActionResult {
+    const result = this.coreEngine.removeSetupCard(position);
+    if (result.isValid && result.newState) {
+      this.gameState = result.newState;
+    }
+    return this.createActionResult(result.isValid, result.newState, result.errorMessage);
+  }
+
   getWinCondition(): any {
     if (!this.isGameEnded()) return null;
     
@@ -211,6 +249,12 @@ export class TCGEngine extends BaseGameEngine {
       case GameActionType.PLAY_CARD:
         return !!(action.payload.cardId && action.payload.position);
 
+      case GameActionType.MOVE_CARD:
+        return !!(action.payload['instanceId'] && action.payload.targetPosition);
+
+      case GameActionType.CHALLENGE:
+        return !!(action.payload['targetInstanceId'] && action.payload['claim']);
+
       case GameActionType.DROP_AND_DRAW_THREE:
         return !!(action.payload['cardIdToDiscard']);
 
@@ -220,6 +264,9 @@ export class TCGEngine extends BaseGameEngine {
       case GameActionType.PLAYER_READY:
         return true;
 
+      case GameActionType.RESOLVE_CHOICE:
+        return !!(action.payload['choiceId'] && Array.isArray(action.payload['selections']));
+
       default:
         console.warn(`⚠️ TCG Engine: Unknown action type: ${action.type}`);
         return false;
@@ -239,7 +286,7 @@ export class TCGEngine extends BaseGameEngine {
   override loadState(state: GameState): void {
     super.loadState(state);
     // Update the core engine's internal state
-    (this.coreEngine as any).gameState = state;
+    this.coreEngine.loadGameState(state);
     console.log(`🔄 TCG Engine: State loaded for game ${state.gameId}`);
   }
 
@@ -0,0 +1,164 @@
+/**
+ * Phylo Cards
+ * Derives Phylo attributes from shared card data so every environment builds identical cards
+ */
+
+import { CardData, PhyloAttributes, PhyloCard } from '../../types';
+import { ConservationStatus, Domain, KeywordId, TrophicCategoryId } from '../../enums';
+import { CardNameId } from '../../text-ids';
+
+// HOME cards represent every terrain and climate
+const ALL_TERRAINS = ['Forest', 'Grassland', 'Ocean', 'Desert', 'Arctic', 'Mountain'];
+const ALL_CLIMATES = ['Cool', 'Warm', 'Hot', 'Cold'];
+
+const HABITAT_TERRAINS: Partial<Record<KeywordId, string>> = {
+  [KeywordId.FOREST]: 'Forest',
+  [KeywordId.GRASSLAND]: 'Grassland',
+  [KeywordId.DESERT]: 'Desert',
+  [KeywordId.MOUNTAIN]: 'Mountain',
+  [KeywordId.ARCTIC]: 'Arctic',
+  [KeywordId.OCEAN]: 'Ocean',
+  [KeywordId.RIVER]: 'River',
+  [KeywordId.WETLAND]: 'Wetland'
+};
+
+// Terrains for cards without habitat keywords
+const DOMAIN_TERRAINS: Record<number, string[]> = {
+  [Domain.TERRESTRIAL]: ['Forest', 'Grassland'],
+  [Domain.FRESHWATER]: ['River', 'Wetland'],
+  [Domain.MARINE]: ['Ocean', 'Coastal'],
+  [Domain.AMPHIBIOUS_FRESHWATER]: ['Forest', 'Grassland', 'River', 'Wetland'],
+  [Domain.AMPHIBIOUS_MARINE]: ['Forest', 'Grassland', 'Ocean', 'Coastal'],
+  [Domain.EURYHALINE]: ['River', 'Wetland', 'Ocean', 'Coastal']
+};
+
+const HABITAT_CLIMATES: Partial<Record<KeywordId, string[]>> = {
+  [KeywordId.ARCTIC]: ['Cold'],
+  [KeywordId.DESERT]: ['Hot'],
+  [KeywordId.TROPICAL]: ['Warm', 'Hot'],
+  [KeywordId.TEMPERATE]: ['Cool', 'Warm']
+};
+
+const CONSERVATION_STATUS_NAMES: Record<ConservationStatus, string> = {
+  [ConservationStatus.EXTINCT]: 'Extinct',
+  [ConservationStatus.EXTINCT_IN_WILD]: 'Extinct',
+  [ConservationStatus.CRITICALLY_ENDANGERED]: 'Critically Endangered',
+  [ConservationStatus.ENDANGERED]: 'Endangered',
+  [ConservationStatus.VULNERABLE]: 'Vulnerable',
+  [ConservationStatus.NEAR_THREATENED]: 'Near Threatened',
+  [ConservationStatus.LEAST_CONCERN]: 'Least Concern',
+  [ConservationStatus.DATA_DEFICIENT]: 'Data Deficient',
+  [ConservationStatus.NOT_EVALUATED]: 'Not Evaluated'
+};
+
+// Spaces a migratory card moves, by its fastest speed in m/hr (checked in order)
+const MOVE_VALUE_TIERS: Array<{ minSpeed: number; moveValue: number }> = [
+  { minSpeed: 10000, moveValue: 3 },
+  { minSpeed: 1000, moveValue: 2 },
+  { minSpeed: 0, moveValue: 1 }
+];
+
+/**
+ * Derive a card's Phylo attributes from its biological data
+ */
+export function derivePhyloAttributes(cardData: CardData): PhyloAttributes {
+  const keywords = cardData.keywords || [];
+
+  const habitatTerrains = keywords.map(keyword => HABITAT_TERRAINS[keyword]).filter((terrain): terrain is string => !!terrain);
+  const terrains = habitatTerrains.length > 0 ? habitatTerrains : DOMAIN_TERRAINS[cardData.domain] || ['Forest', 'Grassland'];
+
+  const climates = Array.from(new Set(keywords.flatMap(keyword => HABITAT_CLIMATES[keyword] || [])));
+
+  // Decomposers have no Phylo foodchain and sit at the base with producers
+  const foodchainLevel = Math.max(cardData.trophicLevel ?? 1, 1);
+
+  // One point of scale per order of magnitude: 1 g is scale 1, 1 kg scale 4, 1 t scale 7
+  const scale = cardData.mass_kg && cardData.mass_kg > 0
+    ? Math.min(Math.max(Math.round(Math.log10(cardData.mass_kg) + 4), 1), 10)
+    : 5;
+
+  const flySpeed = cardData.fly_speed_m_per_hr || 0;
+  const swimSpeed = cardData.swim_speed_m_per_hr || 0;
+  const fastestSpeed = Math.max(cardData.walk_speed_m_per_hr || 0, cardData.run_speed_m_per_hr || 0, swimSpeed, flySpeed);
+  const moveValue = keywords.includes(KeywordId.MIGRATORY) && fastestSpeed > 0
+    ? MOVE_VALUE_TIERS.find(tier => fastestSpeed >= tier.minSpeed)!.moveValue
+    : 0;
+
+  const specialKeywords: string[] = [];
+  if (cardData.trophicCategory === TrophicCategoryId.PARASITE) specialKeywords.push('PARASITIC');
+  if (cardData.trophicCategory === TrophicCategoryId.MUTUALIST) specialKeywords.push('POLLINATOR');
+
+  return {
+    terrains,
+    climates: climates.length > 0 ? climates : ['Cool', 'Warm'],
+    foodchainLevel,
+    scale,
+    dietType: getDietType(cardData.trophicCategory, foodchainLevel),
+    movementCapability: {
+      moveValue,
+      canFly: moveValue > 0 && flySpeed > 0,
+      canSwim: swimSpeed > 0,
+      canBurrow: false
+    },
+    specialKeywords,
+    pointValue: cardData.victoryPoints || 0,
+    conservationStatus: cardData.conservation_status ? CONSERVATION_STATUS_NAMES[cardData.conservation_status] : 'Not Evaluated',
+    compatibilityNotes: `Lives in ${terrains.join(', ')}`
+  };
+}
+
+function getDietType(trophicCategory: TrophicCategoryId | null, foodchainLevel: number): string {
+  switch (trophicCategory) {
+    case TrophicCategoryId.PHOTOAUTOTROPH:
+    case TrophicCategoryId.CHEMOAUTOTROPH:
+      return 'Producer';
+    case TrophicCategoryId.HERBIVORE:
+      return 'Herbivore';
+    case TrophicCategoryId.OMNIVORE:
+      return 'Omnivore';
+    case TrophicCategoryId.CARNIVORE:
+      return 'Carnivore';
+    default:
+      return foodchainLevel === 1 ? 'Producer' : foodchainLevel === 2 ? 'Herbivore' : 'Carnivore';
+  }
+}
+
+/**
+ * Create a Phylo card instance from card data
+ */
+export function createPhyloCard(cardData: CardData, instanceId: string): PhyloCard {
+  return {
+    id: instanceId,
+    cardId: cardData.cardId,
+    nameId: cardData.nameId,
+    phyloAttributes: derivePhyloAttributes(cardData)
+  };
+}
+
+/**
+ * Create a player's HOME card: compatible with every terrain, climate and foodchain level 1 card
+ */
+export function createPhyloHomeCard(playerId: string): PhyloCard {
+  return {
+    id: `home_${playerId}`,
+    cardId: 0,
+    nameId: CardNameId.CARD_HOME,
+    phyloAttributes: {
+      terrains: [...ALL_TERRAINS],
+      climates: [...ALL_CLIMATES],
+      foodchainLevel: 0,
+      scale: 0,
+      dietType: 'Producer',
+      movementCapability: {
+        moveValue: 0,
+        canFly: false,
+        canSwim: false,
+        canBurrow: false
+      },
+      specialKeywords: ['HOME'],
+      pointValue: 0,
+      conservationStatus: 'Not Applicable',
+      compatibilityNotes: 'HOME card - compatible with all FC#1 cards'
+    }
+  };
+}
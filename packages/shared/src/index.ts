@@ -17,6 +17,8 @@ export * from './types';
 // Export shared utilities
 export * from './utils/cardIdHelpers';
 export { SeededRandom } from './utils/SeededRandom';
+export { diffState, applyStatePatch, applyGameStatePatch } from './utils/statePatch';
+export type { StatePatchOperation, GameStatePatch, VersionedState } from './utils/statePatch';
 
 // Export services
 export { UnifiedPackGenerationService } from './services/packGenerationService';
@@ -39,10 +41,19 @@ export { GameMode } from './game-engine/IGameEngine';
 export { BaseGameEngine } from './game-engine/BaseGameEngine';
 export { TCGEngine } from './game-engine/TCGEngine';
 export { PhyloEngine } from './game-engine/PhyloEngine';
+export * from './game-engine/phylo/PhyloCards';
+export * from './game-engine/phylo/PhyloCompatibility';
+export * from './game-engine/phylo/PhyloEcosystem';
+export * from './game-engine/phylo/PhyloEvents';
+export * from './game-engine/phylo/PhyloScoring';
 export { GameEngineFactory, gameEngineFactory, createTCGEngine, createPhyloEngine } from './game-engine/GameEngineFactory';
 
 // Export legacy engine for backward compatibility
 export { BioMastersEngine } from './game-engine/BioMastersEngine';
+export type { PlayerAction, ResolvedTrigger } from './game-engine/BioMastersEngine';
+export { buildReplayFrames } from './game-engine/MatchReplay';
+export type { ReplayFrame } from './game-engine/MatchReplay';
+export { ACTION_REGISTRY, EFFECT_REGISTRY, getActionId, getEffectId, getSelectorId, isRegisteredAction, isRegisteredEffect, validateAbilityEffects } from './game-engine/EffectRegistry';
 
 // Export services
 export * from './services/TaxonomyFilter';
@@ -54,6 +65,8 @@ export * from './localization-manager';
 // Export AI components
 export * from './ai/AIStrategy';
 export * from './ai/AIStrategyFactory';
+export * from './ai/StateEvaluator';
+export * from './ai/AIPersonality';
 
 // Export text IDs and taxonomy mapping
 export {
@@ -70,6 +83,7 @@ export {
   TaxonomyId
 } from './text-ids';
 export type { LanguageInfo } from './text-ids';
+export * from './quick-chat';
 export { TaxonomyMapper } from './taxonomy-mapping';
 
 // Re-export commonly used combinations for convenience
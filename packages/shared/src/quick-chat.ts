@@ -0,0 +1,48 @@
+/**
+ * BioMasters TCG - Quick Chat
+ *
+ * The fixed set of quick-chat lines and emotes players can send during online matches.
+ * Every option is a localized UI text, and free text is never accepted, so nothing sent needs moderation.
+ */
+
+import { UITextId } from './text-ids';
+
+export type QuickChatKind = 'message' | 'emote';
+
+export interface QuickChatOption {
+  textId: UITextId;
+  kind: QuickChatKind;
+  symbol?: string; // Shown on the board for emotes; the text is their accessible label
+}
+
+export const QUICK_CHAT_OPTIONS: readonly QuickChatOption[] = [
+  { textId: UITextId.UI_QUICK_CHAT_HELLO, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_GOOD_LUCK, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_NICE_MOVE, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_THINKING, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_OOPS, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_THANKS, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_WELL_PLAYED, kind: 'message' },
+  { textId: UITextId.UI_QUICK_CHAT_GOOD_GAME, kind: 'message' },
+  { textId: UITextId.UI_EMOTE_THUMBS_UP, kind: 'emote', symbol: '👍' },
+  { textId: UITextId.UI_EMOTE_LAUGH, kind: 'emote', symbol: '😄' },
+  { textId: UITextId.UI_EMOTE_WOW, kind: 'emote', symbol: '😮' },
+  { textId: UITextId.UI_EMOTE_SAD, kind: 'emote', symbol: '😢' },
+  { textId: UITextId.UI_EMOTE_SPROUT, kind: 'emote', symbol: '🌱' },
+  { textId: UITextId.UI_EMOTE_PAW, kind: 'emote', symbol: '🐾' }
+];
+
+/**
+ * A quick-chat line or emote one player sent to everyone in their match
+ */
+export interface QuickChatMessage {
+  sessionId: string;
+  playerId: string;
+  textId: UITextId;
+  kind: QuickChatKind;
+  sentAt: number;
+}
+
+export function getQuickChatOption(textId: string): QuickChatOption | undefined {
+  return QUICK_CHAT_OPTIONS.find(option => option.textId === textId);
+}
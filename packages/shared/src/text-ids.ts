@@ -1094,7 +1094,56 @@ export enum UITextId {
   UI_FAILED_TO_ACCEPT_MATCH = 'UI_FAILED_TO_ACCEPT_MATCH',
   UI_MATCH_DECLINED = 'UI_MATCH_DECLINED',
   UI_FAILED_TO_START_MATCHMAKING = 'UI_FAILED_TO_START_MATCHMAKING',
-  UI_ERROR_NO_SESSION_ID = 'UI_ERROR_NO_SESSION_ID'
+  UI_ERROR_NO_SESSION_ID = 'UI_ERROR_NO_SESSION_ID',
+
+  // Spectating
+  UI_WATCH = 'UI_WATCH',
+  UI_LIVE_MATCHES = 'UI_LIVE_MATCHES',
+  UI_NO_LIVE_MATCHES = 'UI_NO_LIVE_MATCHES',
+  UI_REFRESH_LIVE_MATCHES = 'UI_REFRESH_LIVE_MATCHES',
+  UI_SPECTATE = 'UI_SPECTATE',
+  UI_TURN_NUMBER = 'UI_TURN_NUMBER',
+  UI_SPECTATOR_DELAY = 'UI_SPECTATOR_DELAY',
+  UI_FAILED_TO_LOAD_LIVE_MATCHES = 'UI_FAILED_TO_LOAD_LIVE_MATCHES',
+
+  // Quick chat and emotes
+  UI_QUICK_CHAT = 'UI_QUICK_CHAT',
+  UI_QUICK_CHAT_HELLO = 'UI_QUICK_CHAT_HELLO',
+  UI_QUICK_CHAT_GOOD_LUCK = 'UI_QUICK_CHAT_GOOD_LUCK',
+  UI_QUICK_CHAT_NICE_MOVE = 'UI_QUICK_CHAT_NICE_MOVE',
+  UI_QUICK_CHAT_THINKING = 'UI_QUICK_CHAT_THINKING',
+  UI_QUICK_CHAT_OOPS = 'UI_QUICK_CHAT_OOPS',
+  UI_QUICK_CHAT_THANKS = 'UI_QUICK_CHAT_THANKS',
+  UI_QUICK_CHAT_WELL_PLAYED = 'UI_QUICK_CHAT_WELL_PLAYED',
+  UI_QUICK_CHAT_GOOD_GAME = 'UI_QUICK_CHAT_GOOD_GAME',
+  UI_EMOTE_THUMBS_UP = 'UI_EMOTE_THUMBS_UP',
+  UI_EMOTE_LAUGH = 'UI_EMOTE_LAUGH',
+  UI_EMOTE_WOW = 'UI_EMOTE_WOW',
+  UI_EMOTE_SAD = 'UI_EMOTE_SAD',
+  UI_EMOTE_SPROUT = 'UI_EMOTE_SPROUT',
+  UI_EMOTE_PAW = 'UI_EMOTE_PAW',
+  UI_MUTE_PLAYER = 'UI_MUTE_PLAYER',
+  UI_UNMUTE_PLAYER = 'UI_UNMUTE_PLAYER',
+  UI_QUICK_CHAT_SLOW_DOWN = 'UI_QUICK_CHAT_SLOW_DOWN',
+
+  // Ranked seasons
+  UI_TIER_PLACEMENT = 'UI_TIER_PLACEMENT',
+  UI_TIER_TUNDRA = 'UI_TIER_TUNDRA',
+  UI_TIER_DESERT = 'UI_TIER_DESERT',
+  UI_TIER_GRASSLAND = 'UI_TIER_GRASSLAND',
+  UI_TIER_TAIGA = 'UI_TIER_TAIGA',
+  UI_TIER_TEMPERATE_FOREST = 'UI_TIER_TEMPERATE_FOREST',
+  UI_TIER_CORAL_REEF = 'UI_TIER_CORAL_REEF',
+  UI_TIER_RAINFOREST = 'UI_TIER_RAINFOREST',
+  UI_PLACEMENT_PROGRESS = 'UI_PLACEMENT_PROGRESS',
+  UI_NO_SEASON_STANDING = 'UI_NO_SEASON_STANDING',
+
+  // Reconnecting
+  UI_CONNECTION_LOST_RECONNECTING = 'UI_CONNECTION_LOST_RECONNECTING',
+  UI_OPPONENT_DISCONNECTED = 'UI_OPPONENT_DISCONNECTED',
+  UI_OPPONENT_DISCONNECTED_GRACE = 'UI_OPPONENT_DISCONNECTED_GRACE',
+  UI_AI_TOOK_YOUR_SEAT = 'UI_AI_TOOK_YOUR_SEAT',
+  UI_AI_TOOK_PLAYER_SEAT = 'UI_AI_TOOK_PLAYER_SEAT'
 }
 
 // ============================================================================
@@ -18,6 +18,10 @@ import {
   AbilityId,
   UserType,
   AcquisitionMethod,
+  DeckFormat,
+  SeasonTier,
+  FriendshipStatus,
+  PresenceStatus,
   CardCondition,
   SyncStatus,
   GameActionType,
@@ -323,6 +327,7 @@ export interface TCGPlayer extends BasePlayer {
   // Deck selection properties (online matches only)
   selectedDeckId?: string; // ID of the deck chosen for this match
   hasDeckSelected?: boolean; // Whether player has selected a deck
+  teamId?: string; // Team the player plays for (team games only)
 }
 
 /**
@@ -369,6 +374,68 @@ export interface TCGGameState extends BaseGameState {
   // Deck selection phase properties (online matches only)
   deckSelectionTimeRemaining?: number; // Seconds remaining for deck selection
   deckSelectionDeadline?: number; // Timestamp when deck selection ends
+  pendingChoice?: PendingChoice; // Set while an ability waits for a player decision
+  challengeHistory?: ChallengeRecord[]; // Resolved scientific challenges, oldest first
+}
+
+/**
+ * What a scientific challenge disputes about a placed card
+ */
+export type ChallengeClaim =
+  | 'diet'    // The card has no valid food link: no prey one trophic level down and no preferred diet
+  | 'domain'; // The card touches a card from an incompatible domain
+
+/**
+ * A resolved scientific challenge
+ */
+export interface ChallengeRecord {
+  challengerId: string;
+  targetPlayerId: string;
+  targetInstanceId: string;
+  targetCardId: CardId;
+  claim: ChallengeClaim;
+  outcome: 'upheld' | 'overturned'; // Upheld: the placement was wrong; overturned: the challenger was wrong
+  reason: string;
+  turnNumber: number;
+}
+
+/**
+ * A game event waiting in the trigger queue
+ */
+export interface TriggerEvent {
+  triggerId: TriggerId;
+  playerId: string; // Owner of the source card, or the active player for turn events
+  sourceCard?: CardInstance; // Card the event happened to (absent for turn events)
+}
+
+/**
+ * What a pending choice picks from
+ */
+export type ChoiceKind =
+  | 'grid_card'  // Options are instance IDs of cards on the grid
+  | 'hand_card'; // Options are card IDs in the choosing player's hand
+
+/**
+ * A decision an ability is waiting on. The game is paused until the choosing player
+ * answers with a RESOLVE_CHOICE action selecting between minSelections and maxSelections options.
+ */
+export interface PendingChoice {
+  choiceId: string;
+  playerId: string; // Player who must choose
+  kind: ChoiceKind;
+  options: string[];
+  minSelections: number;
+  maxSelections: number;
+  abilityId: number;
+  sourceCard: CardInstance; // Snapshot of the card whose ability is waiting
+  targetInstanceId?: string; // Target the ability was activated with, if any
+  effectIndex: number; // Effect that asked for the choice; resolution resumes here
+  // Trigger resolution suspended by the choice
+  pausedTrigger?: {
+    event: TriggerEvent;
+    remainingListeners: Array<{ instanceId: string; abilityId: number }>;
+  };
+  queuedTriggers: TriggerEvent[];
 }
 
 /**
@@ -376,12 +443,12 @@ export interface TCGGameState extends BaseGameState {
  */
 export interface PhyloGameState extends BaseGameState {
   players: PhyloPlayer[];
-  gameBoard: any; // PhyloGameBoard - will be defined when needed
-  cards: Map<string, any>; // Card map for Phylo mode
+  gameBoard: PhyloGameBoard;
+  cards: Map<string, PhyloCard>; // Card instance ID -> card, including HOME cards
   gamePhase: 'setup' | 'playing' | 'event_reaction' | 'challenge_phase' | 'game_over';
   actionHistory: any[]; // GameAction[] - will be typed when needed
-  pendingChallenges: any[]; // ScientificChallenge[] - will be typed when needed
-  eventDeck: any[]; // EventCard[] - will be typed when needed
+  pendingChallenges: ScientificChallenge[]; // Every challenge raised this game, resolved or not
+  eventDeck: PhyloEventCard[];
   gameSettings: PhyloGameSettings; // Override with Phylo-specific settings
   gameStats: {
     gameStartTime: number;
@@ -392,6 +459,114 @@ export interface PhyloGameState extends BaseGameState {
   environment?: string; // Environment/habitat setting
 }
 
+/**
+ * Phylo domino-style attributes of a card
+ */
+export interface PhyloAttributes {
+  terrains: string[];
+  climates: string[];
+  foodchainLevel: number;
+  scale: number; // 1-10, from smallest to largest
+  dietType: string; // 'Producer' | 'Herbivore' | 'Carnivore' | 'Omnivore'
+  movementCapability: {
+    moveValue: number;
+    canFly: boolean;
+    canSwim: boolean;
+    canBurrow: boolean;
+  };
+  specialKeywords: string[]; // 'HOME', 'INVASIVE', 'PARASITIC', 'POLLINATOR'
+  pointValue: number;
+  conservationStatus: string; // IUCN status name, e.g. 'Endangered'
+  compatibilityNotes: string;
+}
+
+/**
+ * The part of a card the Phylo rules read. Frontend cards satisfy it as-is.
+ */
+export interface PhyloCard {
+  id: string; // Unique instance ID, also the key on the board
+  cardId: number;
+  nameId: string;
+  phyloAttributes?: PhyloAttributes;
+}
+
+/**
+ * A card placed on the Phylo board
+ */
+export interface PhyloCardPosition {
+  x: number;
+  y: number;
+  cardId: string; // Card instance ID
+  playerId: string;
+}
+
+/**
+ * Phylo board: placed cards and the food web links between them
+ */
+export interface PhyloGameBoard {
+  positions: Map<string, PhyloCardPosition>; // key: "x,y"
+  connections: Map<string, string[]>; // key: card instance ID, value: connected card instance IDs
+  homeCards: PhyloCardPosition[];
+}
+
+export interface PhyloCompatibility {
+  environmental: boolean; // terrain + climate match
+  foodchain: boolean; // foodchain level compatibility
+  scale: boolean; // scale requirements for carnivores
+}
+
+export interface PhyloPlacementValidation {
+  isValid: boolean;
+  compatibility: PhyloCompatibility;
+  adjacentCards: string[];
+  errorMessage?: string;
+}
+
+/**
+ * A scientific claim one Phylo player raises about another player's card
+ */
+export interface ScientificChallenge {
+  challengerId: string;
+  targetCardId: string;
+  targetPlayerId: string;
+  claimType: 'habitat' | 'diet' | 'behavior' | 'conservation_status' | 'scale';
+  evidence: string;
+  timeLimit: number; // milliseconds
+  resolved: boolean;
+  outcome?: 'upheld' | 'overturned' | 'inconclusive';
+  pointsAwarded?: number;
+}
+
+/**
+ * Phylo event card - an environmental event that reshapes the board
+ */
+export interface PhyloEventCard {
+  id: string;
+  name: string;
+  description: string;
+  eventType: 'environmental' | 'climate' | 'human' | 'natural_disaster' | 'conservation';
+  targetCriteria: {
+    terrains?: string[];
+    climates?: string[];
+    scaleRange?: { min: number; max: number };
+    foodchainLevels?: number[];
+    dietTypes?: string[];
+    specialKeywords?: string[];
+  };
+  effects: PhyloEventEffect[];
+  reactionWindow: number; // milliseconds for opponent reactions
+  artwork: string;
+  flavorText: string;
+}
+
+export interface PhyloEventEffect {
+  type: 'remove_cards' | 'move_cards' | 'modify_stats' | 'break_connections' | 'force_migration' | 'habitat_loss';
+  magnitude: number; // 1-5 scale of severity
+  duration?: number; // for temporary effects (turns)
+  cascadeChance: number; // 0-1 probability of triggering cascade effects
+  description: string;
+}
+
 /**
  * Default GameState interface - TCG GameState for backward compatibility
  */
@@ -414,6 +589,94 @@ export interface TCGGameSettings extends BaseGameSettings {
   gridHeight: number;
   maxHandSize: number;
   startingEnergy: number; // Starting energy for players
+  teams?: TeamSettings[]; // Team games only; allies share HOME, chains and score
+}
+
+/**
+ * One team in a team game, e.g. a 2v2 side
+ */
+export interface TeamSettings {
+  id: string;
+  playerIds: string[];
+}
+
+/**
+ * Host-chosen settings for a private lobby
+ */
+export interface LobbySettings extends Pick<TCGGameSettings, 'gridWidth' | 'gridHeight' | 'startingHandSize' | 'maxHandSize'> {
+  turnTimeLimit: number; // seconds in each player's time bank
+  deckFormat: DeckFormat;
+}
+
+/**
+ * Chess-clock timing for online games: each player's bank only runs on their own turn,
+ * and every finished turn adds the increment back
+ */
+export interface TimeControl {
+  initialBankSeconds: number;
+  incrementSeconds: number;
+}
+
+/**
+ * Time left in every player's bank, sent with each turn change
+ */
+export interface TimeBankSnapshot {
+  activePlayerId: string | null;
+  banks: Record<string, number>; // seconds, by player ID
+  initialBankSeconds: number;
+  incrementSeconds: number;
+}
+
+/**
+ * A ranked season; ratings are softly reset between seasons
+ */
+export interface RankedSeason {
+  id: number;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  isActive: boolean;
+}
+
+/**
+ * A player's place in one season and game mode
+ */
+export interface SeasonStanding {
+  seasonId: number;
+  gameMode: string;
+  rating: number;
+  peakRating: number;
+  tier: SeasonTier;
+  gamesPlayed: number;
+  gamesWon: number;
+  placementGamesRemaining: number;
+}
+
+/**
+ * Another player on someone's friends list, including requests still waiting for an answer
+ */
+export interface FriendEntry {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  status: FriendshipStatus;
+  direction: 'incoming' | 'outgoing'; // Who sent the request (or who blocked)
+  presence: PresenceStatus;
+  since: Date;
+}
+
+/**
+ * A direct challenge: a private lobby opened for one friend to join
+ */
+export interface FriendChallenge {
+  sessionId: string;
+  joinCode: string;
+  gameMode: string;
+  fromUserId: string;
+  fromName: string;
+  toUserId: string;
+  createdAt: Date;
 }
 
 /**
@@ -425,6 +688,8 @@ export interface PhyloGameSettings extends BaseGameSettings {
   eventFrequency: number; // 0-1, probability of event each turn
   allowChallenges: boolean;
   deckSize: number;
+  gridWidth?: number; // Board bounds for placement and movement
+  gridHeight?: number;
 }
 
 /**
@@ -440,6 +705,8 @@ export interface GameMetadata {
   startedAt?: Date;
   endedAt?: Date;
   totalTurns?: number;
+  rngSeed?: string; // Seed the game's random stream started from
+  rngState?: number; // Current position in the random stream
   [key: string]: any;
 }
 
@@ -472,7 +739,7 @@ export interface GameAction extends BaseGameAction {
 export interface PhyloGameAction extends Omit<BaseGameAction, 'type' | 'timestamp' | 'payload'> {
   id: string; // Required for Phylo mode
   timestamp: number; // Required as number for Phylo
-  type: 'place_card' | 'move_card' | 'play_event' | 'challenge' | 'pass_turn' | 'react_to_event' | 'drop_and_draw';
+  type: 'place_card' | 'move_card' | 'play_event' | 'challenge' | 'pass_turn' | 'react_to_event' | 'drop_and_draw' | 'resolve_choice' | 'activate_ability' | 'metamorphosis';
   data: any; // Phylo uses 'data' instead of 'payload'
   result?: 'success' | 'failure' | 'pending';
   errorMessage?: string;
@@ -535,6 +802,35 @@ export interface PlayerReadyAction extends BaseGameAction {
   payload: {};
 }
 
+/**
+ * Resolve choice action - answers the game state's pendingChoice
+ */
+export interface ResolveChoiceAction extends BaseGameAction {
+  type: GameActionType.RESOLVE_CHOICE;
+  payload: {
+    choiceId: string;
+    selections: string[];
+  };
+}
+
+/**
+ * One accepted action in a match's append-only log
+ */
+export interface ActionLogEntry {
+  version: number; // Position in the session log, starting at 1
+  action: GameAction;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * Everything needed to replay a match: the state it started from and every accepted action in order
+ */
+export interface MatchReplay {
+  sessionId: string;
+  initialState: GameState;
+  actions: ActionLogEntry[];
+}
+
 
 /**
  * Game effect (visual/audio feedback)
@@ -1306,14 +1602,28 @@ export interface MatchmakingRequest {
   playerId: string;
   gameMode: string;
   rating: number;
-  preferences: {
-    maxWaitTime?: number;
-    regionPreference?: string;
-  };
+  deviation?: number; // Glicko-2 rating deviation; uncertain ratings get wider match windows
+  preferences: MatchmakingPreferences;
   requestId: string;
   timestamp: number;
 }
 
+/**
+ * Round-trip time bands players are grouped by, so a fast connection is not paired with a slow one
+ */
+export type LatencyBucket = 'low' | 'medium' | 'high';
+
+/**
+ * Optional matchmaking constraints sent with a request
+ */
+export interface MatchmakingPreferences {
+  maxWaitTime?: number;
+  regionPreference?: string;
+  latencyBucket?: LatencyBucket;
+  partyId?: string; // Party members queue with the same ID and are kept on one team
+  partySize?: number;
+}
+
 /**
  * Match found notification
  */
@@ -1322,6 +1632,8 @@ export interface MatchFound {
   players: Array<{
     playerId: string;
     rating: number;
+    team?: string; // Team games only
+    isAI?: boolean; // Server AI seat filling the match
   }>;
   gameMode: string;
   estimatedStartTime: number;
@@ -1334,8 +1646,9 @@ export interface MatchmakingQueueEntry {
   playerId: string;
   gameMode: string;
   rating: number;
+  deviation?: number;
   timestamp: number;
-  preferences: Record<string, any>;
+  preferences: MatchmakingPreferences;
 }
 
 /**
@@ -65,6 +65,25 @@ export class SeededRandom {
     return Math.floor(this.next() * (max - min)) + min;
   }
 
+  /**
+   * Current position in the sequence, so a stream can be saved and resumed later
+   * @returns Internal generator state
+   */
+  getState(): number {
+    return this.seed;
+  }
+
+  /**
+   * Resume a stream from a state returned by getState()
+   * @param state Internal generator state
+   * @returns Generator that continues the saved sequence
+   */
+  static fromState(state: number): SeededRandom {
+    const rng = new SeededRandom('');
+    rng.seed = state;
+    return rng;
+  }
+
   /**
    * Select random element from array
    * @param array Array to select from
@@ -0,0 +1,157 @@
+/**
+ * Versioned game-state patches
+ *
+ * The server sends each client the JSON-patch style difference between the last
+ * state it saw and the new one, tagged with a state version. A client applies a
+ * patch only when it holds the patch's base version; otherwise it asks for a full
+ * resync. Values are compared by their JSON form, so serialize Maps first
+ * (deepSerialize) and treat undefined properties as absent.
+ */
+
+/**
+ * One JSON-patch (RFC 6902) operation; paths are JSON pointers
+ */
+export interface StatePatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * Patch that moves a client from baseVersion to version
+ */
+export interface GameStatePatch {
+  baseVersion: number;
+  version: number;
+  operations: StatePatchOperation[];
+}
+
+/**
+ * State a client holds, with the version it was synced at
+ */
+export interface VersionedState<T = unknown> {
+  version: number;
+  state: T;
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const escapePointer = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapePointer = (token: string): string => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const cloneValue = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * List the operations that turn `before` into `after`
+ */
+export function diffState(before: unknown, after: unknown, path: string = ''): StatePatchOperation[] {
+  if (before === after) {
+    return [];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const operations: StatePatchOperation[] = [];
+    const shared = Math.min(before.length, after.length);
+
+    for (let i = 0; i < shared; i++) {
+      operations.push(...diffState(before[i], after[i], `${path}/${i}`));
+    }
+    for (let i = shared; i < after.length; i++) {
+      operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = before.length - 1; i >= after.length; i--) {
+      operations.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return operations;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const operations: StatePatchOperation[] = [];
+
+    for (const [key, value] of Object.entries(before)) {
+      if (value !== undefined && after[key] === undefined) {
+        operations.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (value === undefined) continue;
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (before[key] === undefined) {
+        operations.push({ op: 'add', path: childPath, value });
+      } else {
+        operations.push(...diffState(before[key], value, childPath));
+      }
+    }
+    return operations;
+  }
+
+  return [{ op: 'replace', path, value: after }];
+}
+
+/**
+ * Apply operations to a copy of `document`; the original is left untouched
+ */
+export function applyStatePatch<T>(document: T, operations: StatePatchOperation[]): T {
+  let result: unknown = cloneValue(document);
+
+  for (const operation of operations) {
+    if (operation.path === '') {
+      if (operation.op === 'remove') {
+        throw new Error('Cannot remove the whole state');
+      }
+      result = cloneValue(operation.value);
+      continue;
+    }
+
+    const tokens = operation.path.split('/').slice(1).map(unescapePointer);
+    const key = tokens.pop()!;
+    let parent: unknown = result;
+    for (const token of tokens) {
+      parent = Array.isArray(parent) ? parent[Number(token)] : isObject(parent) ? parent[token] : undefined;
+    }
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Invalid patch path: ${operation.path}`);
+      }
+      if (operation.op === 'add') {
+        parent.splice(index, 0, cloneValue(operation.value));
+      } else if (operation.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = cloneValue(operation.value);
+      }
+    } else if (isObject(parent)) {
+      if (operation.op === 'remove') {
+        delete parent[key];
+      } else {
+        parent[key] = cloneValue(operation.value);
+      }
+    } else {
+      throw new Error(`Invalid patch path: ${operation.path}`);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Move a synced state forward by one patch. Returns null when the client is not at
+ * the patch's base version and needs a full resync.
+ */
+export function applyGameStatePatch<T>(current: VersionedState<T> | undefined, patch: GameStatePatch): VersionedState<T> | null {
+  if (!current || current.version !== patch.baseVersion) {
+    return null;
+  }
+
+  return {
+    version: patch.version,
+    state: applyStatePatch(current.state, patch.operations)
+  };
+}
@@ -18,6 +18,7 @@ import { App as CapacitorApp } from '@capacitor/app';
 import DeckBuilder from './components/collection/DeckBuilder';
 import BattleModeSelector from './components/battle/BattleModeSelector';
 import BattlePage from './pages/BattlePage';
+import ReplayPage from './pages/ReplayPage';
 import MainMenu from './pages/MainMenu';
 import PackOpening from './pages/PackOpening';
 import AuthPage from './pages/AuthPage';
@@ -256,6 +257,9 @@ const AppContent: React.FC = () => {
               <Route path="/battle/:sessionId">
                 <BattlePage />
               </Route>
+              <Route path="/replay/:sessionId">
+                <ReplayPage />
+              </Route>
               <Route exact path="/packs">
                 <PackOpening />
               </Route>
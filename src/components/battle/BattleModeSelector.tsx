@@ -24,6 +24,8 @@ import {
   IonItem,
   IonLabel,
   IonList,
+  IonSegment,
+  IonSegmentButton,
 } from '@ionic/react';
 import {
   arrowBack,
@@ -34,15 +36,18 @@ import {
   book,
   rocket,
   leaf,
-  paw
+  paw,
+  construct
 } from 'ionicons/icons';
 
 import BattleScreen from './BattleScreen'; // Phylo mode
 import TCGBattleScreen from './TCGBattleScreen'; // TCG mode
+import { AIDifficulty, AIStrategyFactory } from '@kelseyabreu/shared';
 
 export enum GameMode {
   PHYLO = 'phylo',
-  TCG = 'tcg'
+  TCG = 'tcg',
+  SANDBOX = 'sandbox'
 }
 
 interface BattleModeSelectorProps {
@@ -52,6 +57,7 @@ interface BattleModeSelectorProps {
 export const BattleModeSelector: React.FC<BattleModeSelectorProps> = ({ onExit }) => {
   const [selectedMode, setSelectedMode] = useState<GameMode | null>(null);
   const [showModeSelector, setShowModeSelector] = useState(true);
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>(AIDifficulty.EASY);
 
   // Handle mode selection
   const handleModeSelect = (mode: GameMode) => {
@@ -71,7 +77,9 @@ export const BattleModeSelector: React.FC<BattleModeSelectorProps> = ({ onExit }
       case GameMode.PHYLO:
         return <BattleScreen onExit={handleBackToSelector} />;
       case GameMode.TCG:
-        return <TCGBattleScreen onExit={handleBackToSelector} />;
+        return <TCGBattleScreen aiDifficulty={aiDifficulty} onExit={handleBackToSelector} />;
+      case GameMode.SANDBOX:
+        return <TCGBattleScreen isSandbox onExit={handleBackToSelector} />;
       default:
         return null;
     }
@@ -242,9 +250,24 @@ export const BattleModeSelector: React.FC<BattleModeSelectorProps> = ({ onExit }
               <IonCardTitle>Quick Start</IonCardTitle>
             </IonCardHeader>
             <IonCardContent>
+              {/* Opponent strength for offline TCG battles */}
+              <IonSegment
+                value={aiDifficulty}
+                onIonChange={(e) => setAIDifficulty(e.detail.value as AIDifficulty)}
+              >
+                {AIStrategyFactory.getAvailableDifficulties().map(difficulty => (
+                  <IonSegmentButton key={difficulty} value={difficulty}>
+                    <IonLabel>{AIStrategyFactory.getDifficultyDisplayName(difficulty)}</IonLabel>
+                  </IonSegmentButton>
+                ))}
+              </IonSegment>
+              <p style={{ textAlign: 'center', color: 'var(--ion-color-medium)', fontSize: '14px' }}>
+                AI opponent: {AIStrategyFactory.getDifficultyDescription(aiDifficulty)}
+              </p>
+
               <IonGrid>
                 <IonRow>
-                  <IonCol size="6">
+                  <IonCol size="4">
                     <IonButton
                       expand="block"
                       fill="outline"
@@ -255,7 +278,7 @@ export const BattleModeSelector: React.FC<BattleModeSelectorProps> = ({ onExit }
                       Learn Mode
                     </IonButton>
                   </IonCol>
-                  <IonCol size="6">
+                  <IonCol size="4">
                     <IonButton
                       expand="block"
                       fill="outline"
@@ -266,6 +289,17 @@ export const BattleModeSelector: React.FC<BattleModeSelectorProps> = ({ onExit }
                       Battle Mode
                     </IonButton>
                   </IonCol>
+                  <IonCol size="4">
+                    <IonButton
+                      expand="block"
+                      fill="outline"
+                      color="tertiary"
+                      onClick={() => handleModeSelect(GameMode.SANDBOX)}
+                    >
+                      <IonIcon icon={construct} slot="start" />
+                      Sandbox
+                    </IonButton>
+                  </IonCol>
 
                 </IonRow>
               </IonGrid>
@@ -36,13 +36,13 @@ import { useHybridGameStore } from '../../state/hybridGameStore';
 import { getCollectionStats, cardIdToNameId } from '@kelseyabreu/shared';
 import { EcosystemBoard } from '../game/EcosystemBoard';
 import { TutorialSystem } from '../tutorial/TutorialSystem';
+import TCGBattleScreen from './TCGBattleScreen';
 import EnhancedHandCard from '../cards/EnhancedHandCard';
 import { calculatePlacementHighlights, calculateMovementHighlights, convertHighlightsToPositions } from '../../game-logic/positionHighlighting';
 import { calculateEventTargets, convertEventHighlightsToPositions, getEventAction } from '../../game-logic/eventTargeting';
-import { AIDifficulty } from '../../game-logic/aiOpponent';
 import { Card, createCardWithDefaults, TrophicRole, Habitat, ConservationStatus } from '../../types';
 import { useUILocalization } from '../../hooks/useCardLocalization';
-import { UITextId } from '@kelseyabreu/shared';
+import { AIDifficulty, UITextId, getAIPersonality } from '@kelseyabreu/shared';
 
 type GameMode = 'campaign' | 'online' | 'scenarios' | 'tutorial';
 type BattlePhase = 'mode_selection' | 'lobby' | 'game_setup' | 'playing' | 'game_over';
@@ -52,6 +52,7 @@ interface CampaignLevel {
   name: string;
   description: string;
   difficulty: AIDifficulty;
+  aiPersonalityId: string; // The level's named opponent, see getAIPersonality
   unlocked: boolean;
   completed: boolean;
   stars: number;
@@ -59,6 +60,14 @@ interface CampaignLevel {
   rewards: string[];
 }
 
+/**
+ * "Name, Title" of a level's AI opponent
+ */
+function getOpponentLabel(aiPersonalityId: string): string | null {
+  const personality = getAIPersonality(aiPersonalityId);
+  return personality ? `${personality.name}, ${personality.title}` : null;
+}
+
 interface BattleScreenProps {
   onExit?: () => void;
 }
@@ -85,7 +94,6 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
   // Get collection state
   const {
     offlineCollection,
-    setActiveBattle,
     clearActiveBattle,
   } = useHybridGameStore();
 
@@ -243,6 +251,7 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
         name: getUIText(UITextId.UI_FOREST_ECOSYSTEM_BASICS),
         description: getUIText(UITextId.UI_FOREST_DESCRIPTION),
         difficulty: AIDifficulty.EASY,
+        aiPersonalityId: 'conservationist',
         unlocked: true,
         completed: false,
         stars: 0,
@@ -254,6 +263,7 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
         name: getUIText(UITextId.UI_OCEAN_DEPTHS_CHALLENGE),
         description: getUIText(UITextId.UI_OCEAN_DESCRIPTION),
         difficulty: AIDifficulty.EASY,
+        aiPersonalityId: 'marine-specialist',
         unlocked: true,
         completed: false,
         stars: 0,
@@ -265,6 +275,7 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
         name: getUIText(UITextId.UI_GRASSLAND_BALANCE),
         description: getUIText(UITextId.UI_GRASSLAND_DESCRIPTION),
         difficulty: AIDifficulty.MEDIUM,
+        aiPersonalityId: 'decomposer-engine',
         unlocked: false,
         completed: false,
         stars: 0,
@@ -276,6 +287,7 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
         name: 'Arctic Survival',
         description: 'Build resilient ecosystems in harsh arctic conditions.',
         difficulty: AIDifficulty.MEDIUM,
+        aiPersonalityId: 'apex-predator',
         unlocked: false,
         completed: false,
         stars: 0,
@@ -287,6 +299,7 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
         name: 'Ecosystem Master',
         description: 'The ultimate challenge - build a complex multi-biome ecosystem.',
         difficulty: AIDifficulty.HARD,
+        aiPersonalityId: 'apex-predator',
         unlocked: false,
         completed: false,
         stars: 0,
@@ -366,28 +379,16 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
       return;
     }
 
+    // The level is played against its named opponent, who brings their own deck and play style
     console.log('🎯 Setting selected level and battle phase...');
     setSelectedLevel(level);
-    setBattlePhase('game_setup');
-
-    // Set active battle state
-    console.log('🎯 Setting active battle state...');
-    setActiveBattle({
-      sessionId: `campaign_${level.id}_${Date.now()}`,
-      gameMode: 'campaign',
-      levelId: level.id,
-      isActive: true
-    });
+    setBattlePhase('playing');
+  };
 
-    console.log('🎯 Calling initializePhyloGame...');
-    console.log('🎯 Current battle phase before init:', battlePhase);
-    console.log('🎯 Is loading before init:', isLoading);
-    // Add a small delay to ensure state updates have processed
-    setTimeout(async () => {
-      console.log('🎯 About to call initializePhyloGame...');
-      await initializePhyloGame(level.difficulty);
-      console.log('🎯 initializePhyloGame completed');
-    }, 100);
+  // Leave a campaign battle for the level list
+  const returnToCampaignLevels = () => {
+    setSelectedLevel(null);
+    setBattlePhase('lobby');
   };
 
   // Initialize Phylo domino-style game using store action
@@ -788,6 +789,11 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
                           >
                             <IonLabel>{level.difficulty.toUpperCase()}</IonLabel>
                           </IonChip>
+                          {getOpponentLabel(level.aiPersonalityId) && (
+                            <IonChip color="tertiary">
+                              <IonLabel>{getOpponentLabel(level.aiPersonalityId)}</IonLabel>
+                            </IonChip>
+                          )}
                           {level.completed && (
                             <IonChip color="primary">
                               <IonIcon icon={star} />
@@ -812,6 +818,17 @@ const BattleScreen: React.FC<BattleScreenProps> = ({ onExit }) => {
     );
   }
 
+  // Campaign battle against the level's named opponent
+  if (battlePhase === 'playing' && selectedMode === 'campaign' && selectedLevel) {
+    return (
+      <TCGBattleScreen
+        aiDifficulty={selectedLevel.difficulty}
+        aiPersonalityId={selectedLevel.aiPersonalityId}
+        onExit={returnToCampaignLevels}
+      />
+    );
+  }
+
   // Game Setup Screen
   console.log('🎮 RENDER: Current battle phase:', battlePhase, 'isLoading:', isLoading);
   if (battlePhase === 'game_setup') {
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  IonButton,
+  IonIcon,
+  IonRange,
+  IonSpinner,
+  IonText
+} from '@ionic/react';
+import { playSkipBack, chevronBack, chevronForward, playSkipForward } from 'ionicons/icons';
+import { GameActionType, GamePhase, ReplayFrame, instanceIdToCardId } from '@kelseyabreu/shared';
+import { EcosystemBoard } from '../game/EcosystemBoard';
+import GameLog, { GameLogEntry } from './GameLog';
+import { Card, PhyloCardPosition, PhyloGameBoard } from '../../types';
+import { unifiedGameService } from '../../services/UnifiedGameService';
+import useHybridGameStore from '../../state/hybridGameStore';
+import { useLocalization } from '../../contexts/LocalizationContext';
+import './MatchReplayViewer.css';
+
+interface MatchReplayViewerProps {
+  sessionId: string;
+  onClose?: () => void;
+}
+
+// Replay actions shown with their GameLog wording
+const ACTION_LABELS: Partial<Record<GameActionType, string>> = {
+  [GameActionType.DROP_AND_DRAW_THREE]: 'Drop and Draw Three',
+  [GameActionType.CHALLENGE]: 'a scientific challenge',
+  [GameActionType.RESOLVE_CHOICE]: 'a choice',
+  [GameActionType.METAMORPHOSIS]: 'Metamorphosis',
+  [GameActionType.REMOVE_CARD]: 'Remove Card'
+};
+
+const MatchReplayViewer: React.FC<MatchReplayViewerProps> = ({ sessionId, onClose }) => {
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [step, setStep] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const allSpeciesCards = useHybridGameStore(state => state.allSpeciesCards);
+  const localization = useLocalization();
+
+  // Rebuild the match from the server's action log
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    unifiedGameService.loadMatchReplay(sessionId).then(result => {
+      if (cancelled) return;
+      if (result.isValid && result.newState) {
+        setFrames(result.newState);
+        setStep(0);
+      } else {
+        setError(result.errorMessage || 'Failed to load replay');
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const speciesById = useMemo(() => {
+    const species = new Map<number, Card>();
+    allSpeciesCards.forEach(card => species.set(card.cardId, card));
+    return species;
+  }, [allSpeciesCards]);
+
+  // Hand entries are card IDs offline and species instance IDs online
+  const getCardName = useCallback((cardId: unknown): string | undefined => {
+    const id = typeof cardId === 'string' && Number.isNaN(Number(cardId)) ? instanceIdToCardId(cardId) : Number(cardId);
+    const card = id === null ? undefined : speciesById.get(id);
+    return card ? localization.getCardName(card.nameId) : undefined;
+  }, [speciesById, localization]);
+
+  const frame = frames[step];
+
+  // Show the frame's grid on the ecosystem board
+  const { gameBoard, cards } = useMemo(() => {
+    const positions = new Map<string, PhyloCardPosition>();
+    const homeCards: PhyloCardPosition[] = [];
+    const boardCards = new Map<string, Card>();
+
+    if (frame) {
+      frame.state.grid.forEach((instance, key) => {
+        const position = { x: instance.position.x, y: instance.position.y, cardId: instance.instanceId, playerId: instance.ownerId };
+        positions.set(key, position);
+        if (instance.isHOME) homeCards.push(position);
+
+        const card = speciesById.get(instance.cardId);
+        if (card) boardCards.set(instance.instanceId, { ...card, id: instance.instanceId });
+      });
+    }
+
+    const board: PhyloGameBoard = { positions, connections: new Map(), homeCards };
+    return { gameBoard: board, cards: boardCards };
+  }, [frame, speciesById]);
+
+  // Log every action up to the current step
+  const logEntries = useMemo(() => {
+    const entries: GameLogEntry[] = [];
+
+    frames.slice(1, step + 1).forEach((replayFrame, index) => {
+      const { action, createdAt } = replayFrame.entry!;
+      if (action.type === GameActionType.PLAYER_READY) return;
+
+      const before = frames[index]!.state;
+      const player = before.players.find(p => p.id === action.playerId);
+      const base = {
+        id: `replay-${replayFrame.version}`,
+        timestamp: new Date(createdAt).getTime(),
+        turn: before.turnNumber,
+        playerId: action.playerId,
+        playerName: player?.name || action.playerId
+      };
+
+      switch (action.type) {
+        case GameActionType.PLAY_CARD:
+          entries.push({ ...base, action: 'play_card', details: { cardName: getCardName(action.payload?.cardId), position: action.payload?.position } });
+          break;
+        case GameActionType.MOVE_CARD: {
+          const moved = Array.from(before.grid.values()).find(card => card.instanceId === action.payload?.instanceId);
+          entries.push({
+            ...base,
+            action: 'move_card',
+            details: { cardName: getCardName(moved?.cardId), position: moved?.position, targetPosition: action.payload?.targetPosition }
+          });
+          break;
+        }
+        case GameActionType.PASS_TURN:
+          entries.push({ ...base, action: 'pass_turn', details: {} });
+          break;
+        default:
+          entries.push({ ...base, action: 'use_ability', details: { abilityName: ACTION_LABELS[action.type] || action.type } });
+      }
+    });
+
+    const last = frames[step];
+    if (last && last.state.gamePhase === GamePhase.ENDED) {
+      const winner = last.state.players.find(p => p.id === last.state.winner);
+      entries.push({
+        id: 'replay-end',
+        timestamp: last.entry ? new Date(last.entry.createdAt).getTime() : Date.now(),
+        turn: last.state.turnNumber,
+        playerId: last.state.winner || 'system',
+        playerName: winner?.name || 'system',
+        action: 'game_end',
+        details: { reason: winner ? `${winner.name} wins` : 'draw' }
+      });
+    }
+
+    return entries;
+  }, [frames, step, getCardName]);
+
+  if (isLoading) {
+    return (
+      <div className="match-replay-viewer loading">
+        <IonSpinner />
+        <IonText color="medium"><p>Loading replay...</p></IonText>
+      </div>
+    );
+  }
+
+  if (error || !frame) {
+    return (
+      <div className="match-replay-viewer error">
+        <IonText color="danger"><p>{error || 'This match has no replay'}</p></IonText>
+        {onClose && <IonButton fill="outline" onClick={onClose}>Close</IonButton>}
+      </div>
+    );
+  }
+
+  const lastStep = frames.length - 1;
+
+  return (
+    <div className="match-replay-viewer">
+      <div className="replay-header">
+        <h2>Match Replay</h2>
+        <IonText color="medium">
+          <span className="replay-progress">Action {step} of {lastStep} · Turn {frame.state.turnNumber}</span>
+        </IonText>
+        {onClose && <IonButton fill="clear" size="small" onClick={onClose}>Close</IonButton>}
+      </div>
+
+      <div className="replay-board">
+        <EcosystemBoard
+          gameBoard={gameBoard}
+          cards={cards}
+          onCardPlace={() => {}}
+          onCardMove={() => {}}
+          isInteractive={false}
+          gridSize={80}
+        />
+      </div>
+
+      <div className="replay-controls">
+        <IonButton fill="clear" disabled={step === 0} onClick={() => setStep(0)} title="First action">
+          <IonIcon icon={playSkipBack} />
+        </IonButton>
+        <IonButton fill="clear" disabled={step === 0} onClick={() => setStep(step - 1)} title="Previous action">
+          <IonIcon icon={chevronBack} />
+        </IonButton>
+        <IonRange
+          className="replay-slider"
+          min={0}
+          max={lastStep}
+          step={1}
+          value={step}
+          onIonInput={event => setStep(Number(event.detail.value))}
+        />
+        <IonButton fill="clear" disabled={step === lastStep} onClick={() => setStep(step + 1)} title="Next action">
+          <IonIcon icon={chevronForward} />
+        </IonButton>
+        <IonButton fill="clear" disabled={step === lastStep} onClick={() => setStep(lastStep)} title="Last action">
+          <IonIcon icon={playSkipForward} />
+        </IonButton>
+      </div>
+
+      <GameLog entries={logEntries} />
+    </div>
+  );
+};
+
+export default MatchReplayViewer;
@@ -0,0 +1,134 @@
+/**
+ * Quick Chat Panel
+ * Lets players send the fixed quick-chat lines and emotes during online matches,
+ * shows what everyone else sent as short-lived bubbles, and mutes opponents per match
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { IonButton, IonChip, IonIcon, IonLabel } from '@ionic/react';
+import { chatbubbleEllipsesOutline, volumeHighOutline, volumeMuteOutline } from 'ionicons/icons';
+import { QUICK_CHAT_OPTIONS, QuickChatMessage, UITextId, getQuickChatOption } from '@kelseyabreu/shared';
+import { useUILocalization } from '../../hooks/useCardLocalization';
+import './QuickChatPanel.css';
+
+// How long a bubble stays on screen
+const BUBBLE_DURATION_MS = 4000;
+
+interface QuickChatPanelProps {
+  messages: QuickChatMessage[];
+  players: { id: string; name: string }[];
+  userId?: string;
+  onSend: (textId: UITextId) => void;
+}
+
+const QuickChatPanel: React.FC<QuickChatPanelProps> = ({
+  messages,
+  players,
+  userId,
+  onSend
+}) => {
+  const { getUIText } = useUILocalization();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mutedPlayerIds, setMutedPlayerIds] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while bubbles are showing so they expire on their own
+  useEffect(() => {
+    if (messages.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [messages]);
+
+  const opponents = players.filter(player => player.id !== userId);
+
+  // Latest message per player, minus anyone this player has muted
+  const bubbles = useMemo(() => {
+    const latest = new Map<string, QuickChatMessage>();
+    for (const message of messages) {
+      if (mutedPlayerIds.includes(message.playerId) || now - message.sentAt >= BUBBLE_DURATION_MS) continue;
+      latest.set(message.playerId, message);
+    }
+    return Array.from(latest.values());
+  }, [messages, mutedPlayerIds, now]);
+
+  const getPlayerName = (playerId: string) =>
+    playerId === userId ? 'You' : players.find(player => player.id === playerId)?.name || 'Player';
+
+  const toggleMute = (playerId: string) => {
+    setMutedPlayerIds(prev => prev.includes(playerId)
+      ? prev.filter(id => id !== playerId)
+      : [...prev, playerId]);
+  };
+
+  const handleSend = (textId: UITextId) => {
+    onSend(textId);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="quick-chat-panel">
+      <div className="quick-chat-bubbles">
+        {bubbles.map(message => {
+          const option = getQuickChatOption(message.textId);
+          return (
+            <div key={`${message.playerId}-${message.sentAt}`} className={`quick-chat-bubble ${message.kind}`}>
+              <span className="quick-chat-sender">{getPlayerName(message.playerId)}</span>
+              {option?.symbol
+                ? <span className="quick-chat-emote" aria-label={getUIText(message.textId)}>{option.symbol}</span>
+                : <span>{getUIText(message.textId)}</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      {isOpen && (
+        <div className="quick-chat-picker">
+          <div className="quick-chat-options">
+            {QUICK_CHAT_OPTIONS.map(option => (
+              <IonChip
+                key={option.textId}
+                className={`quick-chat-option ${option.kind}`}
+                onClick={() => handleSend(option.textId)}
+                aria-label={getUIText(option.textId)}
+              >
+                <IonLabel>{option.symbol || getUIText(option.textId)}</IonLabel>
+              </IonChip>
+            ))}
+          </div>
+
+          {opponents.length > 0 && (
+            <div className="quick-chat-mutes">
+              {opponents.map(opponent => {
+                const isMuted = mutedPlayerIds.includes(opponent.id);
+                return (
+                  <IonButton
+                    key={opponent.id}
+                    size="small"
+                    fill="clear"
+                    color={isMuted ? 'medium' : 'primary'}
+                    onClick={() => toggleMute(opponent.id)}
+                  >
+                    <IonIcon icon={isMuted ? volumeMuteOutline : volumeHighOutline} slot="start" />
+                    {getUIText(isMuted ? UITextId.UI_UNMUTE_PLAYER : UITextId.UI_MUTE_PLAYER).replace('{name}', opponent.name)}
+                  </IonButton>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      <IonButton
+        className="quick-chat-toggle"
+        shape="round"
+        color="tertiary"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={getUIText(UITextId.UI_QUICK_CHAT)}
+      >
+        <IonIcon icon={chatbubbleEllipsesOutline} slot="icon-only" />
+      </IonButton>
+    </div>
+  );
+};
+
+export default QuickChatPanel;
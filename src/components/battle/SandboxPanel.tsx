@@ -0,0 +1,125 @@
+import React from 'react';
+import {
+  IonCard,
+  IonCardContent,
+  IonCardHeader,
+  IonCardTitle,
+  IonButton,
+  IonIcon,
+  IonSegment,
+  IonSegmentButton,
+  IonLabel,
+  IonSelect,
+  IonSelectOption,
+  IonBadge
+} from '@ionic/react';
+import { arrowUndo, arrowRedo } from 'ionicons/icons';
+import useHybridGameStore from '../../state/hybridGameStore';
+import { useLocalization } from '../../contexts/LocalizationContext';
+import { Card } from '../../types';
+import './SandboxPanel.css';
+
+/**
+ * What a grid click does in the sandbox: play normally, place a chosen card, or clear a square
+ */
+export interface SandboxTool {
+  mode: 'play' | 'place' | 'remove';
+  cardId: number | null;
+  ownerId: string;
+}
+
+interface SandboxPanelProps {
+  players: { id: string; name: string }[];
+  allSpeciesCards: Card[];
+  tool: SandboxTool;
+  onToolChange: (tool: SandboxTool) => void;
+}
+
+const SandboxPanel: React.FC<SandboxPanelProps> = ({
+  players,
+  allSpeciesCards,
+  tool,
+  onToolChange
+}) => {
+  const undoCount = useHybridGameStore(state => state.battle.sandbox.undoStack.length);
+  const redoCount = useHybridGameStore(state => state.battle.sandbox.redoStack.length);
+  const undo = useHybridGameStore(state => state.battle.actions.undo);
+  const redo = useHybridGameStore(state => state.battle.actions.redo);
+  const localization = useLocalization();
+
+  return (
+    <IonCard className="sandbox-panel">
+      <IonCardHeader className="sandbox-panel-header">
+        <IonCardTitle>
+          Sandbox
+          <IonBadge color="tertiary" className="sandbox-badge">Offline</IonBadge>
+        </IonCardTitle>
+        <div className="sandbox-history">
+          <IonButton fill="outline" size="small" disabled={undoCount === 0} onClick={undo} title="Undo">
+            <IonIcon icon={arrowUndo} slot="start" />
+            Undo ({undoCount})
+          </IonButton>
+          <IonButton fill="outline" size="small" disabled={redoCount === 0} onClick={redo} title="Redo">
+            <IonIcon icon={arrowRedo} slot="start" />
+            Redo ({redoCount})
+          </IonButton>
+        </div>
+      </IonCardHeader>
+
+      <IonCardContent>
+        <IonSegment
+          value={tool.mode}
+          onIonChange={event => onToolChange({ ...tool, mode: event.detail.value as SandboxTool['mode'] })}
+        >
+          <IonSegmentButton value="play">
+            <IonLabel>Play</IonLabel>
+          </IonSegmentButton>
+          <IonSegmentButton value="place">
+            <IonLabel>Set up board</IonLabel>
+          </IonSegmentButton>
+          <IonSegmentButton value="remove">
+            <IonLabel>Remove</IonLabel>
+          </IonSegmentButton>
+        </IonSegment>
+
+        {tool.mode === 'place' && (
+          <div className="sandbox-setup">
+            <IonSelect
+              label="Card"
+              placeholder="Choose a card"
+              interface="popover"
+              value={tool.cardId}
+              onIonChange={event => onToolChange({ ...tool, cardId: Number(event.detail.value) })}
+            >
+              {allSpeciesCards.map(card => (
+                <IonSelectOption key={card.cardId} value={card.cardId}>
+                  {localization.getCardName(card.nameId)}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+            <IonSelect
+              label="Owner"
+              interface="popover"
+              value={tool.ownerId}
+              onIonChange={event => onToolChange({ ...tool, ownerId: event.detail.value })}
+            >
+              {players.map(player => (
+                <IonSelectOption key={player.id} value={player.id}>
+                  {player.name}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </div>
+        )}
+
+        <p className="sandbox-hint">
+          {tool.mode === 'play' && 'Play as usual. Every move can be undone.'}
+          {tool.mode === 'place' && (tool.cardId === null ? 'Choose a card, then click any empty square.' : 'Click any empty square to place the card.')}
+          {tool.mode === 'remove' && 'Click a card on the grid to remove it. HOME cards stay.'}
+        </p>
+      </IonCardContent>
+    </IonCard>
+  );
+};
+
+export default SandboxPanel;
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  IonBadge,
+  IonButton,
+  IonIcon,
+  IonSpinner,
+  IonText
+} from '@ionic/react';
+import { eye, flash, layers, hourglass } from 'ionicons/icons';
+import { GameState, GamePhase, deepDeserialize } from '@kelseyabreu/shared';
+import { EcosystemBoard } from '../game/EcosystemBoard';
+import { Card, PhyloCardPosition, PhyloGameBoard } from '../../types';
+import { getGameSocket } from '../../services/gameSocket';
+import useHybridGameStore from '../../state/hybridGameStore';
+import './SpectatorView.css';
+
+interface SpectatorViewProps {
+  sessionId: string;
+  onClose?: () => void;
+}
+
+interface SpectatorUpdate {
+  sessionId: string;
+  data: {
+    session: { id: string; gameMode: string; status: string; gameState: { engineState?: unknown } | null };
+    stateVersion: number;
+    delaySeconds: number;
+  };
+}
+
+const SpectatorView: React.FC<SpectatorViewProps> = ({ sessionId, onClose }) => {
+  const [engineState, setEngineState] = useState<GameState | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [delaySeconds, setDelaySeconds] = useState(0);
+  const allSpeciesCards = useHybridGameStore(state => state.allSpeciesCards);
+
+  // Watch the match until the view closes; the server sends hand-hidden states only
+  useEffect(() => {
+    const gameSocket = getGameSocket();
+
+    const handleSpectatorState = (update: SpectatorUpdate) => {
+      if (update.sessionId !== sessionId) return;
+      const { session } = update.data;
+      setStatus(session.status);
+      setDelaySeconds(update.data.delaySeconds);
+      if (session.gameState?.engineState) {
+        setEngineState(deepDeserialize(session.gameState.engineState) as GameState);
+      }
+    };
+
+    gameSocket.on('spectator_game_state', handleSpectatorState);
+    gameSocket.spectateSession(sessionId);
+
+    return () => {
+      gameSocket.off('spectator_game_state', handleSpectatorState);
+      gameSocket.stopSpectating(sessionId);
+    };
+  }, [sessionId]);
+
+  const speciesById = useMemo(() => {
+    const species = new Map<number, Card>();
+    allSpeciesCards.forEach(card => species.set(card.cardId, card));
+    return species;
+  }, [allSpeciesCards]);
+
+  // Show the watched grid on the ecosystem board
+  const { gameBoard, cards } = useMemo(() => {
+    const positions = new Map<string, PhyloCardPosition>();
+    const homeCards: PhyloCardPosition[] = [];
+    const boardCards = new Map<string, Card>();
+
+    engineState?.grid.forEach((instance, key) => {
+      const position = { x: instance.position.x, y: instance.position.y, cardId: instance.instanceId, playerId: instance.ownerId };
+      positions.set(key, position);
+      if (instance.isHOME) homeCards.push(position);
+
+      const card = speciesById.get(instance.cardId);
+      if (card) boardCards.set(instance.instanceId, { ...card, id: instance.instanceId });
+    });
+
+    const board: PhyloGameBoard = { positions, connections: new Map(), homeCards };
+    return { gameBoard: board, cards: boardCards };
+  }, [engineState, speciesById]);
+
+  const header = (
+    <div className="spectator-header">
+      <h2>
+        <IonIcon icon={eye} /> Spectating
+      </h2>
+      {delaySeconds > 0 && (
+        <IonBadge color="warning">
+          <IonIcon icon={hourglass} /> {delaySeconds}s delay
+        </IonBadge>
+      )}
+      {onClose && <IonButton fill="clear" size="small" onClick={onClose}>Stop watching</IonButton>}
+    </div>
+  );
+
+  if (!engineState) {
+    return (
+      <div className="spectator-view waiting">
+        {header}
+        <IonSpinner />
+        <IonText color="medium">
+          <p>{delaySeconds > 0 ? 'Waiting for the delayed broadcast...' : 'Connecting to the match...'}</p>
+        </IonText>
+      </div>
+    );
+  }
+
+  const currentPlayer = engineState.players[engineState.currentPlayerIndex];
+  const isEnded = engineState.gamePhase === GamePhase.ENDED || status === 'finished';
+  const winner = engineState.players.find(player => player.id === engineState.winner);
+
+  return (
+    <div className="spectator-view">
+      {header}
+
+      <IonText color="medium">
+        <span className="spectator-progress">
+          {isEnded
+            ? `Match over · ${winner ? `${winner.name} wins` : 'Draw'}`
+            : `Turn ${engineState.turnNumber} · ${currentPlayer?.name || 'Unknown'} to play`}
+        </span>
+      </IonText>
+
+      <div className="spectator-players">
+        {engineState.players.map(player => (
+          <div
+            key={player.id}
+            className={`spectator-player ${!isEnded && player.id === currentPlayer?.id ? 'active' : ''}`}
+          >
+            <span className="spectator-player-name">{player.name}</span>
+            <span><IonIcon icon={flash} /> {player.energy}</span>
+            <span title="Cards in hand"><IonIcon icon={layers} /> {player.hand.length}</span>
+            <span className="spectator-deck-count">Deck {player.deck.length}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="spectator-board">
+        <EcosystemBoard
+          gameBoard={gameBoard}
+          cards={cards}
+          onCardPlace={() => {}}
+          onCardMove={() => {}}
+          isInteractive={false}
+          gridSize={80}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SpectatorView;
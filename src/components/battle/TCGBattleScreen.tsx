@@ -47,14 +47,15 @@ import { useLocalization } from '../../contexts/LocalizationContext';
 import { useTheme } from '../../theme/ThemeProvider';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
 
-import { unifiedGameService } from '../../services/UnifiedGameService';
+import { unifiedGameService, CreateGamePayload } from '../../services/UnifiedGameService';
 import { getGameSocket } from '../../services/gameSocket';
-import { AIDifficulty, GamePhase } from '@kelseyabreu/shared';
-import { AIStrategyFactory } from '@kelseyabreu/shared';
+import { AIDifficulty, BioMastersEngine, GameActionType, GamePhase } from '@kelseyabreu/shared';
+import { AIStrategyFactory, buildPersonalityDeck, getAIPersonality } from '@kelseyabreu/shared';
 import EndGameModal from '../ui/EndGameModal';
 import EcosystemGrid from '../game/EcosystemGrid';
 import PlayerCard from './PlayerCard';
 import GameLog, { GameLogEntry } from './GameLog';
+import SandboxPanel, { SandboxTool } from './SandboxPanel';
 import '../ui/PlayerStatsDisplay.css';
 import '../ui/EndGameModal.css';
 import './PlayerHandDisplay.css';
@@ -64,11 +65,14 @@ interface TCGBattleScreenProps {
   onExit?: () => void;
   isOnlineMode?: boolean;
   sessionId?: string;
+  isSandbox?: boolean; // Offline what-if mode with undo/redo and board setup
+  aiDifficulty?: AIDifficulty; // Offline opponent strength
+  aiPersonalityId?: string; // Offline opponent's personality, see getAIPersonality
 }
 
 interface TCGGameSettings {
   gameMode: 'practice' | 'ranked' | 'tutorial' | 'online';
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: AIDifficulty;
   playerCount: 2 | 4;
   timeLimit?: number;
 }
@@ -76,12 +80,18 @@ interface TCGGameSettings {
 export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
   onExit,
   isOnlineMode = false,
-  sessionId
+  sessionId,
+  isSandbox = false,
+  aiDifficulty = AIDifficulty.EASY,
+  aiPersonalityId
 }) => {
 
   // Component cleanup tracking
   const mountedRef = useRef(true);
 
+  // Lookahead engine for the Hard AI
+  const simulationEngineRef = useRef<BioMastersEngine | null>(null);
+
   // Component lifecycle tracking
   useEffect(() => {
     mountedRef.current = true;
@@ -107,11 +117,28 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
   const dropAndDrawThree = useHybridGameStore(state => state.battle.actions.dropAndDrawThree);
   const passTurn = useHybridGameStore(state => state.battle.actions.passTurn);
   const playerReady = useHybridGameStore(state => state.battle.actions.playerReady);
+  const resolveChoice = useHybridGameStore(state => state.battle.actions.resolveChoice);
   const selectHandCard = useHybridGameStore(state => state.battle.actions.selectHandCard);
   const setHighlightedPositions = useHybridGameStore(state => state.battle.actions.setHighlightedPositions);
   const clearUIState = useHybridGameStore(state => state.battle.actions.clearUIState);
   const clearError = useHybridGameStore(state => state.battle.actions.clearError);
 
+  // Sandbox actions
+  const startSandbox = useHybridGameStore(state => state.battle.actions.startSandbox);
+  const exitSandbox = useHybridGameStore(state => state.battle.actions.exitSandbox);
+  const placeSandboxCard = useHybridGameStore(state => state.battle.actions.placeSandboxCard);
+  const removeSandboxCard = useHybridGameStore(state => state.battle.actions.removeSandboxCard);
+  const [sandboxTool, setSandboxTool] = useState<SandboxTool>({ mode: 'play', cardId: null, ownerId: 'human' });
+
+  // Leaving the sandbox throws its scratch game away
+  useEffect(() => {
+    return () => {
+      if (isSandbox) {
+        exitSandbox();
+      }
+    };
+  }, [isSandbox, exitSandbox]);
+
   // Opposition hand state and actions
   const oppositionHandState = useHybridGameStore(state => state.battle.uiState.oppositionHand);
   const toggleOppositionHandVisibility = useHybridGameStore(state => state.battle.actions.toggleOppositionHandVisibility);
@@ -175,13 +202,13 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
 
   // Determine if this is an online game
   const activeBattle = useHybridGameStore(state => state.activeBattle);
-  const isOnlineGame = isOnlineMode || activeBattle?.gameMode === 'online' || !!sessionId;
+  const isOnlineGame = !isSandbox && (isOnlineMode || activeBattle?.gameMode === 'online' || !!sessionId);
   const gameSessionId = sessionId || activeBattle?.sessionId;
 
   // Game settings (could be moved to store if needed)
   const gameSettings: TCGGameSettings = {
     gameMode: isOnlineGame ? 'online' : 'practice',
-    difficulty: 'easy',
+    difficulty: aiDifficulty,
     playerCount: 2
   };
 
@@ -269,13 +296,17 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
         };
       } else {
         // Offline game - create local game
-        const players = [];
+        const players: CreateGamePayload['players'] = [];
         console.log('🎮 [TCG] Creating players for count:', gameSettings.playerCount);
 
         if (gameSettings.playerCount === 2) {
+          // A named opponent plays its own deck under its own name
+          const aiPersonality = aiPersonalityId ? getAIPersonality(aiPersonalityId) : undefined;
           players.push(
             { id: 'human', name: 'Player' },
-            { id: 'ai', name: 'AI Opponent' }
+            aiPersonality
+              ? { id: 'ai', name: aiPersonality.name, deck: buildPersonalityDeck(aiPersonality) }
+              : { id: 'ai', name: 'AI Opponent' }
           );
         } else if (gameSettings.playerCount === 4) {
           players.push(
@@ -289,10 +320,14 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
         console.log('🎮 [TCG] Players created:', players);
 
         // Use store action to start the game
-        await startTCGGame('tcg-battle', players, {
-          startingHandSize: 5,
-          maxHandSize: 10
-        });
+        if (isSandbox) {
+          await startSandbox(players);
+        } else {
+          await startTCGGame('tcg-battle', players, {
+            startingHandSize: 5,
+            maxHandSize: 10
+          });
+        }
 
         console.log('✅ [TCG] TCG Battle initialization requested');
       }
@@ -302,7 +337,7 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
     if (!gameState && !isLoading && !error) {
       initializeGame();
     }
-  }, [gameState, isLoading, error, startTCGGame, isOnlineGame, gameSessionId]);
+  }, [gameState, isLoading, error, startTCGGame, startSandbox, isSandbox, isOnlineGame, gameSessionId, aiPersonalityId]);
 
   // Auto-ready AI players when game is in setup phase
   useEffect(() => {
@@ -367,9 +402,15 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
 
       const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
-      if (currentPlayer && currentPlayer.id !== 'human' && (gameState as any).actionsRemaining > 0) {
-        // Create AI strategy (for now, always use EASY - will be configurable later)
-        const aiStrategy = AIStrategyFactory.createStrategy(AIDifficulty.EASY);
+      if (currentPlayer && currentPlayer.id !== 'human' && (gameState as any).actionsRemaining > 0 && !gameState.pendingChoice) {
+        const aiPersonality = aiPersonalityId ? getAIPersonality(aiPersonalityId) : undefined;
+        const aiStrategy = aiPersonality
+          ? AIStrategyFactory.createPersonalityStrategy(aiDifficulty, aiPersonality)
+          : AIStrategyFactory.createStrategy(aiDifficulty);
+
+        // Every difficulty plans its turn on an engine of its own, created once per battle
+        simulationEngineRef.current = simulationEngineRef.current || unifiedGameService.createSimulationEngine();
+        aiStrategy.setSimulationEngine(simulationEngineRef.current);
 
         // Set notification callback for AI actions
         aiStrategy.setNotificationCallback(showActionNotification);
@@ -379,176 +420,50 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
 
         const thinkingDelay = aiStrategy.getThinkingDelay();
 
-        setTimeout(async () => {
-          try {
-            // Check if AI should pass turn
-            if (aiStrategy.shouldPassTurn(currentPlayer.hand, (gameState as any).actionsRemaining, gameState as any, currentPlayer.id)) {
-              // Notify about pass turn
-              aiStrategy.notifyPassTurn(gameState as any, currentPlayer.id);
-
-              // AI needs to pass turn with its own player ID
-              const currentBattleState = useHybridGameStore.getState().battle;
-              const result = await unifiedGameService.executeAction({
-                action: {
-                  type: 'PASS_TURN' as any,
-                  playerId: currentPlayer.id, // Use AI player ID
-                  payload: {}
-                },
-                currentState: currentBattleState,
-                isOnline: false
-              });
-
-              if (result.isValid && result.newState) {
-                useHybridGameStore.setState((state) => ({
-                  battle: {
-                    ...state.battle,
-                    tcgGameState: result.newState as any
-                  }
-                }));
+        // Pass with the AI player's own ID, logging why
+        const passAITurn = async (reason?: string) => {
+          const currentBattleState = useHybridGameStore.getState().battle;
+          const result = await unifiedGameService.executeAction({
+            action: {
+              type: GameActionType.PASS_TURN,
+              playerId: currentPlayer.id, // Use AI player ID
+              payload: {}
+            },
+            currentState: currentBattleState,
+            isOnline: false
+          });
 
-                // Add AI pass turn to game log
-                addGameLogEntry('pass_turn');
-              } else {
-                console.error(`❌ [TCG] AI failed to pass turn:`, result.errorMessage);
+          if (result.isValid && result.newState) {
+            useHybridGameStore.setState((state) => ({
+              battle: {
+                ...state.battle,
+                tcgGameState: result.newState as any
               }
-              return;
-            }
-
-            // AI has no cards, must pass
-            if (currentPlayer.hand.length === 0) {
+            }));
 
-              // AI needs to pass turn with its own player ID
-              const currentBattleState = useHybridGameStore.getState().battle;
-              const result = await unifiedGameService.executeAction({
-                action: {
-                  type: 'PASS_TURN' as any,
-                  playerId: currentPlayer.id, // Use AI player ID
-                  payload: {}
-                },
-                currentState: currentBattleState,
-                isOnline: false
-              });
+            // Add AI pass turn to game log
+            addGameLogEntry('pass_turn', reason ? { reason } : {});
+          } else {
+            console.error(`❌ [TCG] AI failed to pass turn:`, result.errorMessage);
+          }
+        };
 
-              if (result.isValid && result.newState) {
-                useHybridGameStore.setState((state) => ({
-                  battle: {
-                    ...state.battle,
-                    tcgGameState: result.newState as any
-                  }
-                }));
-                console.log(`✅ [TCG] AI successfully passed turn (no cards)`);
+        setTimeout(async () => {
+          try {
+            // Plan the rest of the turn and play its first step; the effect runs again on the new state
+            const [nextAction] = aiStrategy.planTurn(gameState as any, currentPlayer.id);
 
-                // Add AI pass turn to game log
-                addGameLogEntry('pass_turn', { reason: 'No cards in hand' });
-              } else {
-                console.error(`❌ [TCG] AI failed to pass turn (no cards):`, result.errorMessage);
-              }
+            if (!nextAction || nextAction.type === GameActionType.PASS_TURN) {
+              aiStrategy.notifyPassTurn(gameState as any, currentPlayer.id);
+              await passAITurn(nextAction ? undefined : 'No legal actions');
               return;
             }
 
-            // Use AI strategy to select card
-            const selectedCardId = aiStrategy.selectCard(currentPlayer.hand, gameState as any, currentPlayer.id);
-            console.log(`🤖 [TCG] AI selected card: ${selectedCardId}`);
-
-            // Get valid positions for this card
-            const validMovesResult = await unifiedGameService.getValidMoves(gameState.gameId, currentPlayer.id, selectedCardId);
-
-            if (validMovesResult.isValid && validMovesResult.newState?.positions && validMovesResult.newState.positions.length > 0) {
-              // Use AI strategy to select position
-              const selectedPosition = aiStrategy.selectPosition(validMovesResult.newState.positions, gameState as any, selectedCardId, currentPlayer.id);
-              console.log(`🤖 [TCG] AI selected position: (${selectedPosition.x}, ${selectedPosition.y})`);
+            console.log(`🤖 [TCG] AI plays ${nextAction.type}`, nextAction.payload);
 
-              // Play the card
-              const currentBattleState = useHybridGameStore.getState().battle;
-              const result = await unifiedGameService.executeAction({
-                action: {
-                  type: 'PLAY_CARD' as any,
-                  playerId: currentPlayer.id,
-                  payload: { cardId: selectedCardId, position: selectedPosition }
-                },
-                currentState: currentBattleState,
-                isOnline: false
-              });
-
-              if (result.isValid && result.newState) {
-                useHybridGameStore.setState((state) => ({
-                  battle: {
-                    ...state.battle,
-                    tcgGameState: result.newState as any
-                  }
-                }));
-                console.log(`✅ [TCG] AI successfully played card ${selectedCardId}`);
-
-                // Add AI card play to game log
-                const cardData = getCardData(selectedCardId);
-                const cardName = cardData ? getLocalizedCardName(cardData) : `Card ${selectedCardId}`;
-                addGameLogEntry('play_card', {
-                  cardName,
-                  cardId: selectedCardId,
-                  position: selectedPosition
-                });
-              } else {
-                console.error(`❌ [TCG] AI failed to play card:`, result.errorMessage);
-                // If can't play card, pass turn with AI player ID
-                const currentBattleState = useHybridGameStore.getState().battle;
-                const passResult = await unifiedGameService.executeAction({
-                  action: {
-                    type: 'PASS_TURN' as any,
-                    playerId: currentPlayer.id, // Use AI player ID
-                    payload: {}
-                  },
-                  currentState: currentBattleState,
-                  isOnline: false
-                });
-
-                if (passResult.isValid && passResult.newState) {
-                  useHybridGameStore.setState((state) => ({
-                    battle: {
-                      ...state.battle,
-                      tcgGameState: passResult.newState as any
-                    }
-                  }));
-                  console.log(`✅ [TCG] AI passed turn after failed card play`);
-                }
-              }
-            } else {
-              console.log(`🤖 [TCG] AI has no valid moves, passing turn`);
-
-              // AI needs to pass turn with its own player ID
-              const currentBattleState = useHybridGameStore.getState().battle;
-              const result = await unifiedGameService.executeAction({
-                action: {
-                  type: 'PASS_TURN' as any,
-                  playerId: currentPlayer.id, // Use AI player ID
-                  payload: {}
-                },
-                currentState: currentBattleState,
-                isOnline: false
-              });
-
-              if (result.isValid && result.newState) {
-                useHybridGameStore.setState((state) => ({
-                  battle: {
-                    ...state.battle,
-                    tcgGameState: result.newState as any
-                  }
-                }));
-                console.log(`✅ [TCG] AI successfully passed turn (no valid moves)`);
-              } else {
-                console.error(`❌ [TCG] AI failed to pass turn (no valid moves):`, result.errorMessage);
-              }
-            }
-          } catch (error) {
-            console.error(`❌ [TCG] Error during AI turn:`, error);
-
-            // AI needs to pass turn with its own player ID
             const currentBattleState = useHybridGameStore.getState().battle;
             const result = await unifiedGameService.executeAction({
-              action: {
-                type: 'PASS_TURN' as any,
-                playerId: currentPlayer.id, // Use AI player ID
-                payload: {}
-              },
+              action: nextAction,
               currentState: currentBattleState,
               isOnline: false
             });
@@ -560,13 +475,36 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
                   tcgGameState: result.newState as any
                 }
               }));
-              console.log(`✅ [TCG] AI passed turn after error`);
+              console.log(`✅ [TCG] AI successfully played ${nextAction.type}`);
+
+              // Add AI action to game log
+              const gridCard = nextAction.payload.instanceId
+                ? Array.from(gameState.grid.values()).find(card => card.instanceId === nextAction.payload.instanceId)
+                : undefined;
+              const cardId = String(nextAction.payload.cardId ?? gridCard?.cardId ?? '');
+              const cardData = cardId ? getCardData(cardId) : null;
+              const cardName = cardData ? getLocalizedCardName(cardData) : `Card ${cardId}`;
+
+              if (nextAction.type === GameActionType.PLAY_CARD) {
+                addGameLogEntry('play_card', { cardName, cardId, position: nextAction.payload.position });
+              } else if (nextAction.type === GameActionType.ACTIVATE_ABILITY) {
+                addGameLogEntry('use_ability', { cardName, cardId, position: gridCard?.position });
+              } else if (nextAction.type === GameActionType.MOVE_CARD) {
+                addGameLogEntry('move_card', { cardName, cardId, position: gridCard?.position, targetPosition: nextAction.payload.targetPosition });
+              }
+            } else {
+              console.error(`❌ [TCG] AI failed to play ${nextAction.type}:`, result.errorMessage);
+              // If the planned action is refused, pass turn with AI player ID
+              await passAITurn();
             }
+          } catch (error) {
+            console.error(`❌ [TCG] Error during AI turn:`, error);
+            await passAITurn();
           }
         }, thinkingDelay);
       }
     }
-  }, [gameState?.currentPlayerIndex, gameState?.players, gameState?.gamePhase, passTurn]);
+  }, [gameState?.currentPlayerIndex, gameState?.players, gameState?.gamePhase, gameState?.pendingChoice, passTurn, aiDifficulty, aiPersonalityId]);
 
   // Auto-pass turn when player has no actions remaining
   useEffect(() => {
@@ -579,7 +517,8 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
       const actionsRemaining = (gameState as any)?.actionsRemaining || 0;
       console.log(`🔍 [TCG] Auto-pass check - Player: ${currentPlayer?.name}, actionsRemaining: ${actionsRemaining}`);
 
-      if (currentPlayer && actionsRemaining <= 0) {
+      // A pending choice holds the turn open until it is answered
+      if (currentPlayer && actionsRemaining <= 0 && !gameState.pendingChoice) {
         console.log(`🔄 [TCG] Player ${currentPlayer.name} has no actions remaining, auto-passing turn`);
 
         setTimeout(async () => {
@@ -609,7 +548,43 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
         }, 1000); // 1 second delay before auto-pass
       }
     }
-  }, [gameState?.currentPlayerIndex, gameState?.players, gameState?.gamePhase, passTurn]);
+  }, [gameState?.currentPlayerIndex, gameState?.players, gameState?.gamePhase, gameState?.pendingChoice, passTurn]);
+
+  // Auto-answer ability choices that belong to AI players
+  useEffect(() => {
+    const pendingChoice = gameState?.pendingChoice;
+    if (!pendingChoice || pendingChoice.playerId === 'human' || isOnlineGame) return;
+
+    const aiStrategy = AIStrategyFactory.createStrategy(AIDifficulty.EASY);
+    aiStrategy.setCardDataFunctions(getCardData, getLocalizedCardName);
+
+    setTimeout(async () => {
+      const selections = aiStrategy.selectChoice(pendingChoice, gameState as any, pendingChoice.playerId);
+
+      const currentBattleState = useHybridGameStore.getState().battle;
+      const result = await unifiedGameService.executeAction({
+        action: {
+          type: GameActionType.RESOLVE_CHOICE,
+          playerId: pendingChoice.playerId,
+          payload: { choiceId: pendingChoice.choiceId, selections }
+        },
+        currentState: currentBattleState,
+        isOnline: false
+      });
+
+      if (result.isValid && result.newState) {
+        useHybridGameStore.setState((state) => ({
+          battle: {
+            ...state.battle,
+            tcgGameState: result.newState as any
+          }
+        }));
+        console.log(`✅ [TCG] AI resolved choice ${pendingChoice.choiceId}`);
+      } else {
+        console.error(`❌ [TCG] AI failed to resolve choice:`, result.errorMessage);
+      }
+    }, aiStrategy.getThinkingDelay());
+  }, [gameState?.pendingChoice?.choiceId, isOnlineGame]);
 
   // End game detection
   useEffect(() => {
@@ -839,6 +814,16 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
       highlightedPositions: highlightedPositions
     });
 
+    // Sandbox board setup ignores turns and hands
+    if (isSandbox && gameState && sandboxTool.mode !== 'play') {
+      if (sandboxTool.mode === 'place' && sandboxTool.cardId !== null) {
+        await placeSandboxCard(sandboxTool.cardId, { x, y }, sandboxTool.ownerId);
+      } else if (sandboxTool.mode === 'remove') {
+        await removeSandboxCard({ x, y });
+      }
+      return;
+    }
+
     if (!gameState || !selectedHandCardId) {
       console.log('❌ [GRID CLICK] Missing gameState or selectedHandCardId');
       return;
@@ -899,7 +884,7 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
     showActionNotification(`${playerName} played ${cardName}`, 'success', playOutline);
 
     console.log('✅ Card placement requested');
-  }, [gameState, selectedHandCardId, highlightedPositions, playCard, isOnlineGame, gameSessionId, showActionNotification, addGameLogEntry]);
+  }, [gameState, selectedHandCardId, highlightedPositions, playCard, isOnlineGame, gameSessionId, showActionNotification, addGameLogEntry, isSandbox, sandboxTool, placeSandboxCard, removeSandboxCard]);
 
   // Handle pass turn
   const handlePassTurn = useCallback(async () => {
@@ -935,6 +920,38 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
     console.log('✅ Pass turn requested');
   }, [gameState, passTurn, isOnlineGame, gameSessionId, addGameLogEntry, showActionNotification]);
 
+  // Pending ability choice that this client answers (AI choices are answered automatically)
+  const localChoice = useMemo(() => {
+    const pendingChoice = gameState?.pendingChoice;
+    if (!pendingChoice) return null;
+
+    const localPlayerId = isOnlineGame ? useHybridGameStore.getState().identity?.dbUserId : 'human';
+    return pendingChoice.playerId === localPlayerId ? pendingChoice : null;
+  }, [gameState?.pendingChoice, isOnlineGame]);
+
+  // Handle the local player's answer to a pending ability choice
+  const handleResolveChoice = useCallback(async (selections: string[]) => {
+    if (!localChoice) return;
+
+    if (isOnlineGame && gameSessionId) {
+      // Online game - send action via WebSocket
+      console.log('🌐 [TCG] Sending resolve choice action via WebSocket');
+      const gameSocket = getGameSocket();
+      gameSocket.sendGameAction({
+        id: `action_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        type: 'resolve_choice',
+        playerId: localChoice.playerId,
+        timestamp: Date.now(),
+        data: { choiceId: localChoice.choiceId, selections }
+      });
+    } else {
+      // Offline game - use store action
+      await resolveChoice(localChoice.choiceId, selections);
+    }
+
+    console.log('✅ Choice resolution requested');
+  }, [localChoice, resolveChoice, isOnlineGame, gameSessionId]);
+
   // Handle drop and draw three
   const handleDropAndDraw = useCallback(async () => {
     if (!gameState || !selectedHandCardId) {
@@ -1380,7 +1397,7 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
           >
             <IonIcon icon={arrowBack} />
           </IonButton>
-          <IonTitle>BioMasters TCG Battle</IonTitle>
+          <IonTitle>{isSandbox ? 'BioMasters TCG Sandbox' : 'BioMasters TCG Battle'}</IonTitle>
           <IonButton
             fill="clear"
             slot="end"
@@ -1498,6 +1515,16 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
             </IonCardContent>
           </IonCard>
         )}
+        {/* Sandbox controls: undo/redo and board setup */}
+        {isSandbox && (
+          <SandboxPanel
+            players={gameState.players}
+            allSpeciesCards={allSpeciesCards}
+            tool={sandboxTool}
+            onToolChange={setSandboxTool}
+          />
+        )}
+
         {/* Game Grid - NEW COMPONENT VERSION */}
         {(gameState.gamePhase === GamePhase.SETUP || gameState.gamePhase === GamePhase.PLAYING || gameState.gamePhase === GamePhase.FINAL_TURN) && gameState.gameSettings && (
           <EcosystemGrid
@@ -1831,6 +1858,41 @@ export const TCGBattleScreen: React.FC<TCGBattleScreenProps> = ({
           ]}
         />
 
+        {/* Ability choice prompt - grid options are card instances, hand options are card IDs */}
+        <IonAlert
+          isOpen={!!localChoice}
+          backdropDismiss={false}
+          header="Choose"
+          message={localChoice ? (localChoice.minSelections === localChoice.maxSelections
+            ? `Select ${localChoice.maxSelections}`
+            : `Select ${localChoice.minSelections} to ${localChoice.maxSelections}`) : ''}
+          inputs={(localChoice?.options || []).map((option, index) => {
+            const gridCard = localChoice?.kind === 'grid_card'
+              ? Array.from(gameState?.grid.values() || []).find(card => card.instanceId === option)
+              : undefined;
+            const cardName = getLocalizedCardName(getCardData(option));
+            return {
+              type: localChoice?.maxSelections === 1 ? 'radio' as const : 'checkbox' as const,
+              label: gridCard ? `${cardName} (${gridCard.position.x}, ${gridCard.position.y})` : cardName,
+              value: `${index}`
+            };
+          })}
+          buttons={[
+            {
+              text: 'Confirm',
+              handler: (value: string | string[] | undefined) => {
+                if (!localChoice) return true;
+                const picked = value === undefined ? [] : Array.isArray(value) ? value : [value];
+                if (picked.length < localChoice.minSelections || picked.length > localChoice.maxSelections) {
+                  return false; // Keep the prompt open until the selection is legal
+                }
+                handleResolveChoice(picked.map(index => localChoice.options[Number(index)]!));
+                return true;
+              }
+            }
+          ]}
+        />
+
         {/* End Game Modal */}
         <EndGameModal
           isOpen={showEndGameModal}
@@ -4,10 +4,12 @@ import './TurnTimer.css';
 
 interface TurnTimerProps {
   isActive: boolean;
-  duration: number; // Duration in seconds (default: 60)
-  onTimeUp: () => void;
+  duration: number; // Duration in seconds (default: 60); the full time bank in online games
+  onTimeUp?: () => void;
   playerName?: string;
   actionsRemaining?: number;
+  remainingSeconds?: number; // Time left in the player's bank, pushed by the server on every turn change
+  incrementSeconds?: number; // Time the server adds back after each turn
 }
 
 const TurnTimer: React.FC<TurnTimerProps> = ({
@@ -15,19 +17,22 @@ const TurnTimer: React.FC<TurnTimerProps> = ({
   duration = 60,
   onTimeUp,
   playerName = 'Player',
-  actionsRemaining = 0
+  actionsRemaining = 0,
+  remainingSeconds,
+  incrementSeconds = 0
 }) => {
-  const [timeRemaining, setTimeRemaining] = useState(duration);
+  const startingTime = remainingSeconds ?? duration;
+  const [timeRemaining, setTimeRemaining] = useState(startingTime);
   const [isWarning, setIsWarning] = useState(false);
 
-  // Reset timer when it becomes active
+  // Reset timer when it becomes active or the server pushes a fresh bank
   useEffect(() => {
     if (isActive) {
-      setTimeRemaining(duration);
-      setIsWarning(false);
-      console.log(`⏰ [TURN TIMER] Timer started for ${playerName} - ${duration} seconds`);
+      setTimeRemaining(startingTime);
+      setIsWarning(startingTime <= 15);
+      console.log(`⏰ [TURN TIMER] Timer started for ${playerName} - ${startingTime} seconds`);
     }
-  }, [isActive, duration, playerName]);
+  }, [isActive, startingTime, playerName]);
 
   // Component cleanup tracking
   const mountedRef = useRef(true);
@@ -58,10 +63,10 @@ const TurnTimer: React.FC<TurnTimerProps> = ({
           console.log(`⚠️ [TURN TIMER] Warning: ${newTime} seconds remaining for ${playerName}`);
         }
 
-        // Time's up
+        // Time's up; with a server clock the server ends the game, so there may be nothing to do
         if (newTime <= 0 && mountedRef.current) {
           console.log(`⏰ [TURN TIMER] Time's up for ${playerName}!`);
-          onTimeUp();
+          onTimeUp?.();
           return 0;
         }
 
@@ -75,7 +80,7 @@ const TurnTimer: React.FC<TurnTimerProps> = ({
   // Don't render if not active
   if (!isActive) return null;
 
-  const progress = timeRemaining / duration;
+  const progress = Math.min(1, timeRemaining / duration);
   const minutes = Math.floor(timeRemaining / 60);
   const seconds = timeRemaining % 60;
 
@@ -89,6 +94,9 @@ const TurnTimer: React.FC<TurnTimerProps> = ({
           <span className="time-display">
             {minutes}:{seconds.toString().padStart(2, '0')}
           </span>
+          {incrementSeconds > 0 && (
+            <span className="time-increment">+{incrementSeconds}s per turn</span>
+          )}
           {actionsRemaining > 0 && (
             <span className="actions-remaining">
               {actionsRemaining} action{actionsRemaining !== 1 ? 's' : ''} left
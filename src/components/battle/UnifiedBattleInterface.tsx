@@ -34,13 +34,14 @@ import {
   checkmarkOutline
 } from 'ionicons/icons';
 
-import { GamePhase } from '@kelseyabreu/shared';
+import { GamePhase, QuickChatMessage, UITextId } from '@kelseyabreu/shared';
 import { useLocalization } from '../../contexts/LocalizationContext';
 import EcosystemGrid from '../game/EcosystemGrid';
 import PlayerCard from './PlayerCard';
 import DeckSelectionComponent from './DeckSelectionComponent';
 import EndGameModal from '../ui/EndGameModal';
 import GameLog, { GameLogEntry } from './GameLog';
+import QuickChatPanel from './QuickChatPanel';
 
 // Import CSS files
 import './TCGBattleScreen.css';
@@ -62,6 +63,7 @@ export interface UnifiedBattleInterfaceProps {
 
   // Timer state
   timeRemaining?: number;
+  timerDuration?: number;
   isTimerWarning?: boolean;
 
   // Callbacks
@@ -71,7 +73,11 @@ export interface UnifiedBattleInterfaceProps {
   onHandCardSelect?: (cardId: string) => void;
   onDropAndDraw?: () => void;
   onPassTurn?: () => void;
-  
+  onSendQuickChat?: (textId: UITextId) => void;
+
+  // Quick chat received during online matches
+  quickChatMessages?: QuickChatMessage[];
+
   // Data
   allSpeciesCards: any[];
   getCardData: (cardId: string) => any;
@@ -90,6 +96,7 @@ export const UnifiedBattleInterface: React.FC<UnifiedBattleInterfaceProps> = ({
   selectedHandCardId,
   highlightedPositions,
   timeRemaining = 60,
+  timerDuration = 60,
   isTimerWarning = false,
   onExit,
   onPlayerReady,
@@ -97,6 +104,8 @@ export const UnifiedBattleInterface: React.FC<UnifiedBattleInterfaceProps> = ({
   onHandCardSelect,
   onDropAndDraw,
   onPassTurn,
+  onSendQuickChat,
+  quickChatMessages = [],
   allSpeciesCards,
   getCardData,
   isOnlineMode = false,
@@ -802,7 +811,7 @@ export const UnifiedBattleInterface: React.FC<UnifiedBattleInterfaceProps> = ({
                       isPlayerTurn={isPlayerTurnCard}
                       actionsRemaining={playerActionsRemaining}
                       showTimer={isPlayerTurnCard && (gameState.gamePhase === GamePhase.PLAYING || gameState.gamePhase === GamePhase.FINAL_TURN || gameState.engineState?.gamePhase === GamePhase.PLAYING || gameState.engineState?.gamePhase === GamePhase.FINAL_TURN)}
-                      timerDuration={60}
+                      timerDuration={timerDuration}
                       timeRemaining={timeRemaining}
                       isTimerWarning={isTimerWarning}
                       selectedCardId={isCurrentPlayerCard ? selectedHandCardId : null}
@@ -886,6 +895,16 @@ export const UnifiedBattleInterface: React.FC<UnifiedBattleInterfaceProps> = ({
           onToggleVisibility={() => setShowGameLog(!showGameLog)}
         />
 
+        {/* Quick Chat */}
+        {isOnlineMode && onSendQuickChat && (
+          <QuickChatPanel
+            messages={quickChatMessages}
+            players={(gameState.players || []).map((player: { id: string; name?: string }) => ({ id: player.id, name: player.name || 'Player' }))}
+            userId={userId}
+            onSend={onSendQuickChat}
+          />
+        )}
+
         {/* Action Notification Toast */}
         <IonToast
           isOpen={actionNotification.isOpen}
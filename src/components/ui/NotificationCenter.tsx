@@ -26,9 +26,11 @@ import {
   flash,
   wifiOutline,
   wifi,
-  sync
+  sync,
+  people
 } from 'ionicons/icons';
-import { notificationService, NotificationData } from '../../services/notificationService';
+import { notificationService, NotificationData, NotificationAction } from '../../services/notificationService';
+import { useFriendNotifications } from '../../hooks/useFriendNotifications';
 import './NotificationCenter.css';
 
 interface NotificationCenterProps {
@@ -43,6 +45,9 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
   const [notifications, setNotifications] = useState<NotificationData[]>([]);
   const [showCenter, setShowCenter] = useState(false);
 
+  // Friend requests and challenges arrive here with buttons to answer them
+  useFriendNotifications();
+
   useEffect(() => {
     // Subscribe to notification service
     const unsubscribe = notificationService.subscribe((notification) => {
@@ -76,7 +81,8 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
         'flash': flash,
         'wifi-off': wifiOutline,
         'wifi': wifi,
-        'sync': sync
+        'sync': sync,
+        'people': people
       };
       return iconMap[notification.icon] || informationCircle;
     }
@@ -93,6 +99,8 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
         return medal;
       case 'system':
         return informationCircle;
+      case 'social':
+        return people;
       default:
         return informationCircle;
     }
@@ -103,6 +111,27 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
     setNotifications(prev => prev.filter(n => n.id !== id));
   };
 
+  // Answering a notification also dismisses it
+  const handleAction = (id: string, action: NotificationAction) => {
+    handleDismiss(id);
+    action.action();
+  };
+
+  const renderActions = (notification: NotificationData) => notification.actions && (
+    <div className="notification-action-buttons">
+      {notification.actions.map(action => (
+        <IonButton
+          key={action.label}
+          size="small"
+          color={action.color}
+          onClick={() => handleAction(notification.id, action)}
+        >
+          {action.label}
+        </IonButton>
+      ))}
+    </div>
+  );
+
   const handleClearAll = () => {
     notificationService.clearAll();
     setNotifications([]);
@@ -150,6 +179,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                   <div className="notification-time">
                     {formatTimeAgo(notification.timestamp)}
                   </div>
+                  {renderActions(notification)}
                 </div>
                 <div className="notification-actions">
                   <IonButton
@@ -238,6 +268,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                       <div className="notification-center-time">
                         {formatTimeAgo(notification.timestamp)}
                       </div>
+                      {renderActions(notification)}
                     </div>
                     <div className="notification-center-actions">
                       <IonButton
@@ -1,4 +1,4 @@
-import { Card, PhyloGameBoard, PhyloCardPosition } from '../types';
+import { PhyloCard, PhyloGameBoard, PhyloCardPosition } from '@kelseyabreu/shared';
 import { validateCardPlacement, checkCardCompatibility } from './phyloCompatibility';
 import { analyzeEcosystemNetwork, removeCardFromBoard, placeCardOnBoard } from './ecosystemBuilder';
 
@@ -41,7 +41,7 @@ export interface MovementResult {
  */
 export function validateCardMovement(
   gameBoard: PhyloGameBoard,
-  cards: Map<string, Card>,
+  cards: Map<string, PhyloCard>,
   cardId: string,
   targetPosition: { x: number, y: number }
 ): MovementValidation {
@@ -257,7 +257,7 @@ function isPathBlocked(
  */
 function validateDestinationEcosystem(
   gameBoard: PhyloGameBoard,
-  cards: Map<string, Card>,
+  cards: Map<string, PhyloCard>,
   cardId: string,
   targetPosition: { x: number, y: number }
 ): boolean {
@@ -272,7 +272,7 @@ function validateDestinationEcosystem(
     { x: targetPosition.x, y: targetPosition.y + 1 }
   ];
 
-  const adjacentCards: Card[] = [];
+  const adjacentCards: PhyloCard[] = [];
   adjacentPositions.forEach(pos => {
     const posKey = `${pos.x},${pos.y}`;
     const position = gameBoard.positions.get(posKey);
@@ -297,7 +297,7 @@ function validateDestinationEcosystem(
  */
 export function executeCardMovement(
   gameBoard: PhyloGameBoard,
-  cards: Map<string, Card>,
+  cards: Map<string, PhyloCard>,
   cardId: string,
   targetPosition: { x: number, y: number }
 ): MovementResult {
@@ -562,7 +562,7 @@ function easeInOutQuad(t: number): number {
  */
 export function getMovableCards(
   gameBoard: PhyloGameBoard,
-  cards: Map<string, Card>,
+  cards: Map<string, PhyloCard>,
   playerId: string
 ): Array<{ cardId: string, validPositions: Array<{ x: number, y: number }> }> {
   const movableCards: Array<{ cardId: string, validPositions: Array<{ x: number, y: number }> }> = [];
@@ -3,10 +3,11 @@ import { CardNameId } from '@kelseyabreu/shared';
 
 /**
  * Generates a 2d10 roll (1-100)
+ * Pass a seeded generator (e.g. `() => rng.next()` from SeededRandom) for reproducible rolls
  */
-export function roll2d10(): number {
-  const die1 = Math.floor(Math.random() * 10) + 1;
-  const die2 = Math.floor(Math.random() * 10) + 1;
+export function roll2d10(random: () => number = Math.random): number {
+  const die1 = Math.floor(random() * 10) + 1;
+  const die2 = Math.floor(random() * 10) + 1;
   return (die1 - 1) * 10 + die2;
 }
 
@@ -133,7 +134,8 @@ export function resolveCombat(
   attacker: Card,
   defender: Card,
   environment: Habitat,
-  friendlyCards: Card[] = []
+  friendlyCards: Card[] = [],
+  random: () => number = Math.random
 ): CombatResult {
   // Calculate base success rate
   const baseSuccessRate = hasTrophicAdvantage(attacker, defender) ? 60 : 50;
@@ -146,7 +148,7 @@ export function resolveCombat(
   const finalChance = Math.min(95, Math.max(5, baseSuccessRate + modifierTotal));
   
   // Roll for success
-  const roll = roll2d10();
+  const roll = roll2d10(random);
   const success = roll <= finalChance;
   
   // Calculate damage
@@ -245,13 +247,14 @@ export function simulateCombat(
   defender: Card,
   environment: Habitat,
   friendlyCards: Card[] = [],
-  iterations: number = 1000
+  iterations: number = 1000,
+  random: () => number = Math.random
 ): { winRate: number; averageDamage: number } {
   let wins = 0;
   let totalDamage = 0;
   
   for (let i = 0; i < iterations; i++) {
-    const result = resolveCombat(attacker, defender, environment, friendlyCards);
+    const result = resolveCombat(attacker, defender, environment, friendlyCards, random);
     if (result.success) {
       wins++;
       totalDamage += result.damage;
@@ -0,0 +1,90 @@
+/**
+ * Hook for friend notifications
+ * Turns friend requests and challenges from the game socket into notifications the player can answer
+ */
+
+import { useEffect } from 'react';
+import { useHistory } from 'react-router-dom';
+import { FriendChallenge } from '@kelseyabreu/shared';
+import { getGameSocket, FriendUpdate } from '../services/gameSocket';
+import { gameApi } from '../services/apiClient';
+import { notificationService } from '../services/notificationService';
+
+const getName = (update: FriendUpdate) => update.from?.displayName || update.from?.username || 'A player';
+
+export const useFriendNotifications = () => {
+  const history = useHistory();
+
+  useEffect(() => {
+    const gameSocket = getGameSocket();
+
+    const handleFriendRequest = (update: FriendUpdate) => {
+      const requesterId = update.from?.userId;
+      if (!requesterId) return;
+
+      notificationService.social.friendRequest(
+        getName(update),
+        async () => {
+          try {
+            await gameApi.acceptFriendRequest(requesterId);
+          } catch (error) {
+            console.error('❌ Failed to accept friend request:', error);
+          }
+        },
+        async () => {
+          try {
+            await gameApi.declineFriendRequest(requesterId);
+          } catch (error) {
+            console.error('❌ Failed to decline friend request:', error);
+          }
+        }
+      );
+    };
+
+    const handleFriendAccepted = (update: FriendUpdate) => {
+      notificationService.social.friendAccepted(getName(update));
+    };
+
+    // Accepting takes the held seat, then opens the lobby's session like any other match
+    const handleChallenge = (data: { challenge: FriendChallenge }) => {
+      const { challenge } = data;
+
+      notificationService.social.challengeReceived(
+        challenge.fromName,
+        challenge.gameMode,
+        async () => {
+          try {
+            await gameApi.acceptChallenge(challenge.sessionId);
+            history.push(`/battle/${challenge.sessionId}`);
+          } catch (error) {
+            console.error('❌ Failed to accept challenge:', error);
+            notificationService.matchmaking.searchFailed('That challenge is no longer open');
+          }
+        },
+        async () => {
+          try {
+            await gameApi.declineChallenge(challenge.sessionId);
+          } catch (error) {
+            console.error('❌ Failed to decline challenge:', error);
+          }
+        }
+      );
+    };
+
+    const handleChallengeDeclined = (update: FriendUpdate) => {
+      notificationService.social.challengeDeclined(getName(update));
+    };
+
+    gameSocket.on('friend_request', handleFriendRequest);
+    gameSocket.on('friend_accepted', handleFriendAccepted);
+    gameSocket.on('friend_challenge', handleChallenge);
+    gameSocket.on('friend_challenge_declined', handleChallengeDeclined);
+
+    return () => {
+      gameSocket.off('friend_request', handleFriendRequest);
+      gameSocket.off('friend_accepted', handleFriendAccepted);
+      gameSocket.off('friend_challenge', handleChallenge);
+      gameSocket.off('friend_challenge_declined', handleChallengeDeclined);
+    };
+  }, [history]);
+};
@@ -14,7 +14,8 @@ import {
   IonButton,
   IonIcon,
   IonSpinner,
-  IonAlert
+  IonAlert,
+  IonToast
 } from '@ionic/react';
 import { arrowBack } from 'ionicons/icons';
 
@@ -23,7 +24,7 @@ import EndGameModal from '../components/ui/EndGameModal';
 import { GameLogEntry } from '../components/battle/GameLog';
 import { useHybridGameStore } from '../state/hybridGameStore';
 import { gameApi } from '../services/apiClient';
-import { TCGGameState, TCGGameSettings } from '@kelseyabreu/shared';
+import { TCGGameState, TCGGameSettings, TimeBankSnapshot, QuickChatMessage, UITextId } from '@kelseyabreu/shared';
 import { ApiStatus, GamePhase, deepDeserialize } from '@kelseyabreu/shared';
 import { Card } from '../types';
 import { getGameSocket } from '../services/gameSocket';
@@ -47,6 +48,29 @@ interface GameSessionData {
   settings: TCGGameSettings;
 }
 
+interface TurnChangeUpdate {
+  sessionId: string;
+  data?: {
+    timeBanks?: TimeBankSnapshot | null;
+  };
+}
+
+interface QuickChatUpdate {
+  sessionId: string;
+  data: QuickChatMessage;
+}
+
+// Only the latest few quick-chat messages are kept for the bubbles
+const QUICK_CHAT_HISTORY = 20;
+
+interface ConnectionUpdate {
+  sessionId: string;
+  data?: {
+    userId?: string;
+    reconnectGraceSeconds?: number;
+  };
+}
+
 export const BattlePage: React.FC = () => {
   const { sessionId } = useParams<BattlePageParams>();
   const history = useHistory();
@@ -56,6 +80,10 @@ export const BattlePage: React.FC = () => {
   const [sessionData, setSessionData] = useState<GameSessionData | null>(null);
   const [showErrorAlert, setShowErrorAlert] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  // Shown while this client or an opponent is reconnecting; localized when shown
+  const [connectionNotice, setConnectionNotice] = useState<{ textId: UITextId; seconds?: number } | null>(null);
+  const [quickChatMessages, setQuickChatMessages] = useState<QuickChatMessage[]>([]);
+  const [showQuickChatSlowDown, setShowQuickChatSlowDown] = useState(false);
 
   // Additional state for unified battle interface
   const [selectedHandCardId, setSelectedHandCardId] = useState<string | null>(null);
@@ -66,7 +94,10 @@ export const BattlePage: React.FC = () => {
   const [showGameLog, setShowGameLog] = useState(true);
   const [turnStartTime, setTurnStartTime] = useState<number>(Date.now());
   const [timeRemaining, setTimeRemaining] = useState<number>(60);
+  const [timerDuration, setTimerDuration] = useState<number>(60);
   const [isTimerWarning, setIsTimerWarning] = useState<boolean>(false);
+  // Set once the server runs a chess clock for this game; it then owns the timer and ends games that run out
+  const [hasServerClock, setHasServerClock] = useState(false);
 
   // End game modal state
   const [showEndGameModal, setShowEndGameModal] = useState(false);
@@ -252,12 +283,15 @@ export const BattlePage: React.FC = () => {
     const handleGameStateUpdate = (update: any) => {
       console.log('🔄 [BattlePage] Game state update received:', update);
 
+      // Full states arrive inside the session (joins, resyncs, resumes) or on their own
+      const incomingGameState = update.data?.session?.gameState ?? update.data?.gameState;
+
       // Update session data if it's for our session
-      if (update.sessionId === sessionId && update.data?.gameState) {
+      if (update.sessionId === sessionId && incomingGameState) {
         console.log('🔄 [BattlePage] Deserializing game state Maps...');
 
         // Deserialize Maps from the serialized format
-        const deserializedGameState = deepDeserialize(update.data.gameState);
+        const deserializedGameState = deepDeserialize(incomingGameState);
 
         console.log('🔄 [BattlePage] Game state deserialized:', {
           hasGrid: !!(deserializedGameState.grid),
@@ -343,6 +377,74 @@ export const BattlePage: React.FC = () => {
       console.error('❌ [BattlePage] WebSocket error:', error);
     });
 
+    // Dropped connections resume in place; the socket catches the state up
+    const handleDisconnected = () => {
+      setConnectionNotice({ textId: UITextId.UI_CONNECTION_LOST_RECONNECTING });
+    };
+
+    const handleSessionResumed = (update: ConnectionUpdate) => {
+      if (update.sessionId === sessionId) {
+        setConnectionNotice(null);
+      }
+    };
+
+    const handlePlayerDisconnected = (update: ConnectionUpdate) => {
+      if (update.sessionId === sessionId && update.data?.userId !== userId) {
+        const seconds = update.data?.reconnectGraceSeconds;
+        setConnectionNotice(seconds
+          ? { textId: UITextId.UI_OPPONENT_DISCONNECTED_GRACE, seconds }
+          : { textId: UITextId.UI_OPPONENT_DISCONNECTED });
+      }
+    };
+
+    const handlePlayerReconnected = (update: ConnectionUpdate) => {
+      if (update.sessionId === sessionId) {
+        setConnectionNotice(null);
+      }
+    };
+
+    // In matches of more than two, a player who leaves is replaced by the AI rather than ending the game
+    const handlePlayerReplacedByAI = (update: ConnectionUpdate) => {
+      if (update.sessionId === sessionId) {
+        setConnectionNotice({
+          textId: update.data?.userId === userId ? UITextId.UI_AI_TOOK_YOUR_SEAT : UITextId.UI_AI_TOOK_PLAYER_SEAT
+        });
+      }
+    };
+
+    // The server pushes every player's time bank with each turn change
+    const handleTurnChange = (update: TurnChangeUpdate) => {
+      const timeBanks = update.data?.timeBanks;
+      if (update.sessionId !== sessionId || !timeBanks?.activePlayerId) return;
+
+      const bank = timeBanks.banks[timeBanks.activePlayerId] ?? 0;
+      setHasServerClock(true);
+      setTimerDuration(timeBanks.initialBankSeconds);
+      setTimeRemaining(bank);
+      setIsTimerWarning(bank <= 15);
+    };
+
+    const handleQuickChat = (update: QuickChatUpdate) => {
+      if (update.sessionId === sessionId) {
+        setQuickChatMessages(prev => [...prev, update.data].slice(-QUICK_CHAT_HISTORY));
+      }
+    };
+
+    const handleQuickChatRejected = (data: { reason: string }) => {
+      if (data.reason === 'rate_limited') {
+        setShowQuickChatSlowDown(true);
+      }
+    };
+
+    gameSocket.on('turn_change', handleTurnChange);
+    gameSocket.on('quick_chat', handleQuickChat);
+    gameSocket.on('quick_chat_rejected', handleQuickChatRejected);
+    gameSocket.on('disconnected', handleDisconnected);
+    gameSocket.on('session_resumed', handleSessionResumed);
+    gameSocket.on('player_disconnected', handlePlayerDisconnected);
+    gameSocket.on('player_reconnected', handlePlayerReconnected);
+    gameSocket.on('player_replaced_by_ai', handlePlayerReplacedByAI);
+
     console.log('🔌 [BattlePage] WebSocket event listeners set up');
 
     // Cleanup on unmount
@@ -351,6 +453,14 @@ export const BattlePage: React.FC = () => {
       gameSocket.off('game_state_update', handleGameStateUpdate);
       gameSocket.off('game_initialized', handleGameInitialized);
       gameSocket.off('deck_selection_update', handleDeckSelectionUpdate);
+      gameSocket.off('turn_change', handleTurnChange);
+      gameSocket.off('quick_chat', handleQuickChat);
+      gameSocket.off('quick_chat_rejected', handleQuickChatRejected);
+      gameSocket.off('disconnected', handleDisconnected);
+      gameSocket.off('session_resumed', handleSessionResumed);
+      gameSocket.off('player_disconnected', handlePlayerDisconnected);
+      gameSocket.off('player_reconnected', handlePlayerReconnected);
+      gameSocket.off('player_replaced_by_ai', handlePlayerReplacedByAI);
     };
   }, [sessionId, isAuthenticated, userId]);
 
@@ -597,6 +707,10 @@ export const BattlePage: React.FC = () => {
     addGameLogEntry('pass_turn');
   };
 
+  const handleSendQuickChat = (textId: UITextId) => {
+    getGameSocket().sendQuickChat(textId);
+  };
+
   // Memoized card data cache for performance
   const cardDataCache = useMemo(() => {
     if (!allSpeciesCards || !speciesLoaded) return new Map();
@@ -770,6 +884,12 @@ export const BattlePage: React.FC = () => {
   const handleTurnTimeout = React.useCallback(async () => {
     if (!sessionData?.gameState) return;
 
+    // An empty time bank is a forfeit the server already handles
+    if (hasServerClock) {
+      console.log('⏰ [TURN TIMER] Time bank empty - waiting for the server to end the game');
+      return;
+    }
+
     console.log('⏰ [TURN TIMER] Turn timeout - auto-passing turn');
     addGameLogEntry('pass_turn', { reason: 'Time expired' });
 
@@ -785,14 +905,17 @@ export const BattlePage: React.FC = () => {
         data: {}
       });
     }
-  }, [sessionData?.gameState, addGameLogEntry]);
+  }, [sessionData?.gameState, addGameLogEntry, hasServerClock]);
 
   // Track turn changes to reset timer
   React.useEffect(() => {
     if (sessionData?.gameState?.gamePhase === GamePhase.PLAYING) {
       setTurnStartTime(Date.now());
-      setTimeRemaining(60);
-      setIsTimerWarning(false);
+      // A server clock sets the time itself on turn_change
+      if (!hasServerClock) {
+        setTimeRemaining(60);
+        setIsTimerWarning(false);
+      }
       console.log('⏰ [TURN TIMER] Turn changed, resetting timer');
 
       // Add game start entry if this is the first turn
@@ -800,7 +923,7 @@ export const BattlePage: React.FC = () => {
         addGameLogEntry('game_start');
       }
     }
-  }, [sessionData?.gameState?.currentPlayerIndex, sessionData?.gameState?.gamePhase, sessionData?.gameState?.turnNumber, gameLogEntries.length, addGameLogEntry]);
+  }, [sessionData?.gameState?.currentPlayerIndex, sessionData?.gameState?.gamePhase, sessionData?.gameState?.turnNumber, gameLogEntries.length, addGameLogEntry, hasServerClock]);
 
   // Timer countdown logic
   React.useEffect(() => {
@@ -912,6 +1035,7 @@ export const BattlePage: React.FC = () => {
         selectedHandCardId={selectedHandCardId}
         highlightedPositions={highlightedPositions}
         timeRemaining={timeRemaining}
+        timerDuration={timerDuration}
         isTimerWarning={isTimerWarning}
         onExit={handleBackToLobby}
         onPlayerReady={handlePlayerReady}
@@ -919,6 +1043,8 @@ export const BattlePage: React.FC = () => {
         onHandCardSelect={handleHandCardSelect}
         onDropAndDraw={handleDropAndDraw}
         onPassTurn={handlePassTurn}
+        onSendQuickChat={handleSendQuickChat}
+        quickChatMessages={quickChatMessages}
         allSpeciesCards={allSpeciesCards}
         getCardData={getCardData}
         isOnlineMode={true}
@@ -937,6 +1063,24 @@ export const BattlePage: React.FC = () => {
         onPlayAgain={handlePlayAgain}
         onReturnHome={handleReturnHome}
       />
+
+      <IonToast
+        isOpen={!!connectionNotice}
+        message={connectionNotice
+          ? localization.getUIText(connectionNotice.textId).replace('{seconds}', String(connectionNotice.seconds ?? ''))
+          : ''}
+        position="top"
+        color="warning"
+      />
+
+      <IonToast
+        isOpen={showQuickChatSlowDown}
+        onDidDismiss={() => setShowQuickChatSlowDown(false)}
+        message={localization.getUIText(UITextId.UI_QUICK_CHAT_SLOW_DOWN)}
+        duration={2000}
+        position="bottom"
+        color="medium"
+      />
     </>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   IonPage,
   IonHeader,
@@ -35,17 +35,47 @@ import {
   checkmark,
   gift,
   gameController,
-  person
+  person,
+  eye
 } from 'ionicons/icons';
 import { useHistory } from 'react-router-dom';
 import { useHybridGameStore } from '../state/hybridGameStore';
 import { notificationService } from '../services/notificationService';
 import { getGameSocket } from '../services/gameSocket';
+import { gameApi } from '../services/apiClient';
+import SpectatorView from '../components/battle/SpectatorView';
 import { useUILocalization } from '../hooks/useCardLocalization';
-import { UITextId } from '@kelseyabreu/shared';
+import { RankedSeason, SeasonStanding, SeasonTier, UITextId } from '@kelseyabreu/shared';
 
 import './OnlineMultiplayer.css';
 
+// A public match in progress, from GET /api/matches/live
+interface LiveMatch {
+  sessionId: string;
+  gameMode: string;
+  players: { playerId: string; name: string }[];
+  turnNumber: number;
+  spectatorDelaySeconds: number;
+}
+
+// The running ranked season and where the player stands in it, from GET /api/ratings/seasons/current
+interface CurrentSeason {
+  season: RankedSeason | null;
+  standings: SeasonStanding[];
+  placementGames: number;
+}
+
+const TIER_TEXT_IDS: Record<SeasonTier, UITextId> = {
+  [SeasonTier.UNRANKED]: UITextId.UI_TIER_PLACEMENT,
+  [SeasonTier.TUNDRA]: UITextId.UI_TIER_TUNDRA,
+  [SeasonTier.DESERT]: UITextId.UI_TIER_DESERT,
+  [SeasonTier.GRASSLAND]: UITextId.UI_TIER_GRASSLAND,
+  [SeasonTier.TAIGA]: UITextId.UI_TIER_TAIGA,
+  [SeasonTier.TEMPERATE_FOREST]: UITextId.UI_TIER_TEMPERATE_FOREST,
+  [SeasonTier.CORAL_REEF]: UITextId.UI_TIER_CORAL_REEF,
+  [SeasonTier.RAINFOREST]: UITextId.UI_TIER_RAINFOREST
+};
+
 const OnlineMultiplayer: React.FC = () => {
   const history = useHistory();
   const { getUIText } = useUILocalization();
@@ -79,7 +109,7 @@ const OnlineMultiplayer: React.FC = () => {
     isOnline
   });
 
-  const [selectedTab, setSelectedTab] = useState<'matchmaking' | 'rating' | 'quests' | 'leaderboard'>('matchmaking');
+  const [selectedTab, setSelectedTab] = useState<'matchmaking' | 'rating' | 'quests' | 'leaderboard' | 'watch'>('matchmaking');
   const [selectedGameMode, setSelectedGameMode] = useState<string>('ranked_1v1');
   const [showToast, setShowToast] = useState<{ show: boolean; message: string; color: string }>({
     show: false,
@@ -97,6 +127,12 @@ const OnlineMultiplayer: React.FC = () => {
   const [matchAccepted, setMatchAccepted] = useState(false);
   const [, setPlayersReady] = useState<string[]>([]);
 
+  // Spectating
+  const [liveMatches, setLiveMatches] = useState<LiveMatch[]>([]);
+  const [isLoadingLiveMatches, setIsLoadingLiveMatches] = useState(false);
+  const [currentSeason, setCurrentSeason] = useState<CurrentSeason | null>(null);
+  const [spectatingSessionId, setSpectatingSessionId] = useState<string | null>(null);
+
   // Debug authentication state changes
   useEffect(() => {
     console.log('🔍 [OnlineMultiplayer] Authentication state changed:', {
@@ -553,12 +589,60 @@ const OnlineMultiplayer: React.FC = () => {
 
 
 
+  const refreshLiveMatches = useCallback(async () => {
+    setIsLoadingLiveMatches(true);
+    try {
+      const response = await gameApi.getLiveMatches();
+      if (mountedRef.current) {
+        setLiveMatches(response.data.data?.matches || []);
+      }
+    } catch (error) {
+      console.error('❌ [OnlineMultiplayer] Failed to load live matches:', error);
+      setShowToast({
+        show: true,
+        message: getUIText(UITextId.UI_FAILED_TO_LOAD_LIVE_MATCHES),
+        color: 'danger'
+      });
+    } finally {
+      if (mountedRef.current) {
+        setIsLoadingLiveMatches(false);
+      }
+    }
+  }, [getUIText]);
+
+  // Load the live matches whenever the Watch tab opens
+  useEffect(() => {
+    if (selectedTab === 'watch' && isAuthenticated && isOnline) {
+      refreshLiveMatches();
+    }
+  }, [selectedTab, isAuthenticated, isOnline, refreshLiveMatches]);
+
+  const refreshSeason = useCallback(async () => {
+    try {
+      const response = await gameApi.getCurrentSeason();
+      if (mountedRef.current && response.data.data) {
+        setCurrentSeason(response.data.data as CurrentSeason);
+      }
+    } catch (error) {
+      console.error('❌ [OnlineMultiplayer] Failed to load the current season:', error);
+    }
+  }, []);
+
+  // Load the season standing whenever the Rating tab opens
+  useEffect(() => {
+    if (selectedTab === 'rating' && isAuthenticated && isOnline) {
+      refreshSeason();
+    }
+  }, [selectedTab, isAuthenticated, isOnline, refreshSeason]);
+
   const handleRefresh = async (event: CustomEvent) => {
     if (isAuthenticated && isOnline) {
       await Promise.all([
         //refreshRating(),
         refreshDailyQuests(),
         //refreshLeaderboard(selectedGameMode)
+        ...(selectedTab === 'watch' && !spectatingSessionId ? [refreshLiveMatches()] : []),
+        ...(selectedTab === 'rating' ? [refreshSeason()] : [])
       ]);
     }
     event.detail.complete();
@@ -638,6 +722,10 @@ const OnlineMultiplayer: React.FC = () => {
             <IonIcon icon={statsChart} />
             <IonLabel>{getUIText(UITextId.UI_LEADERBOARD)}</IonLabel>
           </IonSegmentButton>
+          <IonSegmentButton value="watch">
+            <IonIcon icon={eye} />
+            <IonLabel>{getUIText(UITextId.UI_WATCH)}</IonLabel>
+          </IonSegmentButton>
         </IonSegment>
 
         {/* Matchmaking Tab */}
@@ -780,6 +868,43 @@ const OnlineMultiplayer: React.FC = () => {
                     </IonBadge>
                   </div>
                 )}
+
+                {currentSeason?.season && (
+                  <div className="season-standings">
+                    <h3>{currentSeason.season.name}</h3>
+                    {currentSeason.standings.length > 0 ? (
+                      currentSeason.standings.map(standing => {
+                        const placementsPlayed = currentSeason.placementGames - standing.placementGamesRemaining;
+                        return (
+                          <div key={standing.gameMode} className="season-standing">
+                            <div className="season-standing-header">
+                              <span>{standing.gameMode.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}</span>
+                              <IonBadge className={`season-tier tier-${standing.tier}`}>
+                                {getUIText(TIER_TEXT_IDS[standing.tier])}
+                              </IonBadge>
+                            </div>
+                            {standing.placementGamesRemaining > 0 && (
+                              <>
+                                <IonProgressBar value={placementsPlayed / currentSeason.placementGames} />
+                                <IonText color="medium">
+                                  <small>
+                                    {getUIText(UITextId.UI_PLACEMENT_PROGRESS)
+                                      .replace('{played}', placementsPlayed.toString())
+                                      .replace('{total}', currentSeason.placementGames.toString())}
+                                  </small>
+                                </IonText>
+                              </>
+                            )}
+                          </div>
+                        );
+                      })
+                    ) : (
+                      <IonText color="medium">
+                        <p>{getUIText(UITextId.UI_NO_SEASON_STANDING)}</p>
+                      </IonText>
+                    )}
+                  </div>
+                )}
               </IonCardContent>
             </IonCard>
           </div>
@@ -904,16 +1029,16 @@ const OnlineMultiplayer: React.FC = () => {
                 {online.leaderboard.data.length > 0 ? (
                   <div>
                     {online.leaderboard.data.map((player: any, index: number) => (
-                      <div key={player.id || index} className="leaderboard-entry">
+                      <div key={player.user?.id || player.id || index} className="leaderboard-entry">
                         <div className={`leaderboard-rank ${index < 3 ? 'top-3' : ''}`}>
                           #{index + 1}
                         </div>
                         <div className="leaderboard-player">
                           <div className="leaderboard-player-name">
-                            {player.username || player.display_name || getUIText(UITextId.UI_ANONYMOUS)}
+                            {player.user?.username || player.username || player.display_name || getUIText(UITextId.UI_ANONYMOUS)}
                           </div>
                           <div className="leaderboard-player-stats">
-                            {player.games_played || 0} {getUIText(UITextId.UI_GAMES)} • {((player.win_rate || 0)).toFixed(1)}% {getUIText(UITextId.UI_WIN_RATE).toLowerCase()}
+                            {player.gamesPlayed ?? player.games_played ?? 0} {getUIText(UITextId.UI_GAMES)} • {((player.winRate ?? player.win_rate ?? 0)).toFixed(1)}% {getUIText(UITextId.UI_WIN_RATE).toLowerCase()}
                           </div>
                         </div>
                         <div className="leaderboard-rating">
@@ -936,6 +1061,68 @@ const OnlineMultiplayer: React.FC = () => {
           </div>
         )}
 
+        {/* Watch Tab */}
+        {selectedTab === 'watch' && (
+          <div className="tab-content" data-testid="watch-section">
+            {spectatingSessionId ? (
+              <IonCard>
+                <SpectatorView
+                  sessionId={spectatingSessionId}
+                  onClose={() => {
+                    setSpectatingSessionId(null);
+                    refreshLiveMatches();
+                  }}
+                />
+              </IonCard>
+            ) : (
+              <IonCard>
+                <IonCardHeader>
+                  <IonCardTitle>{getUIText(UITextId.UI_LIVE_MATCHES)}</IonCardTitle>
+                </IonCardHeader>
+                <IonCardContent>
+                  {isLoadingLiveMatches && liveMatches.length === 0 ? (
+                    <div style={{ textAlign: 'center', padding: '32px' }}>
+                      <IonSpinner />
+                    </div>
+                  ) : liveMatches.length > 0 ? (
+                    <div>
+                      {liveMatches.map(match => (
+                        <div key={match.sessionId} className="live-match-entry" data-testid={`live-match-${match.sessionId}`}>
+                          <div className="live-match-info">
+                            <div className="live-match-players">
+                              {match.players.map(player => player.name).join(' vs ')}
+                            </div>
+                            <div className="live-match-details">
+                              {match.gameMode} • {getUIText(UITextId.UI_TURN_NUMBER).replace('{turn}', match.turnNumber.toString())}
+                              {match.spectatorDelaySeconds > 0 && (
+                                <IonBadge color="warning" style={{ marginLeft: '8px' }}>
+                                  {getUIText(UITextId.UI_SPECTATOR_DELAY).replace('{seconds}', match.spectatorDelaySeconds.toString())}
+                                </IonBadge>
+                              )}
+                            </div>
+                          </div>
+                          <IonButton size="small" onClick={() => setSpectatingSessionId(match.sessionId)}>
+                            <IonIcon icon={eye} slot="start" />
+                            {getUIText(UITextId.UI_SPECTATE)}
+                          </IonButton>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div style={{ textAlign: 'center', padding: '32px', color: 'var(--ion-color-medium)' }}>
+                      <IonIcon icon={eye} size="large" />
+                      <p>{getUIText(UITextId.UI_NO_LIVE_MATCHES)}</p>
+                      <IonButton fill="outline" onClick={refreshLiveMatches}>
+                        {getUIText(UITextId.UI_REFRESH_LIVE_MATCHES)}
+                      </IonButton>
+                    </div>
+                  )}
+                </IonCardContent>
+              </IonCard>
+            )}
+          </div>
+        )}
+
         <IonToast
           isOpen={showToast.show}
           onDidDismiss={() => setShowToast({ ...showToast, show: false })}
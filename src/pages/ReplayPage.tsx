@@ -0,0 +1,46 @@
+/**
+ * Replay Page
+ * Step-through replay of a finished match with session ID from URL
+ */
+
+import React from 'react';
+import { useParams, useHistory } from 'react-router-dom';
+import {
+  IonPage,
+  IonHeader,
+  IonToolbar,
+  IonTitle,
+  IonContent,
+  IonButton,
+  IonIcon
+} from '@ionic/react';
+import { arrowBack } from 'ionicons/icons';
+
+import MatchReplayViewer from '../components/battle/MatchReplayViewer';
+
+interface ReplayPageParams {
+  sessionId: string;
+}
+
+export const ReplayPage: React.FC = () => {
+  const { sessionId } = useParams<ReplayPageParams>();
+  const history = useHistory();
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButton fill="clear" onClick={() => history.goBack()}>
+            <IonIcon icon={arrowBack} />
+          </IonButton>
+          <IonTitle>Match Replay</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <MatchReplayViewer sessionId={sessionId} />
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default ReplayPage;
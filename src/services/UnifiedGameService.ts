@@ -11,8 +11,8 @@ import {
   UnifiedGameAction,
   GameEngineData
 } from '@kelseyabreu/shared';
-import { gameEngineFactory } from '@kelseyabreu/shared';
-import { GameState } from '@kelseyabreu/shared';
+import { gameEngineFactory, BioMastersEngine, TCGEngine, SeededRandom, buildReplayFrames, deepDeserialize, applyGameStatePatch } from '@kelseyabreu/shared';
+import { GameState, MatchReplay, ReplayFrame, GameStatePatch, VersionedState } from '@kelseyabreu/shared';
 
 import { gameApi } from './apiClient';
 import { sharedDataLoader } from '@kelseyabreu/shared';
@@ -43,6 +43,8 @@ export interface ServiceResult<T = any> {
     gameTracked?: boolean;
     questsUpdated?: boolean;
     isWin?: boolean;
+    // State sync
+    resyncRequired?: boolean;
   };
 }
 
@@ -51,7 +53,7 @@ export interface ServiceResult<T = any> {
  */
 export interface CreateGamePayload {
   gameId: string;
-  players: { id: string; name: string }[];
+  players: { id: string; name: string; deck?: string[] }[]; // A player with a deck list plays it instead of random cards
   mode: GameMode;
   settings?: Partial<UnifiedGameSettings>;
   isOnline?: boolean;
@@ -66,6 +68,13 @@ export interface ExecuteActionPayload {
   isOnline?: boolean;
 }
 
+/**
+ * Sandbox board edit - place any card for any player, or clear a square
+ */
+export type SandboxBoardEdit =
+  | { type: 'place'; cardId: number; position: { x: number; y: number }; ownerId: string }
+  | { type: 'remove'; position: { x: number; y: number } };
+
 // ============================================================================
 // ONLINE MULTIPLAYER INTERFACES
 // ============================================================================
@@ -102,7 +111,7 @@ export interface MatchResult {
 }
 
 /**
- * Rating update interface
+ * Rating update pushed by the server after it rates a finished match
  */
 export interface RatingUpdate {
   userId: string;
@@ -110,6 +119,7 @@ export interface RatingUpdate {
   newRating: number;
   ratingChange: number;
   gameMode: string;
+  result: 'win' | 'loss' | 'draw' | 'forfeit';
 }
 
 // ============================================================================
@@ -123,6 +133,7 @@ export interface RatingUpdate {
 export class UnifiedGameService {
   private engines = new Map<string, IGameEngine>();
   private gameData: GameEngineData | null = null;
+  private syncedStates = new Map<string, VersionedState>();
 
   constructor() {
     this.initializeGameData();
@@ -332,7 +343,8 @@ export class UnifiedGameService {
 
     // Initialize the game
     const gameState = engine.initializeNewGame(gameId, players, unifiedSettings);
-    
+    this.dealDeckLists(gameState, players, unifiedSettings.startingHandSize ?? 5);
+
     // Cache the engine
     this.engines.set(gameId, engine);
 
@@ -343,6 +355,27 @@ export class UnifiedGameService {
     };
   }
 
+  /**
+   * Shuffle the deck list of each player who brought one into their starting hand and deck;
+   * the engine keeps dealt cards when play begins
+   */
+  private dealDeckLists(gameState: GameState, players: CreateGamePayload['players'], startingHandSize: number): void {
+    players.forEach(({ id, deck }) => {
+      const player = gameState.players.find(p => p.id === id);
+      if (!player || !deck || deck.length === 0) return;
+
+      const cards = [...deck];
+      const random = new SeededRandom(`${gameState.metadata?.rngSeed ?? gameState.gameId}-deck-${id}`);
+      for (let i = cards.length - 1; i > 0; i--) {
+        const j = random.nextInt(0, i + 1);
+        [cards[i], cards[j]] = [cards[j]!, cards[i]!];
+      }
+
+      player.hand = cards.slice(0, startingHandSize);
+      player.deck = cards.slice(startingHandSize);
+    });
+  }
+
   /**
    * Execute offline action using local engine
    */
@@ -416,15 +449,64 @@ export class UnifiedGameService {
     return engine;
   }
 
+  /**
+   * A standalone TCG engine on the loaded card data, for AI lookahead; null until game data has loaded
+   */
+  createSimulationEngine(): BioMastersEngine | null {
+    if (!this.gameData) {
+      return null;
+    }
+
+    const { cardDatabase, abilityDatabase, keywordDatabase, localizationManager } = this.gameData;
+    return new BioMastersEngine(cardDatabase, abilityDatabase, keywordDatabase, localizationManager);
+  }
+
+  /**
+   * Point a game's offline engine at a state restored outside the engine (sandbox undo/redo)
+   */
+  loadOfflineState(state: GameState): void {
+    let engine = this.engines.get(state.gameId);
+    if (!engine) {
+      engine = gameEngineFactory.createEngine(GameMode.TCG, this.gameData!);
+      this.engines.set(state.gameId, engine);
+    }
+    engine.loadState(state);
+  }
+
+  /**
+   * Edit the board of an offline TCG game in sandbox mode
+   */
+  async editSandboxBoard(gameId: string, edit: SandboxBoardEdit): Promise<ServiceResult<GameState>> {
+    const engine = this.engines.get(gameId);
+    if (!(engine instanceof TCGEngine)) {
+      return {
+        isValid: false,
+        errorMessage: 'No offline TCG game to edit'
+      };
+    }
+
+    const result = edit.type === 'place'
+      ? engine.placeSetupCard(edit.cardId, edit.position, edit.ownerId)
+      : engine.removeSetupCard(edit.position);
+
+    return {
+      isValid: result.isValid,
+      newState: result.newState,
+      errorMessage: result.errorMessage
+    };
+  }
+
   /**
    * Clean up engine resources
    */
   cleanup(gameId?: string): void {
     if (gameId) {
       this.engines.delete(gameId);
+      this.syncedStates.delete(gameId);
       console.log(`🧹 UnifiedGameService: Cleaned up engine for game: ${gameId}`);
     } else {
       this.engines.clear();
+      this.syncedStates.clear();
       console.log(`🧹 UnifiedGameService: Cleaned up all engines`);
     }
   }
@@ -433,6 +515,47 @@ export class UnifiedGameService {
   // ONLINE MULTIPLAYER METHODS
   // ============================================================================
 
+  /**
+   * Remember a full state sent by the server; later patches build on it
+   */
+  syncServerState(sessionId: string, version: number, state: unknown): void {
+    this.syncedStates.set(sessionId, { version, state });
+  }
+
+  /**
+   * Apply a server patch to the session's synced state. Fails with resyncRequired
+   * when the local copy is not at the patch's base version.
+   */
+  applyServerPatch(sessionId: string, patch: GameStatePatch): ServiceResult<unknown> {
+    const current = this.syncedStates.get(sessionId);
+
+    try {
+      const next = applyGameStatePatch(current, patch);
+      if (!next) {
+        console.warn(`⚠️ UnifiedGameService: State for ${sessionId} is at version ${current?.version ?? 'none'}, patch expects ${patch.baseVersion}`);
+        return {
+          isValid: false,
+          errorMessage: 'Game state is out of date',
+          metadata: { resyncRequired: true }
+        };
+      }
+
+      this.syncedStates.set(sessionId, next);
+      return {
+        isValid: true,
+        newState: next.state
+      };
+    } catch (error) {
+      console.error('❌ UnifiedGameService: Patch failed:', error);
+      this.syncedStates.delete(sessionId);
+      return {
+        isValid: false,
+        errorMessage: error instanceof Error ? error.message : 'Failed to apply game state patch',
+        metadata: { resyncRequired: true }
+      };
+    }
+  }
+
   /**
    * Find online match - integrates with existing service pattern
    */
@@ -530,24 +653,31 @@ export class UnifiedGameService {
   }
 
   /**
-   * Update player rating after match
+   * Load a finished match's replay and rebuild every step of it with the local engine
    */
-  async updatePlayerRating(ratingUpdate: RatingUpdate): Promise<ServiceResult> {
+  async loadMatchReplay(sessionId: string): Promise<ServiceResult<ReplayFrame[]>> {
     try {
-      console.log(`📈 UnifiedGameService: Updating rating:`, ratingUpdate);
+      console.log(`🎞️ UnifiedGameService: Loading replay for ${sessionId}`);
 
-      const response = await gameApi.updatePlayerRating(ratingUpdate);
+      if (!this.gameData) {
+        await this.initializeGameData();
+      }
+
+      const response = await gameApi.getMatchReplay(sessionId);
+      const replay: MatchReplay = deepDeserialize(response.data.data.replay);
+
+      const { cardDatabase, abilityDatabase, keywordDatabase, localizationManager } = this.gameData!;
+      const engine = new BioMastersEngine(cardDatabase, abilityDatabase, keywordDatabase, localizationManager);
 
       return {
         isValid: true,
-        newState: response.data.data,
-        metadata: { ratingUpdated: true }
+        newState: buildReplayFrames(engine, replay)
       };
-    } catch (error: any) {
-      console.error('❌ UnifiedGameService: Rating update failed:', error);
+    } catch (error) {
+      console.error('❌ UnifiedGameService: Replay load failed:', error);
       return {
         isValid: false,
-        errorMessage: error.message || 'Failed to update rating'
+        errorMessage: error instanceof Error ? error.message : 'Failed to load replay'
       };
     }
   }
@@ -555,16 +685,17 @@ export class UnifiedGameService {
   /**
    * Get leaderboard data
    */
-  async getLeaderboard(gameMode: string, limit: number = 100): Promise<ServiceResult> {
+  async getLeaderboard(gameMode: string, limit: number = 100, season: number | 'current' = 'current'): Promise<ServiceResult> {
     try {
-      console.log(`🏆 UnifiedGameService: Getting leaderboard for ${gameMode}`);
+      console.log(`🏆 UnifiedGameService: Getting ${season} season leaderboard for ${gameMode}`);
 
-      const response = await gameApi.getLeaderboard(gameMode, limit);
+      const response = await gameApi.getLeaderboard(gameMode, limit, season);
+      const leaderboard = response.data.data?.leaderboard || [];
 
       return {
         isValid: true,
-        newState: response.data.data,
-        metadata: { leaderboardSize: response.data.data?.length || 0 }
+        newState: leaderboard,
+        metadata: { leaderboardSize: leaderboard.length }
       };
     } catch (error: any) {
       console.error('❌ UnifiedGameService: Leaderboard fetch failed:', error);
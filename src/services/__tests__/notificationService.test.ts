@@ -207,4 +207,21 @@ describe('NotificationService', () => {
     await new Promise(resolve => setTimeout(resolve, 150));
     expect(notificationService.getActive()).toHaveLength(1);
   });
+
+  test('should keep friend challenges open with buttons to answer them', () => {
+    const onAccept = vi.fn();
+    const onDecline = vi.fn();
+
+    notificationService.social.challengeReceived('Alice', 'casual_1v1', onAccept, onDecline);
+
+    const [challenge] = notificationService.getActive();
+    expect(challenge.type).toBe('social');
+    expect(challenge.persistent).toBe(true);
+    expect(challenge.message).toContain('Alice');
+    expect(challenge.actions?.map(action => action.label)).toEqual(['Accept', 'Decline']);
+
+    challenge.actions?.[0].action();
+    expect(onAccept).toHaveBeenCalledTimes(1);
+    expect(onDecline).not.toHaveBeenCalled();
+  });
 });
@@ -442,15 +442,59 @@ export const gameApi = {
   getMatchmakingStatus: () =>
     api.get<ApiResponse>('/api/matchmaking/status'),
 
+  // Private lobby endpoints
+  createLobby: (data: { gameMode: string; settings?: any }) =>
+    api.post<ApiResponse>('/api/game/lobbies', data),
+
+  getLobby: (joinCode: string) =>
+    api.get<ApiResponse>(`/api/game/lobbies/${encodeURIComponent(joinCode)}`),
+
+  joinLobby: (joinCode: string) =>
+    api.post<ApiResponse>(`/api/game/lobbies/${encodeURIComponent(joinCode)}/join`),
+
+  leaveLobby: (sessionId: string) =>
+    api.post<ApiResponse>(`/api/game/lobbies/${sessionId}/leave`),
+
+  // Friends endpoints
+  getFriends: () =>
+    api.get<ApiResponse>('/api/friends'),
+
+  sendFriendRequest: (userId: string) =>
+    api.post<ApiResponse>('/api/friends/requests', { userId }),
+
+  acceptFriendRequest: (userId: string) =>
+    api.post<ApiResponse>(`/api/friends/requests/${userId}/accept`),
+
+  declineFriendRequest: (userId: string) =>
+    api.post<ApiResponse>(`/api/friends/requests/${userId}/decline`),
+
+  removeFriend: (userId: string) =>
+    api.delete<ApiResponse>(`/api/friends/${userId}`),
+
+  blockUser: (userId: string) =>
+    api.post<ApiResponse>(`/api/friends/${userId}/block`),
+
+  unblockUser: (userId: string) =>
+    api.delete<ApiResponse>(`/api/friends/${userId}/block`),
+
+  challengeFriend: (userId: string, gameMode: string = 'casual_1v1') =>
+    api.post<ApiResponse>(`/api/friends/${userId}/challenge`, { gameMode }),
+
+  acceptChallenge: (sessionId: string) =>
+    api.post<ApiResponse>(`/api/friends/challenges/${sessionId}/accept`),
+
+  declineChallenge: (sessionId: string) =>
+    api.post<ApiResponse>(`/api/friends/challenges/${sessionId}/decline`),
+
   // Rating and leaderboard endpoints
   getPlayerRatings: (data: { playerIds: string[] }) =>
     api.post<ApiResponse>('/api/ratings/players', data),
 
-  updatePlayerRating: (data: any) =>
-    api.post<ApiResponse>('/api/ratings/update', data),
+  getLeaderboard: (gameMode: string, limit: number = 100, season: number | 'current' = 'current') =>
+    api.get<ApiResponse>(`/api/leaderboard/${gameMode}?limit=${limit}&season=${season}`),
 
-  getLeaderboard: (gameMode: string, limit: number = 100) =>
-    api.get<ApiResponse>(`/api/leaderboard/${gameMode}?limit=${limit}`),
+  getCurrentSeason: () =>
+    api.get<ApiResponse>('/api/ratings/seasons/current'),
 
   // Match history endpoints
   getMatchHistory: (page: number = 1, limit: number = 20) =>
@@ -462,6 +506,12 @@ export const gameApi = {
   forfeitMatch: (sessionId: string) =>
     api.post<ApiResponse>(`/api/matches/${sessionId}/forfeit`),
 
+  getMatchReplay: (sessionId: string) =>
+    api.get<ApiResponse>(`/api/matches/${sessionId}/replay`),
+
+  getLiveMatches: (gameMode?: string) =>
+    api.get<ApiResponse>(`/api/matches/live${gameMode ? `?gameMode=${gameMode}` : ''}`),
+
   // Quest endpoints
   getDailyQuests: () =>
     api.get<ApiResponse>('/api/quests/daily'),
@@ -1,21 +1,33 @@
 import { io, Socket } from 'socket.io-client';
 import { useHybridGameStore } from '../state/hybridGameStore';
-import { PhyloGameAction } from '@kelseyabreu/shared';
+import { unifiedGameService } from './UnifiedGameService';
+import { PhyloGameAction, GameStatePatch, UITextId, FriendChallenge, PresenceStatus } from '@kelseyabreu/shared';
 
 // Use shared PhyloGameAction instead of local interface
 type GameAction = PhyloGameAction;
 
 interface GameUpdate {
-  type: 'game_state_update' | 'player_joined' | 'player_left' | 'player_ready' | 'game_started' | 'game_ended' | 'turn_change' | 'action_result';
+  type: 'game_state_update' | 'game_state_patch' | 'spectator_game_state' | 'session_resumed' | 'player_reconnected' | 'player_joined' | 'player_left' | 'player_ready' | 'lobby_updated' | 'game_started' | 'game_ended' | 'turn_change' | 'action_result' | 'quick_chat';
   sessionId: string;
   data: any;
   timestamp: number;
 }
 
+// Friend request, acceptance or declined challenge pushed to this player
+export interface FriendUpdate {
+  from?: { userId: string; username: string; displayName?: string | null };
+  sessionId?: string;
+  timestamp: number;
+}
+
 export class GameSocketService {
   private socket: Socket | null = null;
   private currentSessionId: string | null = null;
   private eventListeners: Map<string, Function[]> = new Map();
+  // Latest full state update; patched states are handed out in the same shape
+  private lastStateUpdate: GameUpdate | null = null;
+  // Set once the first connection is made, so later connects are known to be reconnects
+  private hasConnected = false;
 
   constructor() {
     // Initialize socket asynchronously
@@ -70,7 +82,12 @@ export class GameSocketService {
       auth: {
         token: authToken
       },
-      autoConnect: false
+      autoConnect: false,
+      // Keep retrying a dropped connection; the server holds the seat for a grace window
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000
     });
 
     this.setupEventHandlers();
@@ -81,12 +98,21 @@ export class GameSocketService {
 
     this.socket.on('connect', () => {
       console.log('Connected to game socket');
+      if (this.hasConnected && this.currentSessionId) {
+        this.resumeSession(this.currentSessionId);
+      }
+      this.hasConnected = true;
       this.emit('connected', {});
     });
 
-    this.socket.on('disconnect', () => {
-      console.log('Disconnected from game socket');
-      this.emit('disconnected', {});
+    this.socket.on('disconnect', (reason: string) => {
+      console.log('Disconnected from game socket:', reason);
+      this.emit('disconnected', { reason });
+
+      // Socket.IO only retries on its own when the drop was not the server's doing
+      if (reason === 'io server disconnect' && this.currentSessionId) {
+        this.socket?.connect();
+      }
     });
 
     this.socket.on('error', (error: any) => {
@@ -96,9 +122,14 @@ export class GameSocketService {
 
     // Game-specific events
     this.socket.on('game_state_update', (update: GameUpdate) => {
+      this.syncFullState(update);
       this.emit('game_state_update', update);
     });
 
+    this.socket.on('game_state_patch', (update: GameUpdate) => {
+      this.applyStatePatch(update);
+    });
+
     this.socket.on('player_joined', (update: GameUpdate) => {
       this.emit('player_joined', update);
     });
@@ -111,10 +142,27 @@ export class GameSocketService {
       this.emit('player_ready', update);
     });
 
+    this.socket.on('lobby_updated', (update: GameUpdate) => {
+      this.emit('lobby_updated', update);
+    });
+
     this.socket.on('player_disconnected', (update: GameUpdate) => {
       this.emit('player_disconnected', update);
     });
 
+    this.socket.on('player_reconnected', (update: GameUpdate) => {
+      this.emit('player_reconnected', update);
+    });
+
+    this.socket.on('player_replaced_by_ai', (update: GameUpdate) => {
+      this.emit('player_replaced_by_ai', update);
+    });
+
+    this.socket.on('session_resumed', (update: GameUpdate) => {
+      console.log('🔌 [GameSocket] Session resumed:', update.data);
+      this.emit('session_resumed', update);
+    });
+
     // ============================================================================
     // ONLINE MULTIPLAYER EVENT HANDLERS
     // ============================================================================
@@ -173,6 +221,31 @@ export class GameSocketService {
       }
     });
 
+    // Friend events
+    this.socket.on('friend_presence', (data: { userId: string; presence: PresenceStatus; timestamp: number }) => {
+      this.emit('friend_presence', data);
+    });
+
+    this.socket.on('friend_request', (data: FriendUpdate) => {
+      console.log('👋 Friend request:', data);
+      this.emit('friend_request', data);
+    });
+
+    this.socket.on('friend_accepted', (data: FriendUpdate) => {
+      console.log('🤝 Friend request accepted:', data);
+      this.emit('friend_accepted', data);
+    });
+
+    this.socket.on('friend_challenge', (data: { challenge: FriendChallenge; timestamp: number }) => {
+      console.log('⚔️ Friend challenge:', data);
+      this.emit('friend_challenge', data);
+    });
+
+    this.socket.on('friend_challenge_declined', (data: FriendUpdate) => {
+      console.log('🚫 Friend challenge declined:', data);
+      this.emit('friend_challenge_declined', data);
+    });
+
     this.socket.on('daily_quests_reset', (data: any) => {
       console.log('🔄 Daily quests reset:', data);
       this.emit('daily_quests_reset', data);
@@ -197,12 +270,61 @@ export class GameSocketService {
       this.emit('game_ended', update);
     });
 
+    this.socket.on('quick_chat', (update: GameUpdate) => {
+      this.emit('quick_chat', update);
+    });
+
+    this.socket.on('quick_chat_rejected', (data: { reason: string; retryAfterMs?: number }) => {
+      this.emit('quick_chat_rejected', data);
+    });
+
     // Spectator events
     this.socket.on('spectator_game_state', (update: GameUpdate) => {
       this.emit('spectator_game_state', update);
     });
   }
 
+  /**
+   * Record a full state as the base for the patches that follow it
+   */
+  private syncFullState(update: GameUpdate) {
+    const gameState = update.data?.session?.gameState ?? update.data?.gameState;
+    if (gameState === undefined || typeof update.data?.stateVersion !== 'number') {
+      return;
+    }
+
+    unifiedGameService.syncServerState(update.sessionId, update.data.stateVersion, gameState);
+    this.lastStateUpdate = update;
+  }
+
+  /**
+   * Patch the synced state forward and pass it on as a game_state_update,
+   * or ask the server for the full state when this client has fallen behind
+   */
+  private applyStatePatch(update: GameUpdate) {
+    const patch: GameStatePatch = update.data;
+    const result = unifiedGameService.applyServerPatch(update.sessionId, patch);
+    const base = this.lastStateUpdate;
+
+    if (!result.isValid || !base || base.sessionId !== update.sessionId) {
+      console.warn('⚠️ [GameSocket] Game state out of date, requesting full resync:', result.errorMessage);
+      this.socket?.emit('request_state_sync');
+      return;
+    }
+
+    const data = base.data.session
+      ? { ...base.data, session: { ...base.data.session, gameState: result.newState }, stateVersion: patch.version }
+      : { ...base.data, gameState: result.newState, stateVersion: patch.version };
+
+    this.lastStateUpdate = {
+      type: 'game_state_update',
+      sessionId: update.sessionId,
+      data,
+      timestamp: update.timestamp
+    };
+    this.emit('game_state_update', this.lastStateUpdate);
+  }
+
   async connect() {
     // Reinitialize socket if needed (e.g., after authentication)
     if (!this.socket) {
@@ -236,6 +358,16 @@ export class GameSocketService {
     this.socket.emit('join_session', sessionId);
   }
 
+  /**
+   * Rejoin the current session after a reconnect. The server answers with the full state
+   * when the last version this client saw is out of date.
+   */
+  private resumeSession(sessionId: string) {
+    const stateVersion = this.lastStateUpdate?.sessionId === sessionId ? this.lastStateUpdate.data?.stateVersion : null;
+    console.log(`🔌 [GameSocket] Resuming session ${sessionId} from state version ${stateVersion ?? 'none'}`);
+    this.socket?.emit('resume_session', { sessionId, stateVersion: stateVersion ?? null });
+  }
+
   leaveSession() {
     if (!this.socket || !this.socket.connected) {
       return;
@@ -243,6 +375,7 @@ export class GameSocketService {
 
     this.socket.emit('leave_session');
     this.currentSessionId = null;
+    this.lastStateUpdate = null;
   }
 
   sendGameAction(action: GameAction) {
@@ -259,7 +392,24 @@ export class GameSocketService {
     this.socket.emit('game_action', { action });
   }
 
-  setPlayerReady(ready: boolean) {
+  setPlayerReady(ready: boolean, deckId?: string) {
+    if (!this.socket || !this.socket.connected) {
+      console.error('Socket not connected');
+      return;
+    }
+
+    if (!this.currentSessionId) {
+      console.error('Not in a game session');
+      return;
+    }
+
+    this.socket.emit('player_ready', { ready, deckId });
+  }
+
+  /**
+   * Send one of the fixed quick-chat lines or emotes to everyone in the match
+   */
+  sendQuickChat(textId: UITextId) {
     if (!this.socket || !this.socket.connected) {
       console.error('Socket not connected');
       return;
@@ -270,7 +420,7 @@ export class GameSocketService {
       return;
     }
 
-    this.socket.emit('player_ready', { ready });
+    this.socket.emit('quick_chat', { textId });
   }
 
   spectateSession(sessionId: string) {
@@ -282,6 +432,14 @@ export class GameSocketService {
     this.socket.emit('spectate_session', sessionId);
   }
 
+  stopSpectating(sessionId: string) {
+    if (!this.socket || !this.socket.connected) {
+      return;
+    }
+
+    this.socket.emit('stop_spectating', sessionId);
+  }
+
   // ============================================================================
   // ONLINE MULTIPLAYER METHODS
   // ============================================================================
@@ -433,8 +591,9 @@ export function useGameSocket() {
     joinSession: (sessionId: string) => socket.joinSession(sessionId),
     leaveSession: () => socket.leaveSession(),
     sendGameAction: (action: GameAction) => socket.sendGameAction(action),
-    setPlayerReady: (ready: boolean) => socket.setPlayerReady(ready),
+    setPlayerReady: (ready: boolean, deckId?: string) => socket.setPlayerReady(ready, deckId),
     spectateSession: (sessionId: string) => socket.spectateSession(sessionId),
+    stopSpectating: (sessionId: string) => socket.stopSpectating(sessionId),
     on: (event: string, callback: Function) => socket.on(event, callback),
     off: (event: string, callback?: Function) => socket.off(event, callback)
   };
@@ -5,7 +5,7 @@
 
 export interface NotificationData {
   id: string;
-  type: 'matchmaking' | 'quest' | 'rating' | 'achievement' | 'system';
+  type: 'matchmaking' | 'quest' | 'rating' | 'achievement' | 'system' | 'social';
   title: string;
   message: string;
   icon?: string;
@@ -14,6 +14,7 @@ export interface NotificationData {
   persistent?: boolean;
   timestamp: number;
   data?: any;
+  actions?: NotificationAction[];
 }
 
 export interface NotificationAction {
@@ -235,6 +236,63 @@ class NotificationService {
     }
   };
 
+  /**
+   * Friend notifications
+   */
+  social = {
+    friendRequest: (fromName: string, onAccept: () => void, onDecline: () => void) => {
+      return this.show({
+        type: 'social',
+        title: 'Friend Request',
+        message: `${fromName} wants to be friends`,
+        icon: 'people',
+        color: 'primary',
+        persistent: true,
+        actions: [
+          { label: 'Accept', action: onAccept, color: 'success' },
+          { label: 'Decline', action: onDecline, color: 'medium' }
+        ]
+      });
+    },
+
+    friendAccepted: (fromName: string) => {
+      return this.show({
+        type: 'social',
+        title: 'New Friend',
+        message: `${fromName} is now your friend`,
+        icon: 'people',
+        color: 'success',
+        duration: 3000
+      });
+    },
+
+    challengeReceived: (fromName: string, gameMode: string, onAccept: () => void, onDecline: () => void) => {
+      return this.show({
+        type: 'social',
+        title: 'Challenge!',
+        message: `${fromName} challenged you to a ${gameMode} match`,
+        icon: 'flash',
+        color: 'warning',
+        persistent: true,
+        actions: [
+          { label: 'Accept', action: onAccept, color: 'success' },
+          { label: 'Decline', action: onDecline, color: 'medium' }
+        ]
+      });
+    },
+
+    challengeDeclined: (fromName: string) => {
+      return this.show({
+        type: 'social',
+        title: 'Challenge Declined',
+        message: `${fromName} declined your challenge`,
+        icon: 'close-circle',
+        color: 'secondary',
+        duration: 3000
+      });
+    }
+  };
+
   /**
    * System notifications
    */
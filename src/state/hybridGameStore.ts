@@ -9,7 +9,7 @@ import { persist, subscribeWithSelector, createJSONStorage } from 'zustand/middl
 import { offlineSecurityService, OfflineCollection } from '../services/offlineSecurityService';
 import { syncService, SyncResult } from '../services/syncService';
 import { getGameSocket } from '../services/gameSocket';
-import { initializeCardMapping } from '@kelseyabreu/shared';
+import { GameActionType, initializeCardMapping } from '@kelseyabreu/shared';
 
 import { UnifiedPackGenerationService, PackGenerationCardData, IUCN_CONSERVATION_DATA } from '@kelseyabreu/shared';
 import { BoosterPackSystem, PackOpeningResult } from '../utils/boosterPackSystem';
@@ -23,7 +23,7 @@ import { guestApi, gameApi } from '../services/apiClient';
 import { unifiedGameService } from '../services/UnifiedGameService';
 import { GameMode } from '@kelseyabreu/shared';
 import { gameStateManager } from '../services/GameStateManager';
-import { PhyloGameState as SharedPhyloGameState, CardData, sharedDataLoader } from '@kelseyabreu/shared';
+import { PhyloGameState as SharedPhyloGameState, CardData, GameState, sharedDataLoader } from '@kelseyabreu/shared';
 import type { ClientGameState } from '../types/ClientGameTypes';
 import { nameIdToCardId } from '@kelseyabreu/shared';
 import { starterPackService } from '../services/starterPackService';
@@ -155,6 +155,13 @@ export interface BattleSlice {
   // Animation State
   lastDrawnCards: string[]; // For card drawing animation
 
+  // Offline sandbox: unlimited undo/redo and free board setup, never available online
+  sandbox: {
+    isActive: boolean;
+    undoStack: TCGGameState[]; // Older states last-in, the most recent on top
+    redoStack: TCGGameState[];
+  };
+
   // UI-specific state (separated from game logic)
   uiState: {
     selectedHandCardId: string | null;
@@ -180,6 +187,7 @@ export interface BattleSlice {
     dropAndDrawThree: (cardIdToDiscard: string) => Promise<any>;
     passTurn: () => Promise<void>;
     playerReady: () => Promise<void>;
+    resolveChoice: (choiceId: string, selections: string[]) => Promise<void>;
 
     // Phylo Actions
     startCampaignLevel: (payload: { levelId: string; difficulty: 'easy' | 'medium' | 'hard'; playerDeck: any[] }) => Promise<void>;
@@ -188,6 +196,14 @@ export interface BattleSlice {
     endTurn: (payload: { playerId: string }) => Promise<void>;
     calculateValidMoves: (cardId?: string) => Promise<void>;
 
+    // Sandbox Actions
+    startSandbox: (players: { id: string; name: string }[]) => Promise<void>;
+    exitSandbox: () => void;
+    undo: () => void;
+    redo: () => void;
+    placeSandboxCard: (cardId: number, position: Position, ownerId: string) => Promise<void>;
+    removeSandboxCard: (position: Position) => Promise<void>;
+
     // UI Actions
     selectHandCard: (cardId: string | null) => void;
     selectBoardCard: (cardId: string | null) => void;
@@ -626,6 +642,11 @@ export const useHybridGameStore = create<HybridGameState>()(
           isLoading: false,
           error: null,
           lastDrawnCards: [],
+          sandbox: {
+            isActive: false,
+            undoStack: [],
+            redoStack: []
+          },
           uiState: {
             selectedHandCardId: null,
             selectedBoardCardId: null,
@@ -649,7 +670,8 @@ export const useHybridGameStore = create<HybridGameState>()(
                   ...state.battle,
                   isLoading: true,
                   error: null,
-                  gameMode: 'TCG'
+                  gameMode: 'TCG',
+                  sandbox: { isActive: false, undoStack: [], redoStack: [] }
                 }
               }));
 
@@ -943,6 +965,250 @@ export const useHybridGameStore = create<HybridGameState>()(
               }
             },
 
+            resolveChoice: async (choiceId: string, selections: string[]) => {
+              const state = get();
+
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  isLoading: true,
+                  error: null
+                }
+              }));
+
+              try {
+                const currentState = state.battle;
+                const result = await unifiedGameService.executeAction({
+                  action: {
+                    type: GameActionType.RESOLVE_CHOICE,
+                    playerId: 'human', // Use the hardcoded player ID from game creation
+                    payload: { choiceId, selections }
+                  },
+                  currentState,
+                  isOnline: currentState.isOnline
+                });
+
+                if (result.isValid && result.newState) {
+                  set((state) => ({
+                    battle: {
+                      ...state.battle,
+                      tcgGameState: result.newState as unknown as TCGGameState,
+                      isLoading: false,
+                      error: null
+                    }
+                  }));
+                } else {
+                  set((state) => ({
+                    battle: {
+                      ...state.battle,
+                      isLoading: false,
+                      error: result.errorMessage || 'Failed to resolve choice'
+                    }
+                  }));
+                }
+              } catch (error: any) {
+                set((state) => ({
+                  battle: {
+                    ...state.battle,
+                    isLoading: false,
+                    error: error.message || 'Failed to resolve choice'
+                  }
+                }));
+              }
+            },
+
+            // Sandbox Actions
+            startSandbox: async (players: { id: string; name: string }[]) => {
+              if (get().battle.isOnline) {
+                set((state) => ({
+                  battle: {
+                    ...state.battle,
+                    error: 'Sandbox mode is only available offline'
+                  }
+                }));
+                return;
+              }
+
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  isLoading: true,
+                  error: null,
+                  gameMode: 'TCG',
+                  tcgGameState: null,
+                  sandbox: { isActive: true, undoStack: [], redoStack: [] }
+                }
+              }));
+
+              try {
+                const result = await unifiedGameService.createGame({
+                  gameId: 'tcg-sandbox',
+                  players,
+                  mode: GameMode.TCG,
+                  settings: {
+                    startingHandSize: 5,
+                    maxHandSize: 10
+                  },
+                  isOnline: false
+                });
+
+                if (result.isValid && result.newState) {
+                  set((state) => ({
+                    battle: {
+                      ...state.battle,
+                      tcgGameState: result.newState as unknown as TCGGameState,
+                      isLoading: false,
+                      error: null
+                    }
+                  }));
+                } else {
+                  set((state) => ({
+                    battle: {
+                      ...state.battle,
+                      isLoading: false,
+                      error: result.errorMessage || 'Failed to start sandbox'
+                    }
+                  }));
+                }
+              } catch (error) {
+                set((state) => ({
+                  battle: {
+                    ...state.battle,
+                    isLoading: false,
+                    error: error instanceof Error ? error.message : 'Failed to start sandbox'
+                  }
+                }));
+              }
+            },
+
+            exitSandbox: () => {
+              const { battle } = get();
+              if (!battle.sandbox.isActive) return;
+
+              // The sandbox game is scratch work, so it goes away with the sandbox
+              if (battle.tcgGameState) {
+                unifiedGameService.cleanup(battle.tcgGameState.gameId);
+              }
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  tcgGameState: null,
+                  sandbox: { isActive: false, undoStack: [], redoStack: [] }
+                }
+              }));
+            },
+
+            undo: () => {
+              const { battle } = get();
+              if (!battle.sandbox.isActive || battle.isOnline) {
+                set((state) => ({
+                  battle: {
+                    ...state.battle,
+                    error: 'Undo is only available in offline sandbox games'
+                  }
+                }));
+                return;
+              }
+
+              const previous = battle.sandbox.undoStack[battle.sandbox.undoStack.length - 1];
+              if (!previous || !battle.tcgGameState) return;
+
+              // The engine keeps its own copy of the state, so point it back first
+              unifiedGameService.loadOfflineState(previous as unknown as GameState);
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  tcgGameState: previous,
+                  sandbox: {
+                    ...state.battle.sandbox,
+                    undoStack: state.battle.sandbox.undoStack.slice(0, -1),
+                    redoStack: [...state.battle.sandbox.redoStack, battle.tcgGameState!]
+                  },
+                  uiState: {
+                    ...state.battle.uiState,
+                    selectedHandCardId: null,
+                    selectedBoardCardId: null,
+                    highlightedPositions: []
+                  }
+                }
+              }));
+            },
+
+            redo: () => {
+              const { battle } = get();
+              if (!battle.sandbox.isActive || battle.isOnline) {
+                set((state) => ({
+                  battle: {
+                    ...state.battle,
+                    error: 'Redo is only available in offline sandbox games'
+                  }
+                }));
+                return;
+              }
+
+              const next = battle.sandbox.redoStack[battle.sandbox.redoStack.length - 1];
+              if (!next || !battle.tcgGameState) return;
+
+              unifiedGameService.loadOfflineState(next as unknown as GameState);
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  tcgGameState: next,
+                  sandbox: {
+                    ...state.battle.sandbox,
+                    undoStack: [...state.battle.sandbox.undoStack, battle.tcgGameState!],
+                    redoStack: state.battle.sandbox.redoStack.slice(0, -1)
+                  },
+                  uiState: {
+                    ...state.battle.uiState,
+                    selectedHandCardId: null,
+                    selectedBoardCardId: null,
+                    highlightedPositions: []
+                  }
+                }
+              }));
+            },
+
+            placeSandboxCard: async (cardId: number, position: Position, ownerId: string) => {
+              const { battle } = get();
+              if (!battle.sandbox.isActive || battle.isOnline || !battle.tcgGameState) return;
+
+              const result = await unifiedGameService.editSandboxBoard(battle.tcgGameState.gameId, {
+                type: 'place',
+                cardId,
+                position,
+                ownerId
+              });
+
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  ...(result.isValid && result.newState
+                    ? { tcgGameState: result.newState as unknown as TCGGameState, error: null }
+                    : { error: result.errorMessage || 'Failed to place card' })
+                }
+              }));
+            },
+
+            removeSandboxCard: async (position: Position) => {
+              const { battle } = get();
+              if (!battle.sandbox.isActive || battle.isOnline || !battle.tcgGameState) return;
+
+              const result = await unifiedGameService.editSandboxBoard(battle.tcgGameState.gameId, {
+                type: 'remove',
+                position
+              });
+
+              set((state) => ({
+                battle: {
+                  ...state.battle,
+                  ...(result.isValid && result.newState
+                    ? { tcgGameState: result.newState as unknown as TCGGameState, error: null }
+                    : { error: result.errorMessage || 'Failed to remove card' })
+                }
+              }));
+            },
+
             // Phylo Actions
             startCampaignLevel: async (payload: { levelId: string; difficulty: 'easy' | 'medium' | 'hard'; playerDeck: any[] }) => {
               set((state) => ({
@@ -1352,7 +1618,9 @@ export const useHybridGameStore = create<HybridGameState>()(
                       ...state.battle,
                       isOnline: true,
                       isLoading: false,
-                      error: null
+                      error: null,
+                      // Online play never keeps a sandbox history
+                      sandbox: { isActive: false, undoStack: [], redoStack: [] }
                     }
                   }));
                 } else {
@@ -4272,48 +4540,33 @@ export const useHybridGameStore = create<HybridGameState>()(
         },
 
         // Rating Actions
+        // Apply a rating the server calculated for a finished match
         updateRating: async (ratingUpdate: RatingUpdate) => {
-          console.log(`📈 Updating rating:`, ratingUpdate);
-
-          try {
-            const result = await unifiedGameService.updatePlayerRating(ratingUpdate);
+          console.log(`📈 Rating updated by server:`, ratingUpdate);
 
-            if (result.isValid) {
-              set((state) => ({
-                online: {
-                  ...state.online,
-                  rating: {
-                    ...state.online.rating,
-                    current: ratingUpdate.newRating,
-                    peak: Math.max(state.online.rating.peak, ratingUpdate.newRating),
-                    gamesPlayed: state.online.rating.gamesPlayed + 1,
-                    gamesWon: ratingUpdate.ratingChange > 0 ? state.online.rating.gamesWon + 1 : state.online.rating.gamesWon,
-                    winStreak: ratingUpdate.ratingChange > 0 ? state.online.rating.winStreak + 1 : 0
-                  }
-                }
-              }));
+          const isWin = ratingUpdate.result === 'win';
+          // The profile rating is the ranked 1v1 rating; every mode counts towards stats
+          const isProfileRating = ratingUpdate.gameMode === 'ranked_1v1';
 
-              // Update win rate
-              const state = get();
-              const winRate = state.online.rating.gamesPlayed > 0
-                ? (state.online.rating.gamesWon / state.online.rating.gamesPlayed) * 100
-                : 0;
+          set((state) => {
+            const gamesPlayed = state.online.rating.gamesPlayed + 1;
+            const gamesWon = isWin ? state.online.rating.gamesWon + 1 : state.online.rating.gamesWon;
 
-              set((state) => ({
-                online: {
-                  ...state.online,
-                  rating: {
-                    ...state.online.rating,
-                    winRate: Math.round(winRate * 100) / 100
-                  }
+            return {
+              online: {
+                ...state.online,
+                rating: {
+                  ...state.online.rating,
+                  current: isProfileRating ? ratingUpdate.newRating : state.online.rating.current,
+                  peak: isProfileRating ? Math.max(state.online.rating.peak, ratingUpdate.newRating) : state.online.rating.peak,
+                  gamesPlayed,
+                  gamesWon,
+                  winStreak: isWin ? state.online.rating.winStreak + 1 : 0,
+                  winRate: Math.round((gamesWon / gamesPlayed) * 100 * 100) / 100
                 }
-              }));
-
-              console.log('✅ Rating updated successfully');
-            }
-          } catch (error: any) {
-            console.error('❌ Failed to update rating:', error);
-          }
+              }
+            };
+          });
         },
 
         refreshRating: async () => {
@@ -4622,6 +4875,29 @@ export const useHybridGameStore = create<HybridGameState>()(
 // Set store reference for user ID access
 storeRef = useHybridGameStore;
 
+// Sandbox history: every TCG state a sandbox game moves past goes on the undo stack.
+// Undo and redo already put the state they leave on a stack, so those changes are skipped.
+useHybridGameStore.subscribe(
+  (state) => state.battle.tcgGameState,
+  (next, previous) => {
+    const { sandbox, isOnline } = useHybridGameStore.getState().battle;
+    if (!sandbox.isActive || isOnline || !previous || !next) return;
+    if (sandbox.undoStack[sandbox.undoStack.length - 1] === previous ||
+        sandbox.redoStack[sandbox.redoStack.length - 1] === previous) return;
+
+    useHybridGameStore.setState((state) => ({
+      battle: {
+        ...state.battle,
+        sandbox: {
+          ...state.battle.sandbox,
+          undoStack: [...state.battle.sandbox.undoStack, previous],
+          redoStack: []
+        }
+      }
+    }));
+  }
+);
+
 // Auto-sync when online status changes
 if (typeof window !== 'undefined') {
   window.addEventListener('online', () => {
@@ -4,7 +4,7 @@
  * Extracted from ClientGameEngine.ts for preservation during cleanup
  */
 
-import { GamePhase, TurnPhase } from '@kelseyabreu/shared';
+import { GamePhase, PendingChoice, TurnPhase } from '@kelseyabreu/shared';
 
 // Client-specific interfaces for UI compatibility
 export interface ClientGameState {
@@ -20,6 +20,7 @@ export interface ClientGameState {
   metadata: Record<string, any>;
   isOffline: boolean;
   lastSyncTimestamp?: number;
+  pendingChoice?: PendingChoice; // Ability waiting on a player decision
 }
 
 export interface ClientPlayer {
@@ -12,6 +12,7 @@ import {
   GameAction,
   TrophicLevel,
   PhyloGameState,
+  PhyloAttributes,
   ConservationStatus,
   GameActionType,
   Domain,
@@ -34,7 +35,11 @@ export type {
   GameSettings,
   GameMetadata,
   AbilityData,
-  PhyloGameState
+  PhyloGameState,
+  PhyloCardPosition,
+  PhyloGameBoard,
+  PhyloCompatibility,
+  PhyloPlacementValidation
 } from '@kelseyabreu/shared';
 
 export {
@@ -173,23 +178,7 @@ export interface Card extends Omit<CardData, 'abilities'> {
   };
 
   // Phylo domino-style game attributes
-  phyloAttributes?: {
-    terrains: string[];
-    climates: string[];
-    foodchainLevel: number;
-    scale: number;
-    dietType: string;
-    movementCapability: {
-      moveValue: number;
-      canFly: boolean;
-      canSwim: boolean;
-      canBurrow: boolean;
-    };
-    specialKeywords: string[];
-    pointValue: number;
-    conservationStatus: string;
-    compatibilityNotes: string;
-  };
+  phyloAttributes?: PhyloAttributes;
 }
 
 export interface CardAbility {
@@ -225,33 +214,6 @@ export interface ConservationRarity {
 
 
 
-// Phylo domino-style game interfaces
-export interface PhyloCardPosition {
-  x: number;
-  y: number;
-  cardId: string;
-  playerId: string;
-}
-
-export interface PhyloGameBoard {
-  positions: Map<string, PhyloCardPosition>; // key: "x,y"
-  connections: Map<string, string[]>; // key: cardId, value: array of connected cardIds
-  homeCards: PhyloCardPosition[];
-}
-
-export interface PhyloCompatibility {
-  environmental: boolean; // terrain + climate match
-  foodchain: boolean; // foodchain level compatibility
-  scale: boolean; // scale requirements for carnivores
-}
-
-export interface PhyloPlacementValidation {
-  isValid: boolean;
-  compatibility: PhyloCompatibility;
-  adjacentCards: string[];
-  errorMessage?: string;
-}
-
 export interface CombatEvent {
   id: string;
   timestamp: number;